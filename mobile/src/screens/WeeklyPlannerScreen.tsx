@@ -12,13 +12,20 @@ import { useAuth } from '../hooks/useAuth';
 import { useIngredients } from '../hooks/useIngredients';
 import { useRecipes } from '../hooks/useRecipes';
 import { useToast } from '../contexts/ToastContext';
+import { DEFAULT_PLANNER_CONSTRAINTS, DailyMeals, generateMealPlan } from '../lib/mealPlanner';
+
+interface WeeklyPlan {
+  id: string;
+  week_start: string;
+  daily_meals: (DailyMeals & { day: string; meals: NonNullable<DailyMeals['meals']> })[];
+}
 
 const WeeklyPlannerScreen: React.FC = () => {
   const { user } = useAuth();
   const { ingredients } = useIngredients(user?.id);
   const { recipes } = useRecipes(user?.id);
   const { showSuccess, showError } = useToast();
-  const [weeklyPlan, setWeeklyPlan] = useState<any>(null);
+  const [weeklyPlan, setWeeklyPlan] = useState<WeeklyPlan | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
 
   const days = ['Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu', 'Minggu'];
@@ -31,39 +38,38 @@ const WeeklyPlannerScreen: React.FC = () => {
 
     setIsGenerating(true);
     try {
-      // Mock weekly plan generation
       const today = new Date();
       const monday = new Date(today);
       monday.setDate(today.getDate() - today.getDay() + 1);
-      
-      const dailyMeals = days.map((day, index) => {
-        const date = new Date(monday);
-        date.setDate(monday.getDate() + index);
-        
-        // Randomly assign 1-2 recipes per day
-        const dayRecipes = [];
-        const shuffledRecipes = [...recipes].sort(() => Math.random() - 0.5);
-        const numRecipes = Math.floor(Math.random() * 2) + 1; // 1-2 recipes
-        
-        for (let i = 0; i < Math.min(numRecipes, shuffledRecipes.length); i++) {
-          dayRecipes.push(shuffledRecipes[i]);
-        }
-        
-        return {
-          day,
-          date: date.toISOString().slice(0, 10),
-          recipes: dayRecipes,
-        };
+      const weekStart = monday.toISOString().slice(0, 10);
+
+      // Locked meals of this week's plan stay where they are
+      const { days: plannedDays, unfilledSlots } = generateMealPlan({
+        weekStart,
+        recipes,
+        pantry: ingredients,
+        constraints: DEFAULT_PLANNER_CONSTRAINTS,
+        currentDays: weeklyPlan?.week_start === weekStart ? weeklyPlan.daily_meals : [],
       });
 
-      const newPlan = {
-        id: 'plan-' + Date.now(),
-        week_start: monday.toISOString().slice(0, 10),
+      const dailyMeals = plannedDays.map((plannedDay, index) => ({
+        ...plannedDay,
+        day: days[index],
+        meals: plannedDay.meals || [],
+      }));
+
+      const newPlan: WeeklyPlan = {
+        id: weeklyPlan?.id || 'plan-' + Date.now(),
+        week_start: weekStart,
         daily_meals: dailyMeals,
       };
 
       setWeeklyPlan(newPlan);
-      showSuccess('Rencana menu mingguan berhasil dibuat!');
+      if (unfilledSlots > 0) {
+        showError(`${unfilledSlots} slot menu tidak dapat diisi tanpa mengulang resep`);
+      } else {
+        showSuccess('Rencana menu mingguan berhasil dibuat!');
+      }
     } catch (error) {
       showError('Gagal membuat rencana menu');
     } finally {
@@ -77,8 +83,8 @@ const WeeklyPlannerScreen: React.FC = () => {
     const neededIngredients: Record<string, any> = {};
     
     // Collect all ingredients needed for the week
-    weeklyPlan.daily_meals.forEach((day: any) => {
-      day.recipes.forEach((recipe: any) => {
+    weeklyPlan.daily_meals.forEach(day => {
+      day.meals.forEach(({ recipe }) => {
         if (recipe.recipe_ingredients) {
           recipe.recipe_ingredients.forEach((ingredient: any) => {
             const key = ingredient.name.toLowerCase();
@@ -130,6 +136,16 @@ const WeeklyPlannerScreen: React.FC = () => {
     }
   };
 
+  const toggleMealLock = (dayIndex: number, mealIndex: number) => {
+    setWeeklyPlan(prev => prev && {
+      ...prev,
+      daily_meals: prev.daily_meals.map((day, index) => index !== dayIndex ? day : {
+        ...day,
+        meals: day.meals.map((meal, i) => i !== mealIndex ? meal : { ...meal, locked: !meal.locked }),
+      }),
+    });
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -180,7 +196,7 @@ const WeeklyPlannerScreen: React.FC = () => {
               </Text>
             </View>
 
-            {weeklyPlan.daily_meals.map((day: any, index: number) => (
+            {weeklyPlan.daily_meals.map((day, index) => (
               <View key={index} style={styles.dayCard}>
                 <Text style={styles.dayTitle}>{day.day}</Text>
                 <Text style={styles.dayDate}>
@@ -190,13 +206,22 @@ const WeeklyPlannerScreen: React.FC = () => {
                   })}
                 </Text>
 
-                {day.recipes.length === 0 ? (
+                {day.meals.length === 0 ? (
                   <Text style={styles.noRecipeText}>Tidak ada menu</Text>
                 ) : (
                   <View style={styles.recipesContainer}>
-                    {day.recipes.map((recipe: any, recipeIndex: number) => (
+                    {day.meals.map(({ recipe, locked, reasons }, recipeIndex) => (
                       <View key={recipeIndex} style={styles.recipeItem}>
-                        <Text style={styles.recipeName}>{recipe.name}</Text>
+                        <View style={styles.recipeHeader}>
+                          <Text style={styles.recipeName}>{recipe.name}</Text>
+                          <TouchableOpacity onPress={() => toggleMealLock(index, recipeIndex)}>
+                            <Ionicons
+                              name={locked ? 'lock-closed' : 'lock-open-outline'}
+                              size={16}
+                              color={locked ? '#3b82f6' : '#9ca3af'}
+                            />
+                          </TouchableOpacity>
+                        </View>
                         <View style={styles.recipeDetails}>
                           <View style={styles.recipeDetail}>
                             <Ionicons name="time-outline" size={12} color="#6b7280" />
@@ -211,6 +236,9 @@ const WeeklyPlannerScreen: React.FC = () => {
                             </Text>
                           </View>
                         </View>
+                        {(reasons || []).map((reason, reasonIndex) => (
+                          <Text key={reasonIndex} style={styles.reasonText}>• {reason}</Text>
+                        ))}
                       </View>
                     ))}
                   </View>
@@ -378,7 +406,14 @@ const styles = StyleSheet.create({
     borderLeftWidth: 4,
     borderLeftColor: '#3b82f6',
   },
+  recipeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
   recipeName: {
+    flex: 1,
     fontSize: 16,
     fontWeight: '600',
     color: '#1f2937',
@@ -397,6 +432,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#6b7280',
   },
+  reasonText: {
+    fontSize: 11,
+    color: '#6b7280',
+    marginTop: 4,
+  },
 });
 
 export default WeeklyPlannerScreen;
\ No newline at end of file
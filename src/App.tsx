@@ -25,7 +25,7 @@ import { LogOut, Settings } from 'lucide-react';
 function App() {
   const { user, loading } = useAuth();
   const { profile } = useUserProfile(user?.id);
-  const { ingredients } = useIngredients(user?.id);
+  const { ingredients, addIngredient, setIngredientQuantities } = useIngredients(user?.id);
   const { recipes } = useRecipes(user?.id);
   const { toasts, showSuccess, showError, hideToast } = useToast();
   const [activeTab, setActiveTab] = useState('ingredients');
@@ -122,7 +122,14 @@ function App() {
         );
       case 'weekly-plan':
         return isFeatureEnabledSync('weeklyPlanner') ? (
-          <WeeklyPlanner ingredients={ingredients} recipes={recipes} />
+          <WeeklyPlanner
+            ingredients={ingredients}
+            recipes={recipes}
+            onUpdateIngredientQuantities={setIngredientQuantities}
+            onAddIngredient={addIngredient}
+            showSuccess={showSuccess}
+            showError={showError}
+          />
         ) : (
           <div className="text-center py-12">
             <p className="text-gray-500">Fitur Rencana Mingguan tidak tersedia saat ini.</p>
@@ -152,7 +159,7 @@ function App() {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-orange-50 to-yellow-50 flex flex-col">
-      <Header />
+      <Header userId={user.id} />
       <div className="flex items-center justify-between max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2">
         <div className="text-sm text-gray-600">
           Selamat datang, <span className="font-medium">{getDisplayName()}</span>
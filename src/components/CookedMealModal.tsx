@@ -0,0 +1,149 @@
+import React from 'react';
+import { X, ChefHat, CheckCircle, AlertTriangle, MinusCircle } from 'lucide-react';
+import { DeductionLine, DeductionPreview } from '../lib/pantryDeduction';
+import { formatQuantity } from '../lib/units';
+
+interface CookedMealModalProps {
+  isOpen: boolean;
+  preview: DeductionPreview | null;
+  onClose: () => void;
+  onConfirm: () => void;
+  isApplying?: boolean;
+}
+
+const statusLabel = (line: DeductionLine): string => {
+  switch (line.status) {
+    case 'deduct':
+      return 'Dikurangi dari stok';
+    case 'insufficient':
+      return 'Stok tidak cukup, dikurangi sebagian';
+    case 'missing':
+      return 'Tidak ada di stok';
+    case 'incompatible':
+      return 'Satuan stok tidak cocok, dilewati';
+    case 'to_taste':
+      return 'Secukupnya, tidak dikurangi';
+  }
+};
+
+export const CookedMealModal: React.FC<CookedMealModalProps> = ({
+  isOpen,
+  preview,
+  onClose,
+  onConfirm,
+  isApplying = false,
+}) => {
+  if (!isOpen || !preview) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !isApplying) {
+      onClose();
+    }
+  };
+
+  const renderStatusIcon = (line: DeductionLine) => {
+    if (line.status === 'deduct') {
+      return <CheckCircle className="text-green-500 mt-0.5 flex-shrink-0" size={16} />;
+    }
+    if (line.status === 'insufficient' || line.status === 'incompatible') {
+      return <AlertTriangle className="text-yellow-500 mt-0.5 flex-shrink-0" size={16} />;
+    }
+    return <MinusCircle className="text-gray-400 mt-0.5 flex-shrink-0" size={16} />;
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-green-100 rounded-full">
+              <ChefHat className="text-green-600" size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Tandai Sudah Dimasak</h3>
+              <p className="text-sm text-gray-500">
+                {preview.recipeName} • {preview.servings} porsi
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isApplying}
+            className="p-1 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto">
+          <p className="text-gray-700 mb-4">Perubahan stok bahan yang akan diterapkan:</p>
+
+          {preview.lines.length === 0 ? (
+            <p className="text-sm text-gray-500">Resep ini tidak memiliki daftar bahan.</p>
+          ) : (
+            <ul className="space-y-3">
+              {preview.lines.map((line, index) => (
+                <li key={index} className="flex items-start gap-2">
+                  {renderStatusIcon(line)}
+                  <div className="flex-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-gray-900">{line.name}</span>
+                      <span className="text-sm text-gray-600">{formatQuantity(line.required)}</span>
+                    </div>
+                    <p className="text-xs text-gray-500">{statusLabel(line)}</p>
+                    {line.changes.map(change => (
+                      <p key={change.ingredient_id} className="text-xs text-gray-600">
+                        {change.name}: {change.previous_quantity} → {change.new_quantity} {change.unit}
+                      </p>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {preview.changes.length === 0 && preview.lines.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mt-4">
+              <p className="text-sm text-yellow-700">
+                Tidak ada bahan di stok yang akan berkurang. Menu tetap akan ditandai sudah dimasak.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+          <button
+            onClick={onClose}
+            disabled={isApplying}
+            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Batal
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={isApplying}
+            className="flex items-center gap-2 px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:bg-green-400 disabled:cursor-not-allowed"
+          >
+            {isApplying ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                Menyimpan...
+              </>
+            ) : (
+              <>
+                <ChefHat size={16} />
+                Sudah Dimasak
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
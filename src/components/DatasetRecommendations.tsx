@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Database, Clock, Users, ChefHat, TrendingUp, Filter, Search, ExternalLink, Heart } from 'lucide-react';
+import { Database, Clock, Users, ChefHat, TrendingUp, Filter, Search, ExternalLink, Heart, Timer } from 'lucide-react';
 import SupabaseDatasetService, { RecipeRecommendation } from '../services/supabaseDatasetService';
-import { Ingredient } from '../types';
+import { Ingredient, Recipe, ShoppingItem } from '../types';
 import { RecipeDetailModal } from './RecipeDetailModal';
+import { useAuth } from '../hooks/useAuth';
+import { useShoppingLists } from '../hooks/useShoppingLists';
 
 interface DatasetRecommendationsProps {
   ingredients: Ingredient[];
@@ -15,6 +17,8 @@ export const DatasetRecommendations: React.FC<DatasetRecommendationsProps> = ({
   showSuccess,
   showError,
 }) => {
+  const { user } = useAuth();
+  const { createShoppingList } = useShoppingLists(user?.id);
   const [datasetService] = useState(() => new SupabaseDatasetService());
   const [recommendations, setRecommendations] = useState<RecipeRecommendation[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -24,6 +28,7 @@ export const DatasetRecommendations: React.FC<DatasetRecommendationsProps> = ({
   const [filters, setFilters] = useState({
     minLoves: 50,
     searchQuery: '',
+    prioritizeExpiring: false,
   });
 
   const difficultyTranslations = {
@@ -46,7 +51,7 @@ export const DatasetRecommendations: React.FC<DatasetRecommendationsProps> = ({
     if (ingredients.length > 0) {
       generateRecommendations();
     }
-  }, [ingredients, filters.minLoves]);
+  }, [ingredients, filters.minLoves, filters.prioritizeExpiring]);
 
   const loadStats = async () => {
     try {
@@ -65,7 +70,8 @@ export const DatasetRecommendations: React.FC<DatasetRecommendationsProps> = ({
       const recs = await datasetService.getRecommendations(
         ingredients,
         filters.minLoves,
-        12
+        12,
+        { prioritizeExpiring: filters.prioritizeExpiring }
       );
       setRecommendations(recs);
       if (recs.length > 0) {
@@ -101,6 +107,17 @@ export const DatasetRecommendations: React.FC<DatasetRecommendationsProps> = ({
     }
   };
 
+  const addMissingToShoppingList = async (recipe: Recipe, items: ShoppingItem[]) => {
+    try {
+      await createShoppingList(`Bahan ${recipe.name}`, items);
+      showSuccess(`${items.length} bahan yang kurang ditambahkan ke daftar belanja`);
+    } catch (err) {
+      console.error('Error adding missing ingredients to shopping list:', err);
+      showError('Gagal menambahkan bahan ke daftar belanja');
+      throw err;
+    }
+  };
+
   const handleCardClick = (recipe: RecipeRecommendation) => {
     setSelectedRecipe(recipe);
     setShowDetailModal(true);
@@ -203,6 +220,15 @@ export const DatasetRecommendations: React.FC<DatasetRecommendationsProps> = ({
             </select>
           </div>
         </div>
+        <label className="flex items-center gap-2 mt-4 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={filters.prioritizeExpiring}
+            onChange={(e) => setFilters(prev => ({ ...prev, prioritizeExpiring: e.target.checked }))}
+            className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+          />
+          Prioritaskan resep yang menghabiskan bahan yang segera kadaluarsa
+        </label>
       </div>
 
       {/* Loading State */}
@@ -244,6 +270,15 @@ export const DatasetRecommendations: React.FC<DatasetRecommendationsProps> = ({
                 </div>
                 
                 <p className="text-sm text-gray-600 mb-3 line-clamp-2">{recipe.description}</p>
+
+                {!!recipe.rescue_score && (
+                  <div className="mb-3">
+                    <span className="inline-flex items-center gap-1 px-2 py-1 bg-orange-100 text-orange-700 text-xs rounded-full">
+                      <Timer size={12} />
+                      Habiskan sebelum kadaluarsa
+                    </span>
+                  </div>
+                )}
                 
                 {/* Popularity */}
                 <div className="flex items-center gap-2 mb-3">
@@ -340,6 +375,8 @@ export const DatasetRecommendations: React.FC<DatasetRecommendationsProps> = ({
             setShowDetailModal(false);
             setSelectedRecipe(null);
           }}
+          explanation={selectedRecipe.explanation}
+          onAddMissingToShoppingList={items => addMissingToShoppingList(selectedRecipe, items)}
         />
       )}
     </div>
@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { Database, RefreshCw, AlertTriangle } from 'lucide-react';
+import RAGRecipeService, { EmbeddingSyncJob, EmbeddingSyncStatus } from '../services/ragRecipeService';
+
+interface EmbeddingSyncPanelProps {
+  ragService: RAGRecipeService;
+}
+
+const STATUS_LABELS: Record<EmbeddingSyncJob['status'], string> = {
+  running: 'Berjalan',
+  completed: 'Selesai',
+  failed: 'Gagal',
+  cancelled: 'Dibatalkan',
+};
+
+const STATUS_STYLES: Record<EmbeddingSyncJob['status'], string> = {
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-700',
+};
+
+const POLL_INTERVAL_MS = 5000;
+
+const formatTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' }) : '-';
+
+/**
+ * Admin view of the embedding sync job, shown behind the `embeddingAdmin` flag.
+ * Runs need the service role key, so the job is started by the cron job and
+ * this panel only follows its progress.
+ */
+export const EmbeddingSyncPanel: React.FC<EmbeddingSyncPanelProps> = ({ ragService }) => {
+  const [status, setStatus] = useState<EmbeddingSyncStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadStatus = async () => {
+    setIsLoading(true);
+    try {
+      setStatus(await ragService.getSyncStatus());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  // Keep polling while a run elsewhere (e.g. the cron job) is working
+  const job = status?.job;
+  useEffect(() => {
+    if (job?.status !== 'running') return;
+
+    const interval = setInterval(loadStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [job?.status]);
+
+  const progress = job && job.total > 0
+    ? Math.min(100, Math.round(((job.processed + job.failed) / job.total) * 100))
+    : job?.status === 'completed' ? 100 : 0;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md border border-gray-100">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Database size={20} className="text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Sinkronisasi Embedding</h3>
+        </div>
+        <button
+          onClick={loadStatus}
+          disabled={isLoading}
+          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          title="Perbarui status"
+        >
+          <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {!job ? (
+        <p className="text-sm text-gray-500">
+          {isLoading ? 'Memuat status...' : 'Belum ada sinkronisasi yang tercatat.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className={`px-2 py-1 text-xs rounded-full ${STATUS_STYLES[job.status]}`}>
+              {STATUS_LABELS[job.status]}
+              {job.status === 'running' && !status?.active && ' (menunggu run berikutnya)'}
+            </span>
+            <span className="text-gray-600">
+              {job.embedding_provider} · v{job.embedding_version} · {job.embedding_dimension} dimensi
+            </span>
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs text-gray-600 mb-1">
+              <span>{job.processed} dari {job.total} resep</span>
+              <span>{progress}%</span>
+            </div>
+            <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div className="h-full bg-purple-500 transition-all" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
+            <span>Mulai: {formatTime(job.started_at)}</span>
+            <span>Diperbarui: {formatTime(job.updated_at)}</span>
+            <span>Selesai: {formatTime(job.finished_at)}</span>
+            <span className={job.failed > 0 ? 'text-red-600' : ''}>Gagal: {job.failed}</span>
+          </div>
+
+          {job.last_error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+              <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+              <span className="break-all">{job.last_error}</span>
+            </div>
+          )}
+
+          {status && status.recentErrors.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-gray-700 mb-1">Resep yang gagal</p>
+              <ul className="text-xs text-gray-600 space-y-1 max-h-40 overflow-y-auto">
+                {status.recentErrors.map(error => (
+                  <li key={error.recipe_id} className="flex justify-between gap-2">
+                    <span className="font-mono truncate">{error.recipe_id}</span>
+                    <span className="text-gray-500 whitespace-nowrap">{error.attempts}x percobaan</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { AlertTriangle, Clock } from 'lucide-react';
+import { Ingredient } from '../types';
+import { getExpiringItems, getExpiryMessage } from '../lib/expiry';
+import { formatQuantity } from '../lib/units';
+
+interface ExpiringIngredientsPanelProps {
+  ingredients: Ingredient[];
+  windowDays: number;
+  onWindowDaysChange: (days: number) => void;
+  onSelect: (ingredient: Ingredient) => void;
+}
+
+const windowOptions = [1, 3, 7, 14];
+
+export const ExpiringIngredientsPanel: React.FC<ExpiringIngredientsPanelProps> = ({
+  ingredients,
+  windowDays,
+  onWindowDaysChange,
+  onSelect,
+}) => {
+  const entries = getExpiringItems(ingredients, windowDays, { includeExpired: true });
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md border border-orange-100">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Clock size={18} className="text-orange-500" />
+          <h3 className="text-lg font-semibold text-gray-900">Segera Digunakan</h3>
+        </div>
+        <select
+          value={windowDays}
+          onChange={(e) => onWindowDaysChange(Number(e.target.value))}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+        >
+          {windowOptions.map(days => (
+            <option key={days} value={days}>{days} hari ke depan</option>
+          ))}
+        </select>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Tidak ada bahan yang kadaluarsa dalam {windowDays} hari ke depan.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {entries.map(({ item, daysLeft }) => (
+            <li
+              key={item.id}
+              className="flex items-center justify-between py-2 cursor-pointer hover:bg-orange-50 px-2 rounded"
+              onClick={() => onSelect(item)}
+            >
+              <div className="flex items-center gap-2">
+                {daysLeft <= 0 ? (
+                  <AlertTriangle size={16} className={daysLeft < 0 ? 'text-red-600' : 'text-orange-600'} />
+                ) : (
+                  <Clock size={16} className="text-yellow-600" />
+                )}
+                <span className="font-medium text-gray-900">{item.name}</span>
+                <span className="text-sm text-gray-500">{formatQuantity(item)}</span>
+              </div>
+              <span
+                className={`px-2 py-1 text-xs rounded-full ${
+                  daysLeft < 0
+                    ? 'bg-red-100 text-red-700'
+                    : daysLeft === 0
+                      ? 'bg-orange-100 text-orange-700'
+                      : 'bg-yellow-100 text-yellow-700'
+                }`}
+              >
+                {getExpiryMessage(daysLeft)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,36 @@
-import React from 'react';
-import { ChefHat } from 'lucide-react';
+import React, { useState } from 'react';
+import { ChefHat, Bell, Check } from 'lucide-react';
+import { useNotifications } from '../hooks/useNotifications';
+import { getExpiryMessage } from '../lib/expiry';
+
+interface HeaderProps {
+  userId?: string;
+}
+
+export const Header: React.FC<HeaderProps> = ({ userId }) => {
+  const { unreadNotifications, unreadCount, markAsRead, markAllAsRead } = useNotifications(userId);
+  const [showNotifications, setShowNotifications] = useState(false);
+
+  const handleMarkAsRead = async (ids: string[]) => {
+    try {
+      await markAsRead(ids);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    try {
+      await markAllAsRead();
+      setShowNotifications(false);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
 
-export const Header: React.FC = () => {
   return (
     <header className="bg-gradient-to-r from-orange-200 to-yellow-200 shadow-sm">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+      <div className="relative max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
         <div className="flex items-center justify-center">
           <div className="flex items-center gap-3">
             <div className="p-2 bg-orange-300 rounded-lg">
@@ -16,7 +42,88 @@ export const Header: React.FC = () => {
             </div>
           </div>
         </div>
+
+        {userId && (
+          <div className="absolute right-4 sm:right-6 lg:right-8 top-1/2 -translate-y-1/2">
+            <button
+              onClick={() => setShowNotifications(prev => !prev)}
+              className="relative p-2 text-orange-800 hover:bg-orange-300 rounded-lg transition-colors"
+              title="Notifikasi"
+            >
+              <Bell size={20} />
+              {unreadCount > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 flex items-center justify-center text-xs font-semibold text-white bg-red-500 rounded-full">
+                  {unreadCount > 9 ? '9+' : unreadCount}
+                </span>
+              )}
+            </button>
+
+            {showNotifications && (
+              <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-lg shadow-xl border border-gray-200 z-40">
+                <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+                  <h3 className="text-sm font-semibold text-gray-900">Notifikasi</h3>
+                  {unreadCount > 0 && (
+                    <button
+                      onClick={handleMarkAllAsRead}
+                      className="text-xs text-orange-600 hover:text-orange-700"
+                    >
+                      Tandai semua dibaca
+                    </button>
+                  )}
+                </div>
+
+                {unreadNotifications.length === 0 ? (
+                  <p className="px-4 py-6 text-sm text-center text-gray-500">
+                    Tidak ada notifikasi baru
+                  </p>
+                ) : (
+                  <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                    {unreadNotifications.map(notification => (
+                      <li key={notification.id} className="px-4 py-3">
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                            {notification.data.items && notification.data.items.length > 0 ? (
+                              <ul className="mt-1 space-y-0.5">
+                                {notification.data.items.slice(0, 5).map(item => (
+                                  <li key={item.id} className="text-xs text-gray-600">
+                                    {item.name} · {getExpiryMessage(item.days_left)}
+                                  </li>
+                                ))}
+                                {notification.data.items.length > 5 && (
+                                  <li className="text-xs text-gray-500">
+                                    +{notification.data.items.length - 5} bahan lainnya
+                                  </li>
+                                )}
+                              </ul>
+                            ) : (
+                              <p className="mt-1 text-xs text-gray-600 whitespace-pre-line">{notification.body}</p>
+                            )}
+                            <p className="mt-1 text-xs text-gray-400">
+                              {new Date(notification.created_at).toLocaleDateString('id-ID', {
+                                weekday: 'long',
+                                day: 'numeric',
+                                month: 'long',
+                              })}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => handleMarkAsRead([notification.id])}
+                            className="p-1 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-full transition-colors"
+                            title="Tandai dibaca"
+                          >
+                            <Check size={16} />
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </header>
   );
-};
\ No newline at end of file
+};
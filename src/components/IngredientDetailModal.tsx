@@ -1,6 +1,7 @@
 import React from 'react';
 import { X, Package, Calendar, Tag, Scale, AlertTriangle, CheckCircle, Clock, Edit } from 'lucide-react';
 import { Ingredient } from '../types';
+import { getDaysUntilExpiry, getExpiryMessage, getExpiryStatus as classifyExpiry } from '../lib/expiry';
 
 interface IngredientDetailModalProps {
   ingredient: Ingredient | null;
@@ -49,46 +50,44 @@ export const IngredientDetailModal: React.FC<IngredientDetailModalProps> = ({
   };
 
   const getExpiryStatus = () => {
-    const expiryDate = ingredient.expiry_date;
-    if (!expiryDate) return null;
-    
-    const today = new Date();
-    const expiry = new Date(expiryDate);
-    const diffTime = expiry.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    const diffDays = getDaysUntilExpiry(ingredient.expiry_date);
+    if (diffDays === null) return null;
 
-    if (diffDays < 0) {
+    const status = classifyExpiry(ingredient.expiry_date);
+    const message = getExpiryMessage(diffDays);
+
+    if (status === 'expired') {
       return {
-        status: 'expired',
-        message: `Kadaluarsa ${Math.abs(diffDays)} hari yang lalu`,
+        status,
+        message,
         color: 'text-red-600 bg-red-50 border-red-200',
         icon: <AlertTriangle size={16} className="text-red-600" />
       };
-    } else if (diffDays === 0) {
+    } else if (status === 'today') {
       return {
-        status: 'today',
-        message: 'Kadaluarsa hari ini',
+        status,
+        message,
         color: 'text-orange-600 bg-orange-50 border-orange-200',
         icon: <Clock size={16} className="text-orange-600" />
       };
-    } else if (diffDays <= 3) {
+    } else if (status === 'soon') {
       return {
-        status: 'soon',
-        message: `Kadaluarsa dalam ${diffDays} hari`,
+        status,
+        message,
         color: 'text-yellow-600 bg-yellow-50 border-yellow-200',
         icon: <Clock size={16} className="text-yellow-600" />
       };
-    } else if (diffDays <= 7) {
+    } else if (status === 'week') {
       return {
-        status: 'week',
-        message: `Kadaluarsa dalam ${diffDays} hari`,
+        status,
+        message,
         color: 'text-blue-600 bg-blue-50 border-blue-200',
         icon: <Calendar size={16} className="text-blue-600" />
       };
     } else {
       return {
         status: 'fresh',
-        message: `Masih segar (${diffDays} hari lagi)`,
+        message,
         color: 'text-green-600 bg-green-50 border-green-200',
         icon: <CheckCircle size={16} className="text-green-600" />
       };
@@ -1,10 +1,12 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Plus, Trash2, Edit } from 'lucide-react';
 import { useIngredients } from '../hooks/useIngredients';
 import { useAuth } from '../hooks/useAuth';
 import { DeleteConfirmationModal } from './DeleteConfirmationModal';
 import { IngredientDetailModal } from './IngredientDetailModal';
 import { IngredientEditModal } from './IngredientEditModal';
+import { ExpiringIngredientsPanel } from './ExpiringIngredientsPanel';
+import { DEFAULT_EXPIRY_WINDOW_DAYS, getExpiringItems } from '../lib/expiry';
 import { Ingredient } from '../types';
 
 export const IngredientManager: React.FC = () => {
@@ -15,6 +17,14 @@ export const IngredientManager: React.FC = () => {
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [editingIngredient, setEditingIngredient] = useState<Ingredient | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [expiryWindowDays, setExpiryWindowDays] = useState(() => {
+    try {
+      const saved = localStorage.getItem('expiry-window-days');
+      return saved ? Number(saved) : DEFAULT_EXPIRY_WINDOW_DAYS;
+    } catch {
+      return DEFAULT_EXPIRY_WINDOW_DAYS;
+    }
+  });
   const [deleteModal, setDeleteModal] = useState<{
     isOpen: boolean;
     ingredientId: string | null;
@@ -143,6 +153,10 @@ export const IngredientManager: React.FC = () => {
     setShowDetailModal(true);
   };
 
+  useEffect(() => {
+    localStorage.setItem('expiry-window-days', String(expiryWindowDays));
+  }, [expiryWindowDays]);
+
   const groupedIngredients = ingredients.reduce((acc, ingredient) => {
     if (!acc[ingredient.category]) {
       acc[ingredient.category] = [];
@@ -287,63 +301,88 @@ export const IngredientManager: React.FC = () => {
         </div>
       ) : (
         <div className="space-y-6">
-          {Object.entries(groupedIngredients).map(([category, categoryIngredients]) => (
-            <div key={category} className="bg-white rounded-lg shadow-md border border-orange-100">
-              <h3 className="text-lg font-semibold text-gray-900 p-4 border-b border-orange-100 bg-orange-50 rounded-t-lg">
-                {categoryTranslations[category]}
-              </h3>
-              <div className="p-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {categoryIngredients.map((ingredient) => (
-                  <div
-                    key={ingredient.id}
-                    className="p-3 border border-gray-200 rounded-lg hover:shadow-md transition-shadow cursor-pointer hover:border-orange-300"
-                    onClick={() => handleCardClick(ingredient)}
-                  >
-                    <div className="flex items-start justify-between mb-2">
-                      <h4 className="font-medium text-gray-900">
-                        {ingredient.name}
-                      </h4>
-                      <div className="flex gap-1">
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleEdit(ingredient);
-                          }}
-                          className="p-1 text-blue-600 hover:bg-blue-100 rounded transition-colors"
-                          title="Edit bahan"
-                        >
-                          <Edit size={14} />
-                        </button>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDeleteClick(ingredient);
-                          }}
-                          className="p-1 text-red-600 hover:bg-red-100 rounded transition-colors"
-                          title="Hapus bahan"
-                        >
-                          <Trash2 size={14} />
-                        </button>
+          <ExpiringIngredientsPanel
+            ingredients={ingredients}
+            windowDays={expiryWindowDays}
+            onWindowDaysChange={setExpiryWindowDays}
+            onSelect={handleCardClick}
+          />
+
+          {Object.entries(groupedIngredients).map(([category, categoryIngredients]) => {
+            const expiring = getExpiringItems(categoryIngredients, expiryWindowDays, { includeExpired: true });
+            const expiredCount = expiring.filter(entry => entry.daysLeft < 0).length;
+            const expiringCount = expiring.length - expiredCount;
+
+            return (
+              <div key={category} className="bg-white rounded-lg shadow-md border border-orange-100">
+                <h3 className="flex items-center justify-between gap-2 text-lg font-semibold text-gray-900 p-4 border-b border-orange-100 bg-orange-50 rounded-t-lg">
+                  {categoryTranslations[category]}
+                  <span className="flex gap-2">
+                    {expiredCount > 0 && (
+                      <span className="px-2 py-1 bg-red-100 text-red-700 text-xs font-medium rounded-full">
+                        {expiredCount} kadaluarsa
+                      </span>
+                    )}
+                    {expiringCount > 0 && (
+                      <span className="px-2 py-1 bg-yellow-100 text-yellow-700 text-xs font-medium rounded-full">
+                        {expiringCount} segera kadaluarsa
+                      </span>
+                    )}
+                  </span>
+                </h3>
+                <div className="p-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {categoryIngredients.map((ingredient) => (
+                    <div
+                      key={ingredient.id}
+                      className="p-3 border border-gray-200 rounded-lg hover:shadow-md transition-shadow cursor-pointer hover:border-orange-300"
+                      onClick={() => handleCardClick(ingredient)}
+                    >
+                      <div className="flex items-start justify-between mb-2">
+                        <h4 className="font-medium text-gray-900">
+                          {ingredient.name}
+                        </h4>
+                        <div className="flex gap-1">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleEdit(ingredient);
+                            }}
+                            className="p-1 text-blue-600 hover:bg-blue-100 rounded transition-colors"
+                            title="Edit bahan"
+                          >
+                            <Edit size={14} />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeleteClick(ingredient);
+                            }}
+                            className="p-1 text-red-600 hover:bg-red-100 rounded transition-colors"
+                            title="Hapus bahan"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        </div>
                       </div>
-                    </div>
-                    <p className="text-sm text-gray-700">
-                      {ingredient.quantity} {unitTranslations[ingredient.unit]}
-                    </p>
-                    {ingredient.expiry_date && (
-                      <p className="text-xs text-orange-600 mt-1">
-                        Kadaluarsa: {new Date(ingredient.expiry_date).toLocaleDateString('id-ID')}
+                      <p className="text-sm text-gray-700">
+                        {ingredient.quantity} {unitTranslations[ingredient.unit]}
                       </p>
-                    )}
-                    
-                    {/* Click hint */}
-                    <div className="mt-2 text-xs text-gray-400 text-center border-t border-gray-100 pt-2">
-                      Klik untuk melihat detail lengkap
+                      {ingredient.expiry_date && (
+                        <p className="text-xs text-orange-600 mt-1">
+                          Kadaluarsa: {new Date(ingredient.expiry_date).toLocaleDateString('id-ID')}
+                        </p>
+                      )}
+                      
+                      {/* Click hint */}
+                      <div className="mt-2 text-xs text-gray-400 text-center border-t border-gray-100 pt-2">
+                        Klik untuk melihat detail lengkap
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  ))}
+                </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
 
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, Plus, X } from 'lucide-react';
+import { Difficulty, PlannerConstraints } from '../lib/mealPlanner';
+
+interface PlannerConstraintsPanelProps {
+  constraints: PlannerConstraints;
+  onChange: (constraints: PlannerConstraints) => void;
+}
+
+const difficultyOptions: { value: Difficulty; label: string }[] = [
+  { value: 'easy', label: 'Mudah saja' },
+  { value: 'medium', label: 'Sampai sedang' },
+  { value: 'hard', label: 'Semua tingkat' },
+];
+
+const timeBudgetOptions = [null, 60, 90, 120, 180, 240];
+
+export const PlannerConstraintsPanel: React.FC<PlannerConstraintsPanelProps> = ({
+  constraints,
+  onChange,
+}) => {
+  const [newTag, setNewTag] = useState('');
+  const [newTagLimit, setNewTagLimit] = useState(2);
+
+  const update = (updates: Partial<PlannerConstraints>) => {
+    onChange({ ...constraints, ...updates });
+  };
+
+  const handleAddTagLimit = () => {
+    const tag = newTag.trim().toLowerCase();
+    if (!tag) return;
+
+    update({
+      tagLimits: [
+        ...constraints.tagLimits.filter(limit => limit.tag !== tag),
+        { tag, maxPerWeek: newTagLimit },
+      ],
+    });
+    setNewTag('');
+  };
+
+  const selectClassName =
+    'w-full px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md border border-gray-100">
+      <div className="flex items-center gap-2 mb-4">
+        <SlidersHorizontal size={18} className="text-blue-500" />
+        <h3 className="text-sm font-semibold text-gray-900">Aturan Pembuatan Rencana</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Menu per hari</label>
+          <select
+            value={constraints.mealsPerDay}
+            onChange={(e) => update({ mealsPerDay: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {[1, 2, 3, 4].map(count => (
+              <option key={count} value={count}>{count} menu</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Jangan ulangi resep dalam</label>
+          <select
+            value={constraints.noRepeatDays}
+            onChange={(e) => update({ noRepeatDays: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            <option value={0}>Boleh diulang</option>
+            {[1, 2, 3, 4, 5, 6].map(days => (
+              <option key={days} value={days}>{days} hari</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Waktu masak per hari</label>
+          <select
+            value={constraints.maxMinutesPerDay ?? ''}
+            onChange={(e) => update({ maxMinutesPerDay: e.target.value ? Number(e.target.value) : null })}
+            className={selectClassName}
+          >
+            {timeBudgetOptions.map(minutes => (
+              <option key={minutes ?? 'none'} value={minutes ?? ''}>
+                {minutes ? `Maks. ${minutes} menit` : 'Tanpa batas'}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Tingkat kesulitan</label>
+          <select
+            value={constraints.maxDifficulty}
+            onChange={(e) => update({ maxDifficulty: e.target.value as Difficulty })}
+            className={selectClassName}
+          >
+            {difficultyOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <label className="block text-xs font-medium text-gray-700 mb-1">
+          Batas per minggu berdasarkan tag (mis. "goreng")
+        </label>
+        <div className="flex flex-wrap items-center gap-2">
+          {constraints.tagLimits.map(limit => (
+            <span
+              key={limit.tag}
+              className="flex items-center gap-1 px-2 py-1 bg-blue-50 text-blue-700 text-xs rounded-full"
+            >
+              {limit.tag}: maks. {limit.maxPerWeek}
+              <button
+                onClick={() => update({ tagLimits: constraints.tagLimits.filter(item => item.tag !== limit.tag) })}
+                className="hover:text-blue-900"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            value={newTag}
+            placeholder="Tag"
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddTagLimit()}
+            className="w-28 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <select
+            value={newTagLimit}
+            onChange={(e) => setNewTagLimit(Number(e.target.value))}
+            className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {[0, 1, 2, 3, 4, 5, 6, 7].map(count => (
+              <option key={count} value={count}>maks. {count}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAddTagLimit}
+            disabled={!newTag.trim()}
+            className="flex items-center gap-1 px-2 py-1 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            <Plus size={14} />
+            Tambah
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
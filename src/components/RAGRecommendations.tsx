@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { Brain, Zap, TrendingUp, Search, Filter, Star, Clock, Users, ChefHat, Target, Sparkles, Save, Check } from 'lucide-react';
-import RAGRecipeService, { RAGRecipeRecommendation } from '../services/ragRecipeService';
-import { Ingredient } from '../types';
+import { Brain, Zap, TrendingUp, Search, Filter, Star, Clock, Users, ChefHat, Target, Sparkles, Save, Check, Timer, BookOpen, Globe } from 'lucide-react';
+import RAGRecipeService, { FILTER_TAGS, RAGRecipeRecommendation, RecipeSearchScope } from '../services/ragRecipeService';
+import { Ingredient, Recipe, ShoppingItem } from '../types';
 import { RecipeDetailModal } from './RecipeDetailModal';
+import { EmbeddingSyncPanel } from './EmbeddingSyncPanel';
+import { isFeatureEnabledSync } from '../lib/featureFlags';
 import { useRecipes } from '../hooks/useRecipes';
 import { useAuth } from '../hooks/useAuth';
+import { useShoppingLists } from '../hooks/useShoppingLists';
 
 interface RAGRecommendationsProps {
   ingredients: Ingredient[];
@@ -19,6 +22,7 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
 }) => {
   const { user } = useAuth();
   const { addRecipe } = useRecipes(user?.id);
+  const { createShoppingList } = useShoppingLists(user?.id);
   const [ragService] = useState(() => new RAGRecipeService());
   
   // Initialize state from localStorage to persist across tab switches
@@ -49,6 +53,13 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
     minSimilarity: 0.3,
     maxResults: 10, // Reduced from 20 to 10 for better performance
     minLoves: 10,
+    prioritizeExpiring: false,
+    scope: 'both' as RecipeSearchScope,
+    includeIngredients: '',
+    excludeIngredients: '',
+    maxIngredients: 0, // 0 = no limit
+    maxSteps: 0,
+    tags: [] as string[],
   });
 
   const difficultyTranslations = {
@@ -97,6 +108,16 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
     });
   }, []);
 
+  const parseIngredientList = (value: string) =>
+    value.split(',').map(name => name.trim()).filter(Boolean);
+
+  const toggleFilterTag = (tag: string) => {
+    setFilters(prev => ({
+      ...prev,
+      tags: prev.tags.includes(tag) ? prev.tags.filter(t => t !== tag) : [...prev.tags, tag],
+    }));
+  };
+
   const generateRAGRecommendations = async () => {
     if (ingredients.length === 0) {
       showError('Tambahkan bahan-bahan terlebih dahulu untuk mendapatkan rekomendasi');
@@ -109,6 +130,15 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
         minLoves: filters.minLoves,
         maxResults: filters.maxResults,
         minSimilarity: filters.minSimilarity,
+        prioritizeExpiring: filters.prioritizeExpiring,
+        scope: filters.scope,
+        filters: {
+          includeIngredients: parseIngredientList(filters.includeIngredients),
+          excludeIngredients: parseIngredientList(filters.excludeIngredients),
+          maxIngredients: filters.maxIngredients || undefined,
+          maxSteps: filters.maxSteps || undefined,
+          tags: filters.tags,
+        },
       });
       
       setRecommendations(recs);
@@ -136,6 +166,8 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
       const searchResults = await ragService.semanticSearch(searchQuery, {
         maxResults: filters.maxResults,
         minSimilarity: filters.minSimilarity,
+        scope: filters.scope,
+        pantry: ingredients,
       });
       
       setRecommendations(searchResults);
@@ -204,6 +236,17 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
     return savedRecipeIds.has(recipe.id);
   };
 
+  const addMissingToShoppingList = async (recipe: Recipe, items: ShoppingItem[]) => {
+    try {
+      await createShoppingList(`Bahan ${recipe.name}`, items);
+      showSuccess(`${items.length} bahan yang kurang ditambahkan ke daftar belanja`);
+    } catch (err) {
+      console.error('Error adding missing ingredients to shopping list:', err);
+      showError('Gagal menambahkan bahan ke daftar belanja');
+      throw err;
+    }
+  };
+
   const handleCardClick = (recipe: RAGRecipeRecommendation) => {
     setSelectedRecipe(recipe);
     setShowDetailModal(true);
@@ -223,7 +266,7 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
   };
 
   const isAIProcessed = (recipe: RAGRecipeRecommendation) => {
-    return recipe.user_id === 'dataset-rag-ai';
+    return recipe.user_id === 'dataset-rag-ai' || recipe.ai_score !== undefined;
   };
 
   return (
@@ -237,6 +280,10 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
         </div>
       </div>
 
+      {isFeatureEnabledSync('embeddingAdmin') && (
+        <EmbeddingSyncPanel ragService={ragService} />
+      )}
+
       {/* Search and Filters */}
       <div className="bg-white p-6 rounded-lg shadow-md border border-gray-100">
         <div className="flex items-center gap-2 mb-4">
@@ -281,6 +328,31 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
                 <option value={0.6}>60% (Sangat Ketat)</option>
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Sumber Resep
+              </label>
+              <select
+                value={filters.scope}
+                onChange={(e) => setFilters(prev => ({ ...prev, scope: e.target.value as RecipeSearchScope }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                <option value="both">Resep Saya & Komunitas</option>
+                <option value="mine">Resep Saya</option>
+                <option value="community">Komunitas</option>
+              </select>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={filters.prioritizeExpiring}
+                onChange={(e) => setFilters(prev => ({ ...prev, prioritizeExpiring: e.target.checked }))}
+                className="rounded border-gray-300 text-purple-500 focus:ring-purple-500"
+              />
+              Habiskan bahan yang segera kadaluarsa
+            </label>
             
             <button
               onClick={handleSearchWithFilters}
@@ -291,6 +363,94 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
             </button>
           </div>
         </div>
+
+        {/* Structured Filters */}
+        <div className="mt-6 pt-4 border-t border-gray-100">
+          <div className="flex items-center gap-2 mb-3">
+            <Filter size={16} className="text-gray-600" />
+            <h4 className="text-sm font-semibold text-gray-900">Filter Lanjutan</h4>
+            <span className="text-xs text-gray-500">(untuk rekomendasi dari bahan)</span>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Harus Mengandung
+              </label>
+              <input
+                type="text"
+                value={filters.includeIngredients}
+                onChange={(e) => setFilters(prev => ({ ...prev, includeIngredients: e.target.value }))}
+                placeholder="ayam, bawang putih"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Tanpa Bahan
+              </label>
+              <input
+                type="text"
+                value={filters.excludeIngredients}
+                onChange={(e) => setFilters(prev => ({ ...prev, excludeIngredients: e.target.value }))}
+                placeholder="kacang, udang"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Maksimal Bahan
+              </label>
+              <select
+                value={filters.maxIngredients}
+                onChange={(e) => setFilters(prev => ({ ...prev, maxIngredients: parseInt(e.target.value) }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                <option value={0}>Tanpa batas</option>
+                <option value={5}>5 bahan</option>
+                <option value={8}>8 bahan</option>
+                <option value={10}>10 bahan</option>
+                <option value={15}>15 bahan</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Maksimal Langkah
+              </label>
+              <select
+                value={filters.maxSteps}
+                onChange={(e) => setFilters(prev => ({ ...prev, maxSteps: parseInt(e.target.value) }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                <option value={0}>Tanpa batas</option>
+                <option value={3}>3 langkah</option>
+                <option value={5}>5 langkah</option>
+                <option value={8}>8 langkah</option>
+                <option value={12}>12 langkah</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2 mt-3">
+            {FILTER_TAGS.map(tag => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => toggleFilterTag(tag)}
+                className={`px-3 py-1 text-xs rounded-full border transition-colors ${
+                  filters.tags.includes(tag)
+                    ? 'bg-purple-500 text-white border-purple-500'
+                    : 'bg-white text-gray-600 border-gray-300 hover:border-purple-300'
+                }`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        </div>
       </div>
 
       {/* Loading State */}
@@ -359,6 +519,21 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
                   </div>
                   
                   <p className="text-sm text-gray-600 mb-3 line-clamp-2">{recipe.description}</p>
+
+                  {/* Source Badge */}
+                  <div className="mb-3">
+                    {recipe.source === 'mine' ? (
+                      <span className="inline-flex items-center gap-1 px-2 py-1 bg-green-100 text-green-700 text-xs rounded-full">
+                        <BookOpen size={12} />
+                        Resep Saya
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-full">
+                        <Globe size={12} />
+                        Komunitas
+                      </span>
+                    )}
+                  </div>
                   
                   {/* AI Processing Badge */}
                   {isAIProcessed(recipe) && (
@@ -366,6 +541,16 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
                       <span className="inline-flex items-center gap-1 px-2 py-1 bg-purple-100 text-purple-700 text-xs rounded-full">
                         <Sparkles size={12} />
                         Diproses AI
+                        {recipe.ai_score !== undefined && ` · skor AI ${Math.round(recipe.ai_score * 100)}%`}
+                      </span>
+                    </div>
+                  )}
+
+                  {!!recipe.rescue_score && (
+                    <div className="mb-3">
+                      <span className="inline-flex items-center gap-1 px-2 py-1 bg-orange-100 text-orange-700 text-xs rounded-full">
+                        <Timer size={12} />
+                        Habiskan sebelum kadaluarsa
                       </span>
                     </div>
                   )}
@@ -376,11 +561,25 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${getSimilarityColor(recipe.similarity_score)}`}>
                         {Math.round(recipe.similarity_score * 100)}% match
                       </span>
-                      <span className="text-sm text-gray-500">
-                        {recipe.loves_count.toLocaleString()} ❤️
-                      </span>
+                      {recipe.source !== 'mine' && (
+                        <span className="text-sm text-gray-500">
+                          {recipe.loves_count.toLocaleString()} ❤️
+                        </span>
+                      )}
                     </div>
                   </div>
+
+                  {/* Hybrid Search Scores */}
+                  {recipe.hybrid_score !== undefined && (
+                    <div className="flex items-center gap-3 text-xs text-gray-500 mb-3">
+                      <span>
+                        Makna: {recipe.vector_score != null ? `${Math.round(recipe.vector_score * 100)}%` : '-'}
+                      </span>
+                      <span>
+                        Kata kunci: {recipe.lexical_score != null ? `${Math.round(recipe.lexical_score * 100)}%` : '-'}
+                      </span>
+                    </div>
+                  )}
                   
                   {/* Recipe Info */}
                   <div className="flex items-center gap-4 text-sm text-gray-500 mb-3">
@@ -437,33 +636,35 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
                     </div>
                   )}
 
-                  {/* Save Recipe Button */}
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      saveRecipeToCollection(recipe);
-                    }}
-                    disabled={savingRecipeId === recipe.id || isRecipeSaved(recipe)}
-                    className={`w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg transition-colors mb-2 ${
-                      isRecipeSaved(recipe)
-                        ? 'bg-gray-100 text-gray-500 cursor-not-allowed'
-                        : savingRecipeId === recipe.id
-                        ? 'bg-gray-400 text-white cursor-not-allowed'
-                        : 'bg-green-500 text-white hover:bg-green-600'
-                    }`}
-                  >
-                    {isRecipeSaved(recipe) ? (
-                      <>
-                        <Check size={16} />
-                        Sudah Disimpan
-                      </>
-                    ) : (
-                      <>
-                        <Save size={16} />
-                        {savingRecipeId === recipe.id ? 'Menyimpan...' : 'Simpan Resep'}
-                      </>
-                    )}
-                  </button>
+                  {/* Save Recipe Button; the user's own recipes are already in their collection */}
+                  {recipe.source !== 'mine' && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        saveRecipeToCollection(recipe);
+                      }}
+                      disabled={savingRecipeId === recipe.id || isRecipeSaved(recipe)}
+                      className={`w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg transition-colors mb-2 ${
+                        isRecipeSaved(recipe)
+                          ? 'bg-gray-100 text-gray-500 cursor-not-allowed'
+                          : savingRecipeId === recipe.id
+                          ? 'bg-gray-400 text-white cursor-not-allowed'
+                          : 'bg-green-500 text-white hover:bg-green-600'
+                      }`}
+                    >
+                      {isRecipeSaved(recipe) ? (
+                        <>
+                          <Check size={16} />
+                          Sudah Disimpan
+                        </>
+                      ) : (
+                        <>
+                          <Save size={16} />
+                          {savingRecipeId === recipe.id ? 'Menyimpan...' : 'Simpan Resep'}
+                        </>
+                      )}
+                    </button>
+                  )}
 
                   {/* Click hint */}
                   <div className="text-xs text-gray-400 text-center">
@@ -485,6 +686,8 @@ export const RAGRecommendations: React.FC<RAGRecommendationsProps> = ({
             setShowDetailModal(false);
             setSelectedRecipe(null);
           }}
+          explanation={selectedRecipe.explanation}
+          onAddMissingToShoppingList={items => addMissingToShoppingList(selectedRecipe, items)}
         />
       )}
     </div>
@@ -1,18 +1,55 @@
-import React from 'react';
-import { X, Clock, Users, ChefHat } from 'lucide-react';
-import { Recipe } from '../types';
+import React, { useState } from 'react';
+import { X, Clock, Users, ChefHat, CheckCircle2, Circle, ShoppingCart } from 'lucide-react';
+import { NutritionInfo, Recipe, ShoppingItem } from '../types';
+import { MatchedIngredient, RecommendationExplanation, ScoreComponentKey } from '../lib/recipeScoring';
+import { buildMissingIngredientItems } from '../lib/shoppingList';
+import { estimateRecipeNutrition } from '../lib/nutrition';
 
 interface RecipeDetailModalProps {
   recipe: Recipe;
   isOpen: boolean;
   onClose: () => void;
+  /** Recommendations: turns the ingredient list into a have/missing checklist */
+  explanation?: RecommendationExplanation;
+  onAddMissingToShoppingList?: (items: ShoppingItem[]) => Promise<void>;
 }
 
+const matchTypeLabels: Record<MatchedIngredient['type'], string> = {
+  exact: 'sama persis',
+  synonym: 'sinonim',
+  partial: 'sebagian',
+};
+
+const scoreComponentLabels: Record<ScoreComponentKey, string> = {
+  ingredients: 'Bahan tersedia',
+  similarity: 'Kemiripan',
+  popularity: 'Popularitas',
+  simplicity: 'Kesederhanaan',
+  ai: 'Penilaian AI',
+};
+
+const nutritionFields: { key: keyof NutritionInfo; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Kalori', unit: 'kkal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Karbohidrat', unit: 'g' },
+  { key: 'fat', label: 'Lemak', unit: 'g' },
+  { key: 'fiber', label: 'Serat', unit: 'g' },
+  { key: 'sugar', label: 'Gula', unit: 'g' },
+  { key: 'sodium', label: 'Natrium', unit: 'mg' },
+];
+
+const toPercent = (value: number) => `${Math.round(value * 100)}%`;
+
 export const RecipeDetailModal: React.FC<RecipeDetailModalProps> = ({
   recipe,
   isOpen,
   onClose,
+  explanation,
+  onAddMissingToShoppingList,
 }) => {
+  const [isAddingMissing, setIsAddingMissing] = useState(false);
+  const [missingAdded, setMissingAdded] = useState(false);
+
   const difficultyTranslations = {
     easy: 'Mudah',
     medium: 'Sedang',
@@ -34,6 +71,24 @@ export const RecipeDetailModal: React.FC<RecipeDetailModalProps> = ({
 
   if (!isOpen) return null;
 
+  const matchesByIngredient = new Map((explanation?.matched || []).map(match => [match.ingredient, match]));
+  const maybeByIngredient = new Map((explanation?.maybe || []).map(match => [match.ingredient, match]));
+  const nutrition = estimateRecipeNutrition(recipe);
+
+  const handleAddMissing = async () => {
+    if (!explanation || !onAddMissingToShoppingList) return;
+
+    setIsAddingMissing(true);
+    try {
+      await onAddMissingToShoppingList(buildMissingIngredientItems(recipe, explanation.missing));
+      setMissingAdded(true);
+    } catch (error) {
+      console.error('Error adding missing ingredients:', error);
+    } finally {
+      setIsAddingMissing(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
@@ -84,18 +139,61 @@ export const RecipeDetailModal: React.FC<RecipeDetailModalProps> = ({
               <h3 className="text-xl font-semibold text-gray-900 mb-4 flex items-center gap-2">
                 <div className="w-2 h-6 bg-green-500 rounded"></div>
                 Bahan-bahan
+                {explanation && (
+                  <span className="text-sm font-normal text-gray-500">
+                    ({explanation.matched.length} ada, {explanation.missing.length} kurang)
+                  </span>
+                )}
               </h3>
               <div className="bg-gray-50 rounded-lg p-4">
                 <ul className="space-y-3">
-                  {(recipe.recipe_ingredients || []).map((ingredient, index) => (
-                    <li key={index} className="flex items-center justify-between py-2 border-b border-gray-200 last:border-b-0">
-                      <span className="font-medium text-gray-900">{ingredient.name}</span>
-                      <span className="text-gray-600">
-                        {ingredient.quantity} {unitTranslations[ingredient.unit] || ingredient.unit}
-                      </span>
-                    </li>
-                  ))}
+                  {(recipe.recipe_ingredients || []).map((ingredient, index) => {
+                    const match = matchesByIngredient.get(ingredient.name);
+                    const maybe = maybeByIngredient.get(ingredient.name);
+                    return (
+                      <li key={index} className="flex items-center justify-between gap-3 py-2 border-b border-gray-200 last:border-b-0">
+                        <div className="flex items-start gap-2 min-w-0">
+                          {explanation && (match
+                            ? <CheckCircle2 size={18} className="text-green-600 flex-shrink-0 mt-0.5" />
+                            : <Circle size={18} className="text-gray-400 flex-shrink-0 mt-0.5" />
+                          )}
+                          <div className="min-w-0">
+                            <span className={`font-medium ${explanation && !match ? 'text-gray-500' : 'text-gray-900'}`}>
+                              {ingredient.name}
+                            </span>
+                            {match && (
+                              <p className="text-xs text-gray-500">
+                                Anda punya: {match.pantryItem} ({matchTypeLabels[match.type]})
+                              </p>
+                            )}
+                            {maybe && (
+                              <p className="text-xs text-gray-500">
+                                Mirip dengan {maybe.pantryItem}, belum tentu sama
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                        <span className="text-gray-600 flex-shrink-0">
+                          {ingredient.quantity} {unitTranslations[ingredient.unit] || ingredient.unit}
+                        </span>
+                      </li>
+                    );
+                  })}
                 </ul>
+                {explanation && explanation.missing.length > 0 && onAddMissingToShoppingList && (
+                  <button
+                    onClick={handleAddMissing}
+                    disabled={isAddingMissing || missingAdded}
+                    className="mt-4 w-full flex items-center justify-center gap-2 bg-orange-500 text-white py-2 px-4 rounded-lg hover:bg-orange-600 transition-colors font-medium disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    <ShoppingCart size={18} />
+                    {missingAdded
+                      ? 'Sudah ditambahkan ke daftar belanja'
+                      : isAddingMissing
+                        ? 'Menambahkan...'
+                        : `Tambahkan ${explanation.missing.length} bahan yang kurang ke daftar belanja`}
+                  </button>
+                )}
               </div>
             </div>
 
@@ -120,6 +218,65 @@ export const RecipeDetailModal: React.FC<RecipeDetailModalProps> = ({
             </div>
           </div>
 
+          {/* Nutrition */}
+          {nutrition.counted > 0 && (
+            <div className="mt-8">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Perkiraan Gizi per Porsi</h3>
+              <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+                {nutritionFields.map(field => (
+                  <div key={field.key} className="bg-gray-50 p-3 rounded-lg text-center">
+                    <div className="text-xs text-gray-600">{field.label}</div>
+                    <div className="font-semibold text-gray-900">
+                      {nutrition.perServing[field.key].toLocaleString('id-ID')} {field.unit}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="mt-2 text-sm text-gray-500">
+                Dihitung dari {nutrition.counted} dari {nutrition.total} bahan
+                {nutrition.missing.length > 0 && `; belum termasuk ${nutrition.missing.join(', ')}`}
+              </p>
+            </div>
+          )}
+
+          {/* Why this recipe */}
+          {explanation && (
+            <div className="mt-8">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Kenapa resep ini?</h3>
+              <div className="space-y-3">
+                {explanation.components.map(component => (
+                  <div key={component.key}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-700">
+                        {scoreComponentLabels[component.key]}
+                        {component.key === 'popularity' && ` (${explanation.lovesCount.toLocaleString()} likes)`}
+                      </span>
+                      <span className="text-gray-500">
+                        {toPercent(component.value)}
+                        {component.weight > 0
+                          ? ` × bobot ${toPercent(component.weight)} = +${toPercent(component.value * component.weight)}`
+                          : ' · hanya penentu urutan'}
+                      </span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-green-500 rounded-full"
+                        style={{ width: toPercent(Math.min(Math.max(component.value, 0), 1)) }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {explanation.searchScores && (
+                <p className="mt-3 text-sm text-gray-500">
+                  Kemiripan dari pencarian gabungan: makna{' '}
+                  {explanation.searchScores.vector !== null ? toPercent(explanation.searchScores.vector) : '–'}, kata kunci{' '}
+                  {explanation.searchScores.lexical !== null ? toPercent(explanation.searchScores.lexical) : '–'}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Tags */}
           {recipe.tags && recipe.tags.length > 0 && (
             <div className="mt-8">
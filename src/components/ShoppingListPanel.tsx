@@ -0,0 +1,455 @@
+import React, { useState, useEffect } from 'react';
+import { ShoppingCart, Plus, Trash2, Save, Package, Layers, Sparkles } from 'lucide-react';
+import { Ingredient, ShoppingItem, ShoppingList, WeeklyPlan } from '../types';
+import { useAuth } from '../hooks/useAuth';
+import { useShoppingLists } from '../hooks/useShoppingLists';
+import GeminiService from '../services/geminiService';
+import { AISLE_LABELS, AISLE_ORDER, Aisle, AisleOverrides, classifyAisle, groupByAisle } from '../lib/aisles';
+import { buildShoppingItems, getDefaultExpiryDate, guessPantryCategory, hasKnownShelfLife } from '../lib/shoppingList';
+import { formatQuantity, getUnitLabel } from '../lib/units';
+
+interface ShoppingListPanelProps {
+  /** Items generated from the plan currently on screen */
+  generatedItems: ShoppingItem[];
+  currentWeekPlan: WeeklyPlan | null;
+  weeklyPlans: WeeklyPlan[];
+  ingredients: Ingredient[];
+  onAddIngredient: (ingredient: {
+    name: string;
+    quantity: number;
+    unit: string;
+    category: string;
+    expiry_date: string | null;
+  }) => Promise<unknown>;
+  showSuccess: (message: string) => void;
+  showError: (message: string) => void;
+}
+
+const units = ['kg', 'gram', 'liter', 'ml', 'piece', 'clove'];
+
+const formatWeek = (weekStart: string) => new Date(weekStart).toLocaleDateString('id-ID');
+
+export const ShoppingListPanel: React.FC<ShoppingListPanelProps> = ({
+  generatedItems,
+  currentWeekPlan,
+  weeklyPlans,
+  ingredients,
+  onAddIngredient,
+  showSuccess,
+  showError,
+}) => {
+  const { user } = useAuth();
+  const {
+    shoppingLists,
+    createShoppingList,
+    addShoppingListItem,
+    updateShoppingListItem,
+    deleteShoppingListItem,
+    markItemsAddedToPantry,
+    deleteShoppingList,
+  } = useShoppingLists(user?.id);
+
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [mergePlanIds, setMergePlanIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isMovingToPantry, setIsMovingToPantry] = useState(false);
+  const [newItem, setNewItem] = useState({
+    name: '',
+    quantity: 1,
+    unit: 'piece',
+  });
+  const [isClassifying, setIsClassifying] = useState(false);
+  const [aisleOverrides, setAisleOverrides] = useState<AisleOverrides>(() => {
+    try {
+      const saved = localStorage.getItem('shopping-aisle-overrides');
+      return saved ? JSON.parse(saved) : {};
+    } catch {
+      return {};
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem('shopping-aisle-overrides', JSON.stringify(aisleOverrides));
+  }, [aisleOverrides]);
+
+  const selectedList: ShoppingList | undefined =
+    shoppingLists.find(list => list.id === selectedListId) || shoppingLists[0];
+
+  const neededItems = generatedItems.filter(item => item.needed);
+
+  const saveList = async (name: string, items: ShoppingItem[], planIds: string[]) => {
+    setIsSaving(true);
+    try {
+      const list = await createShoppingList(name, items, planIds);
+      if (list) {
+        setSelectedListId(list.id);
+        showSuccess(`Daftar belanja "${name}" berhasil disimpan!`);
+      }
+    } catch (error) {
+      console.error('Error saving shopping list:', error);
+      showError('Gagal menyimpan daftar belanja. Silakan coba lagi.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveGenerated = () => {
+    if (!currentWeekPlan) return;
+    const planIds = currentWeekPlan.id.startsWith('temp-') ? [] : [currentWeekPlan.id];
+    saveList(`Belanja minggu ${formatWeek(currentWeekPlan.week_start)}`, generatedItems, planIds);
+  };
+
+  const handleMergePlans = () => {
+    const plans = weeklyPlans
+      .filter(plan => mergePlanIds.includes(plan.id))
+      .sort((a, b) => a.week_start.localeCompare(b.week_start));
+    if (plans.length === 0) return;
+
+    const items = buildShoppingItems(plans, ingredients);
+    const name = plans.length === 1
+      ? `Belanja minggu ${formatWeek(plans[0].week_start)}`
+      : `Belanja ${formatWeek(plans[0].week_start)} - ${formatWeek(plans[plans.length - 1].week_start)}`;
+    saveList(name, items, plans.map(plan => plan.id));
+    setMergePlanIds([]);
+  };
+
+  const handleAddManualItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedList || !newItem.name.trim()) return;
+
+    try {
+      const name = newItem.name.trim();
+      await addShoppingListItem(selectedList.id, {
+        ...newItem,
+        name,
+        category: guessPantryCategory(name),
+      });
+      setNewItem({ name: '', quantity: 1, unit: 'piece' });
+    } catch (error) {
+      console.error('Error adding shopping list item:', error);
+      showError('Gagal menambahkan item ke daftar belanja.');
+    }
+  };
+
+  const handleToggleItem = async (itemId: string, checked: boolean) => {
+    if (!selectedList) return;
+    try {
+      await updateShoppingListItem(selectedList.id, itemId, { checked });
+    } catch (error) {
+      console.error('Error updating shopping list item:', error);
+      showError('Gagal memperbarui item daftar belanja.');
+    }
+  };
+
+  const handleDeleteItem = async (itemId: string) => {
+    if (!selectedList) return;
+    try {
+      await deleteShoppingListItem(selectedList.id, itemId);
+    } catch (error) {
+      console.error('Error deleting shopping list item:', error);
+      showError('Gagal menghapus item daftar belanja.');
+    }
+  };
+
+  const handleDeleteList = async () => {
+    if (!selectedList) return;
+    try {
+      await deleteShoppingList(selectedList.id);
+      showSuccess('Daftar belanja berhasil dihapus!');
+    } catch (error) {
+      console.error('Error deleting shopping list:', error);
+      showError('Gagal menghapus daftar belanja.');
+    }
+  };
+
+  // Bought items that have not been moved into the pantry yet
+  const itemsToStock = selectedList
+    ? selectedList.items.filter(item => item.checked && !item.added_to_pantry_at)
+    : [];
+
+  const handleMoveToPantry = async () => {
+    if (!selectedList || itemsToStock.length === 0) return;
+
+    setIsMovingToPantry(true);
+    const movedIds: string[] = [];
+    try {
+      for (const item of itemsToStock) {
+        await onAddIngredient({
+          name: item.name,
+          quantity: item.quantity,
+          unit: item.unit,
+          category: item.category,
+          expiry_date: hasKnownShelfLife(item.name) ? getDefaultExpiryDate(item.category) : null,
+        });
+        movedIds.push(item.id);
+      }
+      showSuccess(`${movedIds.length} bahan dimasukkan ke stok.`);
+    } catch (error) {
+      console.error('Error moving shopping list items to pantry:', error);
+      showError('Sebagian bahan gagal dimasukkan ke stok. Silakan coba lagi.');
+    } finally {
+      try {
+        await markItemsAddedToPantry(selectedList.id, movedIds);
+      } catch (error) {
+        console.error('Error updating shopping list items:', error);
+      }
+      setIsMovingToPantry(false);
+    }
+  };
+
+  const savedPlans = weeklyPlans.filter(plan => !plan.id.startsWith('temp-'));
+
+  const handleChangeAisle = (name: string, aisle: Aisle) => {
+    const { id } = classifyAisle(name);
+    setAisleOverrides(prev => ({ ...prev, [id]: aisle }));
+  };
+
+  // Items neither the user's mappings nor the built-in table can place
+  const unknownNames = Array.from(new Set(
+    [...neededItems.map(item => item.name), ...(selectedList?.items || []).map(item => item.name)]
+      .filter(name => classifyAisle(name, aisleOverrides).source === 'unknown')
+  ));
+  const apiKey = import.meta.env.VITE_GOOGLE_AI_API_KEY;
+
+  const handleClassifyWithAI = async () => {
+    if (!apiKey || unknownNames.length === 0) return;
+
+    setIsClassifying(true);
+    try {
+      const geminiService = new GeminiService(apiKey);
+      const classified = await geminiService.classifyShoppingAisles(unknownNames);
+      const entries = Object.entries(classified);
+      if (entries.length === 0) {
+        showError('AI tidak dapat menentukan lorong untuk item ini.');
+        return;
+      }
+
+      setAisleOverrides(prev => {
+        const next = { ...prev };
+        entries.forEach(([name, aisle]) => {
+          next[classifyAisle(name).id] = aisle;
+        });
+        return next;
+      });
+      showSuccess(`${entries.length} item dikelompokkan dengan AI.`);
+    } catch (error) {
+      console.error('Error classifying shopping items:', error);
+      showError('Gagal mengelompokkan item dengan AI.');
+    } finally {
+      setIsClassifying(false);
+    }
+  };
+
+  const renderAisleHeading = (aisle: Aisle) => (
+    <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">{AISLE_LABELS[aisle]}</h5>
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md border border-gray-100 space-y-6">
+      <div className="flex items-center gap-2">
+        <ShoppingCart size={18} className="text-blue-500" />
+        <h3 className="text-sm font-semibold text-gray-900">Daftar Belanja</h3>
+        {apiKey && unknownNames.length > 0 && (
+          <button
+            onClick={handleClassifyWithAI}
+            disabled={isClassifying}
+            className="ml-auto flex items-center gap-1 px-2 py-1 text-xs text-purple-600 border border-purple-200 rounded-lg hover:bg-purple-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Sparkles size={12} />
+            {isClassifying ? 'Mengelompokkan...' : `Kelompokkan ${unknownNames.length} item lain dengan AI`}
+          </button>
+        )}
+      </div>
+
+      {/* Generated from the plan on screen */}
+      {currentWeekPlan && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-gray-700">
+              Dari rencana minggu ini ({neededItems.length} bahan perlu dibeli)
+            </h4>
+            <button
+              onClick={handleSaveGenerated}
+              disabled={isSaving || neededItems.length === 0}
+              className="flex items-center gap-1 px-3 py-1 text-sm text-white bg-green-500 rounded-lg hover:bg-green-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              <Save size={14} />
+              Simpan Daftar
+            </button>
+          </div>
+          {neededItems.length > 0 ? (
+            <div className="space-y-2">
+              {groupByAisle(neededItems, item => item.name, aisleOverrides).map(group => (
+                <div key={group.aisle}>
+                  {renderAisleHeading(group.aisle)}
+                  <div className="flex flex-wrap gap-2">
+                    {group.items.map(item => (
+                      <span key={item.id} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-full">
+                        {item.name} · {formatQuantity(item)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Semua bahan sudah tersedia di stok.</p>
+          )}
+        </div>
+      )}
+
+      {/* Merge several saved plans into one list */}
+      {savedPlans.length > 1 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Gabungkan beberapa rencana</h4>
+          <div className="flex flex-wrap items-center gap-3">
+            {savedPlans.map(plan => (
+              <label key={plan.id} className="flex items-center gap-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={mergePlanIds.includes(plan.id)}
+                  onChange={(e) => setMergePlanIds(prev =>
+                    e.target.checked ? [...prev, plan.id] : prev.filter(id => id !== plan.id)
+                  )}
+                  className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+                />
+                Minggu {formatWeek(plan.week_start)}
+              </label>
+            ))}
+            <button
+              onClick={handleMergePlans}
+              disabled={isSaving || mergePlanIds.length === 0}
+              className="flex items-center gap-1 px-3 py-1 text-sm text-blue-600 border border-blue-300 rounded-lg hover:bg-blue-50 transition-colors disabled:text-gray-400 disabled:border-gray-200 disabled:cursor-not-allowed"
+            >
+              <Layers size={14} />
+              Buat Daftar Gabungan
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Saved lists */}
+      {shoppingLists.length > 0 && selectedList && (
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <select
+              value={selectedList.id}
+              onChange={(e) => setSelectedListId(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {shoppingLists.map(list => (
+                <option key={list.id} value={list.id}>
+                  {list.name} ({list.items.filter(item => item.checked).length}/{list.items.length})
+                </option>
+              ))}
+            </select>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleMoveToPantry}
+                disabled={isMovingToPantry || itemsToStock.length === 0}
+                className="flex items-center gap-1 px-3 py-1 text-sm text-white bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                <Package size={14} />
+                {isMovingToPantry ? 'Memasukkan...' : `Masukkan ke Stok (${itemsToStock.length})`}
+              </button>
+              <button
+                onClick={handleDeleteList}
+                className="p-1 text-red-500 hover:text-red-700 transition-colors"
+                title="Hapus daftar"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+
+          {groupByAisle(selectedList.items, item => item.name, aisleOverrides).map(group => (
+            <div key={group.aisle} className="mb-3">
+              {renderAisleHeading(group.aisle)}
+              <ul className="divide-y divide-gray-100">
+                {group.items.map(item => (
+                  <li key={item.id} className="flex items-center justify-between py-2">
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={item.checked}
+                        onChange={(e) => handleToggleItem(item.id, e.target.checked)}
+                        className="rounded border-gray-300 text-blue-500 focus:ring-blue-500"
+                      />
+                      <span className={item.checked ? 'line-through text-gray-400' : 'text-gray-800'}>
+                        {item.name}
+                      </span>
+                      <span className="text-gray-500">{formatQuantity(item)}</span>
+                      {item.is_manual && (
+                        <span className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded-full">Manual</span>
+                      )}
+                      {item.added_to_pantry_at && (
+                        <span className="px-2 py-0.5 bg-green-100 text-green-700 text-xs rounded-full">Di stok</span>
+                      )}
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={classifyAisle(item.name, aisleOverrides).aisle}
+                        onChange={(e) => handleChangeAisle(item.name, e.target.value as Aisle)}
+                        className="px-1 py-0.5 text-xs text-gray-500 border border-gray-200 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        title="Pindahkan ke lorong lain"
+                      >
+                        {AISLE_ORDER.map(aisle => (
+                          <option key={aisle} value={aisle}>{AISLE_LABELS[aisle]}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleDeleteItem(item.id)}
+                        className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+
+          <form onSubmit={handleAddManualItem} className="flex flex-wrap items-center gap-2 mt-3">
+            <input
+              type="text"
+              value={newItem.name}
+              placeholder="Tambah item, mis. sabun cuci piring"
+              onChange={(e) => setNewItem({ ...newItem, name: e.target.value })}
+              className="flex-1 min-w-[12rem] px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={newItem.quantity}
+              onChange={(e) => setNewItem({ ...newItem, quantity: Number(e.target.value) })}
+              className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <select
+              value={newItem.unit}
+              onChange={(e) => setNewItem({ ...newItem, unit: e.target.value })}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {units.map(unit => (
+                <option key={unit} value={unit}>{getUnitLabel(unit)}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={!newItem.name.trim()}
+              className="flex items-center gap-1 px-2 py-1 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+            >
+              <Plus size={14} />
+              Tambah
+            </button>
+          </form>
+        </div>
+      )}
+
+      {shoppingLists.length === 0 && !currentWeekPlan && (
+        <p className="text-sm text-gray-500">Belum ada daftar belanja tersimpan.</p>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { X, User, Lock, Eye, EyeOff, Save, Mail } from 'lucide-react';
+import { X, User, Lock, Eye, EyeOff, Save, Mail, Bell } from 'lucide-react';
 import { useUserProfile } from '../hooks/useUserProfile';
+import { useNotificationSettings } from '../hooks/useNotificationSettings';
+import { NotificationSettings } from '../types';
 import { changePassword } from '../lib/supabase';
 
 interface UserProfileModalProps {
@@ -21,6 +23,7 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
   onError,
 }) => {
   const { profile, loading, updateUsername, updateFullName } = useUserProfile(userId);
+  const { settings, updateSettings } = useNotificationSettings(userId);
   const [formData, setFormData] = useState({
     username: '',
     fullName: '',
@@ -34,7 +37,8 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
     confirm: false,
   });
   const [isUpdating, setIsUpdating] = useState(false);
-  const [activeTab, setActiveTab] = useState<'profile' | 'password'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'notifications'>('profile');
+  const [notificationForm, setNotificationForm] = useState<NotificationSettings>(settings);
 
   useEffect(() => {
     if (profile) {
@@ -46,6 +50,10 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
     }
   }, [profile]);
 
+  useEffect(() => {
+    setNotificationForm(settings);
+  }, [settings]);
+
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
       onClose();
@@ -129,6 +137,28 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
     }
   };
 
+  const handleNotificationSettingsUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUpdating(true);
+
+    try {
+      await updateSettings({
+        expiry_digest_enabled: notificationForm.expiry_digest_enabled,
+        expiry_window_days: notificationForm.expiry_window_days,
+        digest_frequency: notificationForm.digest_frequency,
+        email_enabled: notificationForm.email_enabled,
+      });
+
+      onSuccess('Pengaturan notifikasi berhasil disimpan!');
+      onClose();
+    } catch (error) {
+      console.error('Notification settings update error:', error);
+      onError('Gagal menyimpan pengaturan notifikasi. Silakan coba lagi.');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   const togglePasswordVisibility = (field: 'current' | 'new' | 'confirm') => {
     setShowPasswords(prev => ({
       ...prev,
@@ -185,6 +215,19 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
               Password
             </div>
           </button>
+          <button
+            onClick={() => setActiveTab('notifications')}
+            className={`flex-1 py-3 px-4 text-sm font-medium transition-colors ${
+              activeTab === 'notifications'
+                ? 'text-orange-600 border-b-2 border-orange-600 bg-orange-50'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <div className="flex items-center justify-center gap-2">
+              <Bell size={16} />
+              Notifikasi
+            </div>
+          </button>
         </div>
 
         {/* Content */}
@@ -352,6 +395,92 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
                   </button>
                 </form>
               )}
+
+              {/* Notifications Tab */}
+              {activeTab === 'notifications' && (
+                <form onSubmit={handleNotificationSettingsUpdate} className="space-y-4">
+                  <label className="flex items-start gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={notificationForm.expiry_digest_enabled}
+                      onChange={(e) => setNotificationForm(prev => ({ ...prev, expiry_digest_enabled: e.target.checked }))}
+                      className="mt-1 rounded border-gray-300 text-orange-500 focus:ring-orange-500"
+                    />
+                    <div>
+                      <span className="block text-sm font-medium text-gray-700">Ringkasan bahan kadaluarsa</span>
+                      <span className="block text-xs text-gray-500">
+                        Kirim pengingat bahan di stok yang akan segera kadaluarsa
+                      </span>
+                    </div>
+                  </label>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Ingatkan bahan yang kadaluarsa dalam
+                    </label>
+                    <select
+                      value={notificationForm.expiry_window_days}
+                      onChange={(e) => setNotificationForm(prev => ({ ...prev, expiry_window_days: Number(e.target.value) }))}
+                      disabled={!notificationForm.expiry_digest_enabled}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-400"
+                    >
+                      {[1, 2, 3, 5, 7, 14].map(days => (
+                        <option key={days} value={days}>{days} hari ke depan</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Frekuensi
+                    </label>
+                    <select
+                      value={notificationForm.digest_frequency}
+                      onChange={(e) => setNotificationForm(prev => ({
+                        ...prev,
+                        digest_frequency: e.target.value === 'weekly' ? 'weekly' : 'daily',
+                      }))}
+                      disabled={!notificationForm.expiry_digest_enabled}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-400"
+                    >
+                      <option value="daily">Setiap hari</option>
+                      <option value="weekly">Setiap minggu</option>
+                    </select>
+                  </div>
+
+                  <label className="flex items-start gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={notificationForm.email_enabled}
+                      onChange={(e) => setNotificationForm(prev => ({ ...prev, email_enabled: e.target.checked }))}
+                      disabled={!notificationForm.expiry_digest_enabled}
+                      className="mt-1 rounded border-gray-300 text-orange-500 focus:ring-orange-500"
+                    />
+                    <div>
+                      <span className="block text-sm font-medium text-gray-700">Kirim juga lewat email</span>
+                      <span className="block text-xs text-gray-500">Ke {userEmail}</span>
+                    </div>
+                  </label>
+
+                  <button
+                    type="submit"
+                    disabled={isUpdating}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors disabled:bg-orange-400 disabled:cursor-not-allowed"
+                  >
+                    {isUpdating ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        Menyimpan...
+                      </>
+                    ) : (
+                      <>
+                        <Save size={16} />
+                        Simpan Pengaturan
+                      </>
+                    )}
+                  </button>
+                </form>
+              )}
             </>
           )}
         </div>
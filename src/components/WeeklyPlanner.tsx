@@ -1,16 +1,81 @@
 import React, { useState, useEffect } from 'react';
-import { Calendar, ShoppingCart, Clock, Users, Plus, Trash2, Save, CheckCircle, AlertCircle, Edit } from 'lucide-react';
-import { Recipe, WeeklyPlan, DailyMeals, ShoppingItem, Ingredient } from '../types';
+import { Calendar, Clock, Users, Plus, Trash2, Save, CheckCircle, AlertCircle, Edit, ChefHat, Undo2, Sparkles, Lock, Unlock } from 'lucide-react';
+import { Recipe, WeeklyPlan, MealSlot, PlannedMeal, ShoppingItem, Ingredient, CookingEvent } from '../types';
 import { useAuth } from '../hooks/useAuth';
 import { useWeeklyPlans } from '../hooks/useWeeklyPlans';
+import { useCookingEvents } from '../hooks/useCookingEvents';
 import SupabaseDatasetService, { RecipeRecommendation } from '../services/supabaseDatasetService';
+import GeminiService from '../services/geminiService';
 import { isFeatureEnabledSync } from '../lib/featureFlags';
+import { DeductionPreview, buildRevertChanges, previewPantryDeduction } from '../lib/pantryDeduction';
+import { RECIPE_SOURCE_LABELS, getRecipeSource } from '../lib/recipeSource';
+import { DEFAULT_PLANNER_CONSTRAINTS, PlannerConstraints, generateMealPlan } from '../lib/mealPlanner';
+import { buildShoppingItems } from '../lib/shoppingList';
+import { addNutrition, emptyNutrition, estimateRecipeNutrition, roundNutrition } from '../lib/nutrition';
+import { CookedMealModal } from './CookedMealModal';
+import { PlannerConstraintsPanel } from './PlannerConstraintsPanel';
+import { ShoppingListPanel } from './ShoppingListPanel';
 
 interface WeeklyPlannerProps {
   recipes: Recipe[];
   ingredients: Ingredient[];
+  onUpdateIngredientQuantities: (updates: { id: string; quantity: number }[]) => Promise<unknown>;
+  onAddIngredient: (ingredient: {
+    name: string;
+    quantity: number;
+    unit: string;
+    category: string;
+    expiry_date: string | null;
+  }) => Promise<unknown>;
+  showSuccess: (message: string) => void;
+  showError: (message: string) => void;
 }
 
+const MEAL_SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: 'Sarapan',
+  lunch: 'Makan Siang',
+  dinner: 'Makan Malam',
+  snack: 'Camilan',
+  custom: 'Lainnya',
+};
+
+/**
+ * Slot for a newly added meal: the first three meals of a day default to
+ * breakfast, lunch and dinner, anything after that is a snack
+ */
+const defaultSlotForPosition = (position: number): MealSlot => {
+  const slots: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+  return slots[position] || 'snack';
+};
+
+/**
+ * Estimated nutrition one person gets from a day's meals: a serving of each
+ */
+const DailyNutritionSummary: React.FC<{ meals: PlannedMeal[] }> = ({ meals }) => {
+  let total = emptyNutrition();
+  let complete = true;
+  meals.forEach(meal => {
+    const estimate = estimateRecipeNutrition(meal.recipe);
+    total = addNutrition(total, estimate.perServing);
+    complete = complete && estimate.missing.length === 0;
+  });
+  const nutrition = roundNutrition(total);
+
+  return (
+    <div
+      className="text-[11px] text-gray-500 text-center -mt-2 mb-3"
+      title={`Perkiraan gizi per orang: serat ${nutrition.fiber} g, gula ${nutrition.sugar} g, natrium ${nutrition.sodium} mg${
+        complete ? '' : '. Sebagian bahan belum terhitung.'
+      }`}
+    >
+      <div className="font-medium text-gray-700">
+        ± {nutrition.calories.toLocaleString('id-ID')} kkal/orang{!complete && '*'}
+      </div>
+      <div>P {nutrition.protein} g · K {nutrition.carbs} g · L {nutrition.fat} g</div>
+    </div>
+  );
+};
+
 interface RecipeSelectionModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -28,9 +93,12 @@ const RecipeSelectionModal: React.FC<RecipeSelectionModalProps> = ({
   userRecipes,
   ingredients,
 }) => {
-  const [activeTab, setActiveTab] = useState<'saved' | 'dataset'>('saved');
+  const [activeTab, setActiveTab] = useState<'saved' | 'dataset' | 'ai'>('saved');
   const [datasetRecipes, setDatasetRecipes] = useState<RecipeRecommendation[]>([]);
   const [isLoadingDataset, setIsLoadingDataset] = useState(false);
+  const [aiRecipes, setAiRecipes] = useState<Recipe[]>([]);
+  const [isLoadingAI, setIsLoadingAI] = useState(false);
+  const [aiError, setAiError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [datasetService] = useState(() => new SupabaseDatasetService());
 
@@ -58,6 +126,27 @@ const RecipeSelectionModal: React.FC<RecipeSelectionModalProps> = ({
     }
   };
 
+  const generateAIRecipes = async () => {
+    if (ingredients.length === 0) return;
+
+    setIsLoadingAI(true);
+    setAiError(null);
+    try {
+      const apiKey = import.meta.env.VITE_GOOGLE_AI_API_KEY;
+      if (!apiKey) {
+        throw new Error('Google AI API key tidak ditemukan. Pastikan VITE_GOOGLE_AI_API_KEY sudah diatur di file .env');
+      }
+
+      const geminiService = new GeminiService(apiKey);
+      setAiRecipes(await geminiService.generateRecipeSuggestions(ingredients));
+    } catch (error) {
+      console.error('Error generating AI recipes:', error);
+      setAiError(error instanceof Error ? error.message : 'Terjadi kesalahan saat membuat ide resep');
+    } finally {
+      setIsLoadingAI(false);
+    }
+  };
+
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
       onClose();
@@ -120,6 +209,21 @@ const RecipeSelectionModal: React.FC<RecipeSelectionModalProps> = ({
               </div>
             </button>
           )}
+          {isFeatureEnabledSync('suggestions') && (
+            <button
+              onClick={() => setActiveTab('ai')}
+              className={`flex-1 py-3 px-4 text-sm font-medium transition-colors ${
+                activeTab === 'ai'
+                  ? 'text-purple-600 border-b-2 border-purple-600 bg-purple-50'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <div className="flex items-center justify-center gap-2">
+                <Sparkles size={16} />
+                Ide AI
+              </div>
+            </button>
+          )}
         </div>
 
         {/* Content */}
@@ -231,6 +335,62 @@ const RecipeSelectionModal: React.FC<RecipeSelectionModalProps> = ({
               )}
             </div>
           )}
+
+          {activeTab === 'ai' && isFeatureEnabledSync('suggestions') && (
+            <div>
+              {isLoadingAI ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500 mx-auto mb-4"></div>
+                  <p className="text-gray-600">AI sedang membuat ide resep...</p>
+                </div>
+              ) : aiRecipes.length === 0 ? (
+                <div className="text-center py-8">
+                  <Sparkles size={48} className="mx-auto text-gray-400 mb-4" />
+                  <p className="text-gray-500 mb-4">
+                    {ingredients.length === 0
+                      ? 'Tambahkan bahan-bahan untuk mendapatkan ide resep dari AI'
+                      : 'Buat ide resep dari bahan yang Anda miliki'
+                    }
+                  </p>
+                  {aiError && <p className="text-sm text-red-600 mb-4">{aiError}</p>}
+                  {ingredients.length > 0 && (
+                    <button
+                      onClick={generateAIRecipes}
+                      className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors"
+                    >
+                      Buat Ide Resep
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {aiRecipes.map((recipe) => (
+                    <div
+                      key={recipe.id}
+                      className="border border-purple-200 rounded-lg p-4 hover:shadow-md transition-shadow cursor-pointer"
+                      onClick={() => onSelectRecipe(recipe)}
+                    >
+                      <div className="flex items-start justify-between mb-2">
+                        <h4 className="font-medium text-gray-900">{recipe.name}</h4>
+                        <Sparkles className="text-purple-500" size={16} />
+                      </div>
+                      <p className="text-sm text-gray-600 mb-2">{recipe.description}</p>
+                      <div className="flex items-center gap-4 text-xs text-gray-500">
+                        <div className="flex items-center gap-1">
+                          <Clock size={12} />
+                          <span>{recipe.prep_time + recipe.cook_time} menit</span>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Users size={12} />
+                          <span>{recipe.servings} porsi</span>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -250,6 +410,10 @@ const RecipeSelectionModal: React.FC<RecipeSelectionModalProps> = ({
 export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
   recipes,
   ingredients,
+  onUpdateIngredientQuantities,
+  onAddIngredient,
+  showSuccess,
+  showError,
 }) => {
   const { user } = useAuth();
   const { 
@@ -258,6 +422,12 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
     saveWeeklyPlan, 
     getCurrentWeekPlan 
   } = useWeeklyPlans(user?.id);
+  const {
+    cookingEvents,
+    recordCookingEvent,
+    markCookingEventReverted,
+    findCookingEvent,
+  } = useCookingEvents(user?.id);
 
   const [currentWeekPlan, setCurrentWeekPlan] = useState<WeeklyPlan | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -268,18 +438,40 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
   const [selectedDay, setSelectedDay] = useState<{
     dayIndex: number;
     dayName: string;
+    replacingIndex?: number;
   } | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [cookingPreview, setCookingPreview] = useState<{
+    preview: DeductionPreview;
+    mealDate: string;
+  } | null>(null);
+  const [isApplyingCooking, setIsApplyingCooking] = useState(false);
+  const [lastCookingEventId, setLastCookingEventId] = useState<string | null>(null);
+  const [revertingEventId, setRevertingEventId] = useState<string | null>(null);
+  const [plannerConstraints, setPlannerConstraints] = useState<PlannerConstraints>(() => {
+    try {
+      const saved = localStorage.getItem('weekly-planner-constraints');
+      return saved ? { ...DEFAULT_PLANNER_CONSTRAINTS, ...JSON.parse(saved) } : DEFAULT_PLANNER_CONSTRAINTS;
+    } catch {
+      return DEFAULT_PLANNER_CONSTRAINTS;
+    }
+  });
 
   const days = ['Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu', 'Minggu'];
 
+  useEffect(() => {
+    localStorage.setItem('weekly-planner-constraints', JSON.stringify(plannerConstraints));
+  }, [plannerConstraints]);
+
   // Load current week plan when component mounts or plans change
   useEffect(() => {
     if (!plansLoading) {
       const currentPlan = getCurrentWeekPlan();
       setCurrentWeekPlan(currentPlan);
       if (currentPlan) {
-        generateShoppingList(currentPlan);
+        const planPeopleCount = currentPlan.people_count || peopleCount;
+        setPeopleCount(planPeopleCount);
+        generateShoppingList(currentPlan, planPeopleCount);
       }
     }
   }, [plansLoading, weeklyPlans]);
@@ -287,49 +479,43 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
   const generateWeeklyPlan = () => {
     setIsGenerating(true);
     
-    setTimeout(() => {
+    try {
       const today = new Date();
       const monday = new Date(today);
       monday.setDate(today.getDate() - today.getDay() + 1);
       const currentWeek = monday.toISOString().slice(0, 10);
-      
-      const dailyMeals: DailyMeals[] = [];
-      
-      // Generate a simple weekly plan
-      for (let i = 0; i < 7; i++) {
-        const date = new Date(monday);
-        date.setDate(monday.getDate() + i);
-        
-        const dayMeals: DailyMeals = {
-          date: date.toISOString().slice(0, 10),
-          recipes: [], // Initialize with empty recipes array
-        };
-        
-        // Add 1-2 random recipes per day if available
-        if (recipes.length > 0) {
-          const numRecipes = Math.floor(Math.random() * 2) + 1; // 1-2 recipes
-          const shuffledRecipes = [...recipes].sort(() => Math.random() - 0.5);
-          
-          for (let j = 0; j < Math.min(numRecipes, shuffledRecipes.length); j++) {
-            dayMeals.recipes!.push(shuffledRecipes[j]);
-          }
-        }
-        
-        dailyMeals.push(dayMeals);
-      }
+
+      // Locked meals of this week's plan stay where they are
+      const currentDays = currentWeekPlan && currentWeekPlan.week_start === currentWeek
+        ? currentWeekPlan.daily_meals || []
+        : [];
+
+      const { days: dailyMeals, unfilledSlots } = generateMealPlan({
+        weekStart: currentWeek,
+        recipes,
+        pantry: ingredients,
+        constraints: plannerConstraints,
+        currentDays,
+      });
       
       const newPlan: WeeklyPlan = {
-        id: 'temp-' + Date.now(),
+        id: currentWeekPlan?.id || 'temp-' + Date.now(),
         week_start: currentWeek,
         user_id: user?.id || '',
+        people_count: peopleCount,
         daily_meals: dailyMeals,
       };
       
       setCurrentWeekPlan(newPlan);
       generateShoppingList(newPlan);
       setHasUnsavedChanges(true);
+
+      if (unfilledSlots > 0) {
+        showError(`${unfilledSlots} slot menu tidak dapat diisi tanpa melanggar aturan rencana. Coba longgarkan aturannya atau tambah resep.`);
+      }
+    } finally {
       setIsGenerating(false);
-    }, 2000);
+    }
   };
 
   const handleSaveWeeklyPlan = async () => {
@@ -344,56 +530,17 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
       );
       setCurrentWeekPlan(savedPlan);
       setHasUnsavedChanges(false);
+      showSuccess('Rencana menu berhasil disimpan!');
     } catch (error) {
       console.error('Error saving weekly plan:', error);
+      showError('Gagal menyimpan rencana menu. Perubahan Anda belum tersimpan, silakan coba lagi.');
     } finally {
       setIsSaving(false);
     }
   };
 
-  const generateShoppingList = (plan: WeeklyPlan) => {
-    const neededIngredients: Record<string, ShoppingItem> = {};
-    
-    // Collect all ingredients needed for the week
-    (plan.daily_meals || []).forEach(day => {
-      (day.recipes || []).forEach(recipe => {
-        if (recipe && recipe.recipe_ingredients) {
-          recipe.recipe_ingredients.forEach(ingredient => {
-            const key = ingredient.name.toLowerCase();
-            if (neededIngredients[key]) {
-              neededIngredients[key].quantity += ingredient.quantity;
-            } else {
-              neededIngredients[key] = {
-                id: 'shopping-' + Date.now() + Math.random(),
-                name: ingredient.name,
-                quantity: ingredient.quantity,
-                unit: ingredient.unit,
-                category: 'general',
-                needed: true,
-              };
-            }
-          });
-        }
-      });
-    });
-
-    // Check what we already have
-    const availableIngredients = ingredients.reduce((acc, ing) => {
-      acc[ing.name.toLowerCase()] = ing.quantity;
-      return acc;
-    }, {} as Record<string, number>);
-
-    // Mark items as needed or not
-    Object.values(neededIngredients).forEach(item => {
-      const available = availableIngredients[item.name.toLowerCase()] || 0;
-      if (available >= item.quantity) {
-        item.needed = false;
-      } else {
-        item.quantity = Math.max(0, item.quantity - available);
-      }
-    });
-
-    setShoppingList(Object.values(neededIngredients));
+  const generateShoppingList = (plan: WeeklyPlan, servingsTarget: number = peopleCount) => {
+    setShoppingList(buildShoppingItems([{ ...plan, people_count: servingsTarget }], ingredients));
   };
 
   const handleAddRecipe = (dayIndex: number) => {
@@ -413,22 +560,16 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
       date.setDate(date.getDate() - date.getDay() + 1 + selectedDay.dayIndex);
       updatedMeals[selectedDay.dayIndex] = {
         date: date.toISOString().slice(0, 10),
-        recipes: [],
+        meals: [],
       };
     }
     
-    // Add recipe to the day's recipes list
-    if (!updatedMeals[selectedDay.dayIndex].recipes) {
-      updatedMeals[selectedDay.dayIndex].recipes = [];
-    }
-    
-    // Check if we already have 3 recipes for this day
-    if (updatedMeals[selectedDay.dayIndex].recipes!.length >= 3) {
-      alert('Maksimal 3 resep per hari');
-      return;
-    }
-    
-    updatedMeals[selectedDay.dayIndex].recipes!.push(recipe);
+    // Add recipe to the day's meals in the next free slot
+    const dayMeals = updatedMeals[selectedDay.dayIndex].meals || [];
+    updatedMeals[selectedDay.dayIndex] = {
+      ...updatedMeals[selectedDay.dayIndex],
+      meals: [...dayMeals, { recipe, slot: defaultSlotForPosition(dayMeals.length) }],
+    };
     
     const updatedPlan = {
       ...currentWeekPlan,
@@ -446,8 +587,11 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
     if (!currentWeekPlan) return;
 
     const updatedMeals = [...(currentWeekPlan.daily_meals || [])];
-    if (updatedMeals[dayIndex] && updatedMeals[dayIndex].recipes) {
-      updatedMeals[dayIndex].recipes!.splice(recipeIndex, 1);
+    if (updatedMeals[dayIndex] && updatedMeals[dayIndex].meals) {
+      updatedMeals[dayIndex] = {
+        ...updatedMeals[dayIndex],
+        meals: updatedMeals[dayIndex].meals!.filter((_, index) => index !== recipeIndex),
+      };
     }
     
     const updatedPlan = {
@@ -466,10 +610,121 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
       dayIndex,
       dayName: days[dayIndex],
       replacingIndex: recipeIndex,
-    } as any);
+    });
     setShowRecipeModal(true);
   };
 
+  const handleUpdateMeal = (dayIndex: number, recipeIndex: number, updates: Partial<PlannedMeal>) => {
+    if (!currentWeekPlan) return;
+
+    const updatedMeals = [...(currentWeekPlan.daily_meals || [])];
+    const day = updatedMeals[dayIndex];
+    if (!day || !day.meals || !day.meals[recipeIndex]) return;
+
+    updatedMeals[dayIndex] = {
+      ...day,
+      meals: day.meals.map((meal, index) => index === recipeIndex ? { ...meal, ...updates } : meal),
+    };
+
+    const updatedPlan = {
+      ...currentWeekPlan,
+      daily_meals: updatedMeals,
+    };
+
+    setCurrentWeekPlan(updatedPlan);
+    generateShoppingList(updatedPlan);
+    setHasUnsavedChanges(true);
+  };
+
+  const handleMarkCooked = (meal: PlannedMeal, mealDate: string) => {
+    const preview = previewPantryDeduction(meal.recipe, ingredients, meal.servings || peopleCount);
+    setCookingPreview({ preview, mealDate });
+  };
+
+  const handleConfirmCooked = async () => {
+    if (!cookingPreview) return;
+
+    const { preview, mealDate } = cookingPreview;
+    setIsApplyingCooking(true);
+    // Record the event before touching the pantry, so a deduction never
+    // happens without an event to undo it
+    let event: CookingEvent | undefined;
+    try {
+      event = await recordCookingEvent({
+        recipe_id: preview.recipeId,
+        recipe_name: preview.recipeName,
+        meal_date: mealDate,
+        servings: preview.servings,
+        changes: preview.changes,
+      });
+
+      if (preview.changes.length > 0) {
+        await onUpdateIngredientQuantities(
+          preview.changes.map(change => ({ id: change.ingredient_id, quantity: change.new_quantity }))
+        );
+      }
+
+      setLastCookingEventId(event?.id || null);
+      setCookingPreview(null);
+      showSuccess(`${preview.recipeName} ditandai sudah dimasak. Stok bahan telah diperbarui.`);
+    } catch (error) {
+      console.error('Error applying pantry deduction:', error);
+      if (!event) {
+        showError('Gagal memperbarui stok bahan. Silakan coba lagi.');
+        return;
+      }
+
+      // Some quantities may have been updated: put them all back and drop the event
+      try {
+        if (preview.changes.length > 0) {
+          await onUpdateIngredientQuantities(
+            preview.changes.map(change => ({ id: change.ingredient_id, quantity: change.previous_quantity }))
+          );
+        }
+        await markCookingEventReverted(event.id);
+        showError('Gagal memperbarui stok bahan. Silakan coba lagi.');
+      } catch (rollbackError) {
+        console.error('Error rolling back pantry deduction:', rollbackError);
+        setLastCookingEventId(event.id);
+        setCookingPreview(null);
+        showError('Stok bahan mungkin hanya terpotong sebagian. Periksa stok, lalu batalkan status masak bila perlu.');
+      }
+    } finally {
+      setIsApplyingCooking(false);
+    }
+  };
+
+  const handleRevertCooked = async (eventId: string) => {
+    const event = cookingEvents.find(item => item.id === eventId);
+    if (!event) return;
+
+    setRevertingEventId(eventId);
+    try {
+      const revertChanges = buildRevertChanges(event.changes, ingredients);
+      if (revertChanges.length > 0) {
+        await onUpdateIngredientQuantities(
+          revertChanges.map(change => ({ id: change.ingredient_id, quantity: change.new_quantity }))
+        );
+      }
+      await markCookingEventReverted(eventId);
+
+      if (lastCookingEventId === eventId) {
+        setLastCookingEventId(null);
+      }
+      showSuccess(`Status masak ${event.recipe_name} dibatalkan. Stok bahan dikembalikan.`);
+    } catch (error) {
+      console.error('Error reverting pantry deduction:', error);
+      showError('Gagal mengembalikan stok bahan. Silakan coba lagi.');
+    } finally {
+      setRevertingEventId(null);
+    }
+  };
+
+  const lastCookingEvent = cookingEvents.find(event => event.id === lastCookingEventId);
+  const deletedRecipeMeals = (currentWeekPlan?.daily_meals || []).flatMap(day =>
+    (day.meals || []).filter(meal => meal.recipe_deleted).map(meal => meal.recipe.name)
+  );
+
   const unitTranslations: Record<string, string> = {
     kg: 'kg',
     gram: 'gram',
@@ -535,7 +790,15 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
           </label>
           <select
             value={peopleCount}
-            onChange={(e) => setPeopleCount(Number(e.target.value))}
+            onChange={(e) => {
+              const count = Number(e.target.value);
+              setPeopleCount(count);
+              if (currentWeekPlan) {
+                setCurrentWeekPlan({ ...currentWeekPlan, people_count: count });
+                setHasUnsavedChanges(true);
+                generateShoppingList(currentWeekPlan, count);
+              }
+            }}
             className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
             {[1, 2, 3, 4, 5, 6, 7, 8].map(count => (
@@ -545,6 +808,11 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
         </div>
       </div>
 
+      <PlannerConstraintsPanel
+        constraints={plannerConstraints}
+        onChange={setPlannerConstraints}
+      />
+
       {/* Status Indicator */}
       {currentWeekPlan && (
         <div className="bg-white p-4 rounded-lg shadow-md border border-gray-100">
@@ -569,6 +837,38 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
         </div>
       )}
 
+      {/* Meals whose recipe was deleted, kept from their snapshot */}
+      {deletedRecipeMeals.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 p-4 rounded-lg flex items-center gap-2 text-yellow-800">
+          <AlertCircle size={20} />
+          <span>
+            {deletedRecipeMeals.length} menu di rencana ini resepnya sudah dihapus dan ditampilkan dari salinan terakhirnya:{' '}
+            {deletedRecipeMeals.join(', ')}.
+          </span>
+        </div>
+      )}
+
+      {/* Undo last cooked meal */}
+      {lastCookingEvent && (
+        <div className="bg-green-50 border border-green-200 p-4 rounded-lg flex items-center justify-between">
+          <div className="flex items-center gap-2 text-green-800">
+            <ChefHat size={20} />
+            <span>
+              <span className="font-medium">{lastCookingEvent.recipe_name}</span> sudah dimasak,
+              {' '}{lastCookingEvent.changes.length} bahan di stok diperbarui.
+            </span>
+          </div>
+          <button
+            onClick={() => handleRevertCooked(lastCookingEvent.id)}
+            disabled={revertingEventId === lastCookingEvent.id}
+            className="flex items-center gap-1 px-3 py-1 text-sm text-green-700 border border-green-300 rounded-lg hover:bg-green-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Undo2 size={14} />
+            Urungkan
+          </button>
+        </div>
+      )}
+
       {isGenerating && (
         <div className="text-center py-12">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
@@ -584,63 +884,157 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
                 <h3 className="font-semibold text-gray-900 mb-3 text-center">
                   {days[dayIndex]}
                 </h3>
+                {day.meals && day.meals.length > 0 && <DailyNutritionSummary meals={day.meals} />}
                 <div className="space-y-2">
                   {/* Display existing recipes */}
-                  {(day.recipes || []).map((recipe, recipeIndex) => (
-                    <div key={recipeIndex} className="border border-gray-200 rounded-lg p-2">
-                      <div className="text-sm">
-                        <div className="font-medium text-gray-900 mb-1">
-                          {recipe.name}
-                        </div>
-                        <div className="flex items-center gap-2 text-xs text-gray-500 mb-2">
-                          <Clock size={12} />
-                          <span>{recipe.prep_time + recipe.cook_time} menit</span>
-                          <Users size={12} />
-                          <span>{recipe.servings} porsi</span>
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <button
-                            onClick={() => handleChangeRecipe(dayIndex, recipeIndex)}
-                            className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
-                          >
-                            <Edit size={12} />
-                            Ubah
-                          </button>
-                          <span className="text-gray-300">|</span>
-                          <button
-                            onClick={() => handleRemoveRecipe(dayIndex, recipeIndex)}
-                            className="flex items-center gap-1 text-xs text-red-600 hover:text-red-800"
-                          >
-                            <Trash2 size={12} />
-                            Hapus
-                          </button>
+                  {(day.meals || []).map((meal, recipeIndex) => {
+                    const { recipe } = meal;
+                    const cookedEvent = findCookingEvent(recipe.id, day.date);
+                    const source = meal.source || getRecipeSource(recipe, user?.id);
+
+                    return (
+                      <div
+                        key={recipeIndex}
+                        className={`border rounded-lg p-2 ${cookedEvent ? 'border-green-300 bg-green-50' : 'border-gray-200'}`}
+                      >
+                        <div className="text-sm">
+                          <div className="flex items-center gap-1 mb-1">
+                            <select
+                              value={meal.slot}
+                              onChange={(e) => handleUpdateMeal(dayIndex, recipeIndex, { slot: e.target.value as MealSlot })}
+                              className="text-xs text-blue-700 bg-blue-50 border-none rounded px-1 py-0.5 focus:ring-1 focus:ring-blue-500"
+                            >
+                              {(Object.keys(MEAL_SLOT_LABELS) as MealSlot[]).map(slot => (
+                                <option key={slot} value={slot}>{MEAL_SLOT_LABELS[slot]}</option>
+                              ))}
+                            </select>
+                            {meal.slot === 'custom' && (
+                              <input
+                                type="text"
+                                value={meal.slot_label || ''}
+                                placeholder="Nama"
+                                onChange={(e) => handleUpdateMeal(dayIndex, recipeIndex, { slot_label: e.target.value })}
+                                className="w-full text-xs border border-gray-200 rounded px-1 py-0.5 focus:ring-1 focus:ring-blue-500"
+                              />
+                            )}
+                          </div>
+                          <div className="font-medium text-gray-900 mb-1">
+                            <button
+                              onClick={() => handleUpdateMeal(dayIndex, recipeIndex, { locked: !meal.locked })}
+                              title={meal.locked ? 'Buka kunci menu ini' : 'Kunci menu ini saat membuat ulang rencana'}
+                              className={`float-right ml-1 ${meal.locked ? 'text-blue-600' : 'text-gray-300 hover:text-gray-500'}`}
+                            >
+                              {meal.locked ? <Lock size={12} /> : <Unlock size={12} />}
+                            </button>
+                            {recipe.name}
+                            {meal.recipe_deleted && (
+                              <span className="ml-1 px-1.5 py-0.5 rounded text-[10px] font-normal bg-yellow-100 text-yellow-800">
+                                Resep dihapus
+                              </span>
+                            )}
+                            {source !== 'user' && (
+                              <span
+                                className={`ml-1 px-1.5 py-0.5 rounded text-[10px] font-normal ${
+                                  source === 'dataset' ? 'bg-blue-100 text-blue-700' : 'bg-purple-100 text-purple-700'
+                                }`}
+                              >
+                                {RECIPE_SOURCE_LABELS[source]}
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2 text-xs text-gray-500 mb-2">
+                            <Clock size={12} />
+                            <span>{recipe.prep_time + recipe.cook_time} menit</span>
+                            <Users size={12} />
+                            <select
+                              value={meal.servings || ''}
+                              onChange={(e) => handleUpdateMeal(dayIndex, recipeIndex, {
+                                servings: e.target.value ? Number(e.target.value) : null,
+                              })}
+                              title="Jumlah porsi untuk menu ini"
+                              className="text-xs border-none bg-transparent p-0 focus:ring-1 focus:ring-blue-500"
+                            >
+                              <option value="">{peopleCount} porsi</option>
+                              {[1, 2, 3, 4, 5, 6, 7, 8].map(count => (
+                                <option key={count} value={count}>{count} porsi</option>
+                              ))}
+                            </select>
+                          </div>
+                          {meal.reasons && meal.reasons.length > 0 && (
+                            <ul className="text-[11px] text-gray-500 mb-2 space-y-0.5">
+                              {meal.reasons.map((reason, reasonIndex) => (
+                                <li key={reasonIndex}>• {reason}</li>
+                              ))}
+                            </ul>
+                          )}
+                          <input
+                            type="text"
+                            value={meal.notes || ''}
+                            placeholder="Catatan..."
+                            onChange={(e) => handleUpdateMeal(dayIndex, recipeIndex, { notes: e.target.value })}
+                            className="w-full text-xs text-gray-600 border border-gray-200 rounded px-1 py-0.5 mb-2 focus:ring-1 focus:ring-blue-500"
+                          />
+                          <div className="flex items-center gap-1">
+                            <button
+                              onClick={() => handleChangeRecipe(dayIndex, recipeIndex)}
+                              className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+                            >
+                              <Edit size={12} />
+                              Ubah
+                            </button>
+                            <span className="text-gray-300">|</span>
+                            <button
+                              onClick={() => handleRemoveRecipe(dayIndex, recipeIndex)}
+                              className="flex items-center gap-1 text-xs text-red-600 hover:text-red-800"
+                            >
+                              <Trash2 size={12} />
+                              Hapus
+                            </button>
+                          </div>
+                          {cookedEvent ? (
+                            <div className="flex items-center justify-between mt-2 text-xs">
+                              <span className="flex items-center gap-1 text-green-700">
+                                <CheckCircle size={12} />
+                                Sudah dimasak
+                              </span>
+                              <button
+                                onClick={() => handleRevertCooked(cookedEvent.id)}
+                                disabled={revertingEventId === cookedEvent.id}
+                                className="flex items-center gap-1 text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                              >
+                                <Undo2 size={12} />
+                                Batalkan
+                              </button>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => handleMarkCooked(meal, day.date)}
+                              disabled={hasUnsavedChanges}
+                              title={hasUnsavedChanges ? 'Simpan rencana terlebih dahulu' : undefined}
+                              className="flex items-center gap-1 mt-2 text-xs text-green-600 hover:text-green-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+                            >
+                              <ChefHat size={12} />
+                              Tandai dimasak
+                            </button>
+                          )}
                         </div>
                       </div>
-                    </div>
-                  ))}
-                  
-                  {/* Add recipe button - only show if less than 3 recipes */}
-                  {(!day.recipes || day.recipes.length < 3) && (
-                    <button
-                      onClick={() => handleAddRecipe(dayIndex)}
-                      className="w-full text-xs text-blue-600 hover:text-blue-800 border border-dashed border-blue-300 rounded p-3 hover:bg-blue-50 transition-colors"
-                    >
-                      <Plus size={16} className="mx-auto mb-1" />
-                      Tambah Resep
-                      {day.recipes && day.recipes.length > 0 && (
-                        <div className="text-gray-500 mt-1">
-                          ({day.recipes.length}/3)
-                        </div>
-                      )}
-                    </button>
-                  )}
+                    );
+                  })}
                   
-                  {/* Show count if at max */}
-                  {day.recipes && day.recipes.length >= 3 && (
-                    <div className="text-center text-xs text-gray-500 py-2">
-                      Maksimal 3 resep per hari
-                    </div>
-                  )}
+                  {/* Add recipe button */}
+                  <button
+                    onClick={() => handleAddRecipe(dayIndex)}
+                    className="w-full text-xs text-blue-600 hover:text-blue-800 border border-dashed border-blue-300 rounded p-3 hover:bg-blue-50 transition-colors"
+                  >
+                    <Plus size={16} className="mx-auto mb-1" />
+                    Tambah Resep
+                    {day.meals && day.meals.length > 0 && (
+                      <div className="text-gray-500 mt-1">
+                        ({day.meals.length} menu)
+                      </div>
+                    )}
+                  </button>
                 </div>
               </div>
             ))}
@@ -648,6 +1042,17 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
         </div>
       )}
 
+      {/* Shopping Lists */}
+      <ShoppingListPanel
+        generatedItems={shoppingList}
+        currentWeekPlan={currentWeekPlan}
+        weeklyPlans={weeklyPlans}
+        ingredients={ingredients}
+        onAddIngredient={onAddIngredient}
+        showSuccess={showSuccess}
+        showError={showError}
+      />
+
       {!currentWeekPlan && !isGenerating && (
         <div className="text-center py-12">
           <Calendar size={48} className="mx-auto text-gray-400 mb-4" />
@@ -655,6 +1060,15 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
         </div>
       )}
 
+      {/* Cooked Meal Preview Modal */}
+      <CookedMealModal
+        isOpen={!!cookingPreview}
+        preview={cookingPreview?.preview || null}
+        onClose={() => setCookingPreview(null)}
+        onConfirm={handleConfirmCooked}
+        isApplying={isApplyingCooking}
+      />
+
       {/* Recipe Selection Modal */}
       <RecipeSelectionModal
         isOpen={showRecipeModal}
@@ -663,20 +1077,9 @@ export const WeeklyPlanner: React.FC<WeeklyPlannerProps> = ({
           setSelectedDay(null);
         }}
         onSelectRecipe={(recipe) => {
-          if (selectedDay && 'replacingIndex' in selectedDay) {
-            // Replace existing recipe
-            if (!currentWeekPlan) return;
-            const updatedMeals = [...(currentWeekPlan.daily_meals || [])];
-            if (updatedMeals[selectedDay.dayIndex] && updatedMeals[selectedDay.dayIndex].recipes) {
-              updatedMeals[selectedDay.dayIndex].recipes![selectedDay.replacingIndex] = recipe;
-              const updatedPlan = {
-                ...currentWeekPlan,
-                daily_meals: updatedMeals,
-              };
-              setCurrentWeekPlan(updatedPlan);
-              generateShoppingList(updatedPlan);
-              setHasUnsavedChanges(true);
-            }
+          if (selectedDay && selectedDay.replacingIndex !== undefined) {
+            // Replace the recipe but keep the meal's slot, servings and notes
+            handleUpdateMeal(selectedDay.dayIndex, selectedDay.replacingIndex, { recipe, reasons: undefined });
           } else {
             // Add new recipe
             handleSelectRecipe(recipe);
@@ -0,0 +1,133 @@
+import { readFileSync } from 'node:fs';
+import { createEmbeddingProvider } from '../../supabase/functions/_shared/embeddingProviders.ts';
+import { RecommenderMetrics, summarize } from './metrics';
+import {
+  Recommender,
+  createAIRerankRecommender,
+  createDatasetRecommender,
+  createGeminiScorer,
+  createHybridRecommender,
+  createVectorRecommender,
+} from './recommenders';
+import { EvaluationQuery, FIXTURE_QUERIES, FIXTURE_RECIPES } from './fixtures';
+import { FixtureRecipe, InMemoryRecipeIndex } from './vectorIndex';
+
+/**
+ * Offline evaluation of the recommenders: `npm run evaluate -- [options]`
+ *
+ *   --k <n>                 Cut-off for the metrics (default 5)
+ *   --recipes <file>        JSON array of dataset_recipes rows
+ *   --judgments <file>      JSON array of { id, pantry, judgments }
+ *   --min-similarity <n>    Vector similarity threshold (default 0.3, as in the app)
+ *   --min-loves <n>         Minimum loves for the dataset and RAG recommenders
+ *   --json                  Print the metrics as JSON instead of a table
+ *
+ * The embedding provider comes from EMBEDDING_PROVIDER, EMBEDDING_MODEL_URL,
+ * EMBEDDING_MODEL and GEMINI_API_KEY, like the edge functions. The AI
+ * re-ranking recommender only runs when GOOGLE_AI_API_KEY is set.
+ */
+
+interface EvaluationOptions {
+  k: number;
+  recipesFile?: string;
+  judgmentsFile?: string;
+  minSimilarity: number;
+  minLoves?: number;
+  json: boolean;
+}
+
+function parseArgs(args: string[]): EvaluationOptions {
+  const options: EvaluationOptions = { k: 5, minSimilarity: 0.3, json: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const next = () => {
+      const value = args[++i];
+      if (value === undefined) throw new Error(`Missing value for ${args[i - 1]}`);
+      return value;
+    };
+
+    switch (args[i]) {
+      case '--k': options.k = Number(next()); break;
+      case '--recipes': options.recipesFile = next(); break;
+      case '--judgments': options.judgmentsFile = next(); break;
+      case '--min-similarity': options.minSimilarity = Number(next()); break;
+      case '--min-loves': options.minLoves = Number(next()); break;
+      case '--json': options.json = true; break;
+      default: throw new Error(`Unknown option ${args[i]}`);
+    }
+  }
+
+  if (!Number.isInteger(options.k) || options.k < 1) {
+    throw new Error('--k must be a positive integer');
+  }
+
+  return options;
+}
+
+const readJson = <T>(file: string): T => JSON.parse(readFileSync(file, 'utf8'));
+
+async function evaluate(
+  recommender: Recommender,
+  queries: EvaluationQuery[],
+  catalogSize: number,
+  k: number
+): Promise<RecommenderMetrics> {
+  const results = [];
+  for (const query of queries) {
+    results.push({ ranked: await recommender.recommend(query.pantry, k), judgments: query.judgments });
+  }
+  return summarize(results, catalogSize, k);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const recipes = options.recipesFile ? readJson<FixtureRecipe[]>(options.recipesFile) : FIXTURE_RECIPES;
+  const queries = options.judgmentsFile ? readJson<EvaluationQuery[]>(options.judgmentsFile) : FIXTURE_QUERIES;
+
+  const provider = createEmbeddingProvider({
+    provider: process.env.EMBEDDING_PROVIDER,
+    localUrl: process.env.EMBEDDING_MODEL_URL,
+    localModel: process.env.EMBEDDING_MODEL,
+    localDimension: Number(process.env.EMBEDDING_DIMENSION) || undefined,
+    geminiApiKey: process.env.GEMINI_API_KEY,
+    geminiModel: process.env.GEMINI_EMBEDDING_MODEL,
+  });
+  const index = await InMemoryRecipeIndex.build(recipes, provider);
+
+  const ragOptions = { minSimilarity: options.minSimilarity, minLoves: options.minLoves };
+  const recommenders: Recommender[] = [
+    createDatasetRecommender(recipes, { minLoves: options.minLoves }),
+    createVectorRecommender(index, ragOptions),
+    createHybridRecommender(index, ragOptions),
+  ];
+
+  const aiApiKey = process.env.GOOGLE_AI_API_KEY;
+  if (aiApiKey) {
+    recommenders.push(createAIRerankRecommender(index, createGeminiScorer(aiApiKey), ragOptions));
+  } else {
+    console.warn('GOOGLE_AI_API_KEY not set, skipping the rag-ai recommender');
+  }
+
+  const report: Record<string, RecommenderMetrics> = {};
+  for (const recommender of recommenders) {
+    report[recommender.name] = await evaluate(recommender, queries, recipes.length, options.k);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ k: options.k, embeddingProvider: provider.key, recipes: recipes.length, report }, null, 2));
+    return;
+  }
+
+  console.log(`${queries.length} queries, ${recipes.length} recipes, k = ${options.k}, embeddings: ${provider.key}`);
+  console.table(Object.fromEntries(Object.entries(report).map(([name, metrics]) => [name, {
+    [`precision@${options.k}`]: metrics.precision.toFixed(3),
+    [`recall@${options.k}`]: metrics.recall.toFixed(3),
+    [`ndcg@${options.k}`]: metrics.ndcg.toFixed(3),
+    coverage: metrics.coverage.toFixed(3),
+  }])));
+}
+
+main().catch(error => {
+  console.error('Evaluation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
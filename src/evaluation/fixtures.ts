@@ -0,0 +1,346 @@
+import { RelevanceJudgments } from './metrics';
+import { FixtureRecipe } from './vectorIndex';
+
+/**
+ * A small, hand-labeled subset in the shape of `dataset_recipes`. Replace it
+ * with an export of the real table through `--recipes` and `--judgments`
+ * for larger runs; keep the ids in both files in sync.
+ */
+
+export interface EvaluationQuery {
+  id: string;
+  /** Pantry ingredient names, as the user would have entered them */
+  pantry: string[];
+  /** Recipe id to grade: 2 fits the pantry well, 1 is acceptable */
+  judgments: RelevanceJudgments;
+}
+
+export const FIXTURE_RECIPES: FixtureRecipe[] = [
+  {
+    id: 'fx-ayam-goreng',
+    title: 'Ayam Goreng Bumbu Kuning',
+    ingredients: '1 ekor ayam\n5 siung bawang putih\n6 butir bawang merah\n2 ruas kunyit\n1 ruas jahe\n2 batang serai\n3 lembar daun salam\nGaram secukupnya\nMinyak goreng',
+    steps: 'Haluskan bawang merah, bawang putih, kunyit dan jahe. Rebus ayam bersama bumbu halus, serai dan daun salam hingga bumbu meresap. Goreng ayam dalam minyak panas hingga kecokelatan.',
+    loves_count: 1520,
+  },
+  {
+    id: 'fx-opor-ayam',
+    title: 'Opor Ayam Santan',
+    ingredients: '1/2 kg ayam\n500 ml santan\n4 siung bawang putih\n6 butir bawang merah\n3 butir kemiri\n1 sdt ketumbar\n2 lembar daun salam\n1 batang serai\nGaram dan gula secukupnya',
+    steps: 'Tumis bumbu halus bersama serai dan daun salam hingga harum. Masukkan ayam dan aduk hingga berubah warna. Tuang santan lalu masak dengan api kecil sambil diaduk hingga ayam empuk.',
+    loves_count: 980,
+  },
+  {
+    id: 'fx-ayam-kecap',
+    title: 'Ayam Kecap Mentega',
+    ingredients: '1/2 kg ayam\n3 sdm kecap manis\n2 sdm mentega\n1 buah bawang bombay\n3 siung bawang putih\n1 sdm saus tiram\nMerica secukupnya',
+    steps: 'Goreng ayam setengah matang lalu tiriskan. Lelehkan mentega dan tumis bawang bombay serta bawang putih. Masukkan ayam, kecap manis dan saus tiram lalu masak hingga saus mengental.',
+    loves_count: 1340,
+  },
+  {
+    id: 'fx-soto-ayam',
+    title: 'Soto Ayam Kuning',
+    ingredients: '1/2 ekor ayam\n2 liter air\n100 gr soun\n2 butir telur rebus\n1 buah tomat\nKol secukupnya\n5 siung bawang putih\n8 butir bawang merah\n2 ruas kunyit\n2 batang serai\nDaun jeruk',
+    steps: 'Rebus ayam hingga matang lalu suwir dagingnya. Tumis bumbu halus, serai dan daun jeruk lalu masukkan ke dalam kaldu. Sajikan kuah dengan soun, kol, telur dan ayam suwir.',
+    loves_count: 870,
+  },
+  {
+    id: 'fx-ayam-bakar',
+    title: 'Ayam Bakar Madu',
+    ingredients: '1 ekor ayam\n3 sdm madu\n4 sdm kecap manis\n5 siung bawang putih\n6 butir bawang merah\n1 sdt ketumbar\nMentega untuk olesan',
+    steps: 'Ungkep ayam dengan bumbu halus hingga air menyusut. Campur madu, kecap manis dan mentega untuk olesan. Bakar ayam sambil dioles bumbu hingga kecokelatan.',
+    loves_count: 760,
+  },
+  {
+    id: 'fx-nasi-goreng',
+    title: 'Nasi Goreng Kampung',
+    ingredients: '2 piring nasi putih\n2 butir telur\n3 siung bawang putih\n5 butir bawang merah\n3 buah cabai rawit\n2 sdm kecap manis\nGaram secukupnya',
+    steps: 'Haluskan bawang merah, bawang putih dan cabai. Tumis bumbu hingga harum lalu masukkan telur dan orak-arik. Masukkan nasi, kecap manis dan garam lalu aduk rata hingga matang.',
+    loves_count: 2210,
+  },
+  {
+    id: 'fx-nasi-goreng-ayam',
+    title: 'Nasi Goreng Ayam Suwir',
+    ingredients: '2 piring nasi putih\n100 gr ayam suwir\n1 butir telur\n3 siung bawang putih\n4 butir bawang merah\n2 sdm kecap manis\n1 sdm saus tiram',
+    steps: 'Tumis bawang merah dan bawang putih hingga harum. Masukkan ayam suwir dan telur lalu aduk. Tambahkan nasi, kecap manis dan saus tiram lalu aduk hingga rata.',
+    loves_count: 640,
+  },
+  {
+    id: 'fx-telur-balado',
+    title: 'Telur Balado',
+    ingredients: '6 butir telur rebus\n10 buah cabai merah\n6 butir bawang merah\n3 siung bawang putih\n1 buah tomat\nGula dan garam secukupnya',
+    steps: 'Goreng telur rebus sebentar hingga kulitnya berkerut. Haluskan cabai, bawang merah, bawang putih dan tomat lalu tumis hingga matang. Masukkan telur dan aduk hingga terbalut bumbu.',
+    loves_count: 1180,
+  },
+  {
+    id: 'fx-telur-dadar',
+    title: 'Telur Dadar Daun Bawang',
+    ingredients: '3 butir telur\n2 batang daun bawang\n1 buah cabai merah\nGaram dan merica secukupnya\nMinyak goreng',
+    steps: 'Kocok telur bersama daun bawang, cabai, garam dan merica. Panaskan minyak lalu tuang adonan telur. Masak hingga kedua sisi kecokelatan.',
+    loves_count: 430,
+  },
+  {
+    id: 'fx-tumis-kangkung',
+    title: 'Tumis Kangkung Terasi',
+    ingredients: '2 ikat kangkung\n4 siung bawang putih\n5 butir bawang merah\n5 buah cabai rawit\n1 sdt terasi\n1 sdm saus tiram\nGaram secukupnya',
+    steps: 'Siangi kangkung lalu cuci bersih. Tumis bawang putih, bawang merah, cabai dan terasi hingga harum. Masukkan kangkung dan saus tiram lalu masak sebentar dengan api besar.',
+    loves_count: 1650,
+  },
+  {
+    id: 'fx-tumis-buncis',
+    title: 'Tumis Buncis Telur',
+    ingredients: '250 gr buncis\n2 butir telur\n3 siung bawang putih\n4 butir bawang merah\n1 buah wortel\nGaram dan merica secukupnya',
+    steps: 'Iris buncis dan wortel tipis. Tumis bawang hingga harum lalu masukkan telur dan orak-arik. Masukkan buncis dan wortel lalu masak hingga layu.',
+    loves_count: 520,
+  },
+  {
+    id: 'fx-sayur-asem',
+    title: 'Sayur Asem Jakarta',
+    ingredients: '1 buah jagung manis\n100 gr kacang panjang\n1 buah labu siam\n50 gr melinjo\n3 sdm asam jawa\n5 butir bawang merah\n3 siung bawang putih\n2 lembar daun salam\nGula merah secukupnya',
+    steps: 'Rebus air bersama bumbu halus, asam jawa dan daun salam. Masukkan jagung dan melinjo lalu masak hingga setengah matang. Tambahkan labu siam dan kacang panjang lalu masak hingga semua sayuran empuk.',
+    loves_count: 910,
+  },
+  {
+    id: 'fx-sayur-sop',
+    title: 'Sayur Sop Ayam',
+    ingredients: '250 gr ayam\n2 buah wortel\n2 buah kentang\n1/4 buah kol\n1 batang daun bawang\n1 batang seledri\n3 siung bawang putih\nGaram dan merica secukupnya',
+    steps: 'Rebus ayam hingga kaldunya keluar. Masukkan bawang putih yang sudah ditumis, wortel dan kentang. Tambahkan kol, daun bawang dan seledri lalu bumbui dengan garam dan merica.',
+    loves_count: 1090,
+  },
+  {
+    id: 'fx-capcay',
+    title: 'Capcay Kuah Seafood',
+    ingredients: '100 gr udang\n1 buah wortel\n1 buah brokoli\n1/4 buah kol\n5 buah bakso ikan\n3 siung bawang putih\n2 sdm saus tiram\n1 sdm maizena',
+    steps: 'Tumis bawang putih hingga harum lalu masukkan udang dan bakso ikan. Masukkan wortel, brokoli dan kol lalu tambahkan sedikit air. Bumbui dengan saus tiram lalu kentalkan dengan larutan maizena.',
+    loves_count: 730,
+  },
+  {
+    id: 'fx-tempe-orek',
+    title: 'Tempe Orek Kecap',
+    ingredients: '1 papan tempe\n3 sdm kecap manis\n5 butir bawang merah\n3 siung bawang putih\n5 buah cabai merah\n2 lembar daun salam\n1 ruas lengkuas',
+    steps: 'Potong tempe kecil memanjang lalu goreng hingga kering. Tumis bawang merah, bawang putih, cabai, daun salam dan lengkuas hingga harum. Masukkan tempe dan kecap manis lalu aduk hingga meresap.',
+    loves_count: 1420,
+  },
+  {
+    id: 'fx-tahu-tempe-bacem',
+    title: 'Tahu Tempe Bacem',
+    ingredients: '5 potong tahu\n1 papan tempe\n100 gr gula merah\n2 sdm kecap manis\n5 butir bawang merah\n3 siung bawang putih\n1 sdt ketumbar\n2 lembar daun salam\n500 ml air kelapa',
+    steps: 'Haluskan bawang merah, bawang putih dan ketumbar. Rebus tahu dan tempe bersama bumbu, gula merah, kecap dan air kelapa hingga air habis. Goreng sebentar sebelum disajikan.',
+    loves_count: 990,
+  },
+  {
+    id: 'fx-tahu-goreng',
+    title: 'Tahu Goreng Crispy',
+    ingredients: '10 potong tahu putih\n5 sdm tepung terigu\n2 sdm tepung beras\n2 siung bawang putih\nGaram dan merica secukupnya\nMinyak goreng',
+    steps: 'Potong tahu dan rendam dalam air garam dan bawang putih. Gulingkan tahu dalam campuran tepung terigu dan tepung beras. Goreng dalam minyak panas hingga renyah.',
+    loves_count: 480,
+  },
+  {
+    id: 'fx-mie-goreng',
+    title: 'Mie Goreng Jawa',
+    ingredients: '200 gr mie telur\n1 butir telur\n100 gr ayam\n1 ikat sawi hijau\n3 siung bawang putih\n4 butir bawang merah\n3 sdm kecap manis\n1 sdm saus tiram',
+    steps: 'Rebus mie hingga matang lalu tiriskan. Tumis bawang hingga harum lalu masukkan ayam dan telur. Masukkan mie, sawi, kecap manis dan saus tiram lalu aduk hingga rata.',
+    loves_count: 1270,
+  },
+  {
+    id: 'fx-mie-rebus',
+    title: 'Mie Rebus Telur Sayur',
+    ingredients: '1 bungkus mie instan\n1 butir telur\n1 ikat sawi hijau\n1 buah tomat\n1 batang daun bawang\n1 buah cabai rawit',
+    steps: 'Rebus air hingga mendidih lalu masukkan mie. Masukkan telur, sawi dan tomat lalu masak hingga matang. Taburi daun bawang dan cabai sebelum disajikan.',
+    loves_count: 310,
+  },
+  {
+    id: 'fx-rendang',
+    title: 'Rendang Daging Sapi',
+    ingredients: '1 kg daging sapi\n1 liter santan kental\n10 butir bawang merah\n6 siung bawang putih\n15 buah cabai merah\n2 ruas jahe\n2 ruas lengkuas\n2 batang serai\n5 lembar daun jeruk\n1 lembar daun kunyit',
+    steps: 'Haluskan bawang merah, bawang putih, cabai, jahe dan lengkuas. Masak santan bersama bumbu halus, serai, daun jeruk dan daun kunyit. Masukkan daging lalu masak dengan api kecil selama beberapa jam hingga kering dan berwarna gelap.',
+    loves_count: 2480,
+  },
+  {
+    id: 'fx-semur-daging',
+    title: 'Semur Daging Kentang',
+    ingredients: '500 gr daging sapi\n3 buah kentang\n5 sdm kecap manis\n6 butir bawang merah\n4 siung bawang putih\n1/2 sdt pala bubuk\n2 butir cengkeh\n1 batang kayu manis',
+    steps: 'Rebus daging hingga empuk lalu potong-potong. Tumis bumbu halus bersama cengkeh dan kayu manis. Masukkan daging, kentang dan kecap lalu masak hingga kuah mengental.',
+    loves_count: 820,
+  },
+  {
+    id: 'fx-ikan-bakar',
+    title: 'Ikan Bakar Kecap',
+    ingredients: '2 ekor ikan nila\n1 buah jeruk nipis\n4 sdm kecap manis\n5 butir bawang merah\n3 siung bawang putih\n3 buah cabai merah\n1 sdm margarin',
+    steps: 'Lumuri ikan dengan air jeruk nipis dan garam. Haluskan bawang merah, bawang putih dan cabai lalu campur dengan kecap dan margarin. Bakar ikan sambil dioles bumbu hingga matang.',
+    loves_count: 690,
+  },
+  {
+    id: 'fx-pepes-ikan',
+    title: 'Pepes Ikan Kemangi',
+    ingredients: '500 gr ikan kembung\n1 ikat daun kemangi\n6 butir bawang merah\n3 siung bawang putih\n2 ruas kunyit\n3 butir kemiri\n1 buah tomat\nDaun pisang untuk membungkus',
+    steps: 'Lumuri ikan dengan bumbu halus. Letakkan ikan di atas daun pisang bersama kemangi dan tomat lalu bungkus. Kukus selama tiga puluh menit lalu bakar sebentar.',
+    loves_count: 560,
+  },
+  {
+    id: 'fx-udang-balado',
+    title: 'Udang Balado Pete',
+    ingredients: '300 gr udang\n1 papan pete\n10 buah cabai merah\n6 butir bawang merah\n3 siung bawang putih\n1 buah tomat\nGula dan garam secukupnya',
+    steps: 'Kupas udang dan sisakan ekornya. Haluskan cabai, bawang merah, bawang putih dan tomat lalu tumis hingga matang. Masukkan udang dan pete lalu masak hingga udang berubah warna.',
+    loves_count: 750,
+  },
+  {
+    id: 'fx-perkedel-kentang',
+    title: 'Perkedel Kentang',
+    ingredients: '500 gr kentang\n1 butir telur\n2 batang daun bawang\n1 batang seledri\n3 siung bawang putih goreng\nGaram, merica dan pala secukupnya',
+    steps: 'Goreng kentang lalu haluskan selagi panas. Campur kentang dengan daun bawang, seledri, bawang goreng dan bumbu. Bentuk bulat pipih, celup ke kocokan telur lalu goreng hingga kecokelatan.',
+    loves_count: 880,
+  },
+  {
+    id: 'fx-sambal-goreng-kentang',
+    title: 'Sambal Goreng Kentang Ati',
+    ingredients: '500 gr kentang\n250 gr ati ampela ayam\n200 ml santan\n8 buah cabai merah\n6 butir bawang merah\n3 siung bawang putih\n2 lembar daun salam\n1 ruas lengkuas',
+    steps: 'Potong dadu kentang lalu goreng hingga kering. Rebus ati ampela lalu potong dadu dan goreng sebentar. Tumis bumbu halus lalu masukkan santan, kentang dan ati lalu masak hingga kuah menyusut.',
+    loves_count: 940,
+  },
+  {
+    id: 'fx-bakwan-sayur',
+    title: 'Bakwan Sayur Renyah',
+    ingredients: '1 buah wortel\n1/4 buah kol\n100 gr tauge\n2 batang daun bawang\n150 gr tepung terigu\n2 sdm tepung beras\n2 siung bawang putih\nGaram secukupnya',
+    steps: 'Iris tipis wortel dan kol lalu campur dengan tauge dan daun bawang. Masukkan tepung terigu, tepung beras, bawang putih halus dan air secukupnya lalu aduk rata. Goreng sesendok demi sesendok hingga renyah.',
+    loves_count: 1130,
+  },
+  {
+    id: 'fx-pisang-goreng',
+    title: 'Pisang Goreng Madu',
+    ingredients: '6 buah pisang kepok\n100 gr tepung terigu\n2 sdm tepung beras\n2 sdm madu\n1 sdm gula pasir\nSejumput garam',
+    steps: 'Campur tepung terigu, tepung beras, gula, madu dan air hingga menjadi adonan kental. Belah pisang lalu celupkan ke dalam adonan. Goreng hingga kuning keemasan.',
+    loves_count: 1010,
+  },
+  {
+    id: 'fx-pancake',
+    title: 'Pancake Pisang Susu',
+    ingredients: '2 buah pisang\n150 gr tepung terigu\n1 butir telur\n200 ml susu cair\n2 sdm gula pasir\n1 sdm mentega leleh',
+    steps: 'Haluskan pisang lalu campur dengan telur, susu dan gula. Masukkan tepung terigu dan mentega leleh lalu aduk hingga licin. Tuang adonan ke teflon panas dan masak hingga kedua sisi matang.',
+    loves_count: 660,
+  },
+  {
+    id: 'fx-spaghetti',
+    title: 'Spaghetti Saus Tomat Daging',
+    ingredients: '200 gr spaghetti\n200 gr daging sapi giling\n3 buah tomat\n1 buah bawang bombay\n3 siung bawang putih\n2 sdm saus tomat\n50 gr keju parut\nOregano secukupnya',
+    steps: 'Rebus spaghetti hingga al dente lalu tiriskan. Tumis bawang bombay dan bawang putih lalu masukkan daging giling. Tambahkan tomat cincang, saus tomat dan oregano lalu masak hingga mengental dan sajikan dengan keju.',
+    loves_count: 580,
+  },
+  {
+    id: 'fx-roti-bakar',
+    title: 'Roti Bakar Keju Cokelat',
+    ingredients: '4 lembar roti tawar\n2 sdm mentega\n50 gr keju parut\n3 sdm meses cokelat\n2 sdm susu kental manis',
+    steps: 'Olesi roti tawar dengan mentega. Taburi keju parut dan meses lalu tangkupkan. Panggang di atas teflon hingga kecokelatan lalu siram susu kental manis.',
+    loves_count: 400,
+  },
+];
+
+export const FIXTURE_QUERIES: EvaluationQuery[] = [
+  {
+    id: 'ayam-bumbu-dasar',
+    pantry: ['ayam', 'bawang putih', 'bawang merah', 'kunyit', 'serai'],
+    judgments: {
+      'fx-ayam-goreng': 2,
+      'fx-soto-ayam': 2,
+      'fx-opor-ayam': 1,
+      'fx-ayam-bakar': 1,
+      'fx-sayur-sop': 1,
+    },
+  },
+  {
+    id: 'ayam-santan',
+    pantry: ['ayam', 'santan', 'kemiri', 'daun salam', 'bawang merah'],
+    judgments: {
+      'fx-opor-ayam': 2,
+      'fx-ayam-goreng': 1,
+      'fx-sambal-goreng-kentang': 1,
+    },
+  },
+  {
+    id: 'nasi-sisa',
+    pantry: ['nasi putih', 'telur', 'kecap manis', 'bawang merah'],
+    judgments: {
+      'fx-nasi-goreng': 2,
+      'fx-nasi-goreng-ayam': 1,
+      'fx-telur-dadar': 1,
+    },
+  },
+  {
+    id: 'telur-cabai',
+    pantry: ['telur', 'cabai merah', 'tomat', 'bawang merah'],
+    judgments: {
+      'fx-telur-balado': 2,
+      'fx-telur-dadar': 1,
+      'fx-udang-balado': 1,
+    },
+  },
+  {
+    id: 'sayuran-hijau',
+    pantry: ['kangkung', 'cabai rawit', 'terasi', 'bawang putih'],
+    judgments: {
+      'fx-tumis-kangkung': 2,
+    },
+  },
+  {
+    id: 'sayur-sop',
+    pantry: ['wortel', 'kentang', 'kol', 'daun bawang', 'ayam'],
+    judgments: {
+      'fx-sayur-sop': 2,
+      'fx-bakwan-sayur': 1,
+      'fx-capcay': 1,
+      'fx-perkedel-kentang': 1,
+    },
+  },
+  {
+    id: 'tempe-tahu',
+    pantry: ['tempe', 'tahu', 'kecap manis', 'gula merah'],
+    judgments: {
+      'fx-tahu-tempe-bacem': 2,
+      'fx-tempe-orek': 2,
+      'fx-tahu-goreng': 1,
+    },
+  },
+  {
+    id: 'daging-sapi',
+    pantry: ['daging sapi', 'santan', 'cabai merah', 'lengkuas', 'serai'],
+    judgments: {
+      'fx-rendang': 2,
+      'fx-semur-daging': 1,
+    },
+  },
+  {
+    id: 'ikan',
+    pantry: ['ikan nila', 'jeruk nipis', 'kecap manis', 'cabai merah'],
+    judgments: {
+      'fx-ikan-bakar': 2,
+      'fx-pepes-ikan': 1,
+    },
+  },
+  {
+    id: 'kentang',
+    pantry: ['kentang', 'telur', 'daun bawang', 'seledri'],
+    judgments: {
+      'fx-perkedel-kentang': 2,
+      'fx-sambal-goreng-kentang': 1,
+      'fx-semur-daging': 1,
+      'fx-sayur-sop': 1,
+    },
+  },
+  {
+    id: 'mie',
+    pantry: ['mie telur', 'sawi hijau', 'telur', 'kecap manis'],
+    judgments: {
+      'fx-mie-goreng': 2,
+      'fx-mie-rebus': 2,
+      'fx-nasi-goreng': 1,
+    },
+  },
+  {
+    id: 'camilan-manis',
+    pantry: ['pisang', 'tepung terigu', 'gula pasir', 'telur'],
+    judgments: {
+      'fx-pisang-goreng': 2,
+      'fx-pancake': 2,
+    },
+  },
+];
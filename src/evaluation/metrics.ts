@@ -0,0 +1,84 @@
+/**
+ * Ranking metrics for the offline recommendation evaluation. Judgments are
+ * graded: 2 for a recipe that fits the pantry well, 1 for an acceptable one;
+ * recipes without a judgment count as not relevant.
+ */
+
+export type RelevanceJudgments = Record<string, number>;
+
+export interface QueryMetrics {
+  precision: number;
+  recall: number;
+  ndcg: number;
+}
+
+export interface RecommenderMetrics extends QueryMetrics {
+  /** Share of the catalog that appeared in any top-k list */
+  coverage: number;
+  queries: number;
+}
+
+const isRelevant = (judgments: RelevanceJudgments, id: string) => (judgments[id] ?? 0) > 0;
+
+/**
+ * Share of the top `k` that is relevant. Lists shorter than `k` are not
+ * padded, so returning fewer recipes is penalized.
+ */
+export function precisionAtK(ranked: string[], judgments: RelevanceJudgments, k: number): number {
+  if (k <= 0) return 0;
+  return ranked.slice(0, k).filter(id => isRelevant(judgments, id)).length / k;
+}
+
+/**
+ * Share of the relevant recipes found in the top `k`
+ */
+export function recallAtK(ranked: string[], judgments: RelevanceJudgments, k: number): number {
+  const relevantCount = Object.keys(judgments).filter(id => isRelevant(judgments, id)).length;
+  if (relevantCount === 0) return 0;
+  return ranked.slice(0, k).filter(id => isRelevant(judgments, id)).length / relevantCount;
+}
+
+const discountedGain = (grades: number[]) =>
+  grades.reduce((sum, grade, index) => sum + (2 ** grade - 1) / Math.log2(index + 2), 0);
+
+/**
+ * Normalized discounted cumulative gain of the top `k` with graded relevance
+ */
+export function ndcgAtK(ranked: string[], judgments: RelevanceJudgments, k: number): number {
+  const ideal = discountedGain(
+    Object.values(judgments).filter(grade => grade > 0).sort((a, b) => b - a).slice(0, k)
+  );
+  if (ideal === 0) return 0;
+
+  return discountedGain(ranked.slice(0, k).map(id => judgments[id] ?? 0)) / ideal;
+}
+
+/**
+ * Share of `catalogSize` recipes that appear in at least one of the lists
+ */
+export function coverage(rankedLists: string[][], catalogSize: number, k: number): number {
+  if (catalogSize === 0) return 0;
+  return new Set(rankedLists.flatMap(ranked => ranked.slice(0, k))).size / catalogSize;
+}
+
+/**
+ * Mean precision, recall and NDCG over all queries, plus catalog coverage
+ */
+export function summarize(
+  results: { ranked: string[]; judgments: RelevanceJudgments }[],
+  catalogSize: number,
+  k: number
+): RecommenderMetrics {
+  const mean = (metric: (ranked: string[], judgments: RelevanceJudgments, k: number) => number) =>
+    results.length === 0
+      ? 0
+      : results.reduce((sum, result) => sum + metric(result.ranked, result.judgments, k), 0) / results.length;
+
+  return {
+    precision: mean(precisionAtK),
+    recall: mean(recallAtK),
+    ndcg: mean(ndcgAtK),
+    coverage: coverage(results.map(result => result.ranked), catalogSize, k),
+    queries: results.length,
+  };
+}
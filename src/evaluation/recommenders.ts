@@ -0,0 +1,178 @@
+import {
+  AIRerankResponse,
+  buildIngredientRerankPrompt,
+  mergeAIScore,
+  parseAIRerankResponse,
+  withRetries,
+} from '../lib/aiRerank';
+import {
+  MIN_MATCH_SCORE,
+  calculateConfidenceScore,
+  calculateMatchScore,
+  compareByMatch,
+  parseDatasetIngredients,
+  parseDatasetSteps,
+} from '../lib/recipeScoring';
+import { parseIngredientList } from '../lib/ingredientParser';
+import GeminiService from '../services/geminiService';
+import { FixtureRecipe, IndexHit, InMemoryRecipeIndex } from './vectorIndex';
+
+/**
+ * The app's recommenders rebuilt on fixtures: each takes pantry ingredient
+ * names and returns recipe ids, best first, ranked with the same scoring
+ * code as the services.
+ */
+
+export interface Recommender {
+  name: string;
+  recommend(pantry: string[], k: number): Promise<string[]>;
+}
+
+/** Scores recipe references for a prompt, e.g. by asking Gemini */
+export type RerankScorer = (prompt: string, referenceCount: number) => Promise<AIRerankResponse>;
+
+// EmbeddingService.createQueryContent for ingredients without categories
+const toQueryText = (pantry: string[]) => pantry.join(' ');
+
+const confidenceOf = (hit: IndexHit) => calculateConfidenceScore(
+  hit.similarity_score,
+  hit.recipe.loves_count,
+  parseDatasetIngredients(hit.recipe.ingredients).length,
+  parseDatasetSteps(hit.recipe.steps).length
+);
+
+/**
+ * `SupabaseDatasetService.getRecommendations` without expiry prioritization
+ */
+export function createDatasetRecommender(
+  recipes: FixtureRecipe[],
+  { minLoves = 50 }: { minLoves?: number } = {}
+): Recommender {
+  return {
+    name: 'dataset',
+    async recommend(pantry, k) {
+      return recipes
+        .filter(recipe => recipe.loves_count >= minLoves)
+        .map(recipe => ({
+          id: recipe.id,
+          loves_count: recipe.loves_count,
+          match_score: calculateMatchScore(parseIngredientList(recipe.ingredients).map(ing => ing.name), pantry),
+        }))
+        .filter(result => result.match_score > MIN_MATCH_SCORE)
+        .sort(compareByMatch)
+        .slice(0, k)
+        .map(result => result.id);
+    },
+  };
+}
+
+/**
+ * `RAGRecipeService.getRecommendations` without AI: `find_similar_recipes` order
+ */
+export function createVectorRecommender(
+  index: InMemoryRecipeIndex,
+  { minLoves = 10, minSimilarity = 0.3 }: { minLoves?: number; minSimilarity?: number } = {}
+): Recommender {
+  return {
+    name: 'rag-vector',
+    async recommend(pantry, k) {
+      const queryEmbedding = await index.embedQuery(toQueryText(pantry));
+      return index
+        .similar(queryEmbedding, { minLoves, similarityThreshold: minSimilarity, matchCount: k })
+        .map(hit => hit.recipe.id);
+    },
+  };
+}
+
+/**
+ * `RAGRecipeService.getRecommendations` with AI re-ranking: the top vector
+ * results are scored in batches of 8 and ordered by the merged confidence.
+ * Batches the scorer fails on keep their vector-based confidence.
+ *
+ * Like the app, which re-ranks exactly the `maxResults` recipes it shows, it
+ * scores the top k vector results, so it reorders the `rag-vector` results
+ * and only the ranking metrics can move. Pass a larger `candidatePool` to
+ * try out re-ranking more candidates than are shown before changing the app.
+ */
+export function createAIRerankRecommender(
+  index: InMemoryRecipeIndex,
+  scorer: RerankScorer,
+  {
+    minLoves = 10,
+    minSimilarity = 0.3,
+    candidatePool,
+  }: { minLoves?: number; minSimilarity?: number; candidatePool?: number } = {}
+): Recommender {
+  return {
+    name: 'rag-ai',
+    async recommend(pantry, k) {
+      const queryEmbedding = await index.embedQuery(toQueryText(pantry));
+      const candidates = index.similar(queryEmbedding, {
+        minLoves,
+        similarityThreshold: minSimilarity,
+        matchCount: Math.max(candidatePool ?? k, k),
+      });
+
+      const scored: { id: string; confidence: number }[] = [];
+      const batchSize = 8;
+
+      for (let i = 0; i < candidates.length; i += batchSize) {
+        const batch = candidates.slice(i, i + batchSize);
+        const references = batch.map(hit => ({ ...hit.recipe, similarity_score: hit.similarity_score }));
+
+        let aiScores = new Map<number, number>();
+        try {
+          const response = await scorer(buildIngredientRerankPrompt(pantry.join(', '), references), batch.length);
+          aiScores = new Map(response.recipes.map(recipe => [recipe.referenceIndex - 1, recipe.score]));
+        } catch (error) {
+          console.warn('AI re-ranking failed for a batch, keeping vector scores:', error);
+        }
+
+        batch.forEach((hit, index) => {
+          const aiScore = aiScores.get(index);
+          const confidence = confidenceOf(hit);
+          scored.push({
+            id: hit.recipe.id,
+            confidence: aiScore === undefined ? confidence : mergeAIScore(confidence, aiScore),
+          });
+        });
+      }
+
+      return scored
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, k)
+        .map(result => result.id);
+    },
+  };
+}
+
+/**
+ * `RAGRecipeService.semanticSearch` in hybrid mode, queried with the pantry
+ */
+export function createHybridRecommender(
+  index: InMemoryRecipeIndex,
+  { minSimilarity = 0.3 }: { minSimilarity?: number } = {}
+): Recommender {
+  return {
+    name: 'hybrid',
+    async recommend(pantry, k) {
+      const queryText = toQueryText(pantry);
+      const queryEmbedding = await index.embedQuery(queryText);
+      return index
+        .hybrid(queryText, queryEmbedding, { similarityThreshold: minSimilarity, matchCount: k })
+        .map(hit => hit.recipe.id);
+    },
+  };
+}
+
+/**
+ * Scores with Gemini, validated and retried the way the app does
+ */
+export function createGeminiScorer(apiKey: string): RerankScorer {
+  const gemini = new GeminiService(apiKey);
+
+  return (prompt, referenceCount) => withRetries(async () => {
+    const result = await gemini.generateContent(prompt);
+    return parseAIRerankResponse((await result.response).text(), referenceCount);
+  }, { attempts: 2, delayMs: 500 });
+}
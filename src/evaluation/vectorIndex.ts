@@ -0,0 +1,174 @@
+import { createRecipeContent, normalizeEmbeddingText } from '../../supabase/functions/_shared/embedding.ts';
+import { EmbeddingProvider } from '../../supabase/functions/_shared/embeddingProviders.ts';
+
+/**
+ * In-memory stand-in for `recipe_embeddings` and the search RPCs, so ranking
+ * changes can be evaluated without a database. `similar` follows
+ * `find_similar_recipes` and `hybrid` follows `hybrid_search_recipes`; the
+ * full-text side is approximate, as Postgres' Indonesian stemming is not
+ * reproduced.
+ */
+
+export interface FixtureRecipe {
+  id: string;
+  title: string;
+  ingredients: string;
+  steps: string;
+  loves_count: number;
+}
+
+export interface IndexHit {
+  recipe: FixtureRecipe;
+  similarity_score: number;
+  vector_score: number | null;
+  lexical_score: number | null;
+  rrf_score?: number;
+}
+
+interface IndexEntry {
+  recipe: FixtureRecipe;
+  embedding: number[];
+  /** Words per full-text weight: title (A), ingredients (B), steps (C) */
+  words: [Set<string>, Set<string>, Set<string>];
+}
+
+// ts_rank weights for A, B and C
+const FIELD_WEIGHTS = [1.0, 0.4, 0.2];
+
+const toWords = (text: string) => new Set(normalizeEmbeddingText(text).split(' ').filter(Boolean));
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export class InMemoryRecipeIndex {
+  private constructor(
+    readonly provider: EmbeddingProvider,
+    private readonly entries: IndexEntry[]
+  ) {}
+
+  /**
+   * Embed `recipes` with `provider`, the same content `sync-embeddings` embeds
+   */
+  static async build(recipes: FixtureRecipe[], provider: EmbeddingProvider, batchSize = 50): Promise<InMemoryRecipeIndex> {
+    const entries: IndexEntry[] = [];
+
+    for (let i = 0; i < recipes.length; i += batchSize) {
+      const batch = recipes.slice(i, i + batchSize);
+      const embeddings = await provider.embed(batch.map(recipe => createRecipeContent(recipe)));
+
+      batch.forEach((recipe, index) => entries.push({
+        recipe,
+        embedding: embeddings[index],
+        words: [toWords(recipe.title), toWords(recipe.ingredients), toWords(recipe.steps)],
+      }));
+    }
+
+    return new InMemoryRecipeIndex(provider, entries);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [embedding] = await this.provider.embed([text]);
+    return embedding;
+  }
+
+  /**
+   * Recipes by cosine similarity, like `find_similar_recipes`
+   */
+  similar(
+    queryEmbedding: number[],
+    { minLoves = 0, similarityThreshold = 0, matchCount = 10 }: {
+      minLoves?: number;
+      similarityThreshold?: number;
+      matchCount?: number;
+    } = {}
+  ): IndexHit[] {
+    return this.entries
+      .filter(entry => entry.recipe.loves_count >= minLoves)
+      .map(entry => {
+        const similarity = cosineSimilarity(entry.embedding, queryEmbedding);
+        return { recipe: entry.recipe, similarity_score: similarity, vector_score: similarity, lexical_score: null };
+      })
+      .filter(hit => hit.similarity_score >= similarityThreshold)
+      .sort((a, b) => b.similarity_score - a.similarity_score)
+      .slice(0, matchCount);
+  }
+
+  /**
+   * Recipes matching any query word, ranked by weighted word matches scaled
+   * into 0..1 like `ts_rank_cd(..., 32)`
+   */
+  lexical(queryText: string, candidateCount = 50): IndexHit[] {
+    const queryWords = [...toWords(queryText)];
+    if (queryWords.length === 0) return [];
+
+    return this.entries
+      .map(entry => {
+        const rank = queryWords.reduce((sum, word) => {
+          const field = entry.words.findIndex(words => words.has(word));
+          return field >= 0 ? sum + FIELD_WEIGHTS[field] : sum;
+        }, 0);
+        return { recipe: entry.recipe, rank };
+      })
+      .filter(({ rank }) => rank > 0)
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, candidateCount)
+      .map(({ recipe, rank }) => {
+        const score = rank / (rank + 1);
+        return { recipe, similarity_score: score, vector_score: null, lexical_score: score };
+      });
+  }
+
+  /**
+   * Vector and full-text rankings fused with reciprocal rank fusion, like
+   * `hybrid_search_recipes`; without a query embedding only full text is used
+   */
+  hybrid(
+    queryText: string,
+    queryEmbedding: number[] | null,
+    { similarityThreshold = 0, matchCount = 10, candidateCount = 50, rrfK = 60 }: {
+      similarityThreshold?: number;
+      matchCount?: number;
+      candidateCount?: number;
+      rrfK?: number;
+    } = {}
+  ): IndexHit[] {
+    const fused = new Map<string, IndexHit>();
+
+    const vectorHits = queryEmbedding
+      ? this.similar(queryEmbedding, { similarityThreshold, matchCount: candidateCount })
+      : [];
+
+    vectorHits.forEach((hit, index) => {
+      fused.set(hit.recipe.id, { ...hit, rrf_score: 1 / (rrfK + index + 1) });
+    });
+
+    this.lexical(queryText, candidateCount).forEach((hit, index) => {
+      const existing = fused.get(hit.recipe.id);
+      const rrf = 1 / (rrfK + index + 1);
+      fused.set(hit.recipe.id, existing
+        ? { ...existing, lexical_score: hit.lexical_score, rrf_score: (existing.rrf_score ?? 0) + rrf }
+        : { ...hit, rrf_score: rrf });
+    });
+
+    return [...fused.values()]
+      .map(hit => ({ ...hit, similarity_score: hit.vector_score ?? hit.lexical_score ?? 0 }))
+      .sort((a, b) => (b.rrf_score ?? 0) - (a.rrf_score ?? 0) || (b.vector_score ?? -1) - (a.vector_score ?? -1))
+      .slice(0, matchCount);
+  }
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Database, Json } from '../lib/database.types';
+import { CookingEvent, PantryChange } from '../types';
+
+type CookingEventRow = Database['public']['Tables']['cooking_events']['Row'];
+
+const toCookingEvent = (row: CookingEventRow): CookingEvent => ({
+  ...row,
+  changes: (row.changes as unknown as PantryChange[]) || [],
+});
+
+export function useCookingEvents(userId: string | undefined) {
+  const [cookingEvents, setCookingEvents] = useState<CookingEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCookingEvents = async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('cooking_events')
+        .select('*')
+        .eq('user_id', userId)
+        .is('reverted_at', null)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      setCookingEvents((data || []).map(toCookingEvent));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const recordCookingEvent = async (
+    event: Omit<CookingEvent, 'id' | 'user_id' | 'reverted_at' | 'created_at'>
+  ): Promise<CookingEvent | undefined> => {
+    if (!userId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('cooking_events')
+        .insert({
+          ...event,
+          changes: event.changes as unknown as Json,
+          user_id: userId,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      const cookingEvent = toCookingEvent(data);
+      setCookingEvents(prev => [cookingEvent, ...prev]);
+      return cookingEvent;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record cooking event');
+      throw err;
+    }
+  };
+
+  const markCookingEventReverted = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('cooking_events')
+        .update({ reverted_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+      setCookingEvents(prev => prev.filter(event => event.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revert cooking event');
+      throw err;
+    }
+  };
+
+  const findCookingEvent = (recipeId: string, mealDate: string): CookingEvent | undefined => {
+    return cookingEvents.find(event => event.recipe_id === recipeId && event.meal_date === mealDate);
+  };
+
+  useEffect(() => {
+    fetchCookingEvents();
+  }, [userId]);
+
+  return {
+    cookingEvents,
+    loading,
+    error,
+    recordCookingEvent,
+    markCookingEventReverted,
+    findCookingEvent,
+    refetch: fetchCookingEvents,
+  };
+}
@@ -70,6 +70,35 @@ export function useIngredients(userId: string | undefined) {
     }
   };
 
+  /**
+   * Set the stock of several pantry items at once, e.g. after cooking a meal
+   */
+  const setIngredientQuantities = async (updates: { id: string; quantity: number }[]) => {
+    try {
+      const results = await Promise.all(
+        updates.map(async ({ id, quantity }) => {
+          const { data, error } = await supabase
+            .from('ingredients')
+            .update({ quantity, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .select()
+            .single();
+
+          if (error) throw error;
+          return data;
+        })
+      );
+
+      setIngredients(prev =>
+        prev.map(ing => results.find(updated => updated.id === ing.id) || ing)
+      );
+      return results;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update ingredients');
+      throw err;
+    }
+  };
+
   const deleteIngredient = async (id: string) => {
     try {
       const { error } = await supabase
@@ -95,6 +124,7 @@ export function useIngredients(userId: string | undefined) {
     error,
     addIngredient,
     updateIngredient,
+    setIngredientQuantities,
     deleteIngredient,
     refetch: fetchIngredients,
   };
@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { DEFAULT_EXPIRY_WINDOW_DAYS } from '../lib/expiry';
+import { NotificationSettings } from '../types';
+
+type NotificationSettingsUpdate = Database['public']['Tables']['notification_settings']['Update'];
+
+/** Matches the column defaults, used until the user saves their own settings */
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  expiry_digest_enabled: true,
+  expiry_window_days: DEFAULT_EXPIRY_WINDOW_DAYS,
+  digest_frequency: 'daily',
+  email_enabled: false,
+  last_digest_at: null,
+};
+
+export function useNotificationSettings(userId: string | undefined) {
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSettings = async () => {
+    if (!userId) {
+      setSettings(DEFAULT_NOTIFICATION_SETTINGS);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('notification_settings')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      // No row yet means the user still has the defaults
+      setSettings(data || DEFAULT_NOTIFICATION_SETTINGS);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSettings = async (updates: Omit<NotificationSettingsUpdate, 'user_id'>) => {
+    if (!userId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('notification_settings')
+        .upsert({ ...updates, user_id: userId }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setSettings(data);
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update notification settings');
+      throw err;
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+  }, [userId]);
+
+  return {
+    settings,
+    loading,
+    error,
+    updateSettings,
+    refetch: fetchSettings,
+  };
+}
@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { AppNotification } from '../types';
+
+const NOTIFICATION_LIMIT = 20;
+
+export function useNotifications(userId: string | undefined) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNotifications = async () => {
+    if (!userId) {
+      setNotifications([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+      setNotifications((data || []) as AppNotification[]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const markAsRead = async (ids: string[]) => {
+    if (!userId || ids.length === 0) return;
+
+    try {
+      const readAt = new Date().toISOString();
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: readAt })
+        .in('id', ids);
+
+      if (error) throw error;
+      setNotifications(prev => prev.map(notification =>
+        ids.includes(notification.id) ? { ...notification, read_at: readAt } : notification
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update notifications');
+      throw err;
+    }
+  };
+
+  const unreadNotifications = notifications.filter(notification => !notification.read_at);
+
+  const markAllAsRead = async () => {
+    return markAsRead(unreadNotifications.map(notification => notification.id));
+  };
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [userId]);
+
+  return {
+    notifications,
+    unreadNotifications,
+    unreadCount: unreadNotifications.length,
+    loading,
+    error,
+    markAsRead,
+    markAllAsRead,
+    refetch: fetchNotifications,
+  };
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
+import { recommendationCache } from '../lib/searchCache';
 
 type Recipe = Database['public']['Tables']['recipes']['Row'] & {
   recipe_ingredients: Database['public']['Tables']['recipe_ingredients']['Row'][];
@@ -9,6 +10,16 @@ type RecipeInsert = Database['public']['Tables']['recipes']['Insert'];
 type RecipeUpdate = Database['public']['Tables']['recipes']['Update'];
 type RecipeIngredientInsert = Database['public']['Tables']['recipe_ingredients']['Insert'];
 
+// Embed saved recipes for semantic search right away; the scheduled sync
+// catches up on anything this misses. Cached recommendations may include
+// the old version of the recipe.
+const requestRecipeEmbedding = () => {
+  recommendationCache.clear();
+  supabase.functions
+    .invoke('sync-embeddings', { body: { action: 'user-recipes' } })
+    .catch(err => console.warn('Could not request recipe embedding:', err));
+};
+
 export function useRecipes(userId: string | undefined) {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [loading, setLoading] = useState(true);
@@ -123,6 +134,7 @@ export function useRecipes(userId: string | undefined) {
         const filtered = prev.filter(r => r.id !== completeRecipe.id);
         return [completeRecipe, ...filtered];
       });
+      requestRecipeEmbedding();
       
       return completeRecipe;
     } catch (err) {
@@ -186,6 +198,7 @@ export function useRecipes(userId: string | undefined) {
       setRecipes(prev => 
         prev.map(recipe => recipe.id === id ? completeRecipe : recipe)
       );
+      requestRecipeEmbedding();
       
       return completeRecipe;
     } catch (err) {
@@ -205,6 +218,7 @@ export function useRecipes(userId: string | undefined) {
       
       // Remove from state
       setRecipes(prev => prev.filter(recipe => recipe.id !== id));
+      recommendationCache.clear();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete recipe');
       throw err;
@@ -0,0 +1,220 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Database } from '../lib/database.types';
+import { ShoppingItem, ShoppingList, ShoppingListItem } from '../types';
+
+type ShoppingListRow = Database['public']['Tables']['shopping_lists']['Row'];
+type ShoppingListItemUpdate = Database['public']['Tables']['shopping_list_items']['Update'];
+
+const SHOPPING_LIST_SELECT = '*, items:shopping_list_items(*)';
+
+const sortItems = (items: ShoppingListItem[]) =>
+  [...items].sort((a, b) => a.position - b.position);
+
+const toShoppingList = (row: ShoppingListRow & { items?: ShoppingListItem[] | null }): ShoppingList => ({
+  ...row,
+  items: sortItems(row.items || []),
+});
+
+export function useShoppingLists(userId: string | undefined) {
+  const [shoppingLists, setShoppingLists] = useState<ShoppingList[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchShoppingLists = async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('shopping_lists')
+        .select(SHOPPING_LIST_SELECT)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setShoppingLists((data || []).map(toShoppingList));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const replaceList = (listId: string, update: (list: ShoppingList) => ShoppingList) => {
+    setShoppingLists(prev => prev.map(list => list.id === listId ? update(list) : list));
+  };
+
+  /**
+   * Save a generated list. Items already covered by the pantry are left out.
+   */
+  const createShoppingList = async (
+    name: string,
+    items: ShoppingItem[],
+    weeklyPlanIds: string[] = []
+  ): Promise<ShoppingList | undefined> => {
+    if (!userId) return;
+
+    try {
+      const { data: list, error: listError } = await supabase
+        .from('shopping_lists')
+        .insert({ user_id: userId, name, weekly_plan_ids: weeklyPlanIds })
+        .select()
+        .single();
+
+      if (listError) throw listError;
+
+      const rows = items
+        .filter(item => item.needed)
+        .map((item, position) => ({
+          shopping_list_id: list.id,
+          name: item.name,
+          quantity: item.quantity,
+          unit: item.unit,
+          category: item.category,
+          position,
+        }));
+
+      let savedItems: ShoppingListItem[] = [];
+      if (rows.length > 0) {
+        const { data, error: itemsError } = await supabase
+          .from('shopping_list_items')
+          .insert(rows)
+          .select();
+
+        if (itemsError) throw itemsError;
+        savedItems = data || [];
+      }
+
+      const shoppingList = toShoppingList({ ...list, items: savedItems });
+      setShoppingLists(prev => [shoppingList, ...prev]);
+      return shoppingList;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save shopping list');
+      throw err;
+    }
+  };
+
+  const addShoppingListItem = async (
+    listId: string,
+    item: { name: string; quantity: number; unit: string; category: string }
+  ) => {
+    try {
+      const list = shoppingLists.find(candidate => candidate.id === listId);
+      const position = list ? Math.max(-1, ...list.items.map(existing => existing.position)) + 1 : 0;
+
+      const { data, error } = await supabase
+        .from('shopping_list_items')
+        .insert({ ...item, shopping_list_id: listId, is_manual: true, position })
+        .select()
+        .single();
+
+      if (error) throw error;
+      replaceList(listId, current => ({ ...current, items: sortItems([...current.items, data]) }));
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add shopping list item');
+      throw err;
+    }
+  };
+
+  const updateShoppingListItem = async (listId: string, itemId: string, updates: ShoppingListItemUpdate) => {
+    try {
+      const { data, error } = await supabase
+        .from('shopping_list_items')
+        .update(updates)
+        .eq('id', itemId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      replaceList(listId, current => ({
+        ...current,
+        items: current.items.map(item => item.id === itemId ? data : item),
+      }));
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update shopping list item');
+      throw err;
+    }
+  };
+
+  const deleteShoppingListItem = async (listId: string, itemId: string) => {
+    try {
+      const { error } = await supabase
+        .from('shopping_list_items')
+        .delete()
+        .eq('id', itemId);
+
+      if (error) throw error;
+      replaceList(listId, current => ({
+        ...current,
+        items: current.items.filter(item => item.id !== itemId),
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete shopping list item');
+      throw err;
+    }
+  };
+
+  /**
+   * Record that bought items were moved into the pantry so they are not added twice
+   */
+  const markItemsAddedToPantry = async (listId: string, itemIds: string[]) => {
+    if (itemIds.length === 0) return;
+
+    try {
+      const addedAt = new Date().toISOString();
+      const { error } = await supabase
+        .from('shopping_list_items')
+        .update({ added_to_pantry_at: addedAt })
+        .in('id', itemIds);
+
+      if (error) throw error;
+      replaceList(listId, current => ({
+        ...current,
+        items: current.items.map(item =>
+          itemIds.includes(item.id) ? { ...item, added_to_pantry_at: addedAt } : item
+        ),
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update shopping list items');
+      throw err;
+    }
+  };
+
+  const deleteShoppingList = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('shopping_lists')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      setShoppingLists(prev => prev.filter(list => list.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete shopping list');
+      throw err;
+    }
+  };
+
+  useEffect(() => {
+    fetchShoppingLists();
+  }, [userId]);
+
+  return {
+    shoppingLists,
+    loading,
+    error,
+    createShoppingList,
+    addShoppingListItem,
+    updateShoppingListItem,
+    deleteShoppingListItem,
+    markItemsAddedToPantry,
+    deleteShoppingList,
+    refetch: fetchShoppingLists,
+  };
+}
@@ -1,12 +1,97 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Database } from '../lib/database.types';
-import { WeeklyPlan, DailyMeals, Recipe } from '../types';
+import { Database, Json } from '../lib/database.types';
+import { getRecipeSource, isUuid, toRecipeSnapshot } from '../lib/recipeSource';
+import { WeeklyPlan, DailyMeals, MealSlot, PlannedMeal, Recipe } from '../types';
 
-type WeeklyPlanRow = Database['public']['Tables']['weekly_plans']['Row'];
-type WeeklyPlanInsert = Database['public']['Tables']['weekly_plans']['Insert'];
 type DailyMealRow = Database['public']['Tables']['daily_meals']['Row'];
 type DailyMealInsert = Database['public']['Tables']['daily_meals']['Insert'];
+type PlannedMealRow = Database['public']['Tables']['planned_meals']['Row'];
+type PlannedMealInsert = Database['public']['Tables']['planned_meals']['Insert'];
+
+type DailyMealWithMeals = DailyMealRow & {
+  planned_meals: (PlannedMealRow & { recipe: Recipe | null })[] | null;
+};
+
+// Weekly plan with its days, the meals planned for each day and their recipes
+const WEEKLY_PLAN_SELECT = `
+  *,
+  daily_meals (
+    *,
+    planned_meals (
+      *,
+      recipe:recipes (*,
+        recipe_ingredients (*)
+      )
+    )
+  )
+`;
+
+/**
+ * Turn joined daily_meals/planned_meals rows back into the days the user
+ * arranged, with meals in their saved order. Dataset and AI meals are
+ * restored from their snapshot. The user's own meals whose recipe was
+ * deleted are restored from the snapshot taken on delete and flagged with
+ * `recipe_deleted`.
+ */
+const toDailyMeals = (rows: DailyMealWithMeals[] | null): DailyMeals[] =>
+  (rows || [])
+    .slice()
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(row => ({
+      date: row.date,
+      meals: (row.planned_meals || [])
+        .slice()
+        .sort((a, b) => a.position - b.position)
+        .flatMap((meal): PlannedMeal[] => {
+          const snapshot = meal.recipe_snapshot as unknown as Recipe | null;
+          const recipeDeleted = meal.recipe_source === 'user' && !meal.recipe;
+          const recipe = meal.recipe_source === 'user' ? meal.recipe || snapshot : snapshot;
+          if (!recipe) return [];
+
+          return [{
+            id: meal.id,
+            recipe,
+            source: meal.recipe_source,
+            slot: meal.slot as MealSlot,
+            slot_label: meal.slot_label,
+            servings: meal.servings,
+            notes: meal.notes,
+            locked: meal.locked,
+            recipe_deleted: recipeDeleted || undefined,
+          }];
+        }),
+    }));
+
+/**
+ * Row for one planned meal. The user's own recipes are referenced by id,
+ * anything else is stored as a snapshot so it survives a reload. A user
+ * meal whose recipe was deleted keeps only its snapshot.
+ */
+const toPlannedMealInsert = (
+  meal: PlannedMeal,
+  dailyMealId: string,
+  position: number,
+  userId: string
+): PlannedMealInsert => {
+  const source = getRecipeSource(meal.recipe, userId);
+
+  return {
+    daily_meal_id: dailyMealId,
+    recipe_source: source,
+    recipe_id: source === 'user' && !meal.recipe_deleted ? meal.recipe.id : null,
+    dataset_recipe_id: source === 'dataset' && isUuid(meal.recipe.id) ? meal.recipe.id : null,
+    recipe_snapshot: source === 'user' && !meal.recipe_deleted
+      ? null
+      : (toRecipeSnapshot(meal.recipe) as unknown as Json),
+    slot: meal.slot,
+    slot_label: meal.slot_label || null,
+    position,
+    servings: meal.servings || null,
+    notes: meal.notes || null,
+    locked: !!meal.locked,
+  };
+};
 
 export function useWeeklyPlans(userId: string | undefined) {
   const [weeklyPlans, setWeeklyPlans] = useState<WeeklyPlan[]>([]);
@@ -25,21 +110,7 @@ export function useWeeklyPlans(userId: string | undefined) {
       // Fetch weekly plans with daily meals and recipe details
       const { data, error } = await supabase
         .from('weekly_plans')
-        .select(`
-          *,
-          daily_meals (
-            *,
-            breakfast_recipe:recipes!breakfast_recipe_id (*,
-              recipe_ingredients (*)
-            ),
-            lunch_recipe:recipes!lunch_recipe_id (*,
-              recipe_ingredients (*)
-            ),
-            dinner_recipe:recipes!dinner_recipe_id (*,
-              recipe_ingredients (*)
-            )
-          )
-        `)
+        .select(WEEKLY_PLAN_SELECT)
         .eq('user_id', userId)
         .order('created_at', { ascending: false });
 
@@ -48,25 +119,7 @@ export function useWeeklyPlans(userId: string | undefined) {
       // Transform the data to match our WeeklyPlan type
       const transformedPlans: WeeklyPlan[] = (data || []).map(plan => ({
         ...plan,
-        daily_meals: plan.daily_meals?.map((meal: any) => {
-          const dailyMeal: DailyMeals = {
-            date: meal.date,
-            recipes: [], // Initialize recipes array
-          };
-
-          // Convert breakfast/lunch/dinner to recipes array
-          if (meal.breakfast_recipe) {
-            dailyMeal.recipes!.push(meal.breakfast_recipe);
-          }
-          if (meal.lunch_recipe) {
-            dailyMeal.recipes!.push(meal.lunch_recipe);
-          }
-          if (meal.dinner_recipe) {
-            dailyMeal.recipes!.push(meal.dinner_recipe);
-          }
-
-          return dailyMeal;
-        }) || []
+        daily_meals: toDailyMeals(plan.daily_meals as DailyMealWithMeals[]),
       }));
 
       setWeeklyPlans(transformedPlans);
@@ -79,15 +132,6 @@ export function useWeeklyPlans(userId: string | undefined) {
     }
   };
 
-  // Helper function to check if a recipe should be saved to database
-  const isUserRecipe = (recipe: Recipe | null): boolean => {
-    if (!recipe) return false;
-    // Only save recipes that belong to the current user (have valid UUIDs and user_id matches)
-    return recipe.user_id === userId && 
-           typeof recipe.id === 'string' && 
-           recipe.id.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i) !== null;
-  };
-
   const saveWeeklyPlan = async (
     weekStart: string,
     dailyMeals: DailyMeals[],
@@ -109,34 +153,53 @@ export function useWeeklyPlans(userId: string | undefined) {
         .insert({
           week_start: weekStart,
           user_id: userId,
+          people_count: peopleCount,
         })
         .select()
         .single();
 
       if (planError) throw planError;
 
-      // Save daily meals - convert recipes array back to breakfast/lunch/dinner format for database
-      const dailyMealsToInsert: DailyMealInsert[] = dailyMeals.map(meal => {
-        const userRecipes = (meal.recipes || []).filter(recipe => isUserRecipe(recipe));
-        
-        return {
-          weekly_plan_id: planData.id,
-          date: meal.date,
-          breakfast_recipe_id: userRecipes[0]?.id || null,
-          lunch_recipe_id: userRecipes[1]?.id || null,
-          dinner_recipe_id: userRecipes[2]?.id || null,
-        };
-      });
+      // Save one row per day, then the meals of each day with their slot and order
+      const dailyMealsToInsert: DailyMealInsert[] = dailyMeals.map(meal => ({
+        weekly_plan_id: planData.id,
+        date: meal.date,
+      }));
 
-      const { error: mealsError } = await supabase
+      const { data: dailyMealRows, error: mealsError } = await supabase
         .from('daily_meals')
-        .insert(dailyMealsToInsert);
+        .insert(dailyMealsToInsert)
+        .select();
 
       if (mealsError) throw mealsError;
 
+      const dailyMealIds = new Map((dailyMealRows || []).map(row => [row.date, row.id]));
+      const plannedMealsToInsert: PlannedMealInsert[] = dailyMeals.flatMap(day => {
+        const dailyMealId = dailyMealIds.get(day.date);
+        if (!dailyMealId) return [];
+
+        return (day.meals || []).map((meal, position) =>
+          toPlannedMealInsert(meal, dailyMealId, position, userId)
+        );
+      });
+
+      if (plannedMealsToInsert.length > 0) {
+        const { error: plannedMealsError } = await supabase
+          .from('planned_meals')
+          .insert(plannedMealsToInsert);
+
+        if (plannedMealsError) throw plannedMealsError;
+      }
+
       const savedPlan: WeeklyPlan = {
         ...planData,
-        daily_meals: dailyMeals,
+        daily_meals: dailyMeals.map(day => ({
+          ...day,
+          meals: (day.meals || []).map(meal => ({
+            ...meal,
+            source: getRecipeSource(meal.recipe, userId),
+          })),
+        })),
       };
 
       // Update local state
@@ -151,55 +214,20 @@ export function useWeeklyPlans(userId: string | undefined) {
     }
   };
 
-  const loadWeeklyPlan = async (planId: string, recipes: Recipe[]): Promise<WeeklyPlan | null> => {
+  const loadWeeklyPlan = async (planId: string): Promise<WeeklyPlan | null> => {
     try {
       const { data, error } = await supabase
         .from('weekly_plans')
-        .select(`
-          *,
-          daily_meals (
-            *,
-            breakfast_recipe:recipes!breakfast_recipe_id (*,
-              recipe_ingredients (*)
-            ),
-            lunch_recipe:recipes!lunch_recipe_id (*,
-              recipe_ingredients (*)
-            ),
-            dinner_recipe:recipes!dinner_recipe_id (*,
-              recipe_ingredients (*)
-            )
-          )
-        `)
+        .select(WEEKLY_PLAN_SELECT)
         .eq('id', planId)
         .single();
 
       if (error) throw error;
       if (!data) return null;
 
-      // Transform daily meals and populate with actual recipe objects
-      const dailyMeals: DailyMeals[] = (data.daily_meals || []).map((meal: any) => {
-        const dailyMeal: DailyMeals = {
-          date: meal.date,
-          recipes: [],
-        };
-
-        // Convert breakfast/lunch/dinner to recipes array
-        if (meal.breakfast_recipe) {
-          dailyMeal.recipes!.push(meal.breakfast_recipe);
-        }
-        if (meal.lunch_recipe) {
-          dailyMeal.recipes!.push(meal.lunch_recipe);
-        }
-        if (meal.dinner_recipe) {
-          dailyMeal.recipes!.push(meal.dinner_recipe);
-        }
-
-        return dailyMeal;
-      });
-
       return {
         ...data,
-        daily_meals: dailyMeals,
+        daily_meals: toDailyMeals(data.daily_meals as DailyMealWithMeals[]),
       };
     } catch (err) {
       console.error('Error loading weekly plan:', err);
@@ -0,0 +1,147 @@
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '../lib/database.types';
+import {
+  RECIPE_METADATA_VERSION,
+  applyRecipeMetadataHints,
+  deriveRecipeMetadata,
+  toMetadataInsert,
+} from '../lib/recipeMetadata';
+import GeminiService from '../services/geminiService';
+
+/**
+ * Store the parsed metadata of community recipes in
+ * `dataset_recipe_metadata`: `npm run backfill-metadata -- [options]`
+ *
+ *   --batch-size <n>   Recipes per database round trip (default 200)
+ *   --ai               Let Gemini refine times, difficulty, cuisine and meal
+ *                      type (needs GOOGLE_AI_API_KEY)
+ *   --force            Redo recipes whose metadata is already current
+ *
+ * Needs SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY.
+ * Runs in Node rather than as an edge function because the parsing is the
+ * app's own code. Safe to stop and run again: only recipes without current
+ * metadata are done, unless --force is given.
+ */
+
+interface BackfillOptions {
+  batchSize: number;
+  ai: boolean;
+  force: boolean;
+}
+
+// Recipes per Gemini request
+const AI_BATCH_SIZE = 10;
+// Ids per `.in()` filter; whole batches would overflow the request URL
+const LOOKUP_SIZE = 100;
+
+function parseArgs(args: string[]): BackfillOptions {
+  const options: BackfillOptions = { batchSize: 200, ai: false, force: false };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--batch-size': options.batchSize = Number(args[++i]); break;
+      case '--ai': options.ai = true; break;
+      case '--force': options.force = true; break;
+      default: throw new Error(`Unknown option ${args[i]}`);
+    }
+  }
+
+  if (!Number.isInteger(options.batchSize) || options.batchSize < 1 || options.batchSize > 1000) {
+    throw new Error('--batch-size must be an integer between 1 and 1000');
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  }
+  const supabase = createClient<Database>(supabaseUrl, serviceKey, { auth: { persistSession: false } });
+
+  let gemini: GeminiService | null = null;
+  if (options.ai) {
+    const apiKey = process.env.GOOGLE_AI_API_KEY;
+    if (!apiKey) throw new Error('--ai needs GOOGLE_AI_API_KEY');
+    gemini = new GeminiService(apiKey);
+  }
+
+  const totals = { scanned: 0, stored: 0, current: 0, aiRefined: 0 };
+  let cursor: string | null = null;
+
+  while (true) {
+    let query = supabase
+      .from('dataset_recipes')
+      .select('id, title, ingredients, steps')
+      .is('user_id', null)
+      .order('id')
+      .limit(options.batchSize);
+    if (cursor) query = query.gt('id', cursor);
+
+    const { data: recipes, error } = await query;
+    if (error) throw new Error(`Could not read recipes: ${error.message}`);
+    if (!recipes || recipes.length === 0) break;
+
+    totals.scanned += recipes.length;
+    cursor = recipes[recipes.length - 1].id;
+
+    let pending = recipes;
+    if (!options.force) {
+      const ids = recipes.map(recipe => recipe.id);
+      const currentIds = new Set<string>();
+
+      for (let i = 0; i < ids.length; i += LOOKUP_SIZE) {
+        const { data: current, error: currentError } = await supabase
+          .from('dataset_recipe_metadata')
+          .select('recipe_id')
+          .in('recipe_id', ids.slice(i, i + LOOKUP_SIZE))
+          .eq('version', RECIPE_METADATA_VERSION);
+        if (currentError) throw new Error(`Could not read metadata: ${currentError.message}`);
+
+        (current || []).forEach(row => currentIds.add(row.recipe_id));
+      }
+
+      pending = recipes.filter(recipe => !currentIds.has(recipe.id));
+      totals.current += recipes.length - pending.length;
+    }
+
+    if (pending.length > 0) {
+      const metadata = new Map(pending.map(recipe => [recipe.id, deriveRecipeMetadata(recipe)]));
+
+      if (gemini) {
+        for (let i = 0; i < pending.length; i += AI_BATCH_SIZE) {
+          const estimates = await gemini.estimateRecipeMetadata(pending.slice(i, i + AI_BATCH_SIZE));
+          Object.entries(estimates).forEach(([id, hints]) => {
+            const derived = metadata.get(id);
+            if (!derived) return;
+            const refined = applyRecipeMetadataHints(derived, hints);
+            if (refined.source === 'ai') totals.aiRefined++;
+            metadata.set(id, refined);
+          });
+        }
+      }
+
+      const { error: upsertError } = await supabase
+        .from('dataset_recipe_metadata')
+        .upsert([...metadata].map(([id, recipeMetadata]) => toMetadataInsert(id, recipeMetadata)), {
+          onConflict: 'recipe_id',
+        });
+      if (upsertError) throw new Error(`Could not store metadata: ${upsertError.message}`);
+      totals.stored += pending.length;
+    }
+
+    console.log(`Scanned ${totals.scanned} recipes, stored metadata for ${totals.stored}`);
+    if (recipes.length < options.batchSize) break;
+  }
+
+  console.table(totals);
+}
+
+main().catch(error => {
+  console.error('Metadata backfill failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,208 @@
+import { createReadStream } from 'node:fs';
+import { formatCsvRow, parseCsv } from '../../supabase/functions/_shared/csv.ts';
+
+/**
+ * Upload a recipe file to the `ingest-recipes` function in chunks:
+ * `npm run ingest -- <file> [options]`
+ *
+ *   --format <csv|jsonl>    File format (default: from the file extension)
+ *   --chunk-size <n>        Recipes per upload (default 1000)
+ *   --backfill              Instead of uploading, key the recipes stored
+ *                           before ingestion existed
+ *
+ * Needs SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY.
+ * CSV chunks each repeat the header row, so every upload stands on its own.
+ */
+
+interface UploadOptions {
+  file?: string;
+  format?: 'csv' | 'jsonl';
+  chunkSize: number;
+  backfill: boolean;
+}
+
+interface IngestReport {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  skippedReasons: { invalid: number; duplicate: number; unchanged: number };
+  problems: { line: number; problem: string }[];
+  embeddingsQueued: number;
+}
+
+interface BackfillResult {
+  processed: number;
+  keyed: number;
+  duplicates: number;
+  nextCursor: string | null;
+}
+
+function parseArgs(args: string[]): UploadOptions {
+  const options: UploadOptions = { chunkSize: 1000, backfill: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const next = () => {
+      const value = args[++i];
+      if (value === undefined) throw new Error(`Missing value for ${args[i - 1]}`);
+      return value;
+    };
+
+    switch (args[i]) {
+      case '--format': {
+        const format = next();
+        if (format !== 'csv' && format !== 'jsonl') throw new Error('--format must be csv or jsonl');
+        options.format = format;
+        break;
+      }
+      case '--chunk-size': options.chunkSize = Number(next()); break;
+      case '--backfill': options.backfill = true; break;
+      default:
+        if (args[i].startsWith('--') || options.file) throw new Error(`Unknown option ${args[i]}`);
+        options.file = args[i];
+    }
+  }
+
+  if (!Number.isInteger(options.chunkSize) || options.chunkSize < 1) {
+    throw new Error('--chunk-size must be a positive integer');
+  }
+  if (!options.backfill && !options.file) {
+    throw new Error('Usage: npm run ingest -- <file> [--format csv|jsonl] [--chunk-size n]');
+  }
+
+  return options;
+}
+
+/**
+ * Whole-record chunks of the file, each valid on its own. CSV records with
+ * broken quoting are left out and listed in `problems`, as the re-written
+ * chunk would hide them from the function.
+ */
+async function* readChunks(
+  file: string,
+  format: 'csv' | 'jsonl',
+  chunkSize: number,
+  problems: string[]
+): AsyncGenerator<string> {
+  const stream = createReadStream(file, { encoding: 'utf8' }) as AsyncIterable<string>;
+  let lines: string[] = [];
+
+  if (format === 'csv') {
+    let header: string | null = null;
+    for await (const record of parseCsv(stream)) {
+      if (record.problem) {
+        problems.push(`line ${record.line}: ${record.problem}`);
+        continue;
+      }
+
+      const row = formatCsvRow(record.fields);
+      if (header === null) {
+        header = row;
+        continue;
+      }
+      lines.push(row);
+      if (lines.length >= chunkSize) {
+        yield [header, ...lines].join('\n');
+        lines = [];
+      }
+    }
+    if (lines.length > 0 && header !== null) yield [header, ...lines].join('\n');
+    return;
+  }
+
+  let buffer = '';
+  for await (const text of stream) {
+    buffer += text;
+    const complete = buffer.split(/\r?\n/);
+    buffer = complete.pop() ?? '';
+    lines.push(...complete.filter(line => line.trim()));
+    while (lines.length >= chunkSize) {
+      yield lines.splice(0, chunkSize).join('\n');
+    }
+  }
+  if (buffer.trim()) lines.push(buffer);
+  if (lines.length > 0) yield lines.join('\n');
+}
+
+async function callFunction<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceKey) {
+    throw new Error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/ingest-recipes${path}`, {
+    ...init,
+    method: 'POST',
+    headers: { ...init.headers, Authorization: `Bearer ${serviceKey}` },
+  });
+  const body = await response.json().catch(() => ({})) as T & { success?: boolean; error?: string };
+  if (!response.ok || !body.success) {
+    throw new Error(body.error || `ingest-recipes answered ${response.status}`);
+  }
+  return body;
+}
+
+async function backfill() {
+  let cursor: string | null = null;
+  const totals = { processed: 0, keyed: 0, duplicates: 0 };
+
+  do {
+    const result: BackfillResult = await callFunction<BackfillResult>(
+      `?action=backfill${cursor ? `&cursor=${cursor}` : ''}`
+    );
+    totals.processed += result.processed;
+    totals.keyed += result.keyed;
+    totals.duplicates += result.duplicates;
+    cursor = result.nextCursor;
+    console.log(`Backfilled ${totals.processed} recipes so far`);
+  } while (cursor);
+
+  console.table(totals);
+}
+
+async function upload(options: UploadOptions) {
+  const file = options.file!;
+  const format = options.format || (file.endsWith('.csv') ? 'csv' : 'jsonl');
+  const totals = { inserted: 0, updated: 0, skipped: 0, invalid: 0, duplicate: 0, unchanged: 0, embeddingsQueued: 0 };
+  const problems: string[] = [];
+  let chunkNumber = 0;
+
+  for await (const chunk of readChunks(file, format, options.chunkSize, problems)) {
+    chunkNumber++;
+    const report = await callFunction<IngestReport>(`?format=${format}`, {
+      body: chunk,
+      headers: { 'Content-Type': format === 'csv' ? 'text/csv' : 'application/x-ndjson' },
+    });
+
+    totals.inserted += report.inserted;
+    totals.updated += report.updated;
+    totals.skipped += report.skipped;
+    totals.invalid += report.skippedReasons.invalid;
+    totals.duplicate += report.skippedReasons.duplicate;
+    totals.unchanged += report.skippedReasons.unchanged;
+    totals.embeddingsQueued += report.embeddingsQueued;
+    // Line numbers are per chunk
+    problems.push(...report.problems.map(problem => `chunk ${chunkNumber}, line ${problem.line}: ${problem.problem}`));
+
+    console.log(`Chunk ${chunkNumber}: ${report.inserted} inserted, ${report.updated} updated, ${report.skipped} skipped`);
+  }
+
+  console.table(totals);
+  if (problems.length > 0) {
+    console.log(`Invalid rows:\n${problems.slice(0, 50).join('\n')}`);
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.backfill) {
+    await backfill();
+  } else {
+    await upload(options);
+  }
+}
+
+main().catch(error => {
+  console.error('Ingestion failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
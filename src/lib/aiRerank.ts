@@ -0,0 +1,392 @@
+import { ScoreComponent } from './recipeScoring';
+
+/**
+ * Contract for the AI re-ranking step of RAG search: the JSON Gemini has to
+ * answer with, runtime validation of that answer, how AI scores are merged
+ * with vector scores, and a circuit breaker so a flaky model is skipped for
+ * a while instead of for the rest of the session.
+ */
+
+export interface AIRerankedIngredient {
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface AIRerankedRecipe {
+  /** 1-based index into the recipe references sent with the prompt */
+  referenceIndex: number;
+  /** 0..1, how well the recipe fits the user's ingredients or query */
+  score: number;
+  /** Short reasons in Indonesian, at most MAX_REASONS */
+  reasons: string[];
+  // Optional clean-ups of the raw dataset recipe
+  name?: string;
+  description?: string;
+  ingredients?: AIRerankedIngredient[];
+  instructions?: string[];
+  prepTime?: number;
+  cookTime?: number;
+  servings?: number;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  tags?: string[];
+}
+
+export interface AIRerankResponse {
+  recipes: AIRerankedRecipe[];
+}
+
+export class AIResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIResponseError';
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+const MAX_REASONS = 4;
+
+/** Share of the merged score that comes from the AI; the rest is the vector score */
+export const AI_SCORE_WEIGHT = 0.4;
+
+/** Example answer shown to the model, matching what the validator accepts */
+export const AI_RERANK_RESPONSE_EXAMPLE = `\`\`\`json
+{
+  "recipes": [
+    {
+      "referenceIndex": 1,
+      "score": 0.85,
+      "reasons": [
+        "Alasan mengapa resep ini cocok",
+        "Alasan kedua"
+      ],
+      "name": "Nama Resep yang Diperbaiki",
+      "description": "Deskripsi singkat yang menarik",
+      "ingredients": [
+        {
+          "name": "nama bahan",
+          "quantity": 1,
+          "unit": "satuan"
+        }
+      ],
+      "instructions": [
+        "Langkah 1 yang jelas",
+        "Langkah 2 yang jelas"
+      ],
+      "prepTime": 15,
+      "cookTime": 30,
+      "servings": 4,
+      "difficulty": "easy",
+      "tags": ["tag1", "tag2"]
+    }
+  ]
+}
+\`\`\``;
+
+/** What the prompts show of each recipe the AI is asked about */
+export interface RerankReference {
+  title: string;
+  ingredients: string;
+  steps: string;
+  loves_count: number;
+  similarity_score?: number;
+}
+
+const AI_RERANK_INSTRUCTIONS = `Berikan respon dalam format JSON yang valid dengan struktur berikut, satu entri untuk setiap resep referensi:
+
+${AI_RERANK_RESPONSE_EXAMPLE}
+
+PENTING - ATURAN JSON YANG KETAT:
+1. "referenceIndex" adalah nomor resep referensi, setiap nomor hanya sekali
+2. "score" adalah angka 0 sampai 1, seberapa cocok resep tersebut
+3. "reasons" berisi 1-4 alasan singkat dalam bahasa Indonesia
+4. Field lain boleh dihilangkan jika tidak yakin
+5. TIDAK ADA komentar dalam output JSON (tidak boleh ada // atau /* */)
+6. Semua string dalam tanda kutip ganda, semua angka tanpa tanda kutip
+7. Tidak ada koma trailing
+8. Hanya output JSON murni tanpa teks tambahan
+9. Jika bahan yang diperlukan hanya secukupnya, gunakan "secukupnya" sebagai unit dan 1 untuk quantity`;
+
+
+function formatReferences(references: RerankReference[]): string {
+  return references.map((reference, index) => `
+${index + 1}. ${reference.title} (${reference.loves_count} likes, ${Math.round((reference.similarity_score ?? 0) * 100)}% similarity)
+   Bahan: ${reference.ingredients.substring(0, 200)}...
+   Langkah: ${reference.steps.substring(0, 200)}...
+`).join('\n');
+}
+
+/**
+ * Prompt asking the AI to score `references` against the user's ingredients
+ */
+export function buildIngredientRerankPrompt(ingredientList: string, references: RerankReference[]): string {
+  return `
+Saya memiliki bahan-bahan berikut: ${ingredientList}
+
+Berikut hasil pencarian vektor dari database resep. Nilai SETIAP resep referensi berdasarkan seberapa cocok dengan bahan saya.
+
+REFERENSI RESEP DARI DATABASE:
+${formatReferences(references)}
+
+${AI_RERANK_INSTRUCTIONS}
+
+Pastikan:
+1. "score" tinggi untuk resep yang paling banyak memakai bahan yang tersedia
+2. "reasons" menyebutkan bahan saya yang dipakai resep tersebut
+3. Perbaiki nama resep agar lebih menarik dan jelas
+4. Parsing bahan dengan benar dari teks mentah ke format terstruktur
+5. Buat instruksi yang jelas dan mudah diikuti dari langkah mentah
+6. Estimasi waktu dan tingkat kesulitan yang realistis
+`;
+}
+
+/**
+ * Prompt asking the AI to score `references` against a search query
+ */
+export function buildQueryRerankPrompt(query: string, references: RerankReference[]): string {
+  return `
+Berdasarkan pencarian "${query}", nilai SETIAP resep referensi berikut berdasarkan relevansinya dengan pencarian tersebut.
+
+REFERENSI RESEP:
+${formatReferences(references)}
+
+${AI_RERANK_INSTRUCTIONS}
+
+Pastikan "reasons" menjelaskan mengapa resep relevan dengan pencarian "${query}".
+`;
+}
+
+/**
+ * The JSON object in a model answer, from a ```json block or the outermost
+ * braces, with the comments and trailing commas models like to add removed
+ */
+function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  let jsonString = fenced?.[1] ?? (start >= 0 && end > start ? text.slice(start, end + 1) : null);
+
+  if (!jsonString) {
+    throw new AIResponseError('No JSON object in AI response');
+  }
+
+  jsonString = jsonString
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/^\s*\/\/.*$/gm, '')
+    .replace(/,(\s*[}\]])/g, '$1');
+
+  try {
+    return JSON.parse(jsonString);
+  } catch (error) {
+    throw new AIResponseError(`AI response is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const toStringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim())
+    : undefined;
+
+function validateIngredients(value: unknown): AIRerankedIngredient[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+
+  return value
+    .filter(isRecord)
+    .filter(ing => typeof ing.name === 'string' && ing.name.trim().length > 0)
+    .map(ing => ({
+      name: (ing.name as string).trim(),
+      quantity: isPositiveNumber(ing.quantity) ? ing.quantity : 1,
+      unit: typeof ing.unit === 'string' && ing.unit.trim() ? ing.unit.trim() : 'secukupnya',
+    }));
+}
+
+/**
+ * Check one entry. `referenceIndex`, `score` and `reasons` are required and
+ * make the whole answer invalid when wrong; optional fields of the wrong type
+ * are dropped so a cosmetic slip does not cost a retry.
+ */
+function validateRecipe(value: unknown, position: number, referenceCount: number): AIRerankedRecipe {
+  const path = `recipes[${position}]`;
+  if (!isRecord(value)) {
+    throw new AIResponseError(`${path} is not an object`);
+  }
+
+  const { referenceIndex, score } = value;
+  if (typeof referenceIndex !== 'number' || !Number.isInteger(referenceIndex) || referenceIndex < 1 || referenceIndex > referenceCount) {
+    throw new AIResponseError(`${path}.referenceIndex must be an integer from 1 to ${referenceCount}`);
+  }
+
+  // Models sometimes answer in whole percent; other values above 1 are wrong
+  const isPercent = typeof score === 'number' && Number.isInteger(score) && score > 1 && score <= 100;
+  if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || (score > 1 && !isPercent)) {
+    throw new AIResponseError(`${path}.score must be a number from 0 to 1 or a whole percentage`);
+  }
+
+  const reasons = toStringList(value.reasons);
+  if (!reasons || reasons.length === 0) {
+    throw new AIResponseError(`${path}.reasons must be a non-empty list of strings`);
+  }
+
+  const recipe: AIRerankedRecipe = {
+    referenceIndex,
+    score: isPercent ? score / 100 : score,
+    reasons: reasons.slice(0, MAX_REASONS),
+  };
+
+  if (typeof value.name === 'string' && value.name.trim()) recipe.name = value.name.trim();
+  if (typeof value.description === 'string' && value.description.trim()) recipe.description = value.description.trim();
+
+  const ingredients = validateIngredients(value.ingredients);
+  if (ingredients && ingredients.length > 0) recipe.ingredients = ingredients;
+
+  const instructions = toStringList(value.instructions);
+  if (instructions && instructions.length > 0) recipe.instructions = instructions;
+
+  if (isPositiveNumber(value.prepTime)) recipe.prepTime = Math.round(value.prepTime);
+  if (isPositiveNumber(value.cookTime)) recipe.cookTime = Math.round(value.cookTime);
+  if (isPositiveNumber(value.servings)) recipe.servings = Math.round(value.servings);
+
+  if (value.difficulty === 'easy' || value.difficulty === 'medium' || value.difficulty === 'hard') {
+    recipe.difficulty = value.difficulty;
+  }
+
+  const tags = toStringList(value.tags);
+  if (tags && tags.length > 0) recipe.tags = tags;
+
+  return recipe;
+}
+
+/**
+ * Parse and validate a re-ranking answer for `referenceCount` references.
+ * Throws AIResponseError when the answer does not match the contract.
+ */
+export function parseAIRerankResponse(text: string, referenceCount: number): AIRerankResponse {
+  const parsed = extractJson(text);
+
+  if (!isRecord(parsed) || !Array.isArray(parsed.recipes)) {
+    throw new AIResponseError('AI response must be an object with a "recipes" list');
+  }
+
+  const recipes = parsed.recipes.map((recipe, index) => validateRecipe(recipe, index, referenceCount));
+
+  const seen = new Set<number>();
+  for (const recipe of recipes) {
+    if (seen.has(recipe.referenceIndex)) {
+      throw new AIResponseError(`referenceIndex ${recipe.referenceIndex} appears more than once`);
+    }
+    seen.add(recipe.referenceIndex);
+  }
+
+  if (recipes.length === 0 && referenceCount > 0) {
+    throw new AIResponseError('AI response did not rank any recipe');
+  }
+
+  return { recipes };
+}
+
+/**
+ * Blend the AI's score into a vector-based score, both 0..1
+ */
+export function mergeAIScore(vectorScore: number, aiScore: number, aiWeight: number = AI_SCORE_WEIGHT): number {
+  return Math.round(((1 - aiWeight) * vectorScore + aiWeight * aiScore) * 100) / 100;
+}
+
+/**
+ * `components` of a vector score after `mergeAIScore`: their weights scaled
+ * down to make room for the AI score
+ */
+export function mergeAIScoreComponent(
+  components: ScoreComponent[],
+  aiScore: number,
+  aiWeight: number = AI_SCORE_WEIGHT
+): ScoreComponent[] {
+  return [
+    ...components.map(component => ({ ...component, weight: component.weight * (1 - aiWeight) })),
+    { key: 'ai', value: aiScore, weight: aiWeight },
+  ];
+}
+
+/**
+ * Run `operation` up to `attempts` times, waiting `delayMs`, then twice that,
+ * and so on between attempts
+ */
+export async function withRetries<T>(
+  operation: (attempt: number) => Promise<T>,
+  { attempts, delayMs }: { attempts: number; delayMs: number }
+): Promise<T> {
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      lastError = error;
+      if (attempt < attempts) {
+        await new Promise(resolve => setTimeout(resolve, delayMs * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Stops calling a failing dependency after `failureThreshold` failures in a
+ * row, then lets a single trial call through once `cooldownMs` has passed.
+ * A successful trial closes the circuit again; a failed one restarts the
+ * cooldown. `canRequest` only checks; callers take the trial with
+ * `startRequest` right before calling.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly failureThreshold = 3,
+    private readonly cooldownMs = 60_000,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  canRequest(): boolean {
+    const state = this.state;
+    return state === 'closed' || (state === 'half-open' && !this.trialInFlight);
+  }
+
+  /**
+   * Whether a call may be made now; while half-open, the first caller takes
+   * the trial and everyone else is turned away until it is recorded
+   */
+  startRequest(): boolean {
+    if (!this.canRequest()) return false;
+    if (this.state === 'half-open') this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.trialInFlight = false;
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { canonicalizeIngredient } from './canonicalIngredients';
+
+/**
+ * Store aisles for shopping list items. Items are classified by canonical
+ * ingredient first, then by keywords in their name; a user's own mapping
+ * always wins. Anything still unknown ends up in "lainnya" and can be sent
+ * to Gemini by the caller.
+ */
+
+export type Aisle = 'sayuran' | 'daging' | 'seafood' | 'bumbu_dapur' | 'bahan_kering' | 'susu_telur' | 'lainnya';
+
+/** Order aisles are walked through in the store */
+export const AISLE_ORDER: Aisle[] = ['sayuran', 'daging', 'seafood', 'susu_telur', 'bumbu_dapur', 'bahan_kering', 'lainnya'];
+
+export const AISLE_LABELS: Record<Aisle, string> = {
+  sayuran: 'Sayuran',
+  daging: 'Daging',
+  seafood: 'Seafood',
+  bumbu_dapur: 'Bumbu Dapur',
+  bahan_kering: 'Bahan Kering',
+  susu_telur: 'Susu & Telur',
+  lainnya: 'Lainnya',
+};
+
+/** User mappings from canonical ingredient id to aisle */
+export type AisleOverrides = Record<string, Aisle>;
+
+export type AisleSource = 'override' | 'table' | 'keyword' | 'unknown';
+
+export interface AisleClassification {
+  aisle: Aisle;
+  /** Canonical ingredient id, the key used for overrides */
+  id: string;
+  source: AisleSource;
+}
+
+const AISLE_BY_CANONICAL_ID: Record<string, Aisle> = {
+  // Produce
+  tomat: 'sayuran',
+  wortel: 'sayuran',
+  kol: 'sayuran',
+  bayam: 'sayuran',
+  kangkung: 'sayuran',
+  sawi: 'sayuran',
+  buncis: 'sayuran',
+  kacang_panjang: 'sayuran',
+  terong: 'sayuran',
+  timun: 'sayuran',
+  jagung: 'sayuran',
+  jamur: 'sayuran',
+  brokoli: 'sayuran',
+  labu_siam: 'sayuran',
+  tauge: 'sayuran',
+  kentang: 'sayuran',
+  bawang_bombay: 'sayuran',
+  daun_bawang: 'sayuran',
+  seledri: 'sayuran',
+  kemangi: 'sayuran',
+  cabai: 'sayuran',
+  cabai_rawit: 'sayuran',
+  tahu: 'sayuran',
+  tempe: 'sayuran',
+  jeruk_nipis: 'sayuran',
+  lemon: 'sayuran',
+  pisang: 'sayuran',
+  kelapa: 'sayuran',
+
+  // Meat and poultry
+  ayam: 'daging',
+  daging_sapi: 'daging',
+  kambing: 'daging',
+
+  // Seafood
+  ikan: 'seafood',
+  udang: 'seafood',
+  cumi: 'seafood',
+
+  // Dairy and eggs
+  telur: 'susu_telur',
+  susu: 'susu_telur',
+  keju: 'susu_telur',
+  mentega: 'susu_telur',
+  margarin: 'susu_telur',
+
+  // Spices, aromatics and condiments
+  bawang_merah: 'bumbu_dapur',
+  bawang_putih: 'bumbu_dapur',
+  jahe: 'bumbu_dapur',
+  kunyit: 'bumbu_dapur',
+  lengkuas: 'bumbu_dapur',
+  serai: 'bumbu_dapur',
+  kemiri: 'bumbu_dapur',
+  ketumbar: 'bumbu_dapur',
+  merica: 'bumbu_dapur',
+  daun_salam: 'bumbu_dapur',
+  daun_jeruk: 'bumbu_dapur',
+  daun_pandan: 'bumbu_dapur',
+  terasi: 'bumbu_dapur',
+  asam_jawa: 'bumbu_dapur',
+  garam: 'bumbu_dapur',
+  gula: 'bumbu_dapur',
+  gula_merah: 'bumbu_dapur',
+  kecap_manis: 'bumbu_dapur',
+  kecap_asin: 'bumbu_dapur',
+  saus_tiram: 'bumbu_dapur',
+  saus_sambal: 'bumbu_dapur',
+  saus_tomat: 'bumbu_dapur',
+  kaldu: 'bumbu_dapur',
+
+  // Dry goods
+  beras: 'bahan_kering',
+  mie: 'bahan_kering',
+  tepung_terigu: 'bahan_kering',
+  tepung_maizena: 'bahan_kering',
+  roti: 'bahan_kering',
+  minyak_goreng: 'bahan_kering',
+  santan: 'bahan_kering',
+  kacang_tanah: 'bahan_kering',
+};
+
+/** Words in an unknown item's name that give its aisle away, checked in order */
+const AISLE_KEYWORDS: [string, Aisle][] = [
+  ['bubuk', 'bumbu_dapur'],
+  ['saus', 'bumbu_dapur'],
+  ['kecap', 'bumbu_dapur'],
+  ['sambal', 'bumbu_dapur'],
+  ['bumbu', 'bumbu_dapur'],
+  ['tepung', 'bahan_kering'],
+  ['minyak', 'bahan_kering'],
+  ['kacang', 'bahan_kering'],
+  ['bihun', 'bahan_kering'],
+  ['soun', 'bahan_kering'],
+  ['kering', 'bahan_kering'],
+  ['ikan', 'seafood'],
+  ['udang', 'seafood'],
+  ['kepiting', 'seafood'],
+  ['kerang', 'seafood'],
+  ['daging', 'daging'],
+  ['sosis', 'daging'],
+  ['ayam', 'daging'],
+  ['susu', 'susu_telur'],
+  ['telur', 'susu_telur'],
+  ['keju', 'susu_telur'],
+  ['yoghurt', 'susu_telur'],
+  ['daun', 'sayuran'],
+  ['sayur', 'sayuran'],
+  ['labu', 'sayuran'],
+  ['buah', 'sayuran'],
+];
+
+export function isAisle(value: string): value is Aisle {
+  return (AISLE_ORDER as string[]).includes(value);
+}
+
+export function classifyAisle(name: string, overrides: AisleOverrides = {}): AisleClassification {
+  const { id } = canonicalizeIngredient(name);
+
+  if (overrides[id]) {
+    return { aisle: overrides[id], id, source: 'override' };
+  }
+  if (AISLE_BY_CANONICAL_ID[id]) {
+    return { aisle: AISLE_BY_CANONICAL_ID[id], id, source: 'table' };
+  }
+
+  const words = name.toLowerCase().split(/[^a-z]+/);
+  const keyword = AISLE_KEYWORDS.find(([word]) => words.includes(word));
+  if (keyword) {
+    return { aisle: keyword[1], id, source: 'keyword' };
+  }
+
+  return { aisle: 'lainnya', id, source: 'unknown' };
+}
+
+/**
+ * Items grouped per aisle in store order, each group sorted by name.
+ * Empty aisles are left out.
+ */
+export function groupByAisle<T>(
+  items: T[],
+  getName: (item: T) => string,
+  overrides: AisleOverrides = {}
+): { aisle: Aisle; items: T[] }[] {
+  const groups = new Map<Aisle, T[]>();
+  items.forEach(item => {
+    const { aisle } = classifyAisle(getName(item), overrides);
+    groups.set(aisle, [...(groups.get(aisle) || []), item]);
+  });
+
+  return AISLE_ORDER
+    .filter(aisle => groups.has(aisle))
+    .map(aisle => ({
+      aisle,
+      items: (groups.get(aisle) || []).sort((a, b) => getName(a).localeCompare(getName(b), 'id')),
+    }));
+}
@@ -0,0 +1,337 @@
+import { getUnitDefinition } from './units';
+
+/**
+ * Canonical ingredient names shared by every matcher (recommenders, shopping
+ * list, pantry lookups) so the same ingredient matches the same way everywhere.
+ *
+ * Free-text names are cleaned (quantities, units, preparation words and
+ * plurals removed) and then resolved against an Indonesian/English synonym
+ * table. Unknown ingredients fall back to a slug of their cleaned name.
+ */
+
+export interface CanonicalIngredient {
+  /** Stable identifier, e.g. "bawang_merah" */
+  id: string;
+  /** Display name in Indonesian */
+  name: string;
+  /** Cleaned form of the input the id was derived from */
+  normalized: string;
+  /** Whether the name resolved to an entry in the synonym table */
+  known: boolean;
+}
+
+export type IngredientMatchType = 'exact' | 'synonym' | 'partial' | 'none';
+
+export interface IngredientMatch<T> {
+  candidate: T;
+  type: Exclude<IngredientMatchType, 'none'>;
+}
+
+interface SynonymEntry {
+  name: string;
+  synonyms: string[];
+}
+
+const SYNONYM_TABLE: Record<string, SynonymEntry> = {
+  // Protein
+  ayam: { name: 'ayam', synonyms: ['chicken', 'daging ayam', 'dada ayam', 'paha ayam', 'sayap ayam', 'ayam kampung', 'ayam broiler', 'fillet ayam', 'chicken breast', 'chicken thigh'] },
+  daging_sapi: { name: 'daging sapi', synonyms: ['beef', 'sapi', 'daging', 'has dalam', 'daging has', 'sandung lamur', 'ground beef', 'daging giling'] },
+  kambing: { name: 'daging kambing', synonyms: ['daging kambing', 'mutton', 'lamb', 'goat'] },
+  ikan: { name: 'ikan', synonyms: ['fish', 'fillet ikan', 'ikan segar'] },
+  udang: { name: 'udang', synonyms: ['shrimp', 'prawn', 'udang kupas'] },
+  cumi: { name: 'cumi', synonyms: ['cumi cumi', 'squid', 'sotong'] },
+  telur: { name: 'telur', synonyms: ['egg', 'telur ayam', 'telor', 'kuning telur', 'putih telur'] },
+  tahu: { name: 'tahu', synonyms: ['tofu', 'tahu putih', 'tahu kuning'] },
+  tempe: { name: 'tempe', synonyms: ['tempeh'] },
+
+  // Staples
+  beras: { name: 'beras', synonyms: ['rice', 'nasi', 'nasi putih'] },
+  mie: { name: 'mie', synonyms: ['mi', 'mie telur', 'noodle', 'mie basah', 'mie kering'] },
+  tepung_terigu: { name: 'tepung terigu', synonyms: ['terigu', 'tepung', 'flour', 'all purpose flour'] },
+  tepung_maizena: { name: 'tepung maizena', synonyms: ['maizena', 'cornstarch', 'corn starch'] },
+  kentang: { name: 'kentang', synonyms: ['potato'] },
+  roti: { name: 'roti', synonyms: ['bread', 'roti tawar'] },
+
+  // Aromatics and spices
+  bawang_merah: { name: 'bawang merah', synonyms: ['shallot', 'brambang'] },
+  bawang_putih: { name: 'bawang putih', synonyms: ['garlic'] },
+  bawang_bombay: { name: 'bawang bombay', synonyms: ['onion', 'bawang bombai', 'bombay'] },
+  daun_bawang: { name: 'daun bawang', synonyms: ['spring onion', 'scallion', 'green onion'] },
+  cabai: { name: 'cabai', synonyms: ['cabe', 'chili', 'chilli', 'cabai merah', 'cabe merah', 'cabai keriting', 'cabe keriting', 'cabai hijau', 'cabe hijau', 'lombok'] },
+  cabai_rawit: { name: 'cabai rawit', synonyms: ['cabe rawit', 'rawit', 'bird eye chili'] },
+  jahe: { name: 'jahe', synonyms: ['ginger'] },
+  kunyit: { name: 'kunyit', synonyms: ['turmeric'] },
+  lengkuas: { name: 'lengkuas', synonyms: ['laos', 'galangal'] },
+  serai: { name: 'serai', synonyms: ['sereh', 'lemongrass'] },
+  kemiri: { name: 'kemiri', synonyms: ['candlenut'] },
+  ketumbar: { name: 'ketumbar', synonyms: ['coriander', 'coriander seed'] },
+  merica: { name: 'merica', synonyms: ['lada', 'pepper', 'black pepper', 'white pepper', 'lada putih', 'lada hitam'] },
+  daun_salam: { name: 'daun salam', synonyms: ['salam', 'bay leaf', 'indonesian bay leaf'] },
+  daun_jeruk: { name: 'daun jeruk', synonyms: ['kaffir lime leaf', 'lime leaf'] },
+  jeruk_nipis: { name: 'jeruk nipis', synonyms: ['lime', 'jeruk limau'] },
+  terasi: { name: 'terasi', synonyms: ['shrimp paste', 'belacan'] },
+  asam_jawa: { name: 'asam jawa', synonyms: ['tamarind', 'asem jawa', 'asam'] },
+  daun_pandan: { name: 'daun pandan', synonyms: ['pandan'] },
+  kemangi: { name: 'kemangi', synonyms: ['daun kemangi', 'basil', 'thai basil'] },
+  seledri: { name: 'seledri', synonyms: ['celery', 'daun seledri'] },
+
+  // Seasonings and condiments
+  garam: { name: 'garam', synonyms: ['salt'] },
+  gula: { name: 'gula', synonyms: ['sugar', 'gula pasir'] },
+  gula_merah: { name: 'gula merah', synonyms: ['gula jawa', 'palm sugar', 'gula aren'] },
+  kecap_manis: { name: 'kecap manis', synonyms: ['kecap', 'sweet soy sauce'] },
+  kecap_asin: { name: 'kecap asin', synonyms: ['soy sauce'] },
+  saus_tiram: { name: 'saus tiram', synonyms: ['oyster sauce'] },
+  saus_sambal: { name: 'saus sambal', synonyms: ['chili sauce', 'sambal botol'] },
+  saus_tomat: { name: 'saus tomat', synonyms: ['ketchup', 'tomato sauce'] },
+  kaldu: { name: 'kaldu', synonyms: ['kaldu bubuk', 'kaldu ayam', 'kaldu sapi', 'penyedap', 'penyedap rasa', 'stock', 'broth', 'royco', 'masako'] },
+  minyak_goreng: { name: 'minyak goreng', synonyms: ['minyak', 'oil', 'cooking oil', 'minyak sayur', 'vegetable oil', 'olive oil', 'minyak zaitun'] },
+  santan: { name: 'santan', synonyms: ['coconut milk', 'santan kental', 'santan encer'] },
+  air: { name: 'air', synonyms: ['water', 'air matang'] },
+
+  // Vegetables
+  tomat: { name: 'tomat', synonyms: ['tomato'] },
+  wortel: { name: 'wortel', synonyms: ['carrot'] },
+  kol: { name: 'kol', synonyms: ['kubis', 'cabbage'] },
+  bayam: { name: 'bayam', synonyms: ['spinach'] },
+  kangkung: { name: 'kangkung', synonyms: ['water spinach'] },
+  sawi: { name: 'sawi', synonyms: ['sawi hijau', 'caisim', 'mustard green', 'pakcoy', 'bok choy'] },
+  buncis: { name: 'buncis', synonyms: ['green bean'] },
+  kacang_panjang: { name: 'kacang panjang', synonyms: ['long bean'] },
+  terong: { name: 'terong', synonyms: ['terung', 'eggplant', 'aubergine'] },
+  timun: { name: 'timun', synonyms: ['mentimun', 'ketimun', 'cucumber'] },
+  jagung: { name: 'jagung', synonyms: ['corn', 'jagung manis', 'sweet corn'] },
+  jamur: { name: 'jamur', synonyms: ['mushroom', 'jamur tiram', 'jamur kancing'] },
+  brokoli: { name: 'brokoli', synonyms: ['broccoli'] },
+  labu_siam: { name: 'labu siam', synonyms: ['chayote', 'jipang'] },
+  tauge: { name: 'tauge', synonyms: ['taoge', 'kecambah', 'bean sprout'] },
+
+  // Dairy, nuts and fruit
+  susu: { name: 'susu', synonyms: ['milk', 'susu cair', 'susu segar'] },
+  keju: { name: 'keju', synonyms: ['cheese', 'keju cheddar'] },
+  mentega: { name: 'mentega', synonyms: ['butter'] },
+  margarin: { name: 'margarin', synonyms: ['margarine', 'blue band'] },
+  kacang_tanah: { name: 'kacang tanah', synonyms: ['peanut', 'kacang'] },
+  kelapa: { name: 'kelapa', synonyms: ['coconut', 'kelapa parut'] },
+  pisang: { name: 'pisang', synonyms: ['banana'] },
+  lemon: { name: 'lemon', synonyms: ['jeruk lemon'] },
+};
+
+/** Preparation, size and freshness words that don't change what the ingredient is */
+const MODIFIER_WORDS = new Set([
+  'iris', 'diiris', 'irisan', 'iris-iris', 'cincang', 'dicincang', 'cincangan', 'halus', 'haluskan', 'dihaluskan',
+  'geprek', 'digeprek', 'memarkan', 'dimemarkan', 'potong', 'dipotong', 'potongan', 'kupas', 'dikupas',
+  'parut', 'diparut', 'serut', 'rajang', 'dirajang', 'tumbuk', 'ditumbuk', 'sangrai', 'disangrai',
+  'segar', 'secukupnya', 'besar', 'kecil', 'sedang', 'tipis', 'kasar', 'rebus', 'direbus', 'matang', 'mentah',
+  'bersih', 'cuci', 'dicuci', 'utuh', 'bubuk', 'buang', 'biji', 'ukuran', 'sesuai', 'selera', 'tambahan',
+  'taburan', 'pelengkap', 'opsional', 'optional', 'dan', 'atau', 'yang', 'untuk', 'dengan', 'sdikit', 'sedikit',
+  'sliced', 'chopped', 'minced', 'diced', 'fresh', 'large', 'small', 'medium', 'crushed', 'ground', 'peeled',
+  'whole', 'to', 'taste', 'of', 'and', 'or', 'finely', 'roughly', 'thinly',
+]);
+
+/**
+ * Generic heads that only stand for one ingredient on their own: "daging" is
+ * beef, but "daging babi" isn't, and "tepung beras" is neither flour nor rice
+ */
+const GENERIC_HEADS = new Set(['daging', 'tepung', 'kacang']);
+
+let phraseIndex: Map<string, string> | null = null;
+let vocabulary = new Set<string>();
+let maxPhraseLength = 1;
+const canonicalCache = new Map<string, CanonicalIngredient>();
+
+function buildPhraseIndex(): Map<string, string> {
+  const index = new Map<string, string>();
+  const words = new Set<string>();
+  maxPhraseLength = 1;
+
+  Object.entries(SYNONYM_TABLE).forEach(([id, entry]) => {
+    [entry.name, id.replace(/_/g, ' '), ...entry.synonyms].forEach(phrase => {
+      const tokens = normalizeTokens(tokenize(phrase), null);
+      const normalized = tokens.join(' ');
+      if (normalized && !index.has(normalized)) {
+        index.set(normalized, id);
+        tokens.forEach(token => words.add(token));
+        maxPhraseLength = Math.max(maxPhraseLength, tokens.length);
+      }
+    });
+  });
+
+  vocabulary = words;
+
+  return index;
+}
+
+function getPhraseIndex(): Map<string, string> {
+  if (!phraseIndex) {
+    phraseIndex = buildPhraseIndex();
+  }
+  return phraseIndex;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ') // Drop parenthetical notes
+    .replace(/[^a-z0-9\s/-]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 0);
+}
+
+/**
+ * Remove reduplication ("cabai-cabai") and English plurals ("tomatoes").
+ * Plurals are only stripped when the singular is a known word, so
+ * Indonesian words ending in "s" (manis, beras, buncis) stay intact.
+ */
+function singularize(token: string, knownWords: Set<string> | null): string {
+  const reduplicated = token.match(/^([a-z]+)-\1$/);
+  if (reduplicated) return reduplicated[1];
+  if (!knownWords || knownWords.has(token) || !/^[a-z]+s$/.test(token)) return token;
+
+  const candidates = [token.slice(0, -1), token.slice(0, -2), token.slice(0, -3) + 'y'];
+  return candidates.find(candidate => knownWords.has(candidate)) || token;
+}
+
+function normalizeTokens(tokens: string[], knownWords: Set<string> | null): string[] {
+  const result: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const isNumber = /^[\d/.,-]+$/.test(token);
+
+    if (isNumber) {
+      // Skip the unit that follows a number ("2 sendok makan", "500 gr")
+      const twoWordUnit = tokens[i + 1] && tokens[i + 2] ? `${tokens[i + 1]} ${tokens[i + 2]}` : '';
+      if (twoWordUnit && getUnitDefinition(twoWordUnit)) {
+        i += 2;
+      } else if (tokens[i + 1] && getUnitDefinition(tokens[i + 1])) {
+        i += 1;
+      }
+      continue;
+    }
+
+    const singular = singularize(token, knownWords);
+    if (MODIFIER_WORDS.has(token) || MODIFIER_WORDS.has(singular)) continue;
+    result.push(singular.replace(/-/g, ' '));
+  }
+
+  return result.join(' ').split(' ').filter(Boolean);
+}
+
+function slugify(text: string): string {
+  return text.replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Clean a free-text ingredient name: lowercase, no quantities, units,
+ * preparation words or plurals. "2 siung Bawang Merah, iris" → "bawang merah"
+ */
+export function normalizeIngredientName(name: string): string {
+  getPhraseIndex();
+  const tokens = normalizeTokens(tokenize(name), vocabulary);
+  return tokens.join(' ');
+}
+
+/**
+ * Resolve a free-text ingredient name to its canonical ingredient
+ */
+export function canonicalizeIngredient(name: string): CanonicalIngredient {
+  const cached = canonicalCache.get(name);
+  if (cached) return cached;
+
+  const normalized = normalizeIngredientName(name);
+  const index = getPhraseIndex();
+  let id = index.get(normalized);
+
+  // Otherwise look for the longest known phrase inside the name,
+  // so "paha ayam kampung" resolves to ayam and "kaldu ayam" to kaldu.
+  // A name with a generic head only matches phrases that start with the
+  // head and say more than it ("daging ayam kampung", not "daging babi").
+  if (!id && normalized) {
+    const tokens = normalized.split(' ');
+    const hasGenericHead = GENERIC_HEADS.has(tokens[0]);
+    for (let length = Math.min(maxPhraseLength, tokens.length); length > 0 && !id; length--) {
+      const lastStart = hasGenericHead ? (length > 1 ? 0 : -1) : tokens.length - length;
+      for (let start = 0; start <= lastStart; start++) {
+        const phrase = tokens.slice(start, start + length).join(' ');
+        const match = index.get(phrase);
+        if (match) {
+          id = match;
+          break;
+        }
+      }
+    }
+  }
+
+  const result: CanonicalIngredient = id
+    ? { id, name: SYNONYM_TABLE[id].name, normalized, known: true }
+    : { id: slugify(normalized) || slugify(name.toLowerCase()), name: normalized || name.trim(), normalized, known: false };
+
+  canonicalCache.set(name, result);
+  return result;
+}
+
+export function getCanonicalId(name: string): string {
+  return canonicalizeIngredient(name).id;
+}
+
+/**
+ * Classify how a recipe ingredient relates to a pantry (or query) ingredient
+ */
+export function matchIngredient(nameA: string, nameB: string): IngredientMatchType {
+  const a = canonicalizeIngredient(nameA);
+  const b = canonicalizeIngredient(nameB);
+
+  if (!a.normalized || !b.normalized) return 'none';
+  if (a.normalized === b.normalized) return 'exact';
+  if (a.id === b.id) return 'synonym';
+
+  const tokensA = new Set(a.normalized.split(' ').filter(token => token.length > 2));
+  const sharesToken = b.normalized.split(' ').some(token => token.length > 2 && tokensA.has(token));
+  return sharesToken ? 'partial' : 'none';
+}
+
+export function isSameIngredient(nameA: string, nameB: string): boolean {
+  const type = matchIngredient(nameA, nameB);
+  return type === 'exact' || type === 'synonym';
+}
+
+/**
+ * Find the best matching candidate for an ingredient name.
+ * Exact matches win over synonyms, synonyms over partial matches.
+ */
+export function findIngredientMatch<T>(
+  name: string,
+  candidates: T[],
+  getName: (candidate: T) => string
+): IngredientMatch<T> | null {
+  let best: IngredientMatch<T> | null = null;
+  const rank = { exact: 3, synonym: 2, partial: 1 };
+
+  for (const candidate of candidates) {
+    const type = matchIngredient(name, getName(candidate));
+    if (type === 'none') continue;
+    if (!best || rank[type] > rank[best.type]) {
+      best = { candidate, type };
+      if (type === 'exact') break;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Register extra synonyms, either for an existing canonical ingredient or a new one
+ */
+export function registerIngredientSynonyms(id: string, synonyms: string[], name?: string): void {
+  const existing = SYNONYM_TABLE[id];
+  if (existing) {
+    existing.synonyms.push(...synonyms);
+    if (name) existing.name = name;
+  } else {
+    SYNONYM_TABLE[id] = { name: name || id.replace(/_/g, ' '), synonyms: [...synonyms] };
+  }
+
+  phraseIndex = null;
+  canonicalCache.clear();
+}
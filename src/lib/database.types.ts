@@ -111,6 +111,7 @@ export interface Database {
           instructions: string[]
           tags: string[]
           user_id: string
+          content_hash: string | null
           created_at: string
           updated_at: string
         }
@@ -125,6 +126,7 @@ export interface Database {
           instructions?: string[]
           tags?: string[]
           user_id: string
+          content_hash?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -139,6 +141,7 @@ export interface Database {
           instructions?: string[]
           tags?: string[]
           user_id?: string
+          content_hash?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -173,25 +176,78 @@ export interface Database {
         Row: {
           id: string
           recipe_id: string
-          embedding: number[]
+          embedding: number[] | null
+          embedding_provider: string
+          embedding_version: number
+          embedding_dimension: number
+          content_hash: string | null
           content: string
           created_at: string
         }
         Insert: {
           id?: string
           recipe_id: string
-          embedding: number[]
+          embedding?: number[] | null
+          embedding_provider?: string
+          embedding_version?: number
+          embedding_dimension?: number
+          content_hash?: string | null
           content: string
           created_at?: string
         }
         Update: {
           id?: string
           recipe_id?: string
-          embedding?: number[]
+          embedding?: number[] | null
+          embedding_provider?: string
+          embedding_version?: number
+          embedding_dimension?: number
+          content_hash?: string | null
           content?: string
           created_at?: string
         }
       }
+      user_recipe_embeddings: {
+        Row: {
+          id: string
+          recipe_id: string
+          user_id: string
+          embedding: number[] | null
+          embedding_provider: string
+          embedding_version: number
+          embedding_dimension: number
+          content_hash: string | null
+          content: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          recipe_id: string
+          user_id: string
+          embedding?: number[] | null
+          embedding_provider?: string
+          embedding_version?: number
+          embedding_dimension?: number
+          content_hash?: string | null
+          content: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          recipe_id?: string
+          user_id?: string
+          embedding?: number[] | null
+          embedding_provider?: string
+          embedding_version?: number
+          embedding_dimension?: number
+          content_hash?: string | null
+          content?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
       dataset_recipes: {
         Row: {
           id: string
@@ -201,6 +257,11 @@ export interface Database {
           loves_count: number
           url: string | null
           user_id: string | null
+          content_hash: string | null
+          total_ingredients: number
+          total_steps: number
+          dedupe_key: string | null
+          search_vector: unknown
           created_at: string
           updated_at: string
         }
@@ -212,6 +273,10 @@ export interface Database {
           loves_count?: number
           url?: string | null
           user_id?: string | null
+          content_hash?: string | null
+          total_ingredients?: number
+          total_steps?: number
+          dedupe_key?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -223,6 +288,57 @@ export interface Database {
           loves_count?: number
           url?: string | null
           user_id?: string | null
+          content_hash?: string | null
+          total_ingredients?: number
+          total_steps?: number
+          dedupe_key?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      dataset_recipe_metadata: {
+        Row: {
+          recipe_id: string
+          ingredients: Json
+          steps: string[]
+          prep_time: number
+          cook_time: number
+          difficulty: 'easy' | 'medium' | 'hard'
+          tags: string[]
+          cuisine: string | null
+          meal_type: 'breakfast' | 'lunch' | 'dinner' | 'snack' | null
+          source: 'rules' | 'ai'
+          version: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          recipe_id: string
+          ingredients?: Json
+          steps?: string[]
+          prep_time: number
+          cook_time: number
+          difficulty: 'easy' | 'medium' | 'hard'
+          tags?: string[]
+          cuisine?: string | null
+          meal_type?: 'breakfast' | 'lunch' | 'dinner' | 'snack' | null
+          source?: 'rules' | 'ai'
+          version: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          recipe_id?: string
+          ingredients?: Json
+          steps?: string[]
+          prep_time?: number
+          cook_time?: number
+          difficulty?: 'easy' | 'medium' | 'hard'
+          tags?: string[]
+          cuisine?: string | null
+          meal_type?: 'breakfast' | 'lunch' | 'dinner' | 'snack' | null
+          source?: 'rules' | 'ai'
+          version?: number
           created_at?: string
           updated_at?: string
         }
@@ -232,6 +348,7 @@ export interface Database {
           id: string
           week_start: string
           user_id: string
+          people_count: number
           created_at: string
           updated_at: string
         }
@@ -239,6 +356,7 @@ export interface Database {
           id?: string
           week_start: string
           user_id: string
+          people_count?: number
           created_at?: string
           updated_at?: string
         }
@@ -246,6 +364,7 @@ export interface Database {
           id?: string
           week_start?: string
           user_id?: string
+          people_count?: number
           created_at?: string
           updated_at?: string
         }
@@ -279,6 +398,225 @@ export interface Database {
           created_at?: string
         }
       }
+      planned_meals: {
+        Row: {
+          id: string
+          daily_meal_id: string
+          recipe_id: string | null
+          recipe_source: 'user' | 'dataset' | 'ai'
+          dataset_recipe_id: string | null
+          recipe_snapshot: Json | null
+          slot: 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'custom'
+          slot_label: string | null
+          position: number
+          servings: number | null
+          notes: string | null
+          locked: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          daily_meal_id: string
+          recipe_id?: string | null
+          recipe_source?: 'user' | 'dataset' | 'ai'
+          dataset_recipe_id?: string | null
+          recipe_snapshot?: Json | null
+          slot?: 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'custom'
+          slot_label?: string | null
+          position?: number
+          servings?: number | null
+          notes?: string | null
+          locked?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          daily_meal_id?: string
+          recipe_id?: string | null
+          recipe_source?: 'user' | 'dataset' | 'ai'
+          dataset_recipe_id?: string | null
+          recipe_snapshot?: Json | null
+          slot?: 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'custom'
+          slot_label?: string | null
+          position?: number
+          servings?: number | null
+          notes?: string | null
+          locked?: boolean
+          created_at?: string
+        }
+      }
+      shopping_lists: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          weekly_plan_ids: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          weekly_plan_ids?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          weekly_plan_ids?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      shopping_list_items: {
+        Row: {
+          id: string
+          shopping_list_id: string
+          name: string
+          quantity: number
+          unit: string
+          category: string
+          checked: boolean
+          is_manual: boolean
+          added_to_pantry_at: string | null
+          position: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          shopping_list_id: string
+          name: string
+          quantity?: number
+          unit?: string
+          category?: string
+          checked?: boolean
+          is_manual?: boolean
+          added_to_pantry_at?: string | null
+          position?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          shopping_list_id?: string
+          name?: string
+          quantity?: number
+          unit?: string
+          category?: string
+          checked?: boolean
+          is_manual?: boolean
+          added_to_pantry_at?: string | null
+          position?: number
+          created_at?: string
+        }
+      }
+      cooking_events: {
+        Row: {
+          id: string
+          user_id: string
+          recipe_id: string
+          recipe_name: string
+          meal_date: string
+          servings: number
+          changes: Json
+          reverted_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          recipe_id: string
+          recipe_name: string
+          meal_date: string
+          servings?: number
+          changes?: Json
+          reverted_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          recipe_id?: string
+          recipe_name?: string
+          meal_date?: string
+          servings?: number
+          changes?: Json
+          reverted_at?: string | null
+          created_at?: string
+        }
+      }
+      notification_settings: {
+        Row: {
+          id: string
+          user_id: string
+          expiry_digest_enabled: boolean
+          expiry_window_days: number
+          digest_frequency: 'daily' | 'weekly'
+          email_enabled: boolean
+          last_digest_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          expiry_digest_enabled?: boolean
+          expiry_window_days?: number
+          digest_frequency?: 'daily' | 'weekly'
+          email_enabled?: boolean
+          last_digest_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          expiry_digest_enabled?: boolean
+          expiry_window_days?: number
+          digest_frequency?: 'daily' | 'weekly'
+          email_enabled?: boolean
+          last_digest_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          type: string
+          title: string
+          body: string
+          data: Json
+          read_at: string | null
+          emailed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type?: string
+          title: string
+          body?: string
+          data?: Json
+          read_at?: string | null
+          emailed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          type?: string
+          title?: string
+          body?: string
+          data?: Json
+          read_at?: string | null
+          emailed_at?: string | null
+          created_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -287,9 +625,17 @@ export interface Database {
       find_similar_recipes: {
         Args: {
           query_embedding: number[]
+          query_embedding_provider: string
+          query_embedding_version: number
           min_loves?: number
           similarity_threshold?: number
           match_count?: number
+          search_scope?: 'mine' | 'community' | 'both'
+          include_ingredients?: string[] | null
+          exclude_ingredients?: string[] | null
+          max_ingredients?: number | null
+          max_steps?: number | null
+          required_tags?: string[] | null
         }
         Returns: {
           id: string
@@ -299,13 +645,17 @@ export interface Database {
           loves_count: number
           url: string | null
           similarity_score: number
+          source: 'mine' | 'community'
         }[]
       }
       search_recipes_by_text: {
         Args: {
           query_embedding: number[]
+          query_embedding_provider: string
+          query_embedding_version: number
           similarity_threshold?: number
           match_count?: number
+          search_scope?: 'mine' | 'community' | 'both'
         }
         Returns: {
           id: string
@@ -315,6 +665,34 @@ export interface Database {
           loves_count: number
           url: string | null
           similarity_score: number
+          source: 'mine' | 'community'
+        }[]
+      }
+      hybrid_search_recipes: {
+        Args: {
+          query_text: string
+          query_embedding?: number[] | null
+          query_embedding_provider?: string | null
+          query_embedding_version?: number | null
+          similarity_threshold?: number
+          match_count?: number
+          search_scope?: 'mine' | 'community' | 'both'
+          candidate_count?: number
+          rrf_k?: number
+        }
+        Returns: {
+          id: string
+          title: string
+          ingredients: string
+          steps: string
+          loves_count: number
+          url: string | null
+          source: 'mine' | 'community'
+          vector_score: number | null
+          lexical_score: number | null
+          vector_rank: number | null
+          lexical_rank: number | null
+          rrf_score: number
         }[]
       }
     }
@@ -0,0 +1,127 @@
+import { isSameIngredient } from './canonicalIngredients';
+
+/**
+ * Pantry-wide expiry helpers: how long items keep, which ones need using up
+ * first, and how much a recipe helps to use them up ("rescue" score).
+ */
+
+export type ExpiryStatus = 'expired' | 'today' | 'soon' | 'week' | 'fresh';
+
+export interface ExpiryItem {
+  name: string;
+  expiry_date?: string | null;
+}
+
+export interface ExpiringIngredient<T extends ExpiryItem = ExpiryItem> {
+  item: T;
+  /** Whole days until the expiry date; negative once expired */
+  daysLeft: number;
+  /** 0..1, higher for items closer to expiring */
+  weight: number;
+}
+
+export interface RescueMatch {
+  /** Sum of the weights of the expiring ingredients a recipe uses */
+  score: number;
+  /** Expiring pantry items the recipe uses, soonest first */
+  used: ExpiringIngredient[];
+}
+
+/** Window the dashboard and the "use it up" mode default to */
+export const DEFAULT_EXPIRY_WINDOW_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Days from today until an expiry date (YYYY-MM-DD), counted in calendar days
+ */
+export function getDaysUntilExpiry(expiryDate: string | null | undefined, today: Date = new Date()): number | null {
+  if (!expiryDate) return null;
+
+  const [year, month, day] = expiryDate.slice(0, 10).split('-').map(Number);
+  if (!year || !month || !day) return null;
+
+  return Math.round((Date.UTC(year, month - 1, day) - startOfDay(today)) / DAY_MS);
+}
+
+export function getExpiryStatus(expiryDate: string | null | undefined, today: Date = new Date()): ExpiryStatus | null {
+  const daysLeft = getDaysUntilExpiry(expiryDate, today);
+  if (daysLeft === null) return null;
+
+  if (daysLeft < 0) return 'expired';
+  if (daysLeft === 0) return 'today';
+  if (daysLeft <= 3) return 'soon';
+  if (daysLeft <= 7) return 'week';
+  return 'fresh';
+}
+
+export function getExpiryMessage(daysLeft: number): string {
+  if (daysLeft < 0) return `Kadaluarsa ${Math.abs(daysLeft)} hari yang lalu`;
+  if (daysLeft === 0) return 'Kadaluarsa hari ini';
+  if (daysLeft <= 7) return `Kadaluarsa dalam ${daysLeft} hari`;
+  return `Masih segar (${daysLeft} hari lagi)`;
+}
+
+/**
+ * Pantry items expiring within the next `withinDays` days, soonest first.
+ * Expired items are only included when asked for, since they can no longer
+ * be rescued by cooking.
+ */
+export function getExpiringItems<T extends ExpiryItem>(
+  items: T[],
+  withinDays: number = DEFAULT_EXPIRY_WINDOW_DAYS,
+  options: { includeExpired?: boolean; today?: Date } = {}
+): ExpiringIngredient<T>[] {
+  const { includeExpired = false, today = new Date() } = options;
+
+  return items
+    .map(item => ({ item, daysLeft: getDaysUntilExpiry(item.expiry_date, today) }))
+    .filter((entry): entry is { item: T; daysLeft: number } =>
+      entry.daysLeft !== null &&
+      entry.daysLeft <= withinDays &&
+      (includeExpired || entry.daysLeft >= 0)
+    )
+    .map(({ item, daysLeft }) => ({
+      item,
+      daysLeft,
+      weight: daysLeft < 0 ? 0 : (withinDays + 1 - daysLeft) / (withinDays + 1),
+    }))
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+/**
+ * How much a recipe helps use up expiring pantry items
+ */
+export function scoreExpiryRescue(recipeIngredients: string[], expiring: ExpiringIngredient[]): RescueMatch {
+  const used = expiring.filter(entry =>
+    entry.weight > 0 && recipeIngredients.some(name => isSameIngredient(name, entry.item.name))
+  );
+
+  return {
+    score: used.reduce((sum, entry) => sum + entry.weight, 0),
+    used,
+  };
+}
+
+export function getRescueReason(used: ExpiringIngredient[]): string | null {
+  if (used.length === 0) return null;
+
+  const names = used.slice(0, 3).map(entry => entry.item.name).join(', ');
+  const soonest = used[0].daysLeft;
+  return soonest === 0
+    ? `Menghabiskan ${names} yang kadaluarsa hari ini`
+    : `Menghabiskan ${names} sebelum kadaluarsa (${soonest} hari lagi)`;
+}
+
+/**
+ * Sort order that puts recipes using up expiring items first. Returns 0 when
+ * the rescue scores are too close to decide, so callers fall back to their
+ * own ranking.
+ */
+export function compareByRescue(a: number = 0, b: number = 0): number {
+  if ((a > 0) !== (b > 0)) return b > 0 ? 1 : -1;
+  if (Math.abs(b - a) > 0.1) return b - a;
+  return 0;
+}
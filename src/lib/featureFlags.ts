@@ -11,6 +11,7 @@ interface AppConfig {
     suggestions: FeatureConfig;
     rag: FeatureConfig;
     weeklyPlanner: FeatureConfig;
+    embeddingAdmin: FeatureConfig;
   };
 }
 
@@ -115,6 +116,7 @@ class FeatureFlagService {
         suggestions: { enabled: true, description: "AI suggestions enabled by default" },
         rag: { enabled: true, description: "RAG feature enabled by default" },
         weeklyPlanner: { enabled: true, description: "Weekly planner enabled by default" },
+        embeddingAdmin: { enabled: false, description: "Embedding sync admin view disabled by default" },
       },
     };
   }
@@ -134,6 +136,7 @@ class FeatureFlagService {
         suggestions: true,
         rag: true,
         weeklyPlanner: true,
+        embeddingAdmin: false,
       };
       return defaults[featureName] ?? false;
     }
@@ -172,6 +175,7 @@ class FeatureFlagService {
         suggestions: true,
         rag: true,
         weeklyPlanner: true,
+        embeddingAdmin: false,
       };
       return defaults[featureName] ?? false;
     }
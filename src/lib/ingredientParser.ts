@@ -0,0 +1,229 @@
+import { CanonicalIngredient, canonicalizeIngredient } from './canonicalIngredients';
+import { UnitDefinition, getUnitDefinition } from './units';
+import { PREPARATION_WORDS, parseDatasetIngredients } from '../../supabase/functions/_shared/datasetRecipes.ts';
+
+/**
+ * Parsing of free-text ingredient lines as Indonesian recipes write them:
+ * "2 siung bawang putih, cincang", "1/2 kg daging sapi", "3-4 buah cabai",
+ * "Garam secukupnya" or "Daging sapi 500 gr".
+ *
+ * The amount may be a whole number, a decimal ("1,5"), a fraction ("1/2",
+ * "1 1/2", "½"), a range ("3-4", "2 sampai 3") or a word ("setengah",
+ * "sebutir"). Units are resolved with the unit model in units.ts, and
+ * whatever follows a comma, sits in parentheses or starts with "untuk" is
+ * kept as a note.
+ */
+
+export interface ParsedIngredientLine {
+  /** The line as written */
+  text: string;
+  /** Amount to plan with: the upper end of a range, 1 when the line gives none */
+  quantity: number;
+  /** Both ends of a range such as "3-4 buah" */
+  range?: [number, number];
+  /** Unit id from units.ts; 'secukupnya' when the line gives no amount */
+  unit: string;
+  /** Ingredient name without amount, unit or preparation, e.g. "bawang putih" */
+  name: string;
+  canonical: CanonicalIngredient;
+  /** Preparation and other notes, e.g. "cincang" or "untuk olesan" */
+  note?: string;
+}
+
+interface Amount {
+  quantity: number;
+  range?: [number, number];
+  /** Length of the matched text */
+  length: number;
+}
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2, '¼': 1 / 4, '¾': 3 / 4, '⅓': 1 / 3, '⅔': 2 / 3, '⅛': 1 / 8,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  setengah: 1 / 2, seperempat: 1 / 4, sepertiga: 1 / 3,
+  satu: 1, dua: 2, tiga: 3, empat: 4, lima: 5, enam: 6, tujuh: 7, delapan: 8, sembilan: 9, sepuluh: 10,
+};
+
+// Mixed numbers first, so "1 1/2" isn't read as 1
+const NUMBER = '\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d*[½¼¾⅓⅔⅛]|\\d+(?:[.,]\\d+)?';
+const AMOUNT = `(${NUMBER})(?:\\s*(?:-|–|~|s\\/d|sampai|hingga)\\s*(${NUMBER}))?`;
+const LEADING_AMOUNT = new RegExp(`^${AMOUNT}(?=\\s|$)`, 'i');
+const TRAILING_AMOUNT = new RegExp(`(?:^|\\s)${AMOUNT}$`, 'i');
+
+// "air atau secukupnya" is plain "air", to taste
+const TO_TASTE_PATTERN = /(?:\b(?:atau|dan)\s+)?\b(?:secukupnya|sesuai selera|scukupnya)\b/i;
+
+function parseNumber(text: string): number {
+  const value = text.trim();
+
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[2]) > 0 ? Number(fraction[1]) / Number(fraction[2]) : 0;
+
+  const unicode = value.match(/^(\d*)([½¼¾⅓⅔⅛])$/);
+  if (unicode) return Number(unicode[1] || 0) + UNICODE_FRACTIONS[unicode[2]];
+
+  return Number(value.replace(',', '.'));
+}
+
+function toAmount(match: RegExpMatchArray): Amount | null {
+  const low = parseNumber(match[1]);
+  const high = match[2] ? parseNumber(match[2]) : null;
+  if (!Number.isFinite(low) || low <= 0) return null;
+
+  if (high !== null && Number.isFinite(high) && high > low) {
+    return { quantity: high, range: [low, high], length: match[0].length };
+  }
+  return { quantity: low, length: match[0].length };
+}
+
+/**
+ * The unit at the start of `text`, trying two-word units ("sendok makan") first
+ */
+function readLeadingUnit(text: string): { unit: UnitDefinition; length: number } | null {
+  const words = text.split(' ');
+  for (const count of [2, 1]) {
+    if (words.length < count) continue;
+    const candidate = words.slice(0, count).join(' ');
+    const unit = getUnitDefinition(candidate);
+    if (unit) return { unit, length: candidate.length };
+  }
+  return null;
+}
+
+/**
+ * The unit at the end of `text`, for lines that put the amount last
+ */
+function readTrailingUnit(text: string): { unit: UnitDefinition; length: number } | null {
+  const words = text.split(' ');
+  for (const count of [2, 1]) {
+    if (words.length <= count) continue;
+    const candidate = words.slice(-count).join(' ');
+    const unit = getUnitDefinition(candidate);
+    if (unit) return { unit, length: candidate.length };
+  }
+  return null;
+}
+
+/**
+ * Split trailing preparation words off a name: "bawang putih cincang halus"
+ * gives "bawang putih" and "cincang halus". At least one word stays.
+ */
+function splitPreparation(name: string): { name: string; preparation?: string } {
+  const words = name.split(' ');
+  let end = words.length;
+  while (end > 1 && PREPARATION_WORDS.has(words[end - 1])) end--;
+
+  if (end === words.length) return { name };
+  return { name: words.slice(0, end).join(' '), preparation: words.slice(end).join(' ') };
+}
+
+/**
+ * Parse one ingredient line into amount, unit, name and note
+ */
+export function parseIngredientLine(line: string): ParsedIngredientLine {
+  const text = line.trim();
+  const notes: string[] = [];
+
+  let main = text.replace(/\(([^)]*)\)/g, (_, note: string) => {
+    if (note.trim()) notes.push(note.trim());
+    return ' ';
+  });
+
+  const comma = main.search(/(?<!\d),|,(?!\d)/);
+  if (comma >= 0) {
+    notes.push(main.slice(comma + 1).trim());
+    main = main.slice(0, comma);
+  }
+
+  main = main
+    .replace(/(\d)([a-z])/gi, '$1 $2') // "500gr", "1kg"
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let amount: Amount | null = null;
+  let unit: UnitDefinition | null = null;
+
+  const leading = main.match(LEADING_AMOUNT);
+  const leadingAmount = leading ? toAmount(leading) : null;
+  const firstWord = main.split(' ')[0].toLowerCase();
+  if (leadingAmount) {
+    amount = leadingAmount;
+    main = main.slice(amount.length).trim();
+  } else if (NUMBER_WORDS[firstWord] !== undefined) {
+    amount = { quantity: NUMBER_WORDS[firstWord], length: firstWord.length };
+    main = main.slice(firstWord.length).trim();
+  } else if (!getUnitDefinition(firstWord) && firstWord.startsWith('se') && getUnitDefinition(firstWord.slice(2))) {
+    // "sebutir telur", "sesendok teh garam"
+    amount = { quantity: 1, length: 2 };
+    main = main.slice(2).trim();
+  }
+
+  const leadingUnit = readLeadingUnit(main.toLowerCase());
+  // Without an amount only "to taste" units can lead ("sejumput garam")
+  if (leadingUnit && (amount || leadingUnit.unit.dimension === 'to_taste')) {
+    unit = leadingUnit.unit;
+    main = main.slice(leadingUnit.length).trim();
+  }
+
+  if (!amount && !unit) {
+    // "Daging sapi 500 gr", "Telur 2"
+    const trailingUnit = readTrailingUnit(main.toLowerCase());
+    const beforeUnit = trailingUnit ? main.slice(0, -trailingUnit.length).trim() : main;
+    const trailing = beforeUnit.match(TRAILING_AMOUNT);
+    const trailingAmount = trailing ? toAmount(trailing) : null;
+    if (trailing && trailingAmount) {
+      amount = trailingAmount;
+      unit = trailingUnit?.unit || null;
+      main = beforeUnit.slice(0, beforeUnit.length - trailing[0].length).trim();
+    }
+  }
+
+  const toTaste = TO_TASTE_PATTERN.test(main);
+  main = main.replace(new RegExp(TO_TASTE_PATTERN.source, 'gi'), ' ');
+
+  const purpose = main.search(/\s(?:untuk|buat)\s/i);
+  if (purpose >= 0) {
+    notes.unshift(main.slice(purpose).trim());
+    main = main.slice(0, purpose);
+  }
+
+  const cleaned = main.toLowerCase().replace(/[^a-z0-9\s-]/g, ' ').replace(/\s+/g, ' ').trim();
+  const { name, preparation } = splitPreparation(cleaned);
+  if (preparation) notes.unshift(preparation);
+
+  const ingredientName = name || text.toLowerCase();
+  const note = notes.filter(part => part.length > 0).join(', ');
+
+  let quantity = amount?.quantity ?? 1;
+  let unitId: string;
+  if (unit) {
+    unitId = unit.id;
+  } else if (amount && !toTaste) {
+    unitId = 'piece';
+  } else {
+    unitId = 'secukupnya';
+    quantity = 1;
+  }
+
+  return {
+    text,
+    quantity: Math.round(quantity * 1000) / 1000,
+    ...(amount?.range ? { range: amount.range } : {}),
+    unit: unitId,
+    name: ingredientName,
+    canonical: canonicalizeIngredient(ingredientName),
+    ...(note ? { note } : {}),
+  };
+}
+
+/**
+ * Split raw dataset ingredient text into lines and parse each of them
+ */
+export function parseIngredientList(ingredientsText: string): ParsedIngredientLine[] {
+  return parseDatasetIngredients(ingredientsText).map(parseIngredientLine);
+}
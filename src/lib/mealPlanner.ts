@@ -0,0 +1,297 @@
+import { DailyMeals, MealSlot, PlannedMeal, Recipe } from '../types';
+import { getCanonicalId } from './canonicalIngredients';
+import { isToTaste } from './units';
+
+/**
+ * Constraint-based weekly meal planner.
+ *
+ * Fills every open slot of the week with the recipe that makes the best use
+ * of the pantry, preferring ingredients that expire soon, while respecting
+ * hard limits on repeats, cooking time per day, difficulty and tags. Locked
+ * meals are kept in place and count towards every limit.
+ */
+
+export type Difficulty = Recipe['difficulty'];
+
+export interface TagLimit {
+  /** Matched against recipe tags and words in the recipe name, e.g. "goreng" */
+  tag: string;
+  maxPerWeek: number;
+}
+
+export interface PlannerConstraints {
+  mealsPerDay: number;
+  /** A recipe is not planned again within this many days; 0 only rules out twice on one day */
+  noRepeatDays: number;
+  /** Total prep + cook minutes allowed per day; null means no limit */
+  maxMinutesPerDay: number | null;
+  maxDifficulty: Difficulty;
+  tagLimits: TagLimit[];
+}
+
+export interface PlannerPantryItem {
+  name: string;
+  expiry_date?: string | null;
+}
+
+export interface PlannerOptions {
+  /** Monday of the week, YYYY-MM-DD */
+  weekStart: string;
+  recipes: Recipe[];
+  pantry: PlannerPantryItem[];
+  constraints: PlannerConstraints;
+  /** Current plan; meals marked as locked are kept */
+  currentDays?: DailyMeals[];
+  /** Source of the small tie-breaking jitter, so regenerating varies the plan */
+  random?: () => number;
+}
+
+export interface PlannerResult {
+  days: DailyMeals[];
+  /** Slots no recipe could fill without breaking a constraint */
+  unfilledSlots: number;
+}
+
+export const DEFAULT_PLANNER_CONSTRAINTS: PlannerConstraints = {
+  mealsPerDay: 2,
+  noRepeatDays: 3,
+  maxMinutesPerDay: null,
+  maxDifficulty: 'hard',
+  tagLimits: [],
+};
+
+const DIFFICULTY_RANK: Record<Difficulty, number> = {
+  easy: 0,
+  medium: 1,
+  hard: 2,
+};
+
+const MAIN_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+
+// Pantry items expiring within this many days of a meal get a bonus
+const EXPIRY_WINDOW_DAYS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+function totalMinutes(recipe: Recipe): number {
+  return (recipe.prep_time || 0) + (recipe.cook_time || 0);
+}
+
+function matchesTag(recipe: Recipe, tag: string): boolean {
+  const needle = tag.toLowerCase().trim();
+  if (!needle) return false;
+  return (recipe.tags || []).some(recipeTag => recipeTag.toLowerCase() === needle) ||
+    recipe.name.toLowerCase().split(/\s+/).includes(needle);
+}
+
+/**
+ * Canonical ids of the measurable ingredients of a recipe. Seasoning added
+ * "to taste" does not make a recipe a better use of the pantry.
+ */
+function getRecipeIngredientIds(recipe: Recipe): string[] {
+  const ids = (recipe.recipe_ingredients || [])
+    .filter(ingredient => !isToTaste(ingredient.unit))
+    .map(ingredient => getCanonicalId(ingredient.name));
+  return Array.from(new Set(ids));
+}
+
+interface PantryEntry {
+  name: string;
+  /** Earliest expiry date among pantry items with this canonical id */
+  expiryDate: string | null;
+}
+
+function indexPantry(pantry: PlannerPantryItem[]): Map<string, PantryEntry> {
+  const index = new Map<string, PantryEntry>();
+  pantry.forEach(item => {
+    const id = getCanonicalId(item.name);
+    const existing = index.get(id);
+    const expiryDate = item.expiry_date || null;
+    if (!existing) {
+      index.set(id, { name: item.name, expiryDate });
+    } else if (expiryDate && (!existing.expiryDate || expiryDate < existing.expiryDate)) {
+      existing.expiryDate = expiryDate;
+    }
+  });
+  return index;
+}
+
+interface PlannerState {
+  /** Dates each recipe id is planned on */
+  plannedDates: Map<string, string[]>;
+  /** Number of planned meals per limited tag */
+  tagCounts: Map<string, number>;
+  /** Pantry ingredients already used by a planned meal this week */
+  usedIngredients: Set<string>;
+}
+
+function recordMeal(state: PlannerState, recipe: Recipe, date: string, constraints: PlannerConstraints) {
+  state.plannedDates.set(recipe.id, [...(state.plannedDates.get(recipe.id) || []), date]);
+  constraints.tagLimits.forEach(limit => {
+    if (matchesTag(recipe, limit.tag)) {
+      state.tagCounts.set(limit.tag, (state.tagCounts.get(limit.tag) || 0) + 1);
+    }
+  });
+  getRecipeIngredientIds(recipe).forEach(id => state.usedIngredients.add(id));
+}
+
+/**
+ * Why a recipe cannot go into a slot, or null when it fits every constraint
+ */
+function findViolation(
+  recipe: Recipe,
+  date: string,
+  dayMinutes: number,
+  state: PlannerState,
+  constraints: PlannerConstraints
+): string | null {
+  if (DIFFICULTY_RANK[recipe.difficulty] > DIFFICULTY_RANK[constraints.maxDifficulty]) {
+    return 'difficulty';
+  }
+
+  const dates = state.plannedDates.get(recipe.id) || [];
+  const minGap = Math.max(constraints.noRepeatDays, 0);
+  if (dates.some(plannedDate => Math.abs(daysBetween(plannedDate, date)) <= minGap)) {
+    return 'repeat';
+  }
+
+  if (constraints.maxMinutesPerDay !== null && dayMinutes + totalMinutes(recipe) > constraints.maxMinutesPerDay) {
+    return 'time';
+  }
+
+  const overLimit = constraints.tagLimits.some(limit =>
+    matchesTag(recipe, limit.tag) && (state.tagCounts.get(limit.tag) || 0) >= limit.maxPerWeek
+  );
+  return overLimit ? 'tag' : null;
+}
+
+interface ScoredRecipe {
+  recipe: Recipe;
+  score: number;
+  reasons: string[];
+}
+
+function scoreRecipe(
+  recipe: Recipe,
+  date: string,
+  pantry: Map<string, PantryEntry>,
+  state: PlannerState
+): ScoredRecipe {
+  const ingredientIds = getRecipeIngredientIds(recipe);
+  const available = ingredientIds.filter(id => pantry.has(id));
+  const coverage = ingredientIds.length > 0 ? available.length / ingredientIds.length : 0;
+
+  // Ingredients that go off soon are worth more the closer they are to
+  // expiring, but only the first meal using them gets the full bonus
+  let expiryBonus = 0;
+  const expiring: { name: string; days: number }[] = [];
+  available.forEach(id => {
+    const entry = pantry.get(id)!;
+    if (!entry.expiryDate) return;
+
+    const daysLeft = daysBetween(date, entry.expiryDate);
+    if (daysLeft < 0 || daysLeft > EXPIRY_WINDOW_DAYS) return;
+
+    const weight = (EXPIRY_WINDOW_DAYS + 1 - daysLeft) / (EXPIRY_WINDOW_DAYS + 1);
+    expiryBonus += state.usedIngredients.has(id) ? weight * 0.25 : weight;
+    if (!state.usedIngredients.has(id)) {
+      expiring.push({ name: entry.name, days: daysLeft });
+    }
+  });
+
+  const reasons: string[] = [];
+  if (ingredientIds.length > 0) {
+    reasons.push(`Memakai ${available.length} dari ${ingredientIds.length} bahan yang ada di stok`);
+  }
+  expiring
+    .sort((a, b) => a.days - b.days)
+    .slice(0, 2)
+    .forEach(item => {
+      reasons.push(
+        item.days === 0
+          ? `Menghabiskan ${item.name} yang kedaluwarsa hari ini`
+          : `Menghabiskan ${item.name} sebelum kedaluwarsa dalam ${item.days} hari`
+      );
+    });
+
+  return {
+    recipe,
+    score: coverage + expiryBonus * 0.5,
+    reasons,
+  };
+}
+
+/**
+ * Build a weekly plan. Days are filled in order and every choice is greedy:
+ * the best-scoring recipe that satisfies all constraints wins the slot.
+ */
+export function generateMealPlan(options: PlannerOptions): PlannerResult {
+  const { weekStart, recipes, constraints, currentDays = [] } = options;
+  const random = options.random || Math.random;
+  const pantry = indexPantry(options.pantry);
+  const state: PlannerState = {
+    plannedDates: new Map(),
+    tagCounts: new Map(),
+    usedIngredients: new Set(),
+  };
+
+  const dates = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+  const lockedByDate = new Map(
+    currentDays.map(day => [day.date, (day.meals || []).filter(meal => meal.locked)])
+  );
+
+  // Locked meals are part of the plan before anything else is chosen
+  lockedByDate.forEach((meals, date) => {
+    meals.forEach(meal => recordMeal(state, meal.recipe, date, constraints));
+  });
+
+  let unfilledSlots = 0;
+
+  const days = dates.map((date): DailyMeals => {
+    const meals: PlannedMeal[] = [...(lockedByDate.get(date) || [])];
+    let dayMinutes = meals.reduce((sum, meal) => sum + totalMinutes(meal.recipe), 0);
+
+    while (meals.length < constraints.mealsPerDay) {
+      const usedSlots = new Set(meals.map(meal => meal.slot));
+      const slot = MAIN_SLOTS.find(candidate => !usedSlots.has(candidate)) || 'snack';
+
+      const candidates = recipes
+        .filter(recipe => !findViolation(recipe, date, dayMinutes, state, constraints))
+        .map(recipe => scoreRecipe(recipe, date, pantry, state))
+        .map(candidate => ({ ...candidate, score: candidate.score + random() * 0.05 }))
+        .sort((a, b) => b.score - a.score);
+
+      const best = candidates[0];
+      if (!best) {
+        unfilledSlots += constraints.mealsPerDay - meals.length;
+        break;
+      }
+
+      dayMinutes += totalMinutes(best.recipe);
+      if (constraints.maxMinutesPerDay !== null) {
+        best.reasons.push(`Total waktu masak hari ini ${dayMinutes} dari ${constraints.maxMinutesPerDay} menit`);
+      }
+
+      recordMeal(state, best.recipe, date, constraints);
+      meals.push({
+        recipe: best.recipe,
+        slot,
+        reasons: best.reasons.length > 0 ? best.reasons : ['Sesuai dengan semua batasan rencana'],
+      });
+    }
+
+    return { date, meals };
+  });
+
+  return { days, unfilledSlots };
+}
@@ -0,0 +1,345 @@
+import { NutritionInfo, Recipe } from '../types';
+import { CanonicalIngredient, canonicalizeIngredient } from './canonicalIngredients';
+import { getUnitDefinition } from './units';
+
+/**
+ * Nutrition estimates computed from a recipe's ingredients. Every ingredient
+ * is resolved to its canonical id, its amount converted to grams and looked
+ * up in a per-100 g reference table of common Indonesian ingredients
+ * (rounded values after TKPI, with USDA figures where TKPI has none).
+ *
+ * The result is an estimate: amounts that can't be weighed (a counted
+ * ingredient without a typical weight, an unknown unit) and ingredients that
+ * aren't in the table are left out and reported, so the UI can say how much
+ * of the recipe the numbers cover.
+ */
+
+export interface NutritionEstimate {
+  perServing: NutritionInfo;
+  /** Ingredients the estimate includes */
+  counted: number;
+  /** All ingredients of the recipe */
+  total: number;
+  /** Names of the ingredients left out */
+  missing: string[];
+}
+
+interface NutritionIngredient {
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+/** Per 100 g. Calories in kcal, sodium in mg, everything else in grams. */
+const NUTRIENTS_PER_100G: Record<string, NutritionInfo> = {
+  // Protein
+  ayam: { calories: 215, protein: 18.6, carbs: 0, fat: 15.1, fiber: 0, sugar: 0, sodium: 70 },
+  daging_sapi: { calories: 207, protein: 18.8, carbs: 0, fat: 14, fiber: 0, sugar: 0, sodium: 60 },
+  kambing: { calories: 154, protein: 16.6, carbs: 0, fat: 9.2, fiber: 0, sugar: 0, sodium: 70 },
+  ikan: { calories: 96, protein: 20, carbs: 0, fat: 1.7, fiber: 0, sugar: 0, sodium: 52 },
+  udang: { calories: 85, protein: 20.1, carbs: 0, fat: 0.5, fiber: 0, sugar: 0, sodium: 119 },
+  cumi: { calories: 92, protein: 15.6, carbs: 3.1, fat: 1.4, fiber: 0, sugar: 0, sodium: 44 },
+  telur: { calories: 143, protein: 12.6, carbs: 0.7, fat: 9.5, fiber: 0, sugar: 0.4, sodium: 142 },
+  tahu: { calories: 80, protein: 10.9, carbs: 0.8, fat: 4.7, fiber: 0.1, sugar: 0.3, sodium: 2 },
+  tempe: { calories: 201, protein: 20.8, carbs: 13.5, fat: 8.8, fiber: 1.4, sugar: 0, sodium: 9 },
+
+  // Staples. Cooked rice shares the beras id, see nutrientKey.
+  beras: { calories: 357, protein: 8.4, carbs: 77.1, fat: 1.7, fiber: 0.2, sugar: 0.1, sodium: 5 },
+  nasi: { calories: 130, protein: 2.7, carbs: 28.2, fat: 0.3, fiber: 0.4, sugar: 0.1, sodium: 1 },
+  mie: { calories: 384, protein: 14.2, carbs: 71.3, fat: 4.4, fiber: 3.3, sugar: 1.9, sodium: 21 },
+  tepung_terigu: { calories: 364, protein: 10.3, carbs: 76.3, fat: 1, fiber: 2.7, sugar: 0.3, sodium: 2 },
+  tepung_maizena: { calories: 381, protein: 0.3, carbs: 91.3, fat: 0.1, fiber: 0.9, sugar: 0, sodium: 9 },
+  kentang: { calories: 77, protein: 2, carbs: 17.5, fat: 0.1, fiber: 2.2, sugar: 0.8, sodium: 6 },
+  roti: { calories: 266, protein: 8.9, carbs: 49, fat: 3.3, fiber: 2.7, sugar: 5.7, sodium: 491 },
+
+  // Aromatics and spices
+  bawang_merah: { calories: 72, protein: 2.5, carbs: 16.8, fat: 0.1, fiber: 3.2, sugar: 7.9, sodium: 12 },
+  bawang_putih: { calories: 149, protein: 6.4, carbs: 33, fat: 0.5, fiber: 2.1, sugar: 1, sodium: 17 },
+  bawang_bombay: { calories: 40, protein: 1.1, carbs: 9.3, fat: 0.1, fiber: 1.7, sugar: 4.2, sodium: 4 },
+  daun_bawang: { calories: 32, protein: 1.8, carbs: 7.3, fat: 0.2, fiber: 2.6, sugar: 2.3, sodium: 16 },
+  cabai: { calories: 40, protein: 1.9, carbs: 8.8, fat: 0.4, fiber: 1.5, sugar: 5.3, sodium: 9 },
+  cabai_rawit: { calories: 40, protein: 1.9, carbs: 8.8, fat: 0.4, fiber: 1.5, sugar: 5.3, sodium: 9 },
+  jahe: { calories: 80, protein: 1.8, carbs: 17.8, fat: 0.8, fiber: 2, sugar: 1.7, sodium: 13 },
+  kunyit: { calories: 63, protein: 2, carbs: 9.1, fat: 2.2, fiber: 3, sugar: 0, sodium: 10 },
+  lengkuas: { calories: 71, protein: 1, carbs: 15, fat: 0.6, fiber: 2.4, sugar: 0, sodium: 5 },
+  serai: { calories: 99, protein: 1.8, carbs: 25.3, fat: 0.5, fiber: 0, sugar: 0, sodium: 6 },
+  kemiri: { calories: 636, protein: 19, carbs: 8, fat: 63, fiber: 2.1, sugar: 0, sodium: 2 },
+  ketumbar: { calories: 298, protein: 12.4, carbs: 55, fat: 17.8, fiber: 41.9, sugar: 0, sodium: 35 },
+  merica: { calories: 251, protein: 10.4, carbs: 64, fat: 3.3, fiber: 25.3, sugar: 0.6, sodium: 20 },
+  daun_salam: { calories: 313, protein: 7.6, carbs: 75, fat: 8.4, fiber: 26.3, sugar: 0, sodium: 23 },
+  daun_jeruk: { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0, sodium: 0 },
+  jeruk_nipis: { calories: 30, protein: 0.7, carbs: 10.5, fat: 0.2, fiber: 2.8, sugar: 1.7, sodium: 2 },
+  terasi: { calories: 174, protein: 30, carbs: 3.5, fat: 3.1, fiber: 0, sugar: 0, sodium: 3000 },
+  asam_jawa: { calories: 239, protein: 2.8, carbs: 62.5, fat: 0.6, fiber: 5.1, sugar: 57.4, sodium: 28 },
+  daun_pandan: { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0, sodium: 0 },
+  kemangi: { calories: 23, protein: 3.2, carbs: 2.7, fat: 0.6, fiber: 1.6, sugar: 0.3, sodium: 4 },
+  seledri: { calories: 16, protein: 0.7, carbs: 3, fat: 0.2, fiber: 1.6, sugar: 1.3, sodium: 80 },
+
+  // Seasonings, sauces and liquids. Stock powder shares the kaldu id, see nutrientKey.
+  garam: { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0, sodium: 38758 },
+  gula: { calories: 387, protein: 0, carbs: 100, fat: 0, fiber: 0, sugar: 100, sodium: 1 },
+  gula_merah: { calories: 368, protein: 0.4, carbs: 94, fat: 0.1, fiber: 0, sugar: 85, sodium: 30 },
+  kecap_manis: { calories: 270, protein: 5.7, carbs: 60, fat: 0.3, fiber: 0, sugar: 50, sodium: 3900 },
+  kecap_asin: { calories: 53, protein: 8.1, carbs: 4.9, fat: 0.6, fiber: 0.8, sugar: 0.4, sodium: 5493 },
+  saus_tiram: { calories: 51, protein: 1.4, carbs: 10.9, fat: 0.3, fiber: 0.3, sugar: 0, sodium: 2733 },
+  saus_sambal: { calories: 93, protein: 1.9, carbs: 19, fat: 0.9, fiber: 1, sugar: 14, sodium: 2000 },
+  saus_tomat: { calories: 101, protein: 1, carbs: 27.4, fat: 0.1, fiber: 0.3, sugar: 21.3, sodium: 907 },
+  kaldu: { calories: 15, protein: 1.5, carbs: 1.2, fat: 0.5, fiber: 0, sugar: 0.6, sodium: 340 },
+  kaldu_bubuk: { calories: 255, protein: 11, carbs: 35, fat: 8, fiber: 0, sugar: 10, sodium: 20000 },
+  minyak_goreng: { calories: 884, protein: 0, carbs: 0, fat: 100, fiber: 0, sugar: 0, sodium: 0 },
+  santan: { calories: 230, protein: 2.3, carbs: 6, fat: 24, fiber: 2.2, sugar: 3.3, sodium: 15 },
+  air: { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0, sodium: 0 },
+
+  // Vegetables
+  tomat: { calories: 18, protein: 0.9, carbs: 3.9, fat: 0.2, fiber: 1.2, sugar: 2.6, sodium: 5 },
+  wortel: { calories: 41, protein: 0.9, carbs: 9.6, fat: 0.2, fiber: 2.8, sugar: 4.7, sodium: 69 },
+  kol: { calories: 25, protein: 1.3, carbs: 5.8, fat: 0.1, fiber: 2.5, sugar: 3.2, sodium: 18 },
+  bayam: { calories: 23, protein: 2.9, carbs: 3.6, fat: 0.4, fiber: 2.2, sugar: 0.4, sodium: 79 },
+  kangkung: { calories: 19, protein: 2.6, carbs: 3.1, fat: 0.2, fiber: 2.1, sugar: 0, sodium: 113 },
+  sawi: { calories: 13, protein: 1.5, carbs: 2.2, fat: 0.2, fiber: 1, sugar: 1.2, sodium: 65 },
+  buncis: { calories: 31, protein: 1.8, carbs: 7, fat: 0.2, fiber: 2.7, sugar: 3.3, sodium: 6 },
+  kacang_panjang: { calories: 47, protein: 2.8, carbs: 8.4, fat: 0.4, fiber: 3, sugar: 0, sodium: 4 },
+  terong: { calories: 25, protein: 1, carbs: 5.9, fat: 0.2, fiber: 3, sugar: 3.5, sodium: 2 },
+  timun: { calories: 15, protein: 0.7, carbs: 3.6, fat: 0.1, fiber: 0.5, sugar: 1.7, sodium: 2 },
+  jagung: { calories: 86, protein: 3.3, carbs: 19, fat: 1.4, fiber: 2.7, sugar: 6.3, sodium: 15 },
+  jamur: { calories: 22, protein: 3.1, carbs: 3.3, fat: 0.3, fiber: 1, sugar: 2, sodium: 5 },
+  brokoli: { calories: 34, protein: 2.8, carbs: 6.6, fat: 0.4, fiber: 2.6, sugar: 1.7, sodium: 33 },
+  labu_siam: { calories: 19, protein: 0.8, carbs: 4.5, fat: 0.1, fiber: 1.7, sugar: 1.7, sodium: 2 },
+  tauge: { calories: 30, protein: 3, carbs: 5.9, fat: 0.2, fiber: 1.8, sugar: 4.1, sodium: 6 },
+
+  // Dairy, nuts and fruit
+  susu: { calories: 61, protein: 3.2, carbs: 4.8, fat: 3.3, fiber: 0, sugar: 5.1, sodium: 43 },
+  keju: { calories: 403, protein: 22.9, carbs: 3.1, fat: 33.3, fiber: 0, sugar: 0.5, sodium: 653 },
+  mentega: { calories: 717, protein: 0.9, carbs: 0.1, fat: 81, fiber: 0, sugar: 0.1, sodium: 643 },
+  margarin: { calories: 717, protein: 0.2, carbs: 0.7, fat: 80.7, fiber: 0, sugar: 0, sodium: 751 },
+  kacang_tanah: { calories: 567, protein: 25.8, carbs: 16.1, fat: 49.2, fiber: 8.5, sugar: 4.7, sodium: 18 },
+  kelapa: { calories: 354, protein: 3.3, carbs: 15.2, fat: 33.5, fiber: 9, sugar: 6.2, sodium: 20 },
+  pisang: { calories: 89, protein: 1.1, carbs: 22.8, fat: 0.3, fiber: 2.6, sugar: 12.2, sodium: 1 },
+  lemon: { calories: 29, protein: 1.1, carbs: 9.3, fat: 0.3, fiber: 2.8, sugar: 2.5, sodium: 2 },
+};
+
+/**
+ * Typical grams in one counted unit (buah, butir, siung, potong, ikat,
+ * piring, ...). Counted units are interchangeable in units.ts, so this is
+ * the most common way each ingredient is counted; whole animals are in
+ * GRAMS_PER_EKOR.
+ */
+const GRAMS_PER_PIECE: Record<string, number> = {
+  ayam: 150, // potong
+  ikan: 250,
+  udang: 15,
+  cumi: 100,
+  telur: 55,
+  tahu: 50,
+  tempe: 100,
+  nasi: 200, // piring
+  kentang: 150,
+  roti: 30, // lembar
+  bawang_merah: 7,
+  bawang_putih: 4,
+  bawang_bombay: 150,
+  daun_bawang: 15, // batang
+  cabai: 10,
+  cabai_rawit: 2,
+  jahe: 10, // ruas
+  kunyit: 10,
+  lengkuas: 15,
+  serai: 15,
+  kemiri: 3,
+  daun_salam: 0.2,
+  daun_jeruk: 0.3,
+  daun_pandan: 2,
+  jeruk_nipis: 30,
+  kemangi: 30, // ikat
+  seledri: 10, // batang
+  tomat: 100,
+  wortel: 70,
+  kol: 800,
+  bayam: 200, // ikat
+  kangkung: 250,
+  sawi: 250,
+  buncis: 5,
+  kacang_panjang: 250,
+  terong: 200,
+  timun: 150,
+  jagung: 150,
+  jamur: 20,
+  brokoli: 300,
+  labu_siam: 250,
+  keju: 20, // lembar
+  kaldu_bubuk: 10, // blok, bungkus
+  pisang: 120,
+  lemon: 60,
+};
+
+/** Grams in one "ekor": a whole chicken, fish, prawn or squid */
+const GRAMS_PER_EKOR: Record<string, number> = {
+  ayam: 1000,
+  ikan: 300,
+  udang: 15,
+  cumi: 100,
+};
+
+/** Grams per ml, for ingredients measured by volume that aren't as dense as water */
+const GRAMS_PER_ML: Record<string, number> = {
+  beras: 0.85,
+  tepung_terigu: 0.53,
+  tepung_maizena: 0.54,
+  ketumbar: 0.4,
+  merica: 0.5,
+  garam: 1.2,
+  gula: 0.85,
+  gula_merah: 0.85,
+  kecap_manis: 1.25,
+  kecap_asin: 1.2,
+  saus_tiram: 1.2,
+  saus_tomat: 1.15,
+  kaldu_bubuk: 0.8,
+  minyak_goreng: 0.92,
+  mentega: 0.91,
+  margarin: 0.91,
+  kacang_tanah: 0.6,
+  kelapa: 0.4,
+};
+
+/**
+ * Grams assumed for "secukupnya" of ingredients that add up even in small
+ * amounts: the salt in a dish, the oil a fried dish soaks up. Anything else
+ * to taste counts as nothing.
+ */
+const GRAMS_TO_TASTE: Record<string, number> = {
+  garam: 3,
+  gula: 5,
+  merica: 1,
+  kaldu_bubuk: 5,
+  minyak_goreng: 15,
+};
+
+const NUTRIENT_KEYS: (keyof NutritionInfo)[] = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'sodium'];
+
+export function emptyNutrition(): NutritionInfo {
+  return { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0, sodium: 0 };
+}
+
+export function addNutrition(a: NutritionInfo, b: NutritionInfo): NutritionInfo {
+  const sum = emptyNutrition();
+  NUTRIENT_KEYS.forEach(key => { sum[key] = a[key] + b[key]; });
+  return sum;
+}
+
+export function scaleNutrition(nutrition: NutritionInfo, factor: number): NutritionInfo {
+  const scaled = emptyNutrition();
+  NUTRIENT_KEYS.forEach(key => { scaled[key] = nutrition[key] * factor; });
+  return scaled;
+}
+
+/**
+ * Whole kcal and mg, grams to one decimal
+ */
+export function roundNutrition(nutrition: NutritionInfo): NutritionInfo {
+  const rounded = emptyNutrition();
+  NUTRIENT_KEYS.forEach(key => {
+    rounded[key] = key === 'calories' || key === 'sodium'
+      ? Math.round(nutrition[key])
+      : Math.round(nutrition[key] * 10) / 10;
+  });
+  return rounded;
+}
+
+const STOCK_POWDER_WORDS = /\b(?:bubuk|blok|kotak|penyedap|royco|masako|powder|cube)\b/;
+const LIQUID_STOCK_WORDS = /\b(?:air|cair|stock|broth)\b/;
+
+// Less stock than this by volume is powder ("1 sdt kaldu ayam")
+const MIN_LIQUID_STOCK_ML = 50;
+
+/**
+ * Table key of an ingredient: its canonical id, except that cooked rice
+ * ("nasi") is looked up apart from raw rice, and stock powder apart from
+ * liquid stock. Stock that doesn't say which is liquid when measured by the
+ * glass or liter, powder otherwise.
+ */
+function nutrientKey(canonical: CanonicalIngredient, ingredient: NutritionIngredient): string {
+  if (canonical.id === 'beras' && /\bnasi\b/.test(canonical.normalized)) return 'nasi';
+
+  if (canonical.id === 'kaldu') {
+    const name = ingredient.name.toLowerCase();
+    if (STOCK_POWDER_WORDS.test(name)) return 'kaldu_bubuk';
+    if (LIQUID_STOCK_WORDS.test(name)) return 'kaldu';
+
+    const definition = getUnitDefinition(ingredient.unit);
+    const isLiquid = definition?.dimension === 'volume'
+      && ingredient.quantity * definition.factor >= MIN_LIQUID_STOCK_ML;
+    return isLiquid ? 'kaldu' : 'kaldu_bubuk';
+  }
+
+  return canonical.id;
+}
+
+/**
+ * Weight of an amount in grams, or null when it can't be weighed
+ */
+function toGrams(key: string, quantity: number, unit: string): number | null {
+  const definition = getUnitDefinition(unit);
+  if (!definition) return null;
+  if (definition.dimension === 'to_taste') return GRAMS_TO_TASTE[key] ?? 0;
+  if (!Number.isFinite(quantity) || quantity <= 0) return null;
+
+  const amount = quantity * definition.factor;
+  switch (definition.dimension) {
+    case 'mass':
+      return amount;
+    case 'volume':
+      return amount * (GRAMS_PER_ML[key] ?? 1);
+    case 'count': {
+      const grams = definition.id === 'ekor' ? GRAMS_PER_EKOR[key] ?? GRAMS_PER_PIECE[key] : GRAMS_PER_PIECE[key];
+      return grams !== undefined ? amount * grams : null;
+    }
+  }
+}
+
+/**
+ * Nutrition of one ingredient amount, or null when it isn't in the table or
+ * can't be weighed
+ */
+export function estimateIngredientNutrition(ingredient: NutritionIngredient): NutritionInfo | null {
+  const key = nutrientKey(canonicalizeIngredient(ingredient.name), ingredient);
+  const per100g = NUTRIENTS_PER_100G[key];
+  if (!per100g) return null;
+
+  const grams = toGrams(key, ingredient.quantity, ingredient.unit);
+  if (grams === null) return null;
+
+  return scaleNutrition(per100g, grams / 100);
+}
+
+/**
+ * Per-serving nutrition of a list of ingredients that makes `servings` portions
+ */
+export function estimateNutrition(ingredients: NutritionIngredient[], servings: number): NutritionEstimate {
+  let total = emptyNutrition();
+  const missing: string[] = [];
+
+  ingredients.forEach(ingredient => {
+    const nutrition = estimateIngredientNutrition(ingredient);
+    if (nutrition) {
+      total = addNutrition(total, nutrition);
+    } else {
+      missing.push(ingredient.name);
+    }
+  });
+
+  const portions = Number.isFinite(servings) && servings > 0 ? servings : 1;
+  return {
+    perServing: roundNutrition(scaleNutrition(total, 1 / portions)),
+    counted: ingredients.length - missing.length,
+    total: ingredients.length,
+    missing,
+  };
+}
+
+/**
+ * Per-serving nutrition of a recipe, user or dataset alike
+ */
+export function estimateRecipeNutrition(recipe: Recipe): NutritionEstimate {
+  return estimateNutrition(recipe.recipe_ingredients || [], recipe.servings);
+}
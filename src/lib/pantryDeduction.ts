@@ -0,0 +1,147 @@
+import { PantryChange, Recipe } from '../types';
+import { isSameIngredient } from './canonicalIngredients';
+import { Quantity, areUnitsCompatible, convertQuantity, isToTaste, scaleQuantity } from './units';
+
+/**
+ * Pantry deduction for cooked meals.
+ *
+ * Builds a preview of how a recipe (scaled to a number of servings) changes
+ * the pantry, and the inverse changes needed to undo a recorded deduction.
+ */
+
+export interface PantryItem {
+  id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  expiry_date?: string | null;
+}
+
+export type DeductionStatus = 'deduct' | 'insufficient' | 'missing' | 'incompatible' | 'to_taste';
+
+export interface DeductionLine {
+  name: string;
+  required: Quantity;
+  status: DeductionStatus;
+  changes: PantryChange[];
+}
+
+export interface DeductionPreview {
+  recipeId: string;
+  recipeName: string;
+  servings: number;
+  lines: DeductionLine[];
+  /** One entry per pantry item touched, ready to be applied and recorded */
+  changes: PantryChange[];
+}
+
+function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 100) / 100;
+}
+
+function byExpiry(a: PantryItem, b: PantryItem): number {
+  if (!a.expiry_date && !b.expiry_date) return 0;
+  if (!a.expiry_date) return 1;
+  if (!b.expiry_date) return -1;
+  return a.expiry_date.localeCompare(b.expiry_date);
+}
+
+/**
+ * Work out which pantry items a recipe uses up. Items closest to their
+ * expiry date are used first; the pantry itself is not modified.
+ */
+export function previewPantryDeduction(
+  recipe: Recipe,
+  pantry: PantryItem[],
+  servings: number
+): DeductionPreview {
+  const scale = servings / Math.max(recipe.servings || 1, 1);
+  const remainingStock = new Map(pantry.map(item => [item.id, item.quantity]));
+  const changesById = new Map<string, PantryChange>();
+
+  const lines = (recipe.recipe_ingredients || []).map((ingredient): DeductionLine => {
+    const required = scaleQuantity({ quantity: ingredient.quantity, unit: ingredient.unit }, scale);
+
+    if (isToTaste(required.unit)) {
+      return { name: ingredient.name, required, status: 'to_taste', changes: [] };
+    }
+
+    const candidates = pantry
+      .filter(item => isSameIngredient(item.name, ingredient.name))
+      .sort(byExpiry);
+
+    if (candidates.length === 0) {
+      return { name: ingredient.name, required, status: 'missing', changes: [] };
+    }
+
+    const compatible = candidates.filter(item => areUnitsCompatible(item.unit, required.unit));
+    if (compatible.length === 0) {
+      return { name: ingredient.name, required, status: 'incompatible', changes: [] };
+    }
+
+    let outstanding = required.quantity;
+    const lineChanges: PantryChange[] = [];
+
+    for (const item of compatible) {
+      if (outstanding <= 0) break;
+
+      const stock = remainingStock.get(item.id) || 0;
+      const available = convertQuantity(stock, item.unit, required.unit) || 0;
+      if (available <= 0) continue;
+
+      const taken = Math.min(available, outstanding);
+      const takenInItemUnit = convertQuantity(taken, required.unit, item.unit) || 0;
+      const newQuantity = Math.max(0, roundQuantity(stock - takenInItemUnit));
+      outstanding -= taken;
+      remainingStock.set(item.id, newQuantity);
+
+      const change: PantryChange = {
+        ingredient_id: item.id,
+        name: item.name,
+        unit: item.unit,
+        previous_quantity: changesById.get(item.id)?.previous_quantity ?? item.quantity,
+        new_quantity: newQuantity,
+      };
+      changesById.set(item.id, change);
+      lineChanges.push({ ...change, previous_quantity: stock });
+    }
+
+    return {
+      name: ingredient.name,
+      required,
+      status: outstanding > 1e-9 ? 'insufficient' : 'deduct',
+      changes: lineChanges,
+    };
+  });
+
+  return {
+    recipeId: recipe.id,
+    recipeName: recipe.name,
+    servings,
+    lines,
+    changes: Array.from(changesById.values()),
+  };
+}
+
+/**
+ * Changes that put back what a recorded deduction took out. Quantities are
+ * added back on top of the current stock, so later edits are preserved.
+ * Pantry items deleted since then are skipped.
+ */
+export function buildRevertChanges(changes: PantryChange[], pantry: PantryItem[]): PantryChange[] {
+  return changes
+    .map(change => {
+      const item = pantry.find(candidate => candidate.id === change.ingredient_id);
+      if (!item) return null;
+
+      const deducted = change.previous_quantity - change.new_quantity;
+      return {
+        ingredient_id: item.id,
+        name: item.name,
+        unit: item.unit,
+        previous_quantity: item.quantity,
+        new_quantity: roundQuantity(item.quantity + deducted),
+      };
+    })
+    .filter((change): change is PantryChange => change !== null);
+}
@@ -0,0 +1,205 @@
+import { Database, Json } from './database.types';
+import { ParsedIngredientLine, parseIngredientLine } from './ingredientParser';
+import { parseDatasetIngredients, parseDatasetSteps } from './recipeScoring';
+import { MealSlot } from '../types';
+
+/**
+ * What the recommenders know about a community recipe beyond its raw text:
+ * parsed ingredients and steps, time and difficulty estimates, tags, cuisine
+ * and meal type. The metadata backfill stores it in `dataset_recipe_metadata`
+ * (optionally refined by Gemini); recipes it hasn't reached yet get the same
+ * rule-based derivation on the fly.
+ */
+
+/** Bump when the derivation changes, so the backfill redoes stored rows */
+export const RECIPE_METADATA_VERSION = 1;
+
+export type RecipeDifficulty = 'easy' | 'medium' | 'hard';
+
+export type RecipeMealType = Exclude<MealSlot, 'custom'>;
+
+export interface RecipeMetadata {
+  ingredients: ParsedIngredientLine[];
+  steps: string[];
+  /** Minutes */
+  prep_time: number;
+  /** Minutes */
+  cook_time: number;
+  difficulty: RecipeDifficulty;
+  tags: string[];
+  cuisine: string | null;
+  meal_type: RecipeMealType | null;
+  /** `ai` when Gemini refined the rule-based estimates */
+  source: 'rules' | 'ai';
+}
+
+/** Estimates the AI may refine */
+export type RecipeMetadataHints = Partial<Pick<RecipeMetadata, 'prep_time' | 'cook_time' | 'difficulty' | 'cuisine' | 'meal_type'>>;
+
+type MetadataRow = Database['public']['Tables']['dataset_recipe_metadata']['Row'];
+type MetadataInsert = Database['public']['Tables']['dataset_recipe_metadata']['Insert'];
+
+// Keep in sync with recipe_keyword_tags in the database
+const CUISINE_KEYWORDS: Record<string, string[]> = {
+  'indonesia': ['nasi', 'ayam', 'sambal', 'rendang', 'gudeg', 'soto'],
+  'asia': ['mie', 'tahu', 'tempe', 'kecap'],
+  'western': ['pasta', 'cheese', 'bread', 'butter'],
+  'healthy': ['sayur', 'buah', 'diet', 'sehat', 'rendah'],
+};
+
+const COOKING_METHODS = ['goreng', 'bakar', 'rebus', 'tumis', 'kukus', 'panggang'];
+
+/** Tags that recommendation filters can require */
+export const FILTER_TAGS = [...Object.keys(CUISINE_KEYWORDS), ...COOKING_METHODS];
+
+const CUISINES = ['indonesia', 'asia', 'western'];
+
+const DIFFICULTIES: RecipeDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Dish and flavor tags, from words in the title (and the ingredients)
+const DISH_TAGS: { tag: string; title: string[]; ingredients?: string[] }[] = [
+  { tag: 'nasi', title: ['nasi', 'rice'] },
+  { tag: 'ayam', title: ['ayam'], ingredients: ['ayam'] },
+  { tag: 'ikan', title: ['ikan'], ingredients: ['ikan'] },
+  { tag: 'sayuran', title: ['sayur'], ingredients: ['sayur'] },
+  { tag: 'berkuah', title: ['sup', 'soto'] },
+  { tag: 'pedas', title: ['pedas'], ingredients: ['cabai'] },
+  { tag: 'manis', title: ['manis'] },
+  { tag: 'sehat', title: ['sehat', 'diet'] },
+];
+
+const MEAL_TYPE_KEYWORDS: Record<RecipeMealType, string[]> = {
+  breakfast: ['sarapan', 'breakfast'],
+  lunch: ['makan siang', 'lunch'],
+  dinner: ['makan malam', 'dinner'],
+  snack: ['camilan', 'cemilan', 'snack'],
+};
+
+const MEAL_TYPES = Object.keys(MEAL_TYPE_KEYWORDS) as RecipeMealType[];
+
+const MAX_ESTIMATED_MINUTES = 24 * 60;
+
+export function estimateDifficulty(ingredientCount: number, stepCount: number): RecipeDifficulty {
+  const complexity = ingredientCount + stepCount * 1.5;
+
+  if (complexity <= 10) return 'easy';
+  if (complexity <= 20) return 'medium';
+  return 'hard';
+}
+
+/**
+ * Cuisine and cooking method tags, as `recipe_keyword_tags` derives them
+ */
+export function getKeywordTags(title: string, ingredients: string): string[] {
+  const tags = [];
+  const titleLower = title.toLowerCase();
+  const ingredientsLower = ingredients.toLowerCase();
+
+  for (const [cuisine, keywords] of Object.entries(CUISINE_KEYWORDS)) {
+    if (keywords.some(keyword => titleLower.includes(keyword) || ingredientsLower.includes(keyword))) {
+      tags.push(cuisine);
+    }
+  }
+
+  COOKING_METHODS.forEach(method => {
+    if (titleLower.includes(method)) {
+      tags.push(method);
+    }
+  });
+
+  return tags;
+}
+
+/**
+ * Rule-based metadata of a raw dataset recipe
+ */
+export function deriveRecipeMetadata(recipe: { title: string; ingredients: string; steps: string }): RecipeMetadata {
+  const ingredients = parseDatasetIngredients(recipe.ingredients).map(parseIngredientLine);
+  const steps = parseDatasetSteps(recipe.steps);
+  const titleLower = recipe.title.toLowerCase();
+  const ingredientsLower = recipe.ingredients.toLowerCase();
+
+  const keywordTags = getKeywordTags(recipe.title, recipe.ingredients);
+  const dishTags = DISH_TAGS
+    .filter(({ title, ingredients: ingredientWords = [] }) =>
+      title.some(word => titleLower.includes(word)) || ingredientWords.some(word => ingredientsLower.includes(word))
+    )
+    .map(({ tag }) => tag);
+
+  const mealType = MEAL_TYPES.find(type => MEAL_TYPE_KEYWORDS[type].some(keyword => titleLower.includes(keyword)));
+
+  return {
+    ingredients,
+    steps,
+    prep_time: Math.min(Math.max(ingredients.length * 2, 10), 30),
+    cook_time: Math.min(Math.max(steps.length * 5, 15), 60),
+    difficulty: estimateDifficulty(ingredients.length, steps.length),
+    tags: [...new Set([...dishTags, ...keywordTags])],
+    cuisine: CUISINES.find(cuisine => keywordTags.includes(cuisine)) ?? null,
+    meal_type: mealType ?? null,
+    source: 'rules',
+  };
+}
+
+/**
+ * Validate the estimates an AI answered for one recipe, dropping fields
+ * that are missing or out of range
+ */
+export function parseRecipeMetadataHints(value: unknown): RecipeMetadataHints {
+  if (!value || typeof value !== 'object') return {};
+  const raw = value as Record<string, unknown>;
+  const hints: RecipeMetadataHints = {};
+
+  const minutes = (field: unknown) =>
+    typeof field === 'number' && Number.isFinite(field) && field >= 0 && field <= MAX_ESTIMATED_MINUTES
+      ? Math.round(field)
+      : undefined;
+
+  const prepTime = minutes(raw.prep_time);
+  if (prepTime !== undefined) hints.prep_time = prepTime;
+  const cookTime = minutes(raw.cook_time);
+  if (cookTime !== undefined) hints.cook_time = cookTime;
+
+  if (DIFFICULTIES.includes(raw.difficulty as RecipeDifficulty)) {
+    hints.difficulty = raw.difficulty as RecipeDifficulty;
+  }
+  if (typeof raw.cuisine === 'string' && CUISINES.includes(raw.cuisine)) {
+    hints.cuisine = raw.cuisine;
+  }
+  if (MEAL_TYPES.includes(raw.meal_type as RecipeMealType)) {
+    hints.meal_type = raw.meal_type as RecipeMealType;
+  }
+
+  return hints;
+}
+
+/**
+ * Overlay AI estimates on rule-based metadata
+ */
+export function applyRecipeMetadataHints(metadata: RecipeMetadata, hints: RecipeMetadataHints): RecipeMetadata {
+  if (Object.keys(hints).length === 0) return metadata;
+  return { ...metadata, ...hints, source: 'ai' };
+}
+
+export function toRecipeMetadata(row: MetadataRow): RecipeMetadata {
+  return {
+    ingredients: Array.isArray(row.ingredients) ? row.ingredients as unknown as ParsedIngredientLine[] : [],
+    steps: row.steps,
+    prep_time: row.prep_time,
+    cook_time: row.cook_time,
+    difficulty: row.difficulty,
+    tags: row.tags,
+    cuisine: row.cuisine,
+    meal_type: row.meal_type,
+    source: row.source,
+  };
+}
+
+export function toMetadataInsert(recipeId: string, metadata: RecipeMetadata): MetadataInsert {
+  return {
+    recipe_id: recipeId,
+    ...metadata,
+    ingredients: metadata.ingredients as unknown as Json,
+    version: RECIPE_METADATA_VERSION,
+  };
+}
@@ -0,0 +1,160 @@
+import { IngredientMatchType, findIngredientMatch } from './canonicalIngredients';
+
+export { parseDatasetIngredients, parseDatasetSteps } from '../../supabase/functions/_shared/datasetRecipes.ts';
+
+/**
+ * Parsing and scoring of raw dataset recipes, shared by the recommenders and
+ * the offline evaluation so both rank recipes the same way. Nothing here
+ * touches Supabase. The parsing lives in the edge functions' shared code,
+ * which ingestion uses too.
+ */
+
+/** Below this match score, dataset recommendations are dropped */
+export const MIN_MATCH_SCORE = 0.2;
+
+/** A recipe ingredient the pantry covers, and the pantry item covering it */
+export interface MatchedIngredient {
+  ingredient: string;
+  pantryItem: string;
+  type: Exclude<IngredientMatchType, 'none'>;
+}
+
+export interface IngredientCoverage {
+  /** Exact and synonym matches only */
+  matched: MatchedIngredient[];
+  /**
+   * Partial matches: a pantry item sharing a word with the ingredient, which
+   * may or may not be it. These are listed under `missing` too.
+   */
+  maybe: MatchedIngredient[];
+  /** Recipe ingredients the pantry does not cover for sure */
+  missing: string[];
+  /** Share of the recipe's ingredients covered, partial matches counting half */
+  coverage: number;
+}
+
+export type ScoreComponentKey = 'ingredients' | 'similarity' | 'popularity' | 'simplicity' | 'ai';
+
+/**
+ * One signal in a recommendation score: `value` is 0..1 and `weight` its
+ * share of the score, so the contributions `value * weight` add up to it.
+ * A weight of 0 marks a signal that only breaks ties.
+ */
+export interface ScoreComponent {
+  key: ScoreComponentKey;
+  value: number;
+  weight: number;
+}
+
+/**
+ * Why a recipe was recommended: the have/missing split of its ingredients
+ * against the pantry and what its score is made of
+ */
+export interface RecommendationExplanation extends IngredientCoverage {
+  components: ScoreComponent[];
+  lovesCount: number;
+  /** Hybrid search: the vector and full-text scores behind the similarity */
+  searchScores?: { vector: number | null; lexical: number | null };
+}
+
+const normalizePopularity = (lovesCount: number) => Math.min(lovesCount / 1000, 1);
+
+/**
+ * Match each recipe ingredient against the pantry: which pantry item covers
+ * it and how, and which ingredients are missing. A partial match ("bawang
+ * merah" for "bawang putih") does not count as having the ingredient; it
+ * only earns half credit in `coverage`.
+ */
+export function matchPantryIngredients(recipeIngredients: string[], availableIngredients: string[]): IngredientCoverage {
+  const matched: MatchedIngredient[] = [];
+  const maybe: MatchedIngredient[] = [];
+  const missing: string[] = [];
+
+  recipeIngredients.forEach(recipeIng => {
+    const match = findIngredientMatch(recipeIng, availableIngredients, name => name);
+    if (match && match.type !== 'partial') {
+      matched.push({ ingredient: recipeIng, pantryItem: match.candidate, type: match.type });
+      return;
+    }
+
+    if (match) {
+      maybe.push({ ingredient: recipeIng, pantryItem: match.candidate, type: match.type });
+    }
+    missing.push(recipeIng);
+  });
+
+  const totalIngredients = Math.max(recipeIngredients.length, 1);
+  const coverage = Math.min((matched.length + maybe.length * 0.5) / totalIngredients, 1.0);
+
+  return { matched, maybe, missing, coverage };
+}
+
+/**
+ * Share of a recipe's ingredients the pantry covers; partial name matches
+ * count half
+ */
+export function calculateMatchScore(recipeIngredients: string[], availableIngredients: string[]): number {
+  return matchPantryIngredients(recipeIngredients, availableIngredients).coverage;
+}
+
+/**
+ * Components of a dataset match score: ingredient coverage alone, with
+ * popularity only breaking ties (see `compareByMatch`)
+ */
+export function getMatchScoreComponents(coverage: number, lovesCount: number): ScoreComponent[] {
+  return [
+    { key: 'ingredients', value: coverage, weight: 1 },
+    { key: 'popularity', value: normalizePopularity(lovesCount), weight: 0 },
+  ];
+}
+
+/**
+ * Dataset ranking: by match score, with loves deciding between recipes whose
+ * scores are within 0.1 of each other
+ */
+export function compareByMatch(
+  a: { match_score: number; loves_count: number },
+  b: { match_score: number; loves_count: number }
+): number {
+  if (Math.abs(a.match_score - b.match_score) > 0.1) {
+    return b.match_score - a.match_score;
+  }
+  return b.loves_count - a.loves_count;
+}
+
+/**
+ * Components of a RAG confidence score: half similarity, then popularity,
+ * then simplicity
+ */
+export function getConfidenceComponents(
+  similarity: number,
+  lovesCount: number,
+  ingredientCount: number,
+  stepCount: number
+): ScoreComponent[] {
+  return [
+    { key: 'similarity', value: similarity, weight: 0.5 },
+    { key: 'popularity', value: normalizePopularity(lovesCount), weight: 0.3 },
+    { key: 'simplicity', value: Math.max(0, 1 - (ingredientCount + stepCount) / 20), weight: 0.2 },
+  ];
+}
+
+/**
+ * Score made of `components`, rounded to two decimals
+ */
+export function sumScoreComponents(components: ScoreComponent[]): number {
+  const score = components.reduce((sum, component) => sum + component.value * component.weight, 0);
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * RAG confidence: half similarity, then popularity, then simplicity
+ */
+export function calculateConfidenceScore(
+  similarity: number,
+  lovesCount: number,
+  ingredientCount: number,
+  stepCount: number
+): number {
+  return sumScoreComponents(getConfidenceComponents(similarity, lovesCount, ingredientCount, stepCount));
+}
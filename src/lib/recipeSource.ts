@@ -0,0 +1,50 @@
+import { Recipe, RecipeSource } from '../types';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export const RECIPE_SOURCE_LABELS: Record<RecipeSource, string> = {
+  user: 'Resep Saya',
+  dataset: 'Dataset',
+  ai: 'AI',
+};
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * Where a recipe shown in the app comes from. Only the user's own saved
+ * recipes live in the `recipes` table; dataset recipes (including RAG results)
+ * carry a `dataset...` user_id and everything else was generated on the fly.
+ */
+export function getRecipeSource(recipe: Recipe, userId: string | undefined): RecipeSource {
+  if (userId && recipe.user_id === userId && isUuid(recipe.id)) return 'user';
+  if (recipe.user_id.startsWith('dataset')) return 'dataset';
+  return 'ai';
+}
+
+/**
+ * Plain copy of a recipe that can be stored as JSON, without the scoring
+ * fields recommendation services add on top of Recipe
+ */
+export function toRecipeSnapshot(recipe: Recipe): Recipe {
+  return {
+    id: recipe.id,
+    name: recipe.name,
+    description: recipe.description,
+    prep_time: recipe.prep_time,
+    cook_time: recipe.cook_time,
+    servings: recipe.servings,
+    difficulty: recipe.difficulty,
+    instructions: recipe.instructions,
+    tags: recipe.tags,
+    user_id: recipe.user_id,
+    recipe_ingredients: (recipe.recipe_ingredients || []).map(ingredient => ({
+      id: ingredient.id,
+      recipe_id: ingredient.recipe_id,
+      name: ingredient.name,
+      quantity: ingredient.quantity,
+      unit: ingredient.unit,
+    })),
+  };
+}
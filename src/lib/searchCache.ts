@@ -0,0 +1,184 @@
+/**
+ * Client-side caches for RAG searches: query embeddings and recommendation
+ * results. Entries live in memory and in IndexedDB, so they survive reloads;
+ * without IndexedDB (private mode, tests) only the memory tier is used.
+ */
+
+const DB_NAME = 'rag-search-cache';
+const DB_VERSION = 1;
+const STORE_NAMES = ['query-embeddings', 'recommendations', 'meta'] as const;
+
+export type CacheStoreName = typeof STORE_NAMES[number];
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!databasePromise) {
+    databasePromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of STORE_NAMES) {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Search cache unavailable, caching in memory only:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * A key-value cache with a time to live, backed by one IndexedDB object store
+ */
+export class TieredCache<T> {
+  private memory = new Map<string, CacheEntry<T>>();
+
+  constructor(
+    private readonly storeName: CacheStoreName,
+    private readonly ttlMs: number,
+    private readonly maxMemoryEntries = 200
+  ) {}
+
+  async get(key: string): Promise<T | null> {
+    let entry = this.memory.get(key);
+
+    if (!entry) {
+      entry = await this.withStore('readonly', store => promisify<CacheEntry<T> | undefined>(store.get(key))) ?? undefined;
+      if (entry) this.remember(key, entry);
+    }
+
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    const entry = { value, expiresAt: Date.now() + this.ttlMs };
+    this.remember(key, entry);
+    await this.withStore('readwrite', store => promisify(store.put(entry, key)));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.memory.delete(key);
+    await this.withStore('readwrite', store => promisify(store.delete(key)));
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    await this.withStore('readwrite', store => promisify(store.clear()));
+  }
+
+  private remember(key: string, entry: CacheEntry<T>) {
+    // Re-inserting keeps the Map in least recently used order
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+
+    if (this.memory.size > this.maxMemoryEntries) {
+      const oldest = this.memory.keys().next().value;
+      if (oldest !== undefined) this.memory.delete(oldest);
+    }
+  }
+
+  /**
+   * Run `operation` against the object store; IndexedDB errors only cost the
+   * persistent tier, so they are logged and swallowed
+   */
+  private async withStore<R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => Promise<R>
+  ): Promise<R | null> {
+    try {
+      const db = await openDatabase();
+      if (!db) return null;
+      return await operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+    } catch (error) {
+      console.warn(`Search cache ${this.storeName} error:`, error);
+      return null;
+    }
+  }
+}
+
+/** Query embeddings rarely change for a given embedding version */
+export const QUERY_EMBEDDING_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Recommendations also depend on loves and new recipes, so keep them briefly */
+export const RECOMMENDATION_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * The server may move to another embedding provider or version at any time,
+ * so the recorded space is trusted only this long before it is asked again
+ */
+export const EMBEDDING_SPACE_TTL_MS = 15 * 60 * 1000;
+
+export const queryEmbeddingCache = new TieredCache<{
+  embedding: number[];
+  provider: string;
+  version: number;
+  dimension: number;
+}>('query-embeddings', QUERY_EMBEDDING_TTL_MS);
+
+export const recommendationCache = new TieredCache<unknown[]>('recommendations', RECOMMENDATION_TTL_MS);
+
+/** Fingerprints the caches were filled under, e.g. the embedding space */
+const cacheMeta = new TieredCache<{ value: string; recordedAt: number }>('meta', Number.POSITIVE_INFINITY);
+
+/** Meta entry holding the embedding space of the server's vectors */
+export const EMBEDDING_SPACE = 'embedding-space';
+
+/**
+ * The value last recorded for `name` with invalidateOnChange, or null when
+ * there is none or it was recorded more than `maxAgeMs` ago
+ */
+export async function getRecordedValue(name: string, maxAgeMs = Number.POSITIVE_INFINITY): Promise<string | null> {
+  const entry = await cacheMeta.get(name);
+  // Entries written before values carried their age are plain strings
+  if (!entry || typeof entry !== 'object') return null;
+  return Date.now() - entry.recordedAt <= maxAgeMs ? entry.value : null;
+}
+
+/**
+ * Record the current value of something the cached entries depend on. When it
+ * differs from the last recorded value, `caches` are cleared first.
+ */
+export async function invalidateOnChange(
+  name: string,
+  value: string,
+  caches: TieredCache<unknown>[]
+): Promise<boolean> {
+  const previous = await getRecordedValue(name);
+  const changed = previous !== null && previous !== value;
+
+  if (changed) {
+    await Promise.all(caches.map(cache => cache.clear()));
+  }
+  await cacheMeta.set(name, { value, recordedAt: Date.now() });
+  return changed;
+}
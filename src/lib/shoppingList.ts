@@ -0,0 +1,193 @@
+import { Recipe, ShoppingItem, WeeklyPlan } from '../types';
+import { getCanonicalId } from './canonicalIngredients';
+import {
+  Quantity,
+  addQuantities,
+  compareQuantities,
+  getDimensionKey,
+  isToTaste,
+  scaleQuantity,
+  simplifyQuantity,
+  subtractQuantities,
+  toBaseQuantity,
+} from './units';
+
+/**
+ * Shopping list building blocks: what a set of weekly plans needs beyond the
+ * pantry, and how bought items go back into the pantry.
+ */
+
+export interface ShoppingPantryItem {
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+/** Pantry categories used by the ingredient manager */
+export type PantryCategory = 'vegetables' | 'meat' | 'seafood' | 'dairy' | 'fruits';
+
+/** Days a freshly bought item usually keeps, per pantry category */
+export const DEFAULT_EXPIRY_DAYS: Record<PantryCategory, number> = {
+  vegetables: 5,
+  fruits: 7,
+  meat: 3,
+  seafood: 2,
+  dairy: 7,
+};
+
+// Fresh ingredients only: dry goods, oils and spices have no default expiry
+const CATEGORY_BY_CANONICAL_ID: Record<string, PantryCategory> = {
+  tomat: 'vegetables',
+  wortel: 'vegetables',
+  kol: 'vegetables',
+  bayam: 'vegetables',
+  kangkung: 'vegetables',
+  sawi: 'vegetables',
+  buncis: 'vegetables',
+  kacang_panjang: 'vegetables',
+  terong: 'vegetables',
+  timun: 'vegetables',
+  jagung: 'vegetables',
+  jamur: 'vegetables',
+  brokoli: 'vegetables',
+  labu_siam: 'vegetables',
+  tauge: 'vegetables',
+  daun_bawang: 'vegetables',
+  seledri: 'vegetables',
+  kemangi: 'vegetables',
+  cabai: 'vegetables',
+  cabai_rawit: 'vegetables',
+  tahu: 'vegetables',
+  tempe: 'vegetables',
+  ayam: 'meat',
+  daging_sapi: 'meat',
+  kambing: 'meat',
+  ikan: 'seafood',
+  udang: 'seafood',
+  cumi: 'seafood',
+  telur: 'dairy',
+  susu: 'dairy',
+  keju: 'dairy',
+  mentega: 'dairy',
+  margarin: 'dairy',
+  pisang: 'fruits',
+  lemon: 'fruits',
+  jeruk_nipis: 'fruits',
+  kelapa: 'fruits',
+};
+
+const ingredientKey = (name: string, unit: string) => `${getCanonicalId(name)}|${getDimensionKey(unit)}`;
+
+export function guessPantryCategory(name: string): PantryCategory {
+  return CATEGORY_BY_CANONICAL_ID[getCanonicalId(name)] || 'vegetables';
+}
+
+/**
+ * Whether a bought item is fresh food with a typical shelf life. Anything
+ * else (rice, oil, spices, unknown items) goes into the pantry without an
+ * expiry date, so it doesn't raise expiry alerts.
+ */
+export function hasKnownShelfLife(name: string): boolean {
+  return getCanonicalId(name) in CATEGORY_BY_CANONICAL_ID;
+}
+
+/**
+ * Expiry date (YYYY-MM-DD) for an item bought today
+ */
+export function getDefaultExpiryDate(category: string, from: Date = new Date()): string {
+  const days = DEFAULT_EXPIRY_DAYS[category as PantryCategory] ?? DEFAULT_EXPIRY_DAYS.vegetables;
+  const date = new Date(from);
+  date.setDate(date.getDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Ingredients needed for the given plans, scaled to each plan's people count
+ * (or a meal's own servings) and summed per canonical ingredient and unit
+ * dimension, so "500 gram" and "1 kg" add up. Stock in the pantry is taken
+ * into account once for all plans together.
+ */
+export function buildShoppingItems(
+  plans: WeeklyPlan[],
+  pantry: ShoppingPantryItem[],
+  defaultServings: number = 4
+): ShoppingItem[] {
+  const neededIngredients: Record<string, ShoppingItem> = {};
+
+  plans.forEach(plan => {
+    const planServings = plan.people_count || defaultServings;
+    (plan.daily_meals || []).forEach(day => {
+      (day.meals || []).forEach(({ recipe, servings }) => {
+        if (!recipe || !recipe.recipe_ingredients) return;
+
+        const scale = (servings || planServings) / Math.max(recipe.servings || 1, 1);
+        recipe.recipe_ingredients.forEach(ingredient => {
+          const required = toBaseQuantity(scaleQuantity(ingredient, scale));
+          const key = ingredientKey(ingredient.name, ingredient.unit);
+          const existing = neededIngredients[key];
+          if (existing) {
+            const total = addQuantities(existing, required);
+            if (total) {
+              existing.quantity = total.quantity;
+            }
+          } else {
+            neededIngredients[key] = {
+              id: 'shopping-' + Date.now() + Math.random(),
+              name: ingredient.name,
+              quantity: required.quantity,
+              unit: required.unit,
+              category: guessPantryCategory(ingredient.name),
+              needed: true,
+            };
+          }
+        });
+      });
+    });
+  });
+
+  // Check what we already have, using the same canonical ingredient and dimension key
+  const availableIds = new Set(pantry.map(ing => getCanonicalId(ing.name)));
+  const availableIngredients = pantry.reduce((acc, ing) => {
+    const key = ingredientKey(ing.name, ing.unit);
+    const stock = toBaseQuantity(ing);
+    acc[key] = acc[key] ? addQuantities(acc[key], stock) || acc[key] : stock;
+    return acc;
+  }, {} as Record<string, Quantity>);
+
+  // Mark items as needed or not
+  Object.entries(neededIngredients).forEach(([key, item]) => {
+    if (isToTaste(item.unit)) {
+      item.needed = !availableIds.has(getCanonicalId(item.name));
+      return;
+    }
+
+    const available = availableIngredients[key];
+    const remaining = available ? subtractQuantities(item, available) : item;
+    if (available && (compareQuantities(available, item) ?? -1) >= 0) {
+      item.needed = false;
+      Object.assign(item, simplifyQuantity(item));
+    } else {
+      Object.assign(item, simplifyQuantity(remaining || item));
+    }
+  });
+
+  return Object.values(neededIngredients);
+}
+
+/**
+ * Shopping items for the ingredients of `recipe` the pantry is missing, in
+ * the amounts the recipe asks for
+ */
+export function buildMissingIngredientItems(recipe: Recipe, missing: string[]): ShoppingItem[] {
+  return missing.map((name, index) => {
+    const ingredient = (recipe.recipe_ingredients || []).find(candidate => candidate.name === name);
+    return {
+      id: `missing-${recipe.id}-${index}`,
+      name,
+      quantity: ingredient?.quantity ?? 1,
+      unit: ingredient?.unit ?? 'secukupnya',
+      category: guessPantryCategory(name),
+      needed: true,
+    };
+  });
+}
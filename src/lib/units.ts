@@ -0,0 +1,215 @@
+/**
+ * Unit model for ingredient quantities.
+ *
+ * Every unit belongs to a dimension (mass, volume, count or "to taste") and
+ * carries a factor to the base unit of that dimension (gram, ml, piece).
+ * Quantities can only be added, compared or converted within one dimension.
+ */
+
+export type UnitDimension = 'mass' | 'volume' | 'count' | 'to_taste';
+
+export interface UnitDefinition {
+  id: string;
+  dimension: UnitDimension;
+  /** Multiplier that converts one of this unit into the dimension's base unit */
+  factor: number;
+  label: string;
+  aliases: string[];
+}
+
+export interface Quantity {
+  quantity: number;
+  unit: string;
+}
+
+const BASE_UNITS: Record<UnitDimension, string> = {
+  mass: 'gram',
+  volume: 'ml',
+  count: 'piece',
+  to_taste: 'secukupnya',
+};
+
+const UNIT_DEFINITIONS: UnitDefinition[] = [
+  // Mass
+  { id: 'kg', dimension: 'mass', factor: 1000, label: 'kg', aliases: ['kilo', 'kilogram', 'kilogramme', 'kgs'] },
+  // Indonesian ons, not the imperial ounce
+  { id: 'ons', dimension: 'mass', factor: 100, label: 'ons', aliases: [] },
+  { id: 'oz', dimension: 'mass', factor: 28.35, label: 'oz', aliases: ['ounce', 'ounces'] },
+  { id: 'gram', dimension: 'mass', factor: 1, label: 'gram', aliases: ['g', 'gr', 'grm', 'grams', 'gramme'] },
+  { id: 'mg', dimension: 'mass', factor: 0.001, label: 'mg', aliases: ['miligram', 'milligram'] },
+
+  // Volume
+  { id: 'liter', dimension: 'volume', factor: 1000, label: 'liter', aliases: ['l', 'lt', 'ltr', 'litre', 'liters'] },
+  { id: 'gelas', dimension: 'volume', factor: 250, label: 'gelas', aliases: ['cup', 'cups', 'cangkir'] },
+  { id: 'sendok makan', dimension: 'volume', factor: 15, label: 'sdm', aliases: ['sdm', 'sendok', 'sm', 'tbsp', 'tablespoon', 'sendok besar'] },
+  { id: 'sendok teh', dimension: 'volume', factor: 5, label: 'sdt', aliases: ['sdt', 'st', 'tsp', 'teaspoon', 'sendok kecil'] },
+  { id: 'ml', dimension: 'volume', factor: 1, label: 'ml', aliases: ['mililiter', 'milliliter', 'millilitre', 'cc'] },
+
+  // Count. Counted units are treated as interchangeable one-to-one, so
+  // "2 butir telur" can be checked against "10 buah telur" in the pantry.
+  { id: 'piece', dimension: 'count', factor: 1, label: 'buah', aliases: ['buah', 'bh', 'pcs', 'pc', 'biji', 'potong', 'lembar', 'batang', 'ikat', 'bungkus', 'bks', 'sachet', 'ruas', 'papan', 'tangkai', 'genggam', 'pieces'] },
+  { id: 'clove', dimension: 'count', factor: 1, label: 'siung', aliases: ['siung', 'cloves'] },
+  { id: 'butir', dimension: 'count', factor: 1, label: 'butir', aliases: ['btr'] },
+  { id: 'ekor', dimension: 'count', factor: 1, label: 'ekor', aliases: [] },
+  { id: 'piring', dimension: 'count', factor: 1, label: 'piring', aliases: ['porsi'] },
+
+  // Amounts that are never measured
+  { id: 'secukupnya', dimension: 'to_taste', factor: 1, label: 'secukupnya', aliases: ['scukupnya', 'sckp', 'to taste', 'sejumput', 'secuil'] },
+];
+
+const UNIT_LOOKUP: Map<string, UnitDefinition> = new Map();
+UNIT_DEFINITIONS.forEach(definition => {
+  UNIT_LOOKUP.set(definition.id, definition);
+  definition.aliases.forEach(alias => UNIT_LOOKUP.set(alias, definition));
+});
+
+/**
+ * Resolve a free-form unit string ("Sdm", "gr", "sendok teh") to its definition
+ */
+export function getUnitDefinition(unit: string | null | undefined): UnitDefinition | null {
+  if (!unit) return null;
+  const key = unit.toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ').trim();
+  return UNIT_LOOKUP.get(key) || null;
+}
+
+/**
+ * Canonical unit id for a free-form unit string, or the trimmed input when unknown
+ */
+export function normalizeUnit(unit: string): string {
+  return getUnitDefinition(unit)?.id || unit.trim().toLowerCase();
+}
+
+export function getUnitLabel(unit: string): string {
+  return getUnitDefinition(unit)?.label || unit;
+}
+
+export function getUnitDimension(unit: string): UnitDimension | null {
+  return getUnitDefinition(unit)?.dimension || null;
+}
+
+export function areUnitsCompatible(unitA: string, unitB: string): boolean {
+  const a = getUnitDefinition(unitA);
+  const b = getUnitDefinition(unitB);
+  if (a && b) return a.dimension === b.dimension;
+  // Unknown units are only compatible with themselves
+  return normalizeUnit(unitA) === normalizeUnit(unitB);
+}
+
+/**
+ * Convert a quantity between units of the same dimension.
+ * Returns null when the units cannot be converted into each other.
+ */
+export function convertQuantity(quantity: number, fromUnit: string, toUnit: string): number | null {
+  if (!areUnitsCompatible(fromUnit, toUnit)) return null;
+
+  const from = getUnitDefinition(fromUnit);
+  const to = getUnitDefinition(toUnit);
+  if (!from || !to) return quantity;
+
+  return (quantity * from.factor) / to.factor;
+}
+
+/**
+ * Express a quantity in the base unit of its dimension (gram, ml or piece)
+ */
+export function toBaseQuantity(value: Quantity): Quantity {
+  const definition = getUnitDefinition(value.unit);
+  if (!definition) {
+    return { quantity: value.quantity, unit: normalizeUnit(value.unit) };
+  }
+  return {
+    quantity: value.quantity * definition.factor,
+    unit: BASE_UNITS[definition.dimension],
+  };
+}
+
+/**
+ * Key that groups quantities which can be summed together
+ */
+export function getDimensionKey(unit: string): string {
+  const definition = getUnitDefinition(unit);
+  return definition ? definition.dimension : `unit:${normalizeUnit(unit)}`;
+}
+
+export function isToTaste(unit: string): boolean {
+  return getUnitDimension(unit) === 'to_taste';
+}
+
+/**
+ * Add two quantities, returning the result in the base unit.
+ * Returns null when the dimensions differ.
+ */
+export function addQuantities(a: Quantity, b: Quantity): Quantity | null {
+  if (!areUnitsCompatible(a.unit, b.unit)) return null;
+  const baseA = toBaseQuantity(a);
+  const baseB = toBaseQuantity(b);
+  if (isToTaste(a.unit)) return baseA;
+  return { quantity: baseA.quantity + baseB.quantity, unit: baseA.unit };
+}
+
+/**
+ * Subtract b from a, clamping at zero. Returns null when the dimensions differ.
+ */
+export function subtractQuantities(a: Quantity, b: Quantity): Quantity | null {
+  if (!areUnitsCompatible(a.unit, b.unit)) return null;
+  const baseA = toBaseQuantity(a);
+  const baseB = toBaseQuantity(b);
+  if (isToTaste(a.unit)) return baseA;
+  return { quantity: Math.max(0, baseA.quantity - baseB.quantity), unit: baseA.unit };
+}
+
+/**
+ * Compare two quantities: negative when a < b, zero when equal, positive when a > b.
+ * Returns null when the dimensions differ.
+ */
+export function compareQuantities(a: Quantity, b: Quantity): number | null {
+  if (!areUnitsCompatible(a.unit, b.unit)) return null;
+  if (isToTaste(a.unit)) return 0;
+  const diff = toBaseQuantity(a).quantity - toBaseQuantity(b).quantity;
+  return Math.abs(diff) < 1e-9 ? 0 : diff;
+}
+
+/**
+ * Scale a quantity for a different number of servings. Count units are
+ * rounded up to half pieces because nobody buys 0.37 of an egg.
+ */
+export function scaleQuantity(value: Quantity, factor: number): Quantity {
+  if (isToTaste(value.unit) || factor === 1) return { ...value };
+
+  const scaled = value.quantity * factor;
+  if (getUnitDimension(value.unit) === 'count') {
+    return { quantity: Math.ceil(scaled * 2) / 2, unit: value.unit };
+  }
+  return { quantity: roundQuantity(scaled), unit: value.unit };
+}
+
+/**
+ * Convert a quantity into the most readable unit of its dimension,
+ * e.g. 1500 gram becomes 1.5 kg and 0.25 liter becomes 250 ml.
+ */
+export function simplifyQuantity(value: Quantity): Quantity {
+  const definition = getUnitDefinition(value.unit);
+  if (!definition || definition.dimension === 'to_taste') return { ...value };
+
+  const base = toBaseQuantity(value);
+  if (definition.dimension === 'mass') {
+    return base.quantity >= 1000
+      ? { quantity: roundQuantity(base.quantity / 1000), unit: 'kg' }
+      : { quantity: roundQuantity(base.quantity), unit: 'gram' };
+  }
+  if (definition.dimension === 'volume') {
+    return base.quantity >= 1000
+      ? { quantity: roundQuantity(base.quantity / 1000), unit: 'liter' }
+      : { quantity: roundQuantity(base.quantity), unit: 'ml' };
+  }
+  return { quantity: roundQuantity(value.quantity), unit: definition.id };
+}
+
+export function formatQuantity(value: Quantity): string {
+  if (isToTaste(value.unit)) return getUnitLabel(value.unit);
+  return `${roundQuantity(value.quantity)} ${getUnitLabel(value.unit)}`;
+}
+
+function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 100) / 100;
+}
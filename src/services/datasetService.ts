@@ -1,4 +1,8 @@
 import { Recipe, Ingredient } from '../types';
+import { findIngredientMatch, isSameIngredient } from '../lib/canonicalIngredients';
+import { parseIngredientLine } from '../lib/ingredientParser';
+import { estimateNutrition } from '../lib/nutrition';
+import { parseCsv, readTextChunks } from '../../supabase/functions/_shared/csv.ts';
 
 export interface DatasetRecipe {
   id: string;
@@ -44,152 +48,336 @@ export interface RecipeRecommendation extends Recipe {
   match_reasons: string[];
 }
 
+/** Recipe fields a CSV column can be mapped to */
+export type DatasetField =
+  | 'name'
+  | 'description'
+  | 'ingredients'
+  | 'instructions'
+  | 'prep_time'
+  | 'cook_time'
+  | 'total_time'
+  | 'servings'
+  | 'difficulty'
+  | 'rating'
+  | 'rating_count'
+  | 'calories'
+  | 'protein'
+  | 'carbs'
+  | 'fat'
+  | 'fiber'
+  | 'sugar'
+  | 'sodium'
+  | 'tags'
+  | 'cuisine'
+  | 'meal_type';
+
+/**
+ * Which CSV columns hold which recipe field. Column names are matched
+ * case-insensitively; when several are listed, the first one in the header
+ * wins.
+ */
+export interface ColumnMappingProfile {
+  columns: Partial<Record<DatasetField, string[]>>;
+  /** CSV field separator, ',' unless set */
+  delimiter?: string;
+  /** Separator of ingredients and tags written on a single line, ',' unless set */
+  listSeparator?: string;
+}
+
+export const DEFAULT_COLUMN_MAPPING: ColumnMappingProfile = {
+  columns: {
+    name: ['name', 'title', 'recipe_name'],
+    description: ['description', 'summary'],
+    ingredients: ['ingredients'],
+    instructions: ['instructions', 'directions', 'steps'],
+    prep_time: ['prep_time', 'preparation_time'],
+    cook_time: ['cook_time', 'cooking_time'],
+    total_time: ['total_time'],
+    servings: ['servings', 'serves'],
+    difficulty: ['difficulty', 'skill_level'],
+    rating: ['rating', 'average_rating'],
+    rating_count: ['rating_count', 'review_count'],
+    calories: ['calories'],
+    protein: ['protein'],
+    carbs: ['carbs', 'carbohydrates'],
+    fat: ['fat'],
+    fiber: ['fiber'],
+    sugar: ['sugar'],
+    sodium: ['sodium'],
+    tags: ['tags', 'categories'],
+    cuisine: ['cuisine'],
+    meal_type: ['meal_type'],
+  },
+};
+
+/** Rating cutoff of `loadDataset` unless the caller picks another one */
+export const DEFAULT_MIN_RATING = 4.0;
+
+export interface DatasetImportOptions {
+  /** Changes to DEFAULT_COLUMN_MAPPING; fields not listed keep their default columns */
+  mapping?: Partial<ColumnMappingProfile>;
+  /** Recipes rated below this are left out; 0 keeps them all */
+  minRating?: number;
+}
+
+export interface ImportIssue {
+  /** CSV line the row starts on, the header being line 1 */
+  row: number;
+  /** Recipe field concerned, empty when it is about the whole row */
+  field: DatasetField | '';
+  problem: string;
+  /** Errors reject the row; rows with warnings are imported with defaults */
+  severity: 'error' | 'warning';
+}
+
+export interface DatasetImportReport {
+  /** Data rows read, not counting the header and blank lines */
+  rows: number;
+  imported: number;
+  /** Rows rejected because of errors */
+  rejected: number;
+  /** Valid rows left out by the rating cutoff */
+  belowMinRating: number;
+  /** The first MAX_REPORTED_ISSUES problems, in file order */
+  issues: ImportIssue[];
+  /** All problems found, including those not listed in `issues` */
+  issueCount: number;
+  /** Header columns no recipe field is mapped to */
+  unmappedColumns: string[];
+}
+
+const REQUIRED_FIELDS: DatasetField[] = ['name', 'ingredients'];
+const MAX_REPORTED_ISSUES = 500;
+
+const LIST_BULLET = /^(?:[-•*]|\d{1,2}[.)])\s+/;
+
+/**
+ * Items of a list field: one per line when the value spans lines, otherwise
+ * split on `separator`
+ */
+function splitList(value: string, separator: string): string[] {
+  if (!value) return [];
+
+  return (value.includes('\n') ? value.split(/\r?\n/) : value.split(separator))
+    .map(item => item.trim().replace(LIST_BULLET, '').trim())
+    .filter(item => item.length > 0);
+}
+
+/**
+ * Steps of an instructions field: one per line, or per number in "1. ...
+ * 2. ...", or else per sentence. Sentences only end at a period followed by
+ * whitespace, so amounts like "1.5 sdm" stay intact.
+ */
+function splitSteps(value: string): string[] {
+  if (!value) return [];
+
+  let steps: string[];
+  if (value.includes('\n')) {
+    steps = value.split(/\r?\n/);
+  } else if ((value.match(/(?:^|\s)\d{1,2}[.)]\s/g) || []).length >= 2) {
+    steps = value.split(/(?:^|\s+)(?=\d{1,2}[.)]\s)/);
+  } else {
+    steps = value.split(/(?<=[.!?])\s+/);
+  }
+
+  return steps
+    .map(step => step.trim().replace(LIST_BULLET, '').trim())
+    .filter(step => step.length > 0);
+}
+
+/**
+ * Minutes from "45", "45 min" or an ISO 8601 duration like "PT1H30M"
+ */
+function parseMinutes(value: string): number {
+  const duration = value.match(/^P(?:\d+D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?$/i);
+  if (duration && (duration[1] || duration[2])) {
+    return Number(duration[1] || 0) * 60 + Number(duration[2] || 0);
+  }
+  return parseInt(value, 10);
+}
+
 class DatasetService {
   private recipes: DatasetRecipe[] = [];
   private isLoaded = false;
 
-  async loadDataset(csvData: string): Promise<void> {
+  /**
+   * Import recipes from CSV text or a file, replacing the loaded dataset. The
+   * file is parsed as it streams in. Rows that can't be used are reported,
+   * not thrown: only a failure to read the input rejects.
+   */
+  async loadDataset(source: string | Blob, options: DatasetImportOptions = {}): Promise<DatasetImportReport> {
+    const { mapping = {}, minRating = DEFAULT_MIN_RATING } = options;
+    const profile: ColumnMappingProfile = {
+      ...DEFAULT_COLUMN_MAPPING,
+      ...mapping,
+      columns: { ...DEFAULT_COLUMN_MAPPING.columns, ...mapping.columns },
+    };
+
+    const report: DatasetImportReport = {
+      rows: 0,
+      imported: 0,
+      rejected: 0,
+      belowMinRating: 0,
+      issues: [],
+      issueCount: 0,
+      unmappedColumns: [],
+    };
+    const addIssue = (issue: ImportIssue) => {
+      report.issueCount++;
+      if (report.issues.length < MAX_REPORTED_ISSUES) report.issues.push(issue);
+    };
+
     try {
-      // Parse CSV data (you can also use a CSV parsing library)
-      const lines = csvData.split('\n');
-      const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-      
-      this.recipes = lines.slice(1)
-        .filter(line => line.trim())
-        .map((line, index) => {
-          const values = this.parseCSVLine(line);
-          return this.mapToDatasetRecipe(headers, values, index);
-        })
-        .filter(recipe => recipe.rating >= 4.0); // Only high-rated recipes
+      const chunks = typeof source === 'string' ? [source] : readTextChunks(source.stream());
+      const recipes: DatasetRecipe[] = [];
+      let header: string[] | null = null;
+      let columnIndex: Partial<Record<DatasetField, number>> = {};
+
+      for await (const record of parseCsv(chunks, { delimiter: profile.delimiter })) {
+        if (!header) {
+          header = record.fields.map(column => column.trim());
+          columnIndex = this.resolveColumns(header, profile);
+          report.unmappedColumns = header.filter((_, index) => !Object.values(columnIndex).includes(index));
+
+          const missing = REQUIRED_FIELDS.filter(field => columnIndex[field] === undefined);
+          if (missing.length > 0) {
+            missing.forEach(field => addIssue({
+              row: record.line,
+              field,
+              problem: `Tidak ada kolom untuk ${field} (dicari: ${(profile.columns[field] || []).join(', ') || '-'})`,
+              severity: 'error',
+            }));
+            break;
+          }
+          continue;
+        }
+
+        report.rows++;
+        const issues: ImportIssue[] = [];
+        if (record.problem) {
+          issues.push({ row: record.line, field: '', problem: `CSV tidak valid: ${record.problem}`, severity: 'error' });
+        } else if (record.fields.length !== header.length) {
+          issues.push({
+            row: record.line,
+            field: '',
+            problem: `Baris berisi ${record.fields.length} kolom, header ${header.length}`,
+            severity: 'warning',
+          });
+        }
+
+        const recipe = this.mapToDatasetRecipe(record.fields, record.line, columnIndex, profile, recipes.length, issues);
+        issues.forEach(addIssue);
 
+        if (issues.some(issue => issue.severity === 'error')) {
+          report.rejected++;
+        } else if (recipe.rating < minRating) {
+          report.belowMinRating++;
+        } else {
+          recipes.push(recipe);
+        }
+      }
+
+      this.recipes = recipes;
       this.isLoaded = true;
-      console.log(`Loaded ${this.recipes.length} high-rated recipes from dataset`);
+      report.imported = recipes.length;
+      console.log(`Loaded ${recipes.length} recipes from dataset (${report.rejected} rejected, ${report.belowMinRating} below rating ${minRating})`);
+      return report;
     } catch (error) {
       console.error('Error loading dataset:', error);
       throw new Error('Failed to load recipe dataset');
     }
   }
 
-  private parseCSVLine(line: string): string[] {
-    const result = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    
-    result.push(current.trim());
-    return result;
+  /**
+   * Header position of each mapped recipe field
+   */
+  private resolveColumns(header: string[], profile: ColumnMappingProfile): Partial<Record<DatasetField, number>> {
+    const normalizedHeader = header.map(column => column.toLowerCase());
+    const columnIndex: Partial<Record<DatasetField, number>> = {};
+
+    (Object.entries(profile.columns) as [DatasetField, string[]][]).forEach(([field, columns]) => {
+      const index = columns
+        .map(column => normalizedHeader.indexOf(column.toLowerCase()))
+        .find(position => position >= 0);
+      if (index !== undefined) columnIndex[field] = index;
+    });
+
+    return columnIndex;
   }
 
-  private mapToDatasetRecipe(headers: string[], values: string[], index: number): DatasetRecipe {
-    const recipe: any = { id: `dataset-${index}` };
-    
-    headers.forEach((header, i) => {
-      const value = values[i]?.replace(/"/g, '') || '';
-      
-      switch (header.toLowerCase()) {
-        case 'name':
-        case 'title':
-        case 'recipe_name':
-          recipe.name = value;
-          break;
-        case 'description':
-        case 'summary':
-          recipe.description = value;
-          break;
-        case 'ingredients':
-          recipe.ingredients = value.includes(',') ? value.split(',').map(s => s.trim()) : [value];
-          break;
-        case 'instructions':
-        case 'directions':
-          recipe.instructions = value.includes('.') ? value.split('.').filter(s => s.trim()) : [value];
-          break;
-        case 'prep_time':
-        case 'preparation_time':
-          recipe.prep_time = parseInt(value) || 0;
-          break;
-        case 'cook_time':
-        case 'cooking_time':
-          recipe.cook_time = parseInt(value) || 0;
-          break;
-        case 'total_time':
-          recipe.total_time = parseInt(value) || 0;
-          break;
-        case 'servings':
-        case 'serves':
-          recipe.servings = parseInt(value) || 4;
-          break;
-        case 'difficulty':
-        case 'skill_level':
-          recipe.difficulty = this.mapDifficulty(value);
-          break;
-        case 'rating':
-        case 'average_rating':
-          recipe.rating = parseFloat(value) || 0;
-          break;
-        case 'rating_count':
-        case 'review_count':
-          recipe.rating_count = parseInt(value) || 0;
-          break;
-        case 'calories':
-          recipe.calories = parseInt(value) || 0;
-          break;
-        case 'protein':
-          recipe.protein = parseFloat(value) || 0;
-          break;
-        case 'carbs':
-        case 'carbohydrates':
-          recipe.carbs = parseFloat(value) || 0;
-          break;
-        case 'fat':
-          recipe.fat = parseFloat(value) || 0;
-          break;
-        case 'fiber':
-          recipe.fiber = parseFloat(value) || 0;
-          break;
-        case 'sugar':
-          recipe.sugar = parseFloat(value) || 0;
-          break;
-        case 'sodium':
-          recipe.sodium = parseFloat(value) || 0;
-          break;
-        case 'tags':
-        case 'categories':
-          recipe.tags = value.includes(',') ? value.split(',').map(s => s.trim()) : [value];
-          break;
-        case 'cuisine':
-          recipe.cuisine = value;
-          break;
-        case 'meal_type':
-          recipe.meal_type = value;
-          break;
+  private mapToDatasetRecipe(
+    values: string[],
+    row: number,
+    columnIndex: Partial<Record<DatasetField, number>>,
+    profile: ColumnMappingProfile,
+    index: number,
+    issues: ImportIssue[]
+  ): DatasetRecipe {
+    const text = (field: DatasetField) => {
+      const position = columnIndex[field];
+      return position === undefined ? '' : (values[position] ?? '').trim();
+    };
+    const numeric = (field: DatasetField, parse: (value: string) => number = parseFloat) => {
+      const value = text(field);
+      if (!value) return undefined;
+
+      const parsed = parse(value);
+      if (Number.isNaN(parsed)) {
+        issues.push({ row, field, problem: `Bukan angka: "${value}"`, severity: 'warning' });
+        return undefined;
       }
-    });
+      return parsed;
+    };
+    const minutes = (field: DatasetField) => numeric(field, parseMinutes);
+    const listSeparator = profile.listSeparator || ',';
+
+    const name = text('name');
+    if (!name) {
+      issues.push({ row, field: 'name', problem: 'Nama resep kosong', severity: 'error' });
+    }
 
-    // Set defaults
-    recipe.description = recipe.description || 'Resep lezat dari dataset';
-    recipe.ingredients = recipe.ingredients || [];
-    recipe.instructions = recipe.instructions || [];
-    recipe.prep_time = recipe.prep_time || 15;
-    recipe.cook_time = recipe.cook_time || 30;
-    recipe.servings = recipe.servings || 4;
-    recipe.difficulty = recipe.difficulty || 'medium';
-    recipe.rating = recipe.rating || 4.0;
-    recipe.rating_count = recipe.rating_count || 10;
-    recipe.tags = recipe.tags || [];
-
-    return recipe as DatasetRecipe;
+    const ingredients = splitList(text('ingredients'), listSeparator);
+    if (ingredients.length === 0) {
+      issues.push({ row, field: 'ingredients', problem: 'Tidak ada bahan', severity: 'error' });
+    }
+
+    const instructions = splitSteps(text('instructions'));
+    if (columnIndex.instructions !== undefined && instructions.length === 0) {
+      issues.push({ row, field: 'instructions', problem: 'Tidak ada langkah memasak', severity: 'warning' });
+    }
+
+    const rating = numeric('rating');
+    if (rating !== undefined && (rating < 0 || rating > 5)) {
+      issues.push({ row, field: 'rating', problem: `Rating di luar 0-5: ${rating}`, severity: 'warning' });
+    }
+
+    const difficulty = text('difficulty');
+
+    return {
+      id: `dataset-${index}`,
+      name,
+      description: text('description') || 'Resep lezat dari dataset',
+      ingredients,
+      instructions,
+      prep_time: minutes('prep_time') || 15,
+      cook_time: minutes('cook_time') || 30,
+      total_time: minutes('total_time'),
+      servings: Math.round(numeric('servings') || 4),
+      difficulty: difficulty ? this.mapDifficulty(difficulty) : 'medium',
+      rating: rating ?? 4.0, // Unrated recipes pass the default cutoff, as before
+      rating_count: Math.round(numeric('rating_count') || 10),
+      calories: numeric('calories'),
+      protein: numeric('protein'),
+      carbs: numeric('carbs'),
+      fat: numeric('fat'),
+      fiber: numeric('fiber'),
+      sugar: numeric('sugar'),
+      sodium: numeric('sodium'),
+      tags: splitList(text('tags'), listSeparator),
+      cuisine: text('cuisine') || undefined,
+      meal_type: text('meal_type') || undefined,
+    };
   }
 
   private mapDifficulty(value: string): 'easy' | 'medium' | 'hard' {
@@ -213,9 +401,7 @@ class DatasetService {
       throw new Error('Dataset not loaded. Please load dataset first.');
     }
 
-    const availableIngredientNames = availableIngredients.map(ing => 
-      ing.name.toLowerCase()
-    );
+    const availableIngredientNames = availableIngredients.map(ing => ing.name);
 
     return this.recipes
       .filter(recipe => {
@@ -264,31 +450,21 @@ class DatasetService {
       ? recipe.ingredients 
       : recipe.ingredients.split(',');
     
-    const recipeIngredientNames = recipeIngredients.map(ing => ing.toLowerCase().trim());
-    
     let matchCount = 0;
     let partialMatchCount = 0;
     
-    recipeIngredientNames.forEach(recipeIng => {
-      const exactMatch = availableIngredients.some(available => 
-        available === recipeIng || recipeIng.includes(available) || available.includes(recipeIng)
-      );
-      
-      if (exactMatch) {
-        matchCount++;
+    recipeIngredients.forEach(recipeIng => {
+      const match = findIngredientMatch(recipeIng, availableIngredients, name => name);
+      if (!match) return;
+
+      if (match.type === 'partial') {
+        partialMatchCount++;
       } else {
-        const partialMatch = availableIngredients.some(available => {
-          const words = available.split(' ');
-          return words.some(word => word.length > 2 && recipeIng.includes(word));
-        });
-        
-        if (partialMatch) {
-          partialMatchCount++;
-        }
+        matchCount++;
       }
     });
     
-    const totalIngredients = recipeIngredientNames.length;
+    const totalIngredients = Math.max(recipeIngredients.length, 1);
     const score = (matchCount + partialMatchCount * 0.5) / totalIngredients;
     
     return Math.min(score, 1.0);
@@ -314,9 +490,7 @@ class DatasetService {
       : recipe.ingredients.split(',');
     
     const matchingIngredients = recipeIngredients.filter(recipeIng => 
-      availableIngredients.some(available => 
-        available.includes(recipeIng.toLowerCase()) || recipeIng.toLowerCase().includes(available)
-      )
+      availableIngredients.some(available => isSameIngredient(recipeIng, available))
     );
     
     if (matchingIngredients.length > 0) {
@@ -329,7 +503,7 @@ class DatasetService {
   private convertToRecipe(datasetRecipe: DatasetRecipe): Recipe {
     const instructions = Array.isArray(datasetRecipe.instructions) 
       ? datasetRecipe.instructions 
-      : datasetRecipe.instructions.split('.').filter(s => s.trim());
+      : splitSteps(datasetRecipe.instructions);
     
     const tags = Array.isArray(datasetRecipe.tags) 
       ? datasetRecipe.tags 
@@ -361,7 +535,12 @@ class DatasetService {
   }
 
   private extractNutrition(recipe: DatasetRecipe): NutritionInfo | undefined {
-    if (!recipe.calories) return undefined;
+    if (!recipe.calories) {
+      // No nutrition columns in the CSV: estimate it from the ingredient lines
+      const lines = Array.isArray(recipe.ingredients) ? recipe.ingredients : recipe.ingredients.split(',');
+      const estimate = estimateNutrition(lines.filter(line => line.trim()).map(parseIngredientLine), recipe.servings);
+      return estimate.counted > 0 ? estimate.perServing : undefined;
+    }
     
     return {
       calories: recipe.calories || 0,
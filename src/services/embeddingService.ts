@@ -1,76 +1,119 @@
 import { supabase } from '../lib/supabase';
+import { createRecipeContent, EmbeddableRecipe, normalizeEmbeddingText } from '../../supabase/functions/_shared/embedding.ts';
+import {
+  createEmbeddingProvider,
+  createHashingProvider,
+  EmbeddingProvider,
+} from '../../supabase/functions/_shared/embeddingProviders.ts';
+import {
+  EMBEDDING_SPACE,
+  EMBEDDING_SPACE_TTL_MS,
+  getRecordedValue,
+  invalidateOnChange,
+  queryEmbeddingCache,
+  recommendationCache,
+} from '../lib/searchCache';
 
 export interface RecipeEmbedding {
   id: string;
   recipe_id: string;
   content: string;
-  embedding: number[];
+  embedding: number[] | null;
+  embedding_provider: string;
+  embedding_version: number;
+  embedding_dimension: number;
   created_at?: string;
 }
 
+/** A vector plus the space it lives in, which the search RPCs check */
+export interface EmbeddingResult {
+  embedding: number[];
+  provider: string;
+  version: number;
+  dimension: number;
+  /** Served from the client cache, so its space may be out of date */
+  fromCache?: boolean;
+}
+
 class EmbeddingService {
-  private readonly EMBEDDING_DIMENSION = 384; // Using a smaller model for efficiency
+  private localProvider: EmbeddingProvider;
+
+  constructor() {
+    // Used when the generate-embedding function is unreachable; should match
+    // the EMBEDDING_PROVIDER the recipe vectors were built with
+    try {
+      this.localProvider = createEmbeddingProvider({
+        provider: import.meta.env.VITE_EMBEDDING_PROVIDER,
+        localUrl: import.meta.env.VITE_EMBEDDING_MODEL_URL,
+        localModel: import.meta.env.VITE_EMBEDDING_MODEL,
+        geminiApiKey: import.meta.env.VITE_GOOGLE_AI_API_KEY,
+      });
+    } catch (error) {
+      console.warn('Embedding provider misconfigured, falling back to hashing:', error);
+      this.localProvider = createHashingProvider();
+    }
+  }
 
   /**
-   * Generate embeddings using Supabase Edge Functions with a local embedding model
+   * Generate embeddings using the generate-embedding Edge Function, which uses
+   * the same provider as the stored recipe vectors. Falls back to the local
+   * provider; if that is a different one, the search RPCs return no matches
+   * instead of comparing incompatible vectors.
+   *
+   * Results from the function are cached by normalized text and the server
+   * embedding space last seen; local fallbacks are not, so they are replaced
+   * once the function is reachable again. The cache is skipped once the
+   * space was last confirmed longer than `EMBEDDING_SPACE_TTL_MS` ago, or
+   * with `fresh` when a cached vector found nothing.
    */
-  async generateEmbedding(text: string): Promise<number[]> {
+  async generateEmbedding(text: string, { fresh = false }: { fresh?: boolean } = {}): Promise<EmbeddingResult> {
+    const space = fresh ? null : await getRecordedValue(EMBEDDING_SPACE, EMBEDDING_SPACE_TTL_MS);
+    if (space) {
+      const cached = await queryEmbeddingCache.get(this.getCacheKey(space, text));
+      if (cached) return { ...cached, fromCache: true };
+    }
+
     try {
-      // Clean and prepare text
-      const cleanText = this.preprocessText(text);
-      
-      // Call Supabase Edge Function for embedding generation
       const { data, error } = await supabase.functions.invoke('generate-embedding', {
-        body: { text: cleanText }
+        body: { text }
       });
 
-      if (error) {
+      if (error || !data?.embedding || !data.provider) {
         console.error('Embedding generation error:', error);
-        // Fallback to simple text-based embedding
-        return this.generateSimpleEmbedding(cleanText);
+        return this.generateLocalEmbedding(text);
       }
 
-      return data.embedding;
+      const result: EmbeddingResult = {
+        embedding: data.embedding,
+        provider: data.provider,
+        version: data.version,
+        dimension: data.dimension,
+      };
+
+      // Cached queries and results from another embedding space are useless now
+      const resultSpace = `${result.provider}:${result.version}:${result.dimension}`;
+      await invalidateOnChange(EMBEDDING_SPACE, resultSpace, [queryEmbeddingCache, recommendationCache]);
+      await queryEmbeddingCache.set(this.getCacheKey(resultSpace, text), result);
+
+      return result;
     } catch (error) {
       console.error('Error generating embedding:', error);
-      // Fallback to simple text-based embedding
-      return this.generateSimpleEmbedding(text);
+      return this.generateLocalEmbedding(text);
     }
   }
 
-  /**
-   * Fallback method: Generate simple embeddings based on text features
-   */
-  private generateSimpleEmbedding(text: string): number[] {
-    const words = text.toLowerCase().split(/\s+/);
-    const embedding = new Array(this.EMBEDDING_DIMENSION).fill(0);
-    
-    // Create a simple hash-based embedding
-    words.forEach((word, index) => {
-      if (word.length > 2) {
-        const hash = this.simpleHash(word);
-        const position = Math.abs(hash) % this.EMBEDDING_DIMENSION;
-        embedding[position] += 1 / (index + 1); // Weight by position
-      }
-    });
-
-    // Normalize the embedding
-    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    if (magnitude > 0) {
-      return embedding.map(val => val / magnitude);
-    }
-    
-    return embedding;
+  private getCacheKey(space: string, text: string): string {
+    return `${space}:${normalizeEmbeddingText(text)}`;
   }
 
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return hash;
+  private async generateLocalEmbedding(text: string): Promise<EmbeddingResult> {
+    const [embedding] = await this.localProvider.embed([text]);
+    return {
+      embedding,
+      provider: this.localProvider.key,
+      version: this.localProvider.version,
+      dimension: this.localProvider.dimension,
+    };
   }
 
   /**
@@ -98,32 +141,11 @@ class EmbeddingService {
     return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
   }
 
-  /**
-   * Preprocess text for better embedding quality
-   */
-  private preprocessText(text: string): string {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ') // Remove punctuation
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim()
-      .substring(0, 1000); // Limit length
-  }
-
   /**
    * Create searchable content from recipe data
    */
-  createRecipeContent(recipe: any): string {
-    const parts = [
-      recipe.title || '',
-      recipe.ingredients || '',
-      recipe.steps || '',
-    ];
-    
-    return parts
-      .filter(part => part && part.length > 0)
-      .join(' ')
-      .substring(0, 2000); // Limit total content length
+  createRecipeContent(recipe: EmbeddableRecipe): string {
+    return createRecipeContent(recipe);
   }
 
   /**
@@ -1,5 +1,7 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { Ingredient, Recipe } from '../types';
+import { AISLE_LABELS, Aisle, isAisle } from '../lib/aisles';
+import { RecipeMetadataHints, parseRecipeMetadataHints } from '../lib/recipeMetadata';
 
 interface GeminiRecipeSuggestion {
   name: string;
@@ -176,6 +178,130 @@ Kelompokkan berdasarkan kategori (sayuran, daging, bumbu, dll) dan berikan dalam
     }
   }
 
+  /**
+   * Store aisle for shopping items the local classifier does not know.
+   * Names Gemini cannot place are left out of the result.
+   */
+  async classifyShoppingAisles(names: string[]): Promise<Record<string, Aisle>> {
+    if (names.length === 0) return {};
+
+    try {
+      const aisles = Object.entries(AISLE_LABELS)
+        .map(([id, label]) => `- ${id} (${label})`)
+        .join('\n');
+
+      const prompt = `
+Tentukan lorong toko/pasar untuk setiap barang belanja berikut: ${names.join(', ')}
+
+Gunakan hanya salah satu id lorong berikut:
+${aisles}
+
+Berikan dalam format JSON yang dibungkus dalam markdown code block, dengan nama barang persis seperti di atas:
+
+\`\`\`json
+{
+  "aisles": {
+    "nama barang": "id_lorong"
+  }
+}
+\`\`\`
+`;
+
+      const result = await this.model.generateContent(prompt);
+      const response = await result.response;
+      const text = response.text();
+
+      const jsonMatch = text.match(/```json\s*(\{[\s\S]*?\})\s*```/);
+      if (!jsonMatch || !jsonMatch[1]) {
+        return {};
+      }
+
+      try {
+        const parsedResponse = JSON.parse(jsonMatch[1]);
+        const classified: Record<string, Aisle> = {};
+        Object.entries(parsedResponse.aisles || {}).forEach(([name, aisle]) => {
+          if (names.includes(name) && typeof aisle === 'string' && isAisle(aisle)) {
+            classified[name] = aisle;
+          }
+        });
+        return classified;
+      } catch (parseError) {
+        console.error('JSON parsing error in aisle classification:', parseError);
+        return {};
+      }
+    } catch (error) {
+      console.error('Error classifying shopping aisles:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Estimate times, difficulty, cuisine and meal type of dataset recipes,
+   * keyed by recipe id. Invalid fields are dropped and recipes Gemini skips
+   * are left out of the result.
+   */
+  async estimateRecipeMetadata(
+    recipes: { id: string; title: string; ingredients: string; steps: string }[]
+  ): Promise<Record<string, RecipeMetadataHints>> {
+    if (recipes.length === 0) return {};
+
+    try {
+      const recipeList = recipes
+        .map((recipe, index) => `${index + 1}. ${recipe.title}
+Bahan: ${recipe.ingredients.slice(0, 600)}
+Langkah: ${recipe.steps.slice(0, 800)}`)
+        .join('\n\n');
+
+      const prompt = `
+Perkirakan untuk setiap resep berikut waktu persiapan dan waktu memasak (menit), tingkat kesulitan, masakan asal, dan waktu makan yang paling cocok.
+
+${recipeList}
+
+Gunakan hanya nilai berikut:
+- difficulty: easy, medium, hard
+- cuisine: indonesia, asia, western, atau null
+- meal_type: breakfast, lunch, dinner, snack, atau null
+
+Berikan dalam format JSON yang dibungkus dalam markdown code block, dengan nomor resep seperti di atas:
+
+\`\`\`json
+{
+  "recipes": {
+    "1": { "prep_time": 15, "cook_time": 30, "difficulty": "easy", "cuisine": "indonesia", "meal_type": "lunch" }
+  }
+}
+\`\`\`
+`;
+
+      const result = await this.model.generateContent(prompt);
+      const response = await result.response;
+      const text = response.text();
+
+      const jsonMatch = text.match(/```json\s*(\{[\s\S]*?\})\s*```/);
+      if (!jsonMatch || !jsonMatch[1]) {
+        return {};
+      }
+
+      try {
+        const parsedResponse = JSON.parse(jsonMatch[1]);
+        const estimates: Record<string, RecipeMetadataHints> = {};
+        Object.entries(parsedResponse.recipes || {}).forEach(([reference, value]) => {
+          const recipe = recipes[Number(reference) - 1];
+          if (recipe) {
+            estimates[recipe.id] = parseRecipeMetadataHints(value);
+          }
+        });
+        return estimates;
+      } catch (parseError) {
+        console.error('JSON parsing error in recipe metadata estimates:', parseError);
+        return {};
+      }
+    } catch (error) {
+      console.error('Error estimating recipe metadata:', error);
+      return {};
+    }
+  }
+
   async getCookingTips(recipeName: string): Promise<string[]> {
     try {
       const prompt = `
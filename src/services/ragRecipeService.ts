@@ -1,14 +1,90 @@
 import { supabase } from '../lib/supabase';
 import { Ingredient, Recipe } from '../types';
-import EmbeddingService from './embeddingService';
+import EmbeddingService, { EmbeddingResult } from './embeddingService';
 import GeminiService from './geminiService';
+import { isSameIngredient } from '../lib/canonicalIngredients';
+import { RecipeMetadata, deriveRecipeMetadata, getKeywordTags } from '../lib/recipeMetadata';
+import RecipeMetadataService from './recipeMetadataService';
+import {
+  DEFAULT_EXPIRY_WINDOW_DAYS,
+  ExpiringIngredient,
+  compareByRescue,
+  getExpiringItems,
+  getRescueReason,
+  scoreExpiryRescue,
+} from '../lib/expiry';
+import {
+  AIRerankResponse,
+  CircuitBreaker,
+  buildIngredientRerankPrompt,
+  buildQueryRerankPrompt,
+  mergeAIScore,
+  mergeAIScoreComponent,
+  parseAIRerankResponse,
+  withRetries,
+} from '../lib/aiRerank';
+import {
+  EMBEDDING_SPACE,
+  EMBEDDING_SPACE_TTL_MS,
+  getRecordedValue,
+  invalidateOnChange,
+  recommendationCache,
+} from '../lib/searchCache';
+import {
+  RecommendationExplanation,
+  getConfidenceComponents,
+  matchPantryIngredients,
+  parseDatasetIngredients,
+  sumScoreComponents,
+} from '../lib/recipeScoring';
+
+/** Which recipes to search: the user's own, the community dataset, or both */
+export type RecipeSearchScope = 'mine' | 'community' | 'both';
+
+export type RecipeSource = 'mine' | 'community';
+
+/**
+ * Constraints applied in the database before results are limited; ingredient
+ * names match anywhere in a recipe's ingredient text
+ */
+export interface RecipeFilters {
+  includeIngredients?: string[];
+  excludeIngredients?: string[];
+  maxIngredients?: number;
+  maxSteps?: number;
+  /** All of these must be among the recipe's keyword (or own) tags */
+  tags?: string[];
+}
+
+export { FILTER_TAGS } from '../lib/recipeMetadata';
+
+const AI_RETRY_OPTIONS = { attempts: 2, delayMs: 500 };
+
+/** Hybrid fuses full-text and vector rankings; vector uses similarity alone */
+export type SemanticSearchMode = 'hybrid' | 'vector';
 
 export interface RAGRecipeRecommendation extends Recipe {
+  /** Whether the recipe is one of the user's own or from the community dataset */
+  source: RecipeSource;
   loves_count: number;
   similarity_score: number;
   relevance_reasons: string[];
+  /** Which ingredients the pantry has and lacks, and what confidence_score is made of */
+  explanation?: RecommendationExplanation;
   source_url?: string;
   confidence_score: number;
+  /** How much the recipe helps use up expiring pantry items, in "use it up" mode */
+  rescue_score?: number;
+  /** Hybrid search: cosine similarity to the query, null when only keywords matched */
+  vector_score?: number | null;
+  /** Hybrid search: full-text rank between 0 and 1, null when only the meaning matched */
+  lexical_score?: number | null;
+  /** Hybrid search: reciprocal rank fusion score the results are ordered by */
+  hybrid_score?: number;
+  /** AI re-ranking: the AI's own 0..1 score, already blended into confidence_score */
+  ai_score?: number;
+  /** AI re-ranking: why the AI scored the recipe as it did */
+  ai_reasons?: string[];
 }
 
 export interface RecipeContext {
@@ -21,16 +97,67 @@ export interface RecipeContext {
 export interface RecipeEmbedding {
   id: string;
   recipe_id: string;
-  embedding: number[];
+  embedding: number[] | null;
+  embedding_provider: string;
+  embedding_version: number;
+  embedding_dimension: number;
   content: string;
   created_at: string;
 }
 
+export interface EmbeddingSyncJob {
+  id: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  embedding_provider: string;
+  embedding_version: number;
+  embedding_dimension: number;
+  min_loves: number;
+  cursor: string | null;
+  rescan_count: number;
+  total: number;
+  processed: number;
+  failed: number;
+  last_error: string | null;
+  lease_expires_at: string | null;
+  started_at: string;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+export interface EmbeddingSyncStatus {
+  job: EmbeddingSyncJob | null;
+  /** Whether a run is working on the job right now */
+  active: boolean;
+  recentErrors: { recipe_id: string; error: string; attempts: number; updated_at: string }[];
+  timestamp: string;
+}
+
+/** A recipe as returned by the vector search RPCs */
+interface SearchResultRow {
+  id: string;
+  title: string;
+  ingredients: string;
+  steps: string;
+  loves_count: number;
+  url: string | null;
+  source: RecipeSource;
+  /** A personal recipe's own tags */
+  tags?: string[];
+  similarity_score?: number;
+  vector_score?: number | null;
+  lexical_score?: number | null;
+  rrf_score?: number;
+  /** Stored parsed metadata of a community recipe, when the backfill has reached it */
+  metadata?: RecipeMetadata;
+}
+
 class RAGRecipeService {
   private embeddingService: EmbeddingService;
   private geminiService: GeminiService | null = null;
   private isInitialized = false;
   private aiAvailable = false;
+  private aiBreaker = new CircuitBreaker();
+  private metadataService = new RecipeMetadataService();
 
   constructor() {
     this.embeddingService = new EmbeddingService();
@@ -81,7 +208,11 @@ class RAGRecipeService {
   }
 
   /**
-   * Get RAG-based recipe recommendations using vector similarity search
+   * Get RAG-based recipe recommendations using vector similarity search.
+   * With `prioritizeExpiring`, pantry items expiring within
+   * `expiringWithinDays` weigh more in the query and recipes that use them
+   * up are ranked first. Identical calls are answered from the result cache
+   * for a few minutes; a changed pantry clears it.
    */
   async getRecommendations(
     ingredients: Ingredient[],
@@ -89,20 +220,73 @@ class RAGRecipeService {
       minLoves?: number;
       maxResults?: number;
       minSimilarity?: number;
+      prioritizeExpiring?: boolean;
+      expiringWithinDays?: number;
+      scope?: RecipeSearchScope;
+      filters?: RecipeFilters;
     } = {}
+  ): Promise<RAGRecipeRecommendation[]> {
+    const { prioritizeExpiring = false, expiringWithinDays = DEFAULT_EXPIRY_WINDOW_DAYS } = options;
+    const expiring = prioritizeExpiring ? getExpiringItems(ingredients, expiringWithinDays) : [];
+
+    const pantryKey = this.getPantryKey(ingredients);
+    await invalidateOnChange('pantry', pantryKey, [recommendationCache]);
+
+    const { data: { session } } = await supabase.auth.getSession();
+    const space = await getRecordedValue(EMBEDDING_SPACE, EMBEDDING_SPACE_TTL_MS);
+    const cacheKey = JSON.stringify([session?.user.id ?? null, space, pantryKey, options]);
+    const cached = await recommendationCache.get(cacheKey) as RAGRecipeRecommendation[] | null;
+    if (cached) return cached;
+
+    const found = await this.findRecommendations(ingredients, options, expiring);
+    const recommendations = expiring.length > 0 ? this.prioritizeRescue(found, expiring) : found;
+
+    if (recommendations.length > 0) {
+      await recommendationCache.set(cacheKey, recommendations);
+    }
+    return recommendations;
+  }
+
+  /**
+   * Identifies the pantry contents recommendations were made for; expiry
+   * dates are part of it because they change the rescue ranking
+   */
+  private getPantryKey(ingredients: Ingredient[]): string {
+    return ingredients
+      .map(ing => [ing.name.trim().toLowerCase(), ing.quantity, ing.unit, ing.expiry_date ?? ''].join('|'))
+      .sort()
+      .join('\n');
+  }
+
+  private async findRecommendations(
+    ingredients: Ingredient[],
+    options: {
+      minLoves?: number;
+      maxResults?: number;
+      minSimilarity?: number;
+      scope?: RecipeSearchScope;
+      filters?: RecipeFilters;
+    },
+    expiring: ExpiringIngredient[]
   ): Promise<RAGRecipeRecommendation[]> {
     await this.initialize();
 
     const {
       minLoves = 10,
       maxResults = 20,
-      minSimilarity = 0.3
+      minSimilarity = 0.3,
+      scope = 'both',
+      filters = {}
     } = options;
 
     try {
-      // Create query embedding from user ingredients
-      const queryContent = this.embeddingService.createQueryContent(ingredients);
-      let queryEmbedding: number[];
+      // Create query embedding from user ingredients; expiring items go first
+      // and are repeated, since earlier words weigh more in the embedding
+      const queryContent = this.embeddingService.createQueryContent([
+        ...expiring.flatMap(entry => Array(1 + Math.round(entry.weight * 2)).fill(entry.item)),
+        ...ingredients,
+      ]);
+      let queryEmbedding: EmbeddingResult;
       
       try {
         queryEmbedding = await this.embeddingService.generateEmbedding(queryContent);
@@ -112,12 +296,21 @@ class RAGRecipeService {
       }
 
       // Use Supabase's vector similarity search with increased limit
-      const { data: similarRecipes, error } = await supabase.rpc('find_similar_recipes', {
-        query_embedding: queryEmbedding,
-        min_loves: minLoves,
-        similarity_threshold: minSimilarity,
-        match_count: Math.max(maxResults * 3, 60) // Get more results to ensure we have enough after processing
-      });
+      const { data: similarRecipes, error } = await this.searchInCurrentSpace(
+        queryContent,
+        queryEmbedding,
+        embedding => supabase.rpc('find_similar_recipes', {
+          query_embedding: embedding.embedding,
+          query_embedding_provider: embedding.provider,
+          query_embedding_version: embedding.version,
+          min_loves: minLoves,
+          similarity_threshold: minSimilarity,
+          match_count: Math.max(maxResults * 3, 60), // Get more results to ensure we have enough after processing
+          search_scope: scope,
+          ...this.toFilterParams(filters)
+        }),
+        data => data.length > 0
+      );
 
       if (error) {
         console.error('Vector search error:', error);
@@ -131,24 +324,36 @@ class RAGRecipeService {
       }
 
       console.log(`Vector search returned ${similarRecipes.length} recipes`);
+      const results = await this.metadataService.attachMetadata(similarRecipes as SearchResultRow[]);
+
+      // Rescue-worthy recipes must survive the cut to maxResults below
+      if (expiring.length > 0) {
+        const rescueScores = new Map(results.map(result => [
+          result.id,
+          scoreExpiryRescue([
+            result.title,
+            ...(result.metadata?.ingredients.map(ing => ing.text) ?? this.parseIngredients(result.ingredients)),
+          ], expiring).score,
+        ]));
+        results.sort((a, b) => compareByRescue(rescueScores.get(a.id), rescueScores.get(b.id)));
+      }
 
       // Process results with AI if available and working, otherwise use traditional conversion
       let recommendations: RAGRecipeRecommendation[];
       
-      if (this.aiAvailable && this.geminiService && similarRecipes.length > 0) {
+      if (this.isAIAvailable() && results.length > 0) {
         try {
-          recommendations = await this.processWithAI(similarRecipes, ingredients, maxResults);
+          recommendations = await this.processWithAI(results, ingredients, maxResults);
         } catch (aiError) {
           console.warn('AI processing failed, falling back to traditional method:', aiError);
-          this.aiAvailable = false; // Disable AI for subsequent calls
-          recommendations = similarRecipes
+          recommendations = results
             .slice(0, maxResults)
-            .map((result: any) => this.convertToRecommendation(result, ingredients));
+            .map(result => this.convertToRecommendation(result, ingredients));
         }
       } else {
-        recommendations = similarRecipes
+        recommendations = results
           .slice(0, maxResults)
-          .map((result: any) => this.convertToRecommendation(result, ingredients));
+          .map(result => this.convertToRecommendation(result, ingredients));
       }
 
       console.log(`Returning ${recommendations.length} RAG recommendations`);
@@ -161,241 +366,164 @@ class RAGRecipeService {
   }
 
   /**
-   * Process vector search results with AI to ensure proper format and quality
+   * Rank recipes that use up expiring pantry items first and say so in their reasons
+   */
+  private prioritizeRescue(
+    recommendations: RAGRecipeRecommendation[],
+    expiring: ExpiringIngredient[]
+  ): RAGRecipeRecommendation[] {
+    return recommendations
+      .map(recommendation => {
+        const rescue = scoreExpiryRescue(
+          [recommendation.name, ...(recommendation.recipe_ingredients || []).map(ing => ing.name)],
+          expiring
+        );
+        const reason = getRescueReason(rescue.used);
+        return {
+          ...recommendation,
+          rescue_score: rescue.score,
+          relevance_reasons: reason
+            ? [reason, ...recommendation.relevance_reasons]
+            : recommendation.relevance_reasons,
+        };
+      })
+      .sort((a, b) => compareByRescue(a.rescue_score, b.rescue_score));
+  }
+
+  /**
+   * Let the AI score and tidy up the top vector search results, in batches to
+   * stay within token limits. Batches the AI could not handle keep their
+   * vector-based recommendation.
    */
   private async processWithAI(
-    vectorResults: any[],
+    vectorResults: SearchResultRow[],
     userIngredients: Ingredient[],
     maxResults: number
   ): Promise<RAGRecipeRecommendation[]> {
-    if (!this.geminiService || !this.aiAvailable) {
+    if (!this.isAIAvailable()) {
       throw new Error('AI service not available');
     }
 
-    try {
-      const ingredientList = userIngredients.map(ing => 
-        `${ing.name} (${ing.quantity} ${ing.unit})`
-      ).join(', ');
+    const ingredientList = userIngredients.map(ing => 
+      `${ing.name} (${ing.quantity} ${ing.unit})`
+    ).join(', ');
 
-      // Process in smaller batches to avoid AI token limits
-      const batchSize = 8;
-      const allRecommendations: RAGRecipeRecommendation[] = [];
+    const candidates = vectorResults.slice(0, maxResults);
+    const batchSize = 8;
+    const allRecommendations: RAGRecipeRecommendation[] = [];
 
-      for (let i = 0; i < vectorResults.length && allRecommendations.length < maxResults; i += batchSize) {
-        const batch = vectorResults.slice(i, i + batchSize);
-        const remainingSlots = maxResults - allRecommendations.length;
-        const batchMaxResults = Math.min(remainingSlots, batchSize);
+    for (let i = 0; i < candidates.length; i += batchSize) {
+      const batch = candidates.slice(i, i + batchSize);
+      const prompt = buildIngredientRerankPrompt(ingredientList, batch);
 
-        try {
-          // Prepare recipe references for AI
-          const recipeReferences = batch.map((result, index) => ({
-            index: index + 1,
-            title: result.title,
-            ingredients: result.ingredients,
-            steps: result.steps,
-            loves_count: result.loves_count,
-            similarity_score: result.similarity_score
-          }));
-
-          const prompt = `
-Saya memiliki bahan-bahan berikut: ${ingredientList}
-
-Berdasarkan hasil pencarian vektor berikut, tolong pilih dan format ${batchMaxResults} resep terbaik yang paling cocok dengan bahan saya. Berikan respon dalam format JSON yang valid dengan struktur berikut:
-
-REFERENSI RESEP DARI DATABASE:
-${recipeReferences.map(ref => `
-${ref.index}. ${ref.title} (${ref.loves_count} likes, ${Math.round(ref.similarity_score * 100)}% similarity)
-   Bahan: ${ref.ingredients.substring(0, 200)}...
-   Langkah: ${ref.steps.substring(0, 200)}...
-`).join('\n')}
-
-\`\`\`json
-{
-  "recipes": [
-    {
-      "referenceIndex": 1,
-      "name": "Nama Resep yang Diperbaiki",
-      "description": "Deskripsi singkat yang menarik",
-      "ingredients": [
-        {
-          "name": "nama bahan",
-          "quantity": 1,
-          "unit": "satuan"
-        }
-      ],
-      "instructions": [
-        "Langkah 1 yang jelas",
-        "Langkah 2 yang jelas"
-      ],
-      "prepTime": 15,
-      "cookTime": 30,
-      "servings": 4,
-      "difficulty": "easy",
-      "tags": ["tag1", "tag2"],
-      "relevanceReasons": [
-        "Alasan mengapa resep ini cocok",
-        "Alasan kedua"
-      ]
+      try {
+        const response = await this.requestRerank(prompt, batch.length);
+        allRecommendations.push(...this.applyAIRerank(response, batch, userIngredients));
+      } catch (batchError) {
+        console.warn('Error processing batch with AI, using fallback:', batchError);
+        allRecommendations.push(...batch.map(result => this.convertToRecommendation(result, userIngredients)));
+      }
+
+      // Add small delay between batches to avoid rate limiting
+      if (i + batchSize < candidates.length) {
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
     }
-  ]
-}
-\`\`\`
-
-PENTING - ATURAN JSON YANG KETAT:
-1. JSON format yang valid tanpa kesalahan sintaks
-2. TIDAK ADA komentar dalam output JSON (tidak boleh ada // atau /* */)
-3. Semua string dalam tanda kutip ganda
-4. Semua angka tanpa tanda kutip
-5. Tidak ada koma trailing
-6. Tidak ada karakter khusus yang merusak JSON
-7. Tidak ada baris kosong atau spasi berlebihan dalam JSON
-8. Hanya output JSON murni tanpa teks tambahan
-9. Pastikan semua kurung kurawal dan kurung siku tertutup dengan benar
-10. Gunakan escape sequence yang benar untuk karakter khusus dalam string
-
-Pastikan:
-1. Pilih resep dengan similarity score tertinggi dan paling cocok dengan bahan yang tersedia
-2. Perbaiki nama resep agar lebih menarik dan jelas
-3. Buat deskripsi yang menarik dan informatif
-4. Parsing bahan dengan benar dari teks mentah ke format terstruktur
-5. Buat instruksi yang jelas dan mudah diikuti dari langkah mentah
-6. Estimasi waktu yang realistis
-7. Tentukan tingkat kesulitan yang sesuai
-8. Berikan alasan relevansi yang spesifik
-9. Urutkan berdasarkan kesesuaian dengan bahan yang tersedia
-10. Jika bahan yang diperlukan hanya secukupnya, gunakan "secukupnya" sebagai unit dan 1 untuk quantity
-11. Gunakan bahasa Indonesia yang baik dan benar
-`;
-
-          const result = await this.geminiService.generateContent(prompt);
-          const response = await result.response;
-          const text = response.text();
-
-          // Extract JSON from markdown code block
-          const jsonMatch = text.match(/```json\s*(\{[\s\S]*?\})\s*```/);
-          if (!jsonMatch || !jsonMatch[1]) {
-            console.warn('AI response format was unexpected for batch, falling back to traditional method');
-            const fallbackBatch = batch
-              .slice(0, batchMaxResults)
-              .map((result: any) => this.convertToRecommendation(result, userIngredients));
-            allRecommendations.push(...fallbackBatch);
-            continue;
-          }
 
-          try {
-            // Enhanced JSON cleaning to remove any potential comments or invalid characters
-            let jsonString = jsonMatch[1];
-            
-            // Remove any line comments (// ...)
-            jsonString = jsonString.replace(/\/\/.*$/gm, '');
-            
-            // Remove any block comments (/* ... */)
-            jsonString = jsonString.replace(/\/\*[\s\S]*?\*\//g, '');
-            
-            // Remove trailing commas before closing brackets/braces
-            jsonString = jsonString.replace(/,(\s*[}\]])/g, '$1');
-            
-            // Remove any HTML-style comments
-            jsonString = jsonString.replace(/<!--[\s\S]*?-->/g, '');
-            
-            // Clean up any malformed strings or extra characters
-            jsonString = jsonString.replace(/[\u0000-\u001F\u007F-\u009F]/g, '');
-            
-            // Ensure proper string escaping
-            jsonString = jsonString.replace(/\\(?!["\\/bfnrt]|u[0-9a-fA-F]{4})/g, '\\\\');
-            
-            const parsedResponse = JSON.parse(jsonString);
-            const batchRecommendations = this.convertAIResponseToRecommendations(parsedResponse, batch, userIngredients);
-            allRecommendations.push(...batchRecommendations.slice(0, batchMaxResults));
-          } catch (parseError) {
-            console.warn('JSON parsing error for batch, using fallback:', parseError);
-            const fallbackBatch = batch
-              .slice(0, batchMaxResults)
-              .map((result: any) => this.convertToRecommendation(result, userIngredients));
-            allRecommendations.push(...fallbackBatch);
-          }
-        } catch (batchError) {
-          console.warn('Error processing batch with AI, using fallback:', batchError);
-          // Fallback to traditional method for this batch
-          const fallbackBatch = batch
-            .slice(0, batchMaxResults)
-            .map((result: any) => this.convertToRecommendation(result, userIngredients));
-          allRecommendations.push(...fallbackBatch);
-        }
+    return allRecommendations.sort((a, b) => b.confidence_score - a.confidence_score);
+  }
 
-        // Add small delay between batches to avoid rate limiting
-        if (i + batchSize < vectorResults.length && allRecommendations.length < maxResults) {
-          await new Promise(resolve => setTimeout(resolve, 500));
-        }
-      }
+  /**
+   * Send a re-ranking prompt and validate the answer, retrying failed calls
+   * and invalid answers. Each outcome is reported to the circuit breaker.
+   */
+  private async requestRerank(prompt: string, referenceCount: number): Promise<AIRerankResponse> {
+    const geminiService = this.geminiService;
+    if (!geminiService || !this.aiBreaker.startRequest()) {
+      throw new Error('AI service not available');
+    }
 
-      return allRecommendations.slice(0, maxResults);
+    try {
+      const response = await withRetries(async () => {
+        const result = await geminiService.generateContent(prompt);
+        const text = (await result.response).text();
+        return parseAIRerankResponse(text, referenceCount);
+      }, AI_RETRY_OPTIONS);
+
+      this.aiBreaker.recordSuccess();
+      return response;
     } catch (error) {
-      console.error('Error processing with AI:', error);
-      // Mark AI as unavailable and throw to trigger fallback
-      this.aiAvailable = false;
+      this.aiBreaker.recordFailure();
       throw error;
     }
   }
 
   /**
-   * Convert AI-processed response to our recommendation format
+   * Combine a validated AI answer with the recipes it was asked about. The AI
+   * score is blended into the confidence score and its reasons come first;
+   * recipes the AI skipped keep their vector-based recommendation. The user's
+   * own recipes are scored but never rewritten.
    */
-  private convertAIResponseToRecommendations(
-    aiResponse: any,
-    originalResults: any[],
+  private applyAIRerank(
+    response: AIRerankResponse,
+    references: SearchResultRow[],
     userIngredients: Ingredient[]
   ): RAGRecipeRecommendation[] {
-    if (!aiResponse.recipes || !Array.isArray(aiResponse.recipes)) {
-      throw new Error('Invalid AI response format');
-    }
-
-    return aiResponse.recipes.map((aiRecipe: any, index: number) => {
-      // Find the original result this AI recipe is based on
-      const referenceIndex = aiRecipe.referenceIndex - 1;
-      const originalResult = originalResults[referenceIndex] || originalResults[index] || originalResults[0];
-      
-      if (!originalResult) {
-        throw new Error(`No original result found for AI recipe ${index}`);
-      }
-
-      // Calculate confidence score based on AI processing and original similarity
-      const confidenceScore = this.calculateConfidenceScore(
-        originalResult.similarity_score,
-        originalResult.loves_count,
-        aiRecipe.ingredients?.length || 5,
-        aiRecipe.instructions?.length || 5
-      );
-
-      return {
-        id: originalResult.id,
-        name: aiRecipe.name || originalResult.title,
-        description: aiRecipe.description || originalResult.title,
-        prep_time: aiRecipe.prepTime || 15,
-        cook_time: aiRecipe.cookTime || 30,
-        servings: aiRecipe.servings || 4,
-        difficulty: aiRecipe.difficulty || 'medium',
-        instructions: aiRecipe.instructions || this.parseSteps(originalResult.steps),
-        tags: aiRecipe.tags || this.extractSemanticTags(originalResult.title, originalResult.ingredients, originalResult.similarity_score),
-        user_id: 'dataset-rag-ai',
-        recipe_ingredients: (aiRecipe.ingredients || []).map((ing: any, ingIndex: number) => ({
-          id: `${originalResult.id}-ai-ing-${ingIndex}`,
-          recipe_id: originalResult.id,
-          name: ing.name,
-          quantity: ing.quantity || 1,
-          unit: ing.unit || 'secukupnya',
-        })),
-        loves_count: originalResult.loves_count,
-        similarity_score: originalResult.similarity_score,
-        relevance_reasons: aiRecipe.relevanceReasons || this.generateRelevanceReasons(
-          { recipe: originalResult, similarity: originalResult.similarity_score },
-          userIngredients,
-          (aiRecipe.ingredients || []).map((ing: any) => ing.name)
-        ),
-        source_url: originalResult.url,
-        confidence_score: confidenceScore,
-      };
-    });
+    const aiByReference = new Map(response.recipes.map(recipe => [recipe.referenceIndex - 1, recipe]));
+
+    return references
+      .map((reference, index) => {
+        const recommendation = this.convertToRecommendation(reference, userIngredients);
+        const aiRecipe = aiByReference.get(index);
+        if (!aiRecipe) return recommendation;
+
+        const explanation = recommendation.explanation && {
+          ...recommendation.explanation,
+          components: mergeAIScoreComponent(recommendation.explanation.components, aiRecipe.score),
+        };
+        const scored: RAGRecipeRecommendation = {
+          ...recommendation,
+          relevance_reasons: [...new Set([...aiRecipe.reasons, ...recommendation.relevance_reasons])].slice(0, 4),
+          explanation,
+          confidence_score: mergeAIScore(recommendation.confidence_score, aiRecipe.score),
+          ai_score: aiRecipe.score,
+          ai_reasons: aiRecipe.reasons,
+        };
+        if (reference.source === 'mine') return scored;
+
+        return {
+          ...scored,
+          name: aiRecipe.name ?? scored.name,
+          description: aiRecipe.description ?? scored.description,
+          prep_time: aiRecipe.prepTime ?? scored.prep_time,
+          cook_time: aiRecipe.cookTime ?? scored.cook_time,
+          servings: aiRecipe.servings ?? scored.servings,
+          difficulty: aiRecipe.difficulty ?? scored.difficulty,
+          instructions: aiRecipe.instructions ?? scored.instructions,
+          tags: aiRecipe.tags ?? scored.tags,
+          user_id: 'dataset-rag-ai',
+          // The checklist has to follow the AI's ingredient list
+          explanation: aiRecipe.ingredients && explanation
+            ? {
+                ...explanation,
+                ...matchPantryIngredients(
+                  aiRecipe.ingredients.map(ing => ing.name),
+                  userIngredients.map(ing => ing.name)
+                ),
+              }
+            : explanation,
+          recipe_ingredients: aiRecipe.ingredients
+            ? aiRecipe.ingredients.map((ing, ingIndex) => ({
+                id: `${reference.id}-ai-ing-${ingIndex}`,
+                recipe_id: reference.id,
+                name: ing.name,
+                quantity: ing.quantity,
+                unit: ing.unit,
+              }))
+            : scored.recipe_ingredients,
+        };
+      })
+      .sort((a, b) => b.confidence_score - a.confidence_score);
   }
 
   /**
@@ -407,38 +535,48 @@ Pastikan:
       minLoves?: number;
       maxResults?: number;
       minSimilarity?: number;
+      scope?: RecipeSearchScope;
+      filters?: RecipeFilters;
     }
   ): Promise<RAGRecipeRecommendation[]> {
     console.log('Using fallback recommendation method');
     
-    const { minLoves = 10, maxResults = 20 } = options;
+    const { minLoves = 10, maxResults = 20, scope = 'both', filters = {} } = options;
 
     try {
-      // Simple fallback: get popular recipes and do basic ingredient matching
-      const { data: recipes, error } = await supabase
-        .from('dataset_recipes')
-        .select('*')
-        .is('user_id', null)
-        .gte('loves_count', minLoves)
-        .order('loves_count', { ascending: false })
-        .limit(maxResults * 3); // Get more to filter
-
-      if (error) throw error;
-      if (!recipes) return [];
+      const recipes: SearchResultRow[] = [];
+
+      if (scope !== 'mine') {
+        // Simple fallback: get popular recipes and do basic ingredient matching
+        const { data: communityRecipes, error } = await supabase
+          .from('dataset_recipes')
+          .select('*')
+          .is('user_id', null)
+          .gte('loves_count', minLoves)
+          .order('loves_count', { ascending: false })
+          .limit(maxResults * 3); // Get more to filter
+
+        if (error) throw error;
+        recipes.push(...(communityRecipes || []).map(recipe => ({ ...recipe, source: 'community' as const })));
+      }
+
+      if (scope !== 'community') {
+        recipes.push(...await this.getPersonalRecipes());
+      }
 
       console.log(`Fallback method found ${recipes.length} recipes`);
 
-      const userIngredientNames = ingredients.map(ing => ing.name.toLowerCase());
+      const userIngredientNames = ingredients.map(ing => ing.name);
       
-      // Simple text-based matching as fallback
+      // Simple ingredient matching as fallback
       const matchedRecipes = recipes
+        .filter(recipe => this.matchesFilters(recipe, filters))
         .map(recipe => {
-          const ingredientsText = recipe.ingredients.toLowerCase();
-          const titleText = recipe.title.toLowerCase();
+          const recipeIngredients = [recipe.title, ...this.parseIngredients(recipe.ingredients)];
           
           let matchCount = 0;
           userIngredientNames.forEach(userIng => {
-            if (ingredientsText.includes(userIng) || titleText.includes(userIng)) {
+            if (recipeIngredients.some(recipeIng => isSameIngredient(recipeIng, userIng))) {
               matchCount++;
             }
           });
@@ -457,7 +595,8 @@ Pastikan:
         .slice(0, maxResults);
 
       console.log(`Fallback method returning ${matchedRecipes.length} recipes`);
-      return matchedRecipes.map(recipe => this.convertToRecommendation(recipe, ingredients));
+      return (await this.metadataService.attachMetadata(matchedRecipes))
+        .map(recipe => this.convertToRecommendation(recipe, ingredients));
     } catch (error) {
       console.error('Error in fallback recommendations:', error);
       return [];
@@ -465,56 +604,114 @@ Pastikan:
   }
 
   /**
-   * Search recipes using semantic similarity
+   * Search recipes by meaning and keywords. The default hybrid mode fuses
+   * full-text and vector rankings in the database and keeps working on
+   * keywords alone when no query embedding can be made; results carry their
+   * lexical and vector scores. `mode: 'vector'` ranks by vector similarity only.
+   * `pantry` only feeds the explanations of the results, not the ranking.
    */
   async semanticSearch(
     query: string,
     options: {
       maxResults?: number;
       minSimilarity?: number;
+      scope?: RecipeSearchScope;
+      mode?: SemanticSearchMode;
+      pantry?: Ingredient[];
     } = {}
   ): Promise<RAGRecipeRecommendation[]> {
     await this.initialize();
 
-    const { maxResults = 20, minSimilarity = 0.3 } = options;
+    const { maxResults = 20, minSimilarity = 0.3, scope = 'both', mode = 'hybrid', pantry = [] } = options;
 
     try {
-      let queryEmbedding: number[];
+      let queryEmbedding: EmbeddingResult | null = null;
       
       try {
         queryEmbedding = await this.embeddingService.generateEmbedding(query);
       } catch (embeddingError) {
-        console.warn('Failed to generate embedding for semantic search, falling back:', embeddingError);
-        return this.getFallbackSemanticSearch(query, options);
+        if (mode === 'vector') {
+          console.warn('Failed to generate embedding for semantic search, falling back:', embeddingError);
+          return this.getFallbackSemanticSearch(query, options);
+        }
+        console.warn('Failed to generate embedding for semantic search, searching by keywords only:', embeddingError);
       }
 
-      // Use Supabase's vector similarity search
-      const { data: similarRecipes, error } = await supabase.rpc('search_recipes_by_text', {
-        query_embedding: queryEmbedding,
-        similarity_threshold: minSimilarity,
-        match_count: maxResults * 2
-      });
+      let similarRecipes: SearchResultRow[];
+
+      if (mode === 'hybrid') {
+        const search = (embedding: EmbeddingResult | null) => supabase.rpc('hybrid_search_recipes', {
+          query_text: query,
+          query_embedding: embedding?.embedding ?? null,
+          query_embedding_provider: embedding?.provider ?? null,
+          query_embedding_version: embedding?.version ?? null,
+          similarity_threshold: minSimilarity,
+          match_count: maxResults * 2,
+          search_scope: scope
+        });
+        const { data, error } = queryEmbedding
+          ? await this.searchInCurrentSpace(
+            query,
+            queryEmbedding,
+            search,
+            data => data.some((result: SearchResultRow) => result.vector_score != null)
+          )
+          : await search(null);
+
+        if (error) {
+          console.error('Hybrid search error:', error);
+          return this.getFallbackSemanticSearch(query, options);
+        }
 
-      if (error) {
-        console.error('Semantic search error:', error);
-        return this.getFallbackSemanticSearch(query, options);
+        // Recipes found by keywords alone are shown with their full-text score
+        similarRecipes = (data || []).map((result: SearchResultRow) => ({
+          ...result,
+          similarity_score: result.vector_score ?? result.lexical_score ?? 0,
+        }));
+      } else {
+        if (!queryEmbedding) return this.getFallbackSemanticSearch(query, options);
+
+        // Use Supabase's vector similarity search
+        const { data, error } = await this.searchInCurrentSpace(
+          query,
+          queryEmbedding,
+          embedding => supabase.rpc('search_recipes_by_text', {
+            query_embedding: embedding.embedding,
+            query_embedding_provider: embedding.provider,
+            query_embedding_version: embedding.version,
+            similarity_threshold: minSimilarity,
+            match_count: maxResults * 2,
+            search_scope: scope
+          }),
+          data => data.length > 0
+        );
+
+        if (error) {
+          console.error('Semantic search error:', error);
+          return this.getFallbackSemanticSearch(query, options);
+        }
+
+        similarRecipes = data || [];
       }
 
-      if (!similarRecipes) return [];
+      similarRecipes = await this.metadataService.attachMetadata(similarRecipes);
 
       // Process with AI if available
-      if (this.aiAvailable && this.geminiService && similarRecipes.length > 0) {
+      if (this.isAIAvailable() && similarRecipes.length > 0) {
         try {
-          return await this.processSemanticSearchWithAI(similarRecipes, query, maxResults);
+          const aiResults = await this.processSemanticSearchWithAI(similarRecipes, query, maxResults, pantry);
+          return this.withSearchScores(aiResults, similarRecipes);
         } catch (aiError) {
           console.warn('AI processing failed for semantic search, using traditional method:', aiError);
-          this.aiAvailable = false;
         }
       }
 
-      return similarRecipes
-        .slice(0, maxResults)
-        .map((result: any) => this.convertToRecommendation(result, []));
+      return this.withSearchScores(
+        similarRecipes
+          .slice(0, maxResults)
+          .map(result => this.convertToRecommendation(result, pantry)),
+        similarRecipes
+      );
     } catch (error) {
       console.error('Error in semantic search:', error);
       return this.getFallbackSemanticSearch(query, options);
@@ -522,136 +719,83 @@ Pastikan:
   }
 
   /**
-   * Process semantic search results with AI
+   * Run a vector search with `embedding`. When a cached embedding finds no
+   * vector hits or is rejected, the server may have moved to another
+   * embedding space since it was cached, so the search is repeated once with
+   * a fresh embedding of `text`, which also records the current space.
+   */
+  private async searchInCurrentSpace<R extends { data: unknown; error: unknown }>(
+    text: string,
+    embedding: EmbeddingResult,
+    search: (embedding: EmbeddingResult) => PromiseLike<R>,
+    hasVectorHits: (data: NonNullable<R['data']>) => boolean
+  ): Promise<R> {
+    const result = await search(embedding);
+    if (!embedding.fromCache || (!result.error && result.data && hasVectorHits(result.data as NonNullable<R['data']>))) {
+      return result;
+    }
+
+    try {
+      const fresh = await this.embeddingService.generateEmbedding(text, { fresh: true });
+      return await search(fresh);
+    } catch (error) {
+      console.warn('Could not refresh the query embedding:', error);
+      return result;
+    }
+  }
+
+  /**
+   * Copy the hybrid search scores of each result onto its recommendation
+   */
+  private withSearchScores(
+    recommendations: RAGRecipeRecommendation[],
+    results: SearchResultRow[]
+  ): RAGRecipeRecommendation[] {
+    const resultsById = new Map(results.map(result => [`${result.source}:${result.id}`, result]));
+
+    return recommendations.map(recommendation => {
+      const result = resultsById.get(`${recommendation.source}:${recommendation.id}`);
+      if (!result || result.rrf_score === undefined) return recommendation;
+
+      return {
+        ...recommendation,
+        vector_score: result.vector_score ?? null,
+        lexical_score: result.lexical_score ?? null,
+        hybrid_score: result.rrf_score,
+        explanation: recommendation.explanation && {
+          ...recommendation.explanation,
+          searchScores: { vector: result.vector_score ?? null, lexical: result.lexical_score ?? null },
+        },
+      };
+    });
+  }
+
+  /**
+   * Let the AI score the top semantic search results for the query; the
+   * remaining results keep their search order after them
    */
   private async processSemanticSearchWithAI(
-    vectorResults: any[],
+    vectorResults: SearchResultRow[],
     query: string,
-    maxResults: number
+    maxResults: number,
+    pantry: Ingredient[]
   ): Promise<RAGRecipeRecommendation[]> {
-    if (!this.geminiService || !this.aiAvailable) {
+    if (!this.isAIAvailable()) {
       throw new Error('AI service not available');
     }
 
-    try {
-      const recipeReferences = vectorResults.slice(0, Math.min(vectorResults.length, 6)).map((result, index) => ({
-        index: index + 1,
-        title: result.title,
-        ingredients: result.ingredients,
-        steps: result.steps,
-        loves_count: result.loves_count,
-        similarity_score: result.similarity_score
-      }));
-
-      const prompt = `
-Berdasarkan pencarian "${query}", tolong pilih dan format ${maxResults} resep terbaik dari hasil berikut:
-
-REFERENSI RESEP:
-${recipeReferences.map(ref => `
-${ref.index}. ${ref.title} (${ref.loves_count} likes, ${Math.round(ref.similarity_score * 100)}% similarity)
-   Bahan: ${ref.ingredients.substring(0, 200)}...
-   Langkah: ${ref.steps.substring(0, 200)}...
-`).join('\n')}
-
-Format dalam JSON yang sama seperti sebelumnya, fokus pada resep yang paling relevan dengan pencarian "${query}".
-
-\`\`\`json
-{
-  "recipes": [
-    {
-      "referenceIndex": 1,
-      "name": "Nama Resep",
-      "description": "Deskripsi menarik",
-      "ingredients": [
-        {
-          "name": "nama bahan",
-          "quantity": 1,
-          "unit": "satuan"
-        }
-      ],
-      "instructions": [
-        "Langkah 1",
-        "Langkah 2"
-      ],
-      "prepTime": 15,
-      "cookTime": 30,
-      "servings": 4,
-      "difficulty": "easy",
-      "tags": ["tag1", "tag2"],
-      "relevanceReasons": [
-        "Relevan dengan pencarian '${query}'",
-        "Alasan lainnya"
-      ]
-    }
-  ]
-}
-\`\`\`
-
-PENTING - ATURAN JSON YANG KETAT:
-1. JSON format yang valid tanpa kesalahan sintaks
-2. TIDAK ADA komentar dalam output JSON (tidak boleh ada // atau /* */ atau komentar apapun)
-3. Semua string dalam tanda kutip ganda
-4. Semua angka tanpa tanda kutip
-5. Tidak ada koma trailing
-6. Tidak ada karakter khusus yang merusak JSON
-7. Tidak ada baris kosong atau spasi berlebihan dalam JSON
-8. Hanya output JSON murni tanpa teks tambahan
-9. Pastikan semua kurung kurawal dan kurung siku tertutup dengan benar
-10. Gunakan escape sequence yang benar untuk karakter khusus dalam string
-11. Tidak boleh ada kata "Tambahkan" atau komentar lainnya dalam JSON
-12. Output harus berupa JSON yang bisa langsung di-parse tanpa error
-13. Jika bahan yang diperlukan hanya secukupnya, gunakan "secukupnya" sebagai unit dan 1 untuk quantity
-`;
-
-      const result = await this.geminiService.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
-
-      const jsonMatch = text.match(/```json\s*(\{[\s\S]*?\})\s*```/);
-      if (!jsonMatch || !jsonMatch[1]) {
-        return vectorResults
-          .slice(0, maxResults)
-          .map((result: any) => this.convertToRecommendation(result, []));
-      }
+    const references = vectorResults.slice(0, Math.min(maxResults, 6));
 
-      try {
-        // Enhanced JSON cleaning to remove any potential comments or invalid characters
-        let jsonString = jsonMatch[1];
-        
-        // Remove any line comments (// ...)
-        jsonString = jsonString.replace(/\/\/.*$/gm, '');
-        
-        // Remove any block comments (/* ... */)
-        jsonString = jsonString.replace(/\/\*[\s\S]*?\*\//g, '');
-        
-        // Remove trailing commas before closing brackets/braces
-        jsonString = jsonString.replace(/,(\s*[}\]])/g, '$1');
-        
-        // Remove any HTML-style comments
-        jsonString = jsonString.replace(/<!--[\s\S]*?-->/g, '');
-        
-        // Clean up any malformed strings or extra characters
-        jsonString = jsonString.replace(/[\u0000-\u001F\u007F-\u009F]/g, '');
-        
-        // Ensure proper string escaping
-        jsonString = jsonString.replace(/\\(?!["\\/bfnrt]|u[0-9a-fA-F]{4})/g, '\\\\');
-        
-        // Remove any Indonesian comments that might appear
-        jsonString = jsonString.replace(/\s*\/\/\s*Tambahk.*$/gm, '');
-        jsonString = jsonString.replace(/\s*\/\*\s*Tambahk[\s\S]*?\*\//g, '');
-        
-        const parsedResponse = JSON.parse(jsonString);
-        return this.convertAIResponseToRecommendations(parsedResponse, vectorResults, []);
-      } catch (parseError) {
-        console.error('JSON parsing error in semantic search:', parseError);
-        return vectorResults
-          .slice(0, maxResults)
-          .map((result: any) => this.convertToRecommendation(result, []));
-      }
-    } catch (error) {
-      console.error('Error processing semantic search with AI:', error);
-      throw error;
-    }
+    const prompt = buildQueryRerankPrompt(query, references);
+
+    const response = await this.requestRerank(prompt, references.length);
+
+    return [
+      ...this.applyAIRerank(response, references, pantry),
+      ...vectorResults
+        .slice(references.length, maxResults)
+        .map(result => this.convertToRecommendation(result, pantry)),
+    ];
   }
 
   /**
@@ -659,27 +803,40 @@ PENTING - ATURAN JSON YANG KETAT:
    */
   private async getFallbackSemanticSearch(
     query: string,
-    options: { maxResults?: number; minSimilarity?: number }
+    options: { maxResults?: number; minSimilarity?: number; scope?: RecipeSearchScope; pantry?: Ingredient[] }
   ): Promise<RAGRecipeRecommendation[]> {
-    const { maxResults = 20 } = options;
+    const { maxResults = 20, scope = 'both', pantry = [] } = options;
 
     try {
-      // Simple text search as fallback
-      const { data: recipes, error } = await supabase
-        .from('dataset_recipes')
-        .select('*')
-        .is('user_id', null)
-        .or(`title.ilike.%${query}%,ingredients.ilike.%${query}%`)
-        .order('loves_count', { ascending: false })
-        .limit(maxResults);
-
-      if (error) throw error;
-      if (!recipes) return [];
-
-      return recipes.map(recipe => this.convertToRecommendation({
+      const recipes: SearchResultRow[] = [];
+
+      if (scope !== 'community') {
+        const normalizedQuery = query.toLowerCase();
+        const personalRecipes = await this.getPersonalRecipes();
+        recipes.push(...personalRecipes.filter(recipe =>
+          recipe.title.toLowerCase().includes(normalizedQuery) ||
+          recipe.ingredients.toLowerCase().includes(normalizedQuery)
+        ));
+      }
+
+      if (scope !== 'mine') {
+        // Simple text search as fallback
+        const { data: communityRecipes, error } = await supabase
+          .from('dataset_recipes')
+          .select('*')
+          .is('user_id', null)
+          .or(`title.ilike.%${query}%,ingredients.ilike.%${query}%`)
+          .order('loves_count', { ascending: false })
+          .limit(maxResults);
+
+        if (error) throw error;
+        recipes.push(...(communityRecipes || []).map(recipe => ({ ...recipe, source: 'community' as const })));
+      }
+
+      return (await this.metadataService.attachMetadata(recipes.slice(0, maxResults))).map(recipe => this.convertToRecommendation({
         ...recipe,
         similarity_score: 0.5 // Default similarity for text search
-      }, []));
+      }, pantry));
     } catch (error) {
       console.error('Error in fallback semantic search:', error);
       return [];
@@ -687,19 +844,85 @@ PENTING - ATURAN JSON YANG KETAT:
   }
 
   /**
-   * Trigger background embedding sync manually (for testing)
+   * Progress of the latest embedding sync job, or of `jobId`
    */
-  async triggerBackgroundSync(): Promise<{ success: boolean; message: string }> {
+  async getSyncStatus(jobId?: string): Promise<EmbeddingSyncStatus | null> {
     try {
-      const { data, error } = await supabase.functions.invoke('sync-embeddings');
-      
+      const { data, error } = await supabase.functions.invoke('sync-embeddings', {
+        body: { action: 'status', jobId }
+      });
+
       if (error) {
-        console.error('Background sync error:', error);
-        return { success: false, message: error.message };
+        console.error('Sync status error:', error);
+        return null;
+      }
+
+      return data as EmbeddingSyncStatus;
+    } catch (error) {
+      console.error('Error fetching sync status:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Trigger the embedding sync and keep it going until the job finishes.
+   * Each call of the function works for under a minute and resumes the same
+   * job, so this re-runs it while the job is still pending and polls the
+   * status while another run (e.g. the cron job) holds it. The function only
+   * runs the job for the service role, so this needs a service role client.
+   */
+  async triggerBackgroundSync(
+    options: {
+      onProgress?: (job: EmbeddingSyncJob) => void;
+      pollIntervalMs?: number;
+      maxRuns?: number;
+    } = {}
+  ): Promise<{ success: boolean; message: string; job?: EmbeddingSyncJob }> {
+    const { onProgress, pollIntervalMs = 5000, maxRuns = 50 } = options;
+
+    try {
+      let job: EmbeddingSyncJob | undefined;
+
+      for (let run = 0; run < maxRuns; run++) {
+        const { data, error } = await supabase.functions.invoke('sync-embeddings', {
+          body: { action: 'run' }
+        });
+
+        if (error) {
+          console.error('Background sync error:', error);
+          return { success: false, message: error.message, job };
+        }
+
+        // Nothing pending: no job is created, `job` is the latest earlier one
+        if (data.message === 'All recipes already have current embeddings') {
+          return { success: true, message: 'All recipes already have current embeddings', job: data.job ?? undefined };
+        }
+
+        job = data.job as EmbeddingSyncJob;
+        onProgress?.(job);
+
+        if (job.status !== 'running') {
+          return {
+            success: job.status === 'completed',
+            message: job.status === 'completed'
+              ? 'Background sync completed successfully'
+              : job.last_error || `Background sync ${job.status}`,
+            job,
+          };
+        }
+
+        // Another run holds the job; wait for it before trying again
+        if (data.message === 'Embedding synchronization is already running') {
+          await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+          const status = await this.getSyncStatus(job.id);
+          if (status?.job) {
+            job = status.job;
+            onProgress?.(job);
+          }
+        }
       }
 
-      console.log('Background sync result:', data);
-      return { success: true, message: 'Background sync completed successfully' };
+      return { success: true, message: 'Background sync is still running', job };
     } catch (error) {
       console.error('Error triggering background sync:', error);
       return { success: false, message: 'Failed to trigger background sync' };
@@ -707,10 +930,11 @@ PENTING - ATURAN JSON YANG KETAT:
   }
 
   /**
-   * Check if AI features are available
+   * Check if AI features are available: configured, and not paused by the
+   * circuit breaker after repeated failures
    */
   isAIAvailable(): boolean {
-    return this.aiAvailable;
+    return this.aiAvailable && this.geminiService !== null && this.aiBreaker.canRequest();
   }
 
   private convertToRecommendation(
@@ -721,60 +945,89 @@ PENTING - ATURAN JSON YANG KETAT:
     const recipe = result.recipe || result;
     const similarity = result.similarity || result.similarity_score || 0;
     
-    // Parse recipe data
-    const ingredientsList = this.parseIngredients(recipe.ingredients);
-    const stepsList = this.parseSteps(recipe.steps);
+    // Stored metadata, or the same derivation on the fly
+    const metadata: RecipeMetadata = recipe.metadata ?? deriveRecipeMetadata(recipe);
     
     // Generate relevance reasons
     const relevanceReasons = this.generateRelevanceReasons(
       { recipe, similarity },
       userIngredients,
-      ingredientsList
+      metadata
     );
 
-    // Estimate cooking parameters
-    const estimatedPrepTime = Math.min(Math.max(ingredientsList.length * 2, 10), 30);
-    const estimatedCookTime = Math.min(Math.max(stepsList.length * 4, 15), 60);
-    const difficulty = this.estimateDifficulty(ingredientsList.length, stepsList.length);
-
     // Calculate confidence score
-    const confidenceScore = this.calculateConfidenceScore(
+    const scoreComponents = getConfidenceComponents(
       similarity,
       recipe.loves_count,
-      ingredientsList.length,
-      stepsList.length
+      metadata.ingredients.length,
+      metadata.steps.length
     );
+    const confidenceScore = sumScoreComponents(scoreComponents);
 
     return {
       id: recipe.id,
       name: recipe.title,
       description: recipe.title, // Use title as description for cleaner format
-      prep_time: estimatedPrepTime,
-      cook_time: estimatedCookTime,
+      prep_time: metadata.prep_time,
+      cook_time: metadata.cook_time,
       servings: 4,
-      difficulty,
-      instructions: stepsList,
-      tags: this.extractSemanticTags(recipe.title, recipe.ingredients, similarity),
+      difficulty: metadata.difficulty,
+      instructions: metadata.steps,
+      tags: this.extractSemanticTags(metadata.tags, similarity),
       user_id: 'dataset-rag',
-      recipe_ingredients: ingredientsList.map((ing, index) => ({
+      recipe_ingredients: metadata.ingredients.map((ing, index) => ({
         id: `${recipe.id}-ing-${index}`,
         recipe_id: recipe.id,
-        name: ing,
-        quantity: 1,
-        unit: 'secukupnya',
+        name: ing.name,
+        quantity: ing.quantity,
+        unit: ing.unit,
       })),
       loves_count: recipe.loves_count,
       similarity_score: similarity,
       relevance_reasons: relevanceReasons,
+      explanation: {
+        ...matchPantryIngredients(metadata.ingredients.map(ing => ing.name), userIngredients.map(ing => ing.name)),
+        components: scoreComponents,
+        lovesCount: recipe.loves_count,
+      },
       source_url: recipe.url,
       confidence_score: confidenceScore,
+      source: recipe.source === 'mine' ? 'mine' : 'community',
     };
   }
 
+  /**
+   * The signed-in user's own recipes in the shape of search results, for the
+   * fallbacks; RLS limits the query to their recipes
+   */
+  private async getPersonalRecipes(): Promise<SearchResultRow[]> {
+    const { data: recipes, error } = await supabase
+      .from('recipes')
+      .select('id, name, instructions, tags, recipe_ingredients (name)')
+      .order('updated_at', { ascending: false })
+      .limit(200);
+
+    if (error) {
+      console.warn('Could not load personal recipes:', error);
+      return [];
+    }
+
+    return (recipes || []).map(recipe => ({
+      id: recipe.id,
+      title: recipe.name,
+      ingredients: recipe.recipe_ingredients.map(ing => ing.name).join(', '),
+      steps: (recipe.instructions || []).join('\n'),
+      loves_count: 0,
+      url: null,
+      source: 'mine' as const,
+      tags: recipe.tags || [],
+    }));
+  }
+
   private generateRelevanceReasons(
     context: { recipe: any; similarity: number },
     userIngredients: Ingredient[],
-    recipeIngredients: string[]
+    metadata: RecipeMetadata
   ): string[] {
     const reasons = [];
     const recipe = context.recipe;
@@ -798,11 +1051,8 @@ PENTING - ATURAN JSON YANG KETAT:
 
     // Ingredient matching (traditional approach as backup)
     if (userIngredients.length > 0) {
-      const userIngredientNames = userIngredients.map(ing => ing.name.toLowerCase());
-      const matchingIngredients = recipeIngredients.filter(recipeIng =>
-        userIngredientNames.some(userIng =>
-          recipeIng.toLowerCase().includes(userIng) || userIng.includes(recipeIng.toLowerCase())
-        )
+      const matchingIngredients = metadata.ingredients.map(ing => ing.text).filter(recipeIng =>
+        userIngredients.some(userIng => isSameIngredient(recipeIng, userIng.name))
       );
 
       if (matchingIngredients.length > 0) {
@@ -811,37 +1061,15 @@ PENTING - ATURAN JSON YANG KETAT:
     }
 
     // Complexity reason
-    const stepCount = this.parseSteps(recipe.steps).length;
-    if (stepCount <= 5) {
+    if (metadata.steps.length <= 5) {
       reasons.push('Mudah dibuat (sedikit langkah)');
     }
 
     return reasons.slice(0, 4);
   }
 
-  private calculateConfidenceScore(
-    similarity: number,
-    lovesCount: number,
-    ingredientCount: number,
-    stepCount: number
-  ): number {
-    const normalizedSimilarity = similarity;
-    const normalizedPopularity = Math.min(lovesCount / 1000, 1);
-    const normalizedComplexity = Math.max(0, 1 - (ingredientCount + stepCount) / 20);
-
-    const confidence = (
-      normalizedSimilarity * 0.5 +
-      normalizedPopularity * 0.3 +
-      normalizedComplexity * 0.2
-    );
-
-    return Math.round(confidence * 100) / 100;
-  }
-
-  private extractSemanticTags(title: string, ingredients: string, similarity: number): string[] {
+  private extractSemanticTags(recipeTags: string[], similarity: number): string[] {
     const tags = [];
-    const titleLower = title.toLowerCase();
-    const ingredientsLower = ingredients.toLowerCase();
 
     if (similarity >= 0.7) {
       tags.push('sangat-relevan');
@@ -849,55 +1077,64 @@ PENTING - ATURAN JSON YANG KETAT:
       tags.push('relevan');
     }
 
-    const cuisineKeywords = {
-      'indonesia': ['nasi', 'ayam', 'sambal', 'rendang', 'gudeg', 'soto'],
-      'asia': ['mie', 'tahu', 'tempe', 'kecap'],
-      'western': ['pasta', 'cheese', 'bread', 'butter'],
-      'healthy': ['sayur', 'buah', 'diet', 'sehat', 'rendah'],
+    tags.push(...recipeTags);
+
+    return tags.slice(0, 5);
+  }
+
+  /**
+   * RPC parameters for `find_similar_recipes`; empty filters are left out
+   */
+  private toFilterParams(filters: RecipeFilters) {
+    const clean = (values?: string[]) => {
+      const cleaned = (values || []).map(value => value.trim()).filter(Boolean);
+      return cleaned.length > 0 ? cleaned : null;
     };
 
-    for (const [cuisine, keywords] of Object.entries(cuisineKeywords)) {
-      if (keywords.some(keyword => titleLower.includes(keyword) || ingredientsLower.includes(keyword))) {
-        tags.push(cuisine);
-      }
+    return {
+      include_ingredients: clean(filters.includeIngredients),
+      exclude_ingredients: clean(filters.excludeIngredients),
+      max_ingredients: filters.maxIngredients ?? null,
+      max_steps: filters.maxSteps ?? null,
+      required_tags: clean(filters.tags),
+    };
+  }
+
+  /**
+   * Client-side version of `recipe_matches_filters`, for the fallback path
+   */
+  private matchesFilters(recipe: SearchResultRow, filters: RecipeFilters): boolean {
+    const params = this.toFilterParams(filters);
+    const ingredientsLower = recipe.ingredients.toLowerCase();
+
+    if (params.include_ingredients?.some(ing => !ingredientsLower.includes(ing.toLowerCase()))) {
+      return false;
     }
 
-    const methods = ['goreng', 'bakar', 'rebus', 'tumis', 'kukus', 'panggang'];
-    methods.forEach(method => {
-      if (titleLower.includes(method)) {
-        tags.push(method);
-      }
-    });
+    if (params.exclude_ingredients?.some(ing => ingredientsLower.includes(ing.toLowerCase()))) {
+      return false;
+    }
 
-    return tags.slice(0, 5);
-  }
+    if (params.max_ingredients !== null) {
+      const ingredientCount = this.parseIngredients(recipe.ingredients).length;
+      if (ingredientCount > params.max_ingredients) return false;
+    }
 
-  private parseIngredients(ingredientsText: string): string[] {
-    if (!ingredientsText) return [];
-    
-    return ingredientsText
-      .split(/[,\n\r•\-\*]/)
-      .map(ing => ing.trim())
-      .filter(ing => ing.length > 0 && ing.length < 100)
-      .slice(0, 20);
-  }
+    if (params.max_steps !== null) {
+      const stepCount = recipe.steps.split(/[.\n\r]/).filter(step => step.trim().length > 10).length;
+      if (stepCount > params.max_steps) return false;
+    }
 
-  private parseSteps(stepsText: string): string[] {
-    if (!stepsText) return [];
-    
-    return stepsText
-      .split(/[.\n\r]/)
-      .map(step => step.trim())
-      .filter(step => step.length > 10)
-      .slice(0, 15);
+    if (params.required_tags) {
+      const tags = [...(recipe.tags || []), ...getKeywordTags(recipe.title, recipe.ingredients)];
+      if (!params.required_tags.every(tag => tags.includes(tag))) return false;
+    }
+
+    return true;
   }
 
-  private estimateDifficulty(ingredientCount: number, stepCount: number): 'easy' | 'medium' | 'hard' {
-    const complexity = ingredientCount + stepCount * 1.5;
-    
-    if (complexity <= 10) return 'easy';
-    if (complexity <= 20) return 'medium';
-    return 'hard';
+  private parseIngredients(ingredientsText: string): string[] {
+    return parseDatasetIngredients(ingredientsText);
   }
 }
 
@@ -0,0 +1,48 @@
+import { supabase } from '../lib/supabase';
+import { RECIPE_METADATA_VERSION, RecipeMetadata, toRecipeMetadata } from '../lib/recipeMetadata';
+
+// Recipe ids per request, to keep the query string short
+const LOOKUP_SIZE = 100;
+
+/**
+ * Reads the metadata the backfill stored for community recipes. Recipes
+ * without current metadata come back as they were; the recommenders derive
+ * theirs on the fly.
+ */
+class RecipeMetadataService {
+  /**
+   * Attach stored metadata to community recipes. The user's own recipes
+   * (`source: 'mine'`) are left alone.
+   */
+  async attachMetadata<T extends { id: string; source?: string }>(
+    recipes: T[]
+  ): Promise<(T & { metadata?: RecipeMetadata })[]> {
+    const ids = [...new Set(recipes.filter(recipe => recipe.source !== 'mine').map(recipe => recipe.id))];
+    if (ids.length === 0) return recipes;
+
+    try {
+      const metadataById = new Map<string, RecipeMetadata>();
+
+      for (let i = 0; i < ids.length; i += LOOKUP_SIZE) {
+        const { data, error } = await supabase
+          .from('dataset_recipe_metadata')
+          .select('*')
+          .in('recipe_id', ids.slice(i, i + LOOKUP_SIZE))
+          .eq('version', RECIPE_METADATA_VERSION);
+
+        if (error) throw error;
+        (data || []).forEach(row => metadataById.set(row.recipe_id, toRecipeMetadata(row)));
+      }
+
+      return recipes.map(recipe => {
+        const metadata = recipe.source === 'mine' ? undefined : metadataById.get(recipe.id);
+        return metadata ? { ...recipe, metadata } : recipe;
+      });
+    } catch (error) {
+      console.error('Error loading recipe metadata:', error);
+      return recipes;
+    }
+  }
+}
+
+export default RecipeMetadataService;
@@ -1,6 +1,24 @@
 import { supabase } from '../lib/supabase';
 import { Ingredient, Recipe } from '../types';
 import { isFeatureEnabledSync } from '../lib/featureFlags';
+import { isSameIngredient } from '../lib/canonicalIngredients';
+import { RecipeMetadata, deriveRecipeMetadata } from '../lib/recipeMetadata';
+import RecipeMetadataService from './recipeMetadataService';
+import {
+  DEFAULT_EXPIRY_WINDOW_DAYS,
+  ExpiringIngredient,
+  compareByRescue,
+  getExpiringItems,
+  getRescueReason,
+  scoreExpiryRescue,
+} from '../lib/expiry';
+import {
+  MIN_MATCH_SCORE,
+  RecommendationExplanation,
+  compareByMatch,
+  getMatchScoreComponents,
+  matchPantryIngredients,
+} from '../lib/recipeScoring';
 
 export interface DatasetRecipe {
   id: string;
@@ -12,16 +30,24 @@ export interface DatasetRecipe {
   user_id?: string;
   created_at?: string;
   updated_at?: string;
+  /** Stored parsed metadata, when the backfill has reached the recipe */
+  metadata?: RecipeMetadata;
 }
 
 export interface RecipeRecommendation extends Recipe {
   loves_count: number;
   match_score: number;
   match_reasons: string[];
+  /** Which ingredients the pantry has and lacks, and what match_score is made of */
+  explanation?: RecommendationExplanation;
   source_url?: string;
+  /** How much the recipe helps use up expiring pantry items, in "use it up" mode */
+  rescue_score?: number;
 }
 
 class SupabaseDatasetService {
+  private metadataService = new RecipeMetadataService();
+
   /**
    * Check if dataset feature is enabled before making any requests
    */
@@ -33,10 +59,16 @@ class SupabaseDatasetService {
     return true;
   }
 
+  /**
+   * Recommendations ranked by how well they match the pantry. With
+   * `prioritizeExpiring`, recipes that use up items expiring within
+   * `expiringWithinDays` are ranked first.
+   */
   async getRecommendations(
     availableIngredients: Ingredient[],
     minLoves: number = 50,
-    limit: number = 12
+    limit: number = 12,
+    options: { prioritizeExpiring?: boolean; expiringWithinDays?: number } = {}
   ): Promise<RecipeRecommendation[]> {
     if (!this.checkFeatureEnabled()) {
       return [];
@@ -58,20 +90,24 @@ class SupabaseDatasetService {
         return [];
       }
 
-      const availableIngredientNames = availableIngredients.map(ing => 
-        ing.name.toLowerCase().trim()
-      );
+      const availableIngredientNames = availableIngredients.map(ing => ing.name);
+      const { prioritizeExpiring = false, expiringWithinDays = DEFAULT_EXPIRY_WINDOW_DAYS } = options;
+      const expiring = prioritizeExpiring ? getExpiringItems(availableIngredients, expiringWithinDays) : [];
 
       // Calculate match scores and convert to recommendations
-      const recommendations = datasetRecipes
-        .map(recipe => this.calculateRecommendation(recipe, availableIngredientNames))
-        .filter(rec => rec.match_score > 0.2) // Only recipes with decent ingredient match
+      const recommendations = (await this.metadataService.attachMetadata(datasetRecipes))
+        .map(recipe => this.calculateRecommendation(recipe, availableIngredientNames, expiring))
+        // Only recipes with decent ingredient match, or that use up something expiring
+        .filter(rec => rec.match_score > MIN_MATCH_SCORE || (rec.rescue_score || 0) > 0)
         .sort((a, b) => {
-          // Sort by match score first, then by loves count
-          if (Math.abs(a.match_score - b.match_score) > 0.1) {
-            return b.match_score - a.match_score;
+          // Recipes using up expiring items first
+          const rescueOrder = compareByRescue(a.rescue_score, b.rescue_score);
+          if (rescueOrder !== 0) {
+            return rescueOrder;
           }
-          return b.loves_count - a.loves_count;
+
+          // Then by match score, then by loves count
+          return compareByMatch(a, b);
         })
         .slice(0, limit);
 
@@ -160,110 +196,56 @@ class SupabaseDatasetService {
 
   private calculateRecommendation(
     datasetRecipe: DatasetRecipe, 
-    availableIngredients: string[]
+    availableIngredients: string[],
+    expiring: ExpiringIngredient[] = []
   ): RecipeRecommendation {
-    const matchScore = this.calculateMatchScore(datasetRecipe, availableIngredients);
-    const matchReasons = this.getMatchReasons(datasetRecipe, availableIngredients);
-
-    // Parse ingredients and steps
-    const ingredientsList = this.parseIngredients(datasetRecipe.ingredients);
-    const stepsList = this.parseSteps(datasetRecipe.steps);
+    const metadata = datasetRecipe.metadata ?? deriveRecipeMetadata(datasetRecipe);
+    const matchReasons = this.getMatchReasons(datasetRecipe, availableIngredients, metadata);
 
-    // Estimate cooking times based on content
-    const estimatedPrepTime = Math.min(Math.max(ingredientsList.length * 2, 10), 30);
-    const estimatedCookTime = Math.min(Math.max(stepsList.length * 5, 15), 60);
+    const ingredientMatch = matchPantryIngredients(metadata.ingredients.map(ing => ing.name), availableIngredients);
+    const matchScore = ingredientMatch.coverage;
 
-    // Determine difficulty based on number of steps and ingredients
-    const difficulty = this.estimateDifficulty(ingredientsList.length, stepsList.length);
+    const rescue = scoreExpiryRescue([datasetRecipe.title, ...metadata.ingredients.map(ing => ing.text)], expiring);
+    const rescueReason = getRescueReason(rescue.used);
+    if (rescueReason) {
+      matchReasons.unshift(rescueReason);
+    }
 
     return {
       id: datasetRecipe.id,
       name: datasetRecipe.title,
       description: `Resep populer dengan ${datasetRecipe.loves_count} likes dari komunitas`,
-      prep_time: estimatedPrepTime,
-      cook_time: estimatedCookTime,
+      prep_time: metadata.prep_time,
+      cook_time: metadata.cook_time,
       servings: 4, // Default serving size
-      difficulty,
-      instructions: stepsList,
-      tags: this.extractTags(datasetRecipe.title, datasetRecipe.ingredients),
+      difficulty: metadata.difficulty,
+      instructions: metadata.steps,
+      tags: metadata.tags.slice(0, 5),
       user_id: 'dataset',
-      recipe_ingredients: ingredientsList.map((ing, index) => ({
+      recipe_ingredients: metadata.ingredients.map((ing, index) => ({
         id: `${datasetRecipe.id}-ing-${index}`,
         recipe_id: datasetRecipe.id,
-        name: ing,
-        quantity: 1,
-        unit: 'secukupnya',
+        name: ing.name,
+        quantity: ing.quantity,
+        unit: ing.unit,
       })),
       loves_count: datasetRecipe.loves_count,
       match_score: matchScore,
       match_reasons: matchReasons,
+      explanation: {
+        ...ingredientMatch,
+        components: getMatchScoreComponents(matchScore, datasetRecipe.loves_count),
+        lovesCount: datasetRecipe.loves_count,
+      },
       source_url: datasetRecipe.url,
+      rescue_score: expiring.length > 0 ? rescue.score : undefined,
     };
   }
 
-  private calculateMatchScore(
-    recipe: DatasetRecipe, 
-    availableIngredients: string[]
-  ): number {
-    const recipeIngredients = this.parseIngredients(recipe.ingredients);
-    const recipeIngredientNames = recipeIngredients.map(ing => ing.toLowerCase().trim());
-    
-    let matchCount = 0;
-    let partialMatchCount = 0;
-    
-    recipeIngredientNames.forEach(recipeIng => {
-      const exactMatch = availableIngredients.some(available => {
-        return available === recipeIng || 
-               recipeIng.includes(available) || 
-               available.includes(recipeIng) ||
-               this.isSimilarIngredient(available, recipeIng);
-      });
-      
-      if (exactMatch) {
-        matchCount++;
-      } else {
-        const partialMatch = availableIngredients.some(available => {
-          const words = available.split(' ');
-          return words.some(word => word.length > 2 && recipeIng.includes(word));
-        });
-        
-        if (partialMatch) {
-          partialMatchCount++;
-        }
-      }
-    });
-    
-    const totalIngredients = Math.max(recipeIngredientNames.length, 1);
-    const score = (matchCount + partialMatchCount * 0.5) / totalIngredients;
-    
-    return Math.min(score, 1.0);
-  }
-
-  private isSimilarIngredient(ingredient1: string, ingredient2: string): boolean {
-    const synonyms = {
-      'ayam': ['chicken', 'daging ayam'],
-      'bawang': ['onion', 'bawang bombay'],
-      'tomat': ['tomato'],
-      'cabai': ['chili', 'cabe'],
-      'garam': ['salt'],
-      'gula': ['sugar'],
-      'minyak': ['oil', 'olive oil'],
-      'beras': ['rice', 'nasi'],
-    };
-
-    for (const [key, values] of Object.entries(synonyms)) {
-      if ((ingredient1.includes(key) || values.some(v => ingredient1.includes(v))) &&
-          (ingredient2.includes(key) || values.some(v => ingredient2.includes(v)))) {
-        return true;
-      }
-    }
-
-    return false;
-  }
-
   private getMatchReasons(
     recipe: DatasetRecipe, 
-    availableIngredients: string[]
+    availableIngredients: string[],
+    metadata: RecipeMetadata
   ): string[] {
     const reasons = [];
     
@@ -273,21 +255,16 @@ class SupabaseDatasetService {
       reasons.push(`Populer: ${recipe.loves_count.toLocaleString()} likes`);
     }
     
-    const recipeIngredients = this.parseIngredients(recipe.ingredients);
+    const recipeIngredients = metadata.ingredients.map(ing => ing.text);
     const matchingIngredients = recipeIngredients.filter(recipeIng => 
-      availableIngredients.some(available => 
-        available.includes(recipeIng.toLowerCase()) || 
-        recipeIng.toLowerCase().includes(available) ||
-        this.isSimilarIngredient(available, recipeIng.toLowerCase())
-      )
+      availableIngredients.some(available => isSameIngredient(recipeIng, available))
     );
     
     if (matchingIngredients.length > 0) {
       reasons.push(`Cocok dengan bahan: ${matchingIngredients.slice(0, 3).join(', ')}`);
     }
 
-    const stepCount = this.parseSteps(recipe.steps).length;
-    if (stepCount <= 5) {
+    if (metadata.steps.length <= 5) {
       reasons.push('Mudah dibuat (sedikit langkah)');
     }
 
@@ -300,67 +277,6 @@ class SupabaseDatasetService {
     
     return reasons;
   }
-
-  private parseIngredients(ingredientsText: string): string[] {
-    if (!ingredientsText) return [];
-    
-    // Split by common separators and clean up
-    return ingredientsText
-      .split(/[,\n\r•\-\*]/)
-      .map(ing => ing.trim())
-      .filter(ing => ing.length > 0 && ing.length < 100) // Filter out empty and overly long items
-      .slice(0, 20); // Limit to reasonable number of ingredients
-  }
-
-  private parseSteps(stepsText: string): string[] {
-    if (!stepsText) return [];
-    
-    // Split by common separators and clean up
-    return stepsText
-      .split(/[.\n\r]/)
-      .map(step => step.trim())
-      .filter(step => step.length > 10) // Filter out very short steps
-      .slice(0, 15); // Limit to reasonable number of steps
-  }
-
-  private estimateDifficulty(
-    ingredientCount: number, 
-    stepCount: number
-  ): 'easy' | 'medium' | 'hard' {
-    const complexity = ingredientCount + stepCount * 1.5;
-    
-    if (complexity <= 10) return 'easy';
-    if (complexity <= 20) return 'medium';
-    return 'hard';
-  }
-
-  private extractTags(title: string, ingredients: string): string[] {
-    const tags = [];
-    const titleLower = title.toLowerCase();
-    const ingredientsLower = ingredients.toLowerCase();
-    
-    // Cuisine tags
-    if (titleLower.includes('nasi') || titleLower.includes('rice')) tags.push('nasi');
-    if (titleLower.includes('ayam') || ingredientsLower.includes('ayam')) tags.push('ayam');
-    if (titleLower.includes('ikan') || ingredientsLower.includes('ikan')) tags.push('ikan');
-    if (titleLower.includes('sayur') || ingredientsLower.includes('sayur')) tags.push('sayuran');
-    if (titleLower.includes('sup') || titleLower.includes('soto')) tags.push('berkuah');
-    if (titleLower.includes('goreng')) tags.push('goreng');
-    if (titleLower.includes('bakar')) tags.push('bakar');
-    if (titleLower.includes('tumis')) tags.push('tumis');
-    
-    // Meal type tags
-    if (titleLower.includes('sarapan') || titleLower.includes('breakfast')) tags.push('sarapan');
-    if (titleLower.includes('makan siang') || titleLower.includes('lunch')) tags.push('makan-siang');
-    if (titleLower.includes('makan malam') || titleLower.includes('dinner')) tags.push('makan-malam');
-    
-    // Style tags
-    if (titleLower.includes('pedas') || ingredientsLower.includes('cabai')) tags.push('pedas');
-    if (titleLower.includes('manis')) tags.push('manis');
-    if (titleLower.includes('sehat') || titleLower.includes('diet')) tags.push('sehat');
-    
-    return tags.slice(0, 5); // Limit to 5 tags
-  }
 }
 
 export default SupabaseDatasetService;
\ No newline at end of file
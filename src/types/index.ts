@@ -4,7 +4,7 @@ export interface Ingredient {
   quantity: number;
   unit: string;
   category: string;
-  expiry_date?: string;
+  expiry_date?: string | null;
   user_id: string;
   created_at?: string;
   updated_at?: string;
@@ -49,9 +49,10 @@ export interface WeeklyPlan {
   id: string;
   week_start: string;
   user_id: string;
+  people_count?: number;
   created_at?: string;
   updated_at?: string;
-  daily_meals?: DailyMeal[];
+  daily_meals?: DailyMeals[];
 }
 
 export interface DailyMeal {
@@ -67,12 +68,46 @@ export interface DailyMeal {
   dinner?: Recipe;
 }
 
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'custom';
+
+export type RecipeSource = 'user' | 'dataset' | 'ai';
+
+export interface PlannedMeal {
+  id?: string;
+  recipe: Recipe;
+  source?: RecipeSource;
+  slot: MealSlot;
+  slot_label?: string | null; // Name of a custom slot, e.g. "Bekal"
+  servings?: number | null; // Overrides the plan's people count when set
+  notes?: string | null;
+  locked?: boolean; // Kept in place when the plan is regenerated
+  reasons?: string[]; // Why the planner picked this recipe
+  recipe_deleted?: boolean; // The user's recipe was deleted; `recipe` is the snapshot kept of it
+}
+
 export interface DailyMeals {
   date: string;
-  breakfast?: Recipe;
-  lunch?: Recipe;
-  dinner?: Recipe;
-  recipes?: Recipe[]; // New flexible approach - array of recipes
+  meals?: PlannedMeal[]; // In the order the user arranged them
+}
+
+export interface PantryChange {
+  ingredient_id: string;
+  name: string;
+  unit: string;
+  previous_quantity: number;
+  new_quantity: number;
+}
+
+export interface CookingEvent {
+  id: string;
+  user_id: string;
+  recipe_id: string;
+  recipe_name: string;
+  meal_date: string;
+  servings: number;
+  changes: PantryChange[];
+  reverted_at?: string | null;
+  created_at?: string;
 }
 
 export interface ShoppingItem {
@@ -84,6 +119,61 @@ export interface ShoppingItem {
   needed: boolean;
 }
 
+export interface ShoppingListItem {
+  id: string;
+  shopping_list_id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  category: string;
+  checked: boolean;
+  is_manual: boolean;
+  added_to_pantry_at?: string | null;
+  position: number;
+  created_at?: string;
+}
+
+export interface ShoppingList {
+  id: string;
+  user_id: string;
+  name: string;
+  weekly_plan_ids: string[];
+  created_at?: string;
+  updated_at?: string;
+  items: ShoppingListItem[];
+}
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface NotificationSettings {
+  expiry_digest_enabled: boolean;
+  expiry_window_days: number;
+  digest_frequency: DigestFrequency;
+  email_enabled: boolean;
+  last_digest_at?: string | null;
+}
+
+export interface ExpiryDigestItem {
+  id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  expiry_date: string;
+  days_left: number;
+}
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  body: string;
+  data: { window_days?: number; items?: ExpiryDigestItem[] };
+  read_at: string | null;
+  emailed_at: string | null;
+  created_at: string;
+}
+
 export interface NutritionInfo {
   calories: number;
   protein: number;
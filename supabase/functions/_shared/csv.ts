@@ -0,0 +1,191 @@
+/**
+ * Streaming CSV parsing (RFC 4180) shared by the web app's dataset import and
+ * the bulk ingestion of dataset recipes.
+ *
+ * Quoted fields may contain delimiters, line breaks and doubled quotes (`""`).
+ * Lines may end in CRLF, LF or CR, and a leading byte order mark is skipped.
+ * Input that breaks the quoting rules is still parsed, as leniently as
+ * spreadsheets do, but the affected records are flagged so importers can
+ * report them.
+ *
+ * Like embedding.ts, this file has no imports and only uses web APIs, so Deno
+ * and the browser can both load it.
+ */
+
+export interface CsvRecord {
+  fields: string[];
+  /** Line the record starts on, 1-based; records can span lines */
+  line: number;
+  /** What was wrong with the quoting, when the record breaks the format */
+  problem?: string;
+}
+
+export interface CsvOptions {
+  /** Field separator, a single character; defaults to ',' */
+  delimiter?: string;
+}
+
+type State = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted'
+
+/**
+ * Incremental parser: `push` chunks of text as they arrive and get back the
+ * records completed so far, then call `end` for the last one. Chunks may
+ * split fields, quotes and CRLF pairs anywhere. Blank lines are skipped.
+ */
+export class CsvParser {
+  private readonly delimiter: string
+  private state: State = 'fieldStart'
+  private field = ''
+  private fields: string[] = []
+  private problem: string | undefined
+  private line = 1
+  private recordLine = 1
+  private skipLineFeed = false
+  private started = false
+
+  constructor({ delimiter = ',' }: CsvOptions = {}) {
+    if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\n' || delimiter === '\r') {
+      throw new Error(`Invalid CSV delimiter: ${JSON.stringify(delimiter)}`)
+    }
+    this.delimiter = delimiter
+  }
+
+  push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = []
+    let text = chunk
+
+    if (!this.started && text.length > 0) {
+      this.started = true
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1)
+    }
+
+    for (const char of text) {
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false
+        if (char === '\n') continue
+      }
+
+      switch (this.state) {
+        case 'quoted':
+          if (char === '"') {
+            this.state = 'quoteInQuoted'
+          } else {
+            if (char === '\n') this.line++
+            this.field += char
+          }
+          break
+
+        case 'quoteInQuoted':
+          if (char === '"') {
+            this.field += '"'
+            this.state = 'quoted'
+          } else if (char === this.delimiter) {
+            this.endField()
+          } else if (char === '\n' || char === '\r') {
+            this.endRecord(records, char)
+          } else {
+            // Text after a closing quote: keep it, like spreadsheets do
+            this.problem ??= 'Text after a closing quote'
+            this.field += char
+            this.state = 'unquoted'
+          }
+          break
+
+        default:
+          if (char === this.delimiter) {
+            this.endField()
+          } else if (char === '\n' || char === '\r') {
+            this.endRecord(records, char)
+          } else if (char === '"' && this.state === 'fieldStart') {
+            this.state = 'quoted'
+          } else {
+            if (char === '"') this.problem ??= 'Quote inside an unquoted field'
+            this.field += char
+            this.state = 'unquoted'
+          }
+      }
+    }
+
+    return records
+  }
+
+  /** Finish parsing and return the last record, if the input didn't end in a line break */
+  end(): CsvRecord[] {
+    const records: CsvRecord[] = []
+    if (this.state === 'quoted') this.problem ??= 'Quoted field is never closed'
+    if (this.state !== 'fieldStart' || this.fields.length > 0) this.emit(records)
+    this.skipLineFeed = false
+    return records
+  }
+
+  private endField() {
+    this.fields.push(this.field)
+    this.field = ''
+    this.state = 'fieldStart'
+  }
+
+  private endRecord(records: CsvRecord[], lineBreak: string) {
+    this.emit(records)
+    this.line++
+    // A CR may be the first half of CRLF
+    this.skipLineFeed = lineBreak === '\r'
+    this.recordLine = this.line
+  }
+
+  private emit(records: CsvRecord[]) {
+    this.fields.push(this.field)
+    const isBlankLine = this.fields.length === 1 && this.fields[0] === '' && this.state === 'fieldStart'
+    if (!isBlankLine) {
+      records.push({ fields: this.fields, line: this.recordLine, ...(this.problem ? { problem: this.problem } : {}) })
+    }
+    this.fields = []
+    this.field = ''
+    this.problem = undefined
+    this.state = 'fieldStart'
+  }
+}
+
+/**
+ * Parse CSV text arriving in chunks, yielding records as soon as they are
+ * complete
+ */
+export async function* parseCsv(
+  chunks: AsyncIterable<string> | Iterable<string>,
+  options: CsvOptions = {}
+): AsyncGenerator<CsvRecord> {
+  const parser = new CsvParser(options)
+  for await (const chunk of chunks) {
+    yield* parser.push(chunk)
+  }
+  yield* parser.end()
+}
+
+/**
+ * Decode a byte stream, e.g. `Blob.stream()` or a fetch body, into text
+ * chunks for `parseCsv`
+ */
+export async function* readTextChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      yield decoder.decode(value, { stream: true })
+    }
+    const rest = decoder.decode()
+    if (rest) yield rest
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * One CSV line (without line break) for `fields`, quoting the fields that
+ * need it
+ */
+export function formatCsvRow(fields: string[], { delimiter = ',' }: CsvOptions = {}): string {
+  return fields
+    .map(field => /["\r\n]/.test(field) || field.includes(delimiter) ? `"${field.replace(/"/g, '""')}"` : field)
+    .join(delimiter)
+}
@@ -0,0 +1,104 @@
+import { normalizeEmbeddingText } from './embedding.ts'
+
+/**
+ * Reading community recipes in the `dataset_recipes` format (title,
+ * ingredients and steps as raw text), shared by the web app's recommenders
+ * and the ingestion function so both count ingredients and steps, and
+ * recognize duplicates, the same way.
+ */
+
+const MAX_TITLE_KEY_LENGTH = 200
+
+// Lines end at line breaks, bullets, "--" (the separator of scraped Cookpad
+// data) and commas. A single dash only separates when spaced or leading, so
+// ranges ("3-4 buah") and reduplicated words ("cabai-cabai") stay whole, and
+// a comma between digits is a decimal point ("1,5 kg").
+const INGREDIENT_SEPARATOR = /--+|[\n\r•*]|\s-\s|(?<!\d),|,(?!\d)/
+
+/**
+ * Words a preparation note is made of ("cincang halus", "buang bijinya").
+ * Keep in sync with `recipe_ingredient_is_note` in the fine_dice migration.
+ */
+export const PREPARATION_WORDS = new Set([
+  'iris', 'diiris', 'irisan', 'cincang', 'dicincang', 'haluskan', 'dihaluskan', 'halus', 'kasar', 'tipis',
+  'geprek', 'digeprek', 'memarkan', 'dimemarkan', 'potong', 'dipotong', 'potongan', 'kupas', 'dikupas',
+  'parut', 'diparut', 'serut', 'rajang', 'dirajang', 'tumbuk', 'ditumbuk', 'sangrai', 'disangrai',
+  'peras', 'diperas', 'ambil', 'airnya', 'kocok', 'dikocok', 'lelehkan', 'dilelehkan', 'cairkan',
+  'rebus', 'direbus', 'suwir', 'disuwir', 'dadu', 'kotak', 'serong', 'bulat', 'memanjang', 'bagian',
+  'buang', 'bijinya', 'kulitnya', 'tulangnya', 'cuci', 'bersih', 'dicuci', 'rendam', 'direndam',
+  'secukupnya', 'opsional', 'optional', 'bila', 'suka', 'jika', 'ada', 'dan', 'lalu', 'kecil', 'besar',
+])
+
+// Notes that start like this are notes whatever follows ("untuk olesan")
+const NOTE_LEADING_WORDS = new Set(['untuk', 'sesuai'])
+
+/**
+ * Whether a fragment of an ingredient line is a note on the ingredient
+ * before it rather than an ingredient: "cincang", "potong 8 bagian"
+ */
+export function isPreparationNote(text: string): boolean {
+  const words = text.toLowerCase().replace(/[()]/g, ' ').split(/\s+/).filter(word => word.length > 0)
+  if (words.length === 0) return false
+  return NOTE_LEADING_WORDS.has(words[0]) || words.every(word => PREPARATION_WORDS.has(word) || /^\d+$/.test(word))
+}
+
+/**
+ * Split raw dataset ingredient text into ingredient lines. Preparation
+ * notes split off by a comma stay with their ingredient:
+ * "2 siung bawang putih, cincang" is one line.
+ */
+export function parseDatasetIngredients(ingredientsText: string): string[] {
+  if (!ingredientsText) return []
+
+  return ingredientsText
+    .split(INGREDIENT_SEPARATOR)
+    .map(ing => ing.trim().replace(/^-\s*/, ''))
+    .filter(ing => ing.length > 0)
+    .reduce<string[]>((lines, part) => {
+      if (lines.length > 0 && isPreparationNote(part)) {
+        lines[lines.length - 1] += `, ${part}`
+      } else {
+        lines.push(part)
+      }
+      return lines
+    }, [])
+    .filter(ing => ing.length < 100) // Filter out overly long items
+    .slice(0, 20) // Limit to reasonable number of ingredients
+}
+
+/**
+ * Split raw dataset step text into steps
+ */
+export function parseDatasetSteps(stepsText: string): string[] {
+  if (!stepsText) return []
+
+  // Split by common separators and clean up
+  return stepsText
+    .split(/[.\n\r]/)
+    .map(step => step.trim())
+    .filter(step => step.length > 10) // Filter out very short steps
+    .slice(0, 15) // Limit to reasonable number of steps
+}
+
+/**
+ * Key two copies of a recipe share: its normalized title plus a hash of its
+ * normalized ingredient lines, ignoring their order and repeats. Recipes
+ * with the same title but other ingredients are kept apart.
+ */
+export async function createDedupeKey(title: string, ingredientsText: string): Promise<string> {
+  // Still split the way lines were split when the first keys were stored,
+  // so that keys stay stable
+  const ingredients = [...new Set(
+    ingredientsText
+      .split(/[,\n\r•*-]/)
+      .map(normalizeEmbeddingText)
+      .filter(ing => ing.length > 0)
+  )].sort()
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(ingredients.join('\n')))
+  const ingredientHash = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+
+  return `${normalizeEmbeddingText(title).slice(0, MAX_TITLE_KEY_LENGTH)}:${ingredientHash}`
+}
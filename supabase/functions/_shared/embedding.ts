@@ -0,0 +1,95 @@
+/**
+ * Text embedding shared by the web app and the edge functions, so query
+ * vectors and recipe vectors are always built the same way.
+ *
+ * Every stored vector records the EMBEDDING_VERSION it was made with, next to
+ * its provider (see embeddingProviders.ts), and the search RPCs only compare
+ * vectors of the same version. Bump the version whenever the output of
+ * `embedText` or `createRecipeContent` changes for the same input, then run
+ * `sync-embeddings` to re-embed the corpus.
+ *
+ * This file must stay free of imports and runtime-specific APIs: Deno loads
+ * it from `supabase/functions/*` and Vite bundles it into the browser.
+ *
+ * Versions:
+ * - 1: legacy vectors from before the shared module (clients and functions
+ *      disagreed on the features, see `embedding_version` migration)
+ * - 2: word and character-bigram hashing over normalized text
+ */
+
+export const EMBEDDING_VERSION = 2
+export const EMBEDDING_DIMENSION = 384
+
+const MAX_CONTENT_LENGTH = 2000
+const MIN_WORD_LENGTH = 3
+const BIGRAM_WEIGHT = 0.5
+
+export interface EmbeddableRecipe {
+  title?: string | null;
+  ingredients?: string | null;
+  steps?: string | null;
+}
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace. Applied inside
+ * `embedText`, so callers can pass raw text.
+ */
+export function normalizeEmbeddingText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, MAX_CONTENT_LENGTH)
+}
+
+/**
+ * The text a recipe is embedded from
+ */
+export function createRecipeContent(recipe: EmbeddableRecipe): string {
+  return [recipe.title, recipe.ingredients, recipe.steps]
+    .filter((part): part is string => !!part && part.length > 0)
+    .join(' ')
+    .substring(0, MAX_CONTENT_LENGTH)
+}
+
+/**
+ * Hashing embedding: each word and its character bigrams are hashed into one
+ * of EMBEDDING_DIMENSION buckets, weighted by how early the word appears.
+ * The result is L2-normalized, so cosine similarity equals the dot product.
+ */
+export function embedText(text: string): number[] {
+  const words = normalizeEmbeddingText(text).split(' ')
+  const embedding = new Array(EMBEDDING_DIMENSION).fill(0)
+
+  words.forEach((word, index) => {
+    if (word.length < MIN_WORD_LENGTH) return
+
+    const weight = 1 / (index + 1)
+    embedding[bucket(word)] += weight
+
+    for (let i = 0; i < word.length - 1; i++) {
+      embedding[bucket(word.substring(i, i + 2))] += BIGRAM_WEIGHT * weight
+    }
+  })
+
+  const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0))
+  if (magnitude > 0) {
+    return embedding.map(val => val / magnitude)
+  }
+
+  return embedding
+}
+
+function bucket(token: string): number {
+  return Math.abs(hashToken(token)) % EMBEDDING_DIMENSION
+}
+
+function hashToken(str: string): number {
+  let hash = 0
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) - hash) + str.charCodeAt(i)
+    hash = hash & hash // Convert to 32-bit integer
+  }
+  return hash
+}
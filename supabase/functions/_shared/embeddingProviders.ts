@@ -0,0 +1,166 @@
+import { embedText, EMBEDDING_DIMENSION, EMBEDDING_VERSION } from './embedding.ts'
+
+/**
+ * Embedding providers shared by the web app and the edge functions. Query and
+ * recipe vectors are only comparable when they come from the same provider,
+ * so each provider has a `key` that is stored with every vector
+ * (`recipe_embeddings.embedding_provider`) and checked by the search RPCs.
+ *
+ * Only `fetch` is used, so this file runs in both Deno and the browser.
+ */
+
+export type EmbeddingProviderName = 'hashing' | 'local' | 'gemini'
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  /** Provider plus model, e.g. "gemini:text-embedding-004" */
+  key: string;
+  version: number;
+  dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderConfig {
+  provider?: string;
+  /** Base URL of a text-embeddings-inference compatible server */
+  localUrl?: string;
+  localModel?: string;
+  localDimension?: number;
+  geminiApiKey?: string;
+  geminiModel?: string;
+}
+
+/** The multilingual MiniLM the local provider is set up for by default */
+export const DEFAULT_LOCAL_MODEL = 'paraphrase-multilingual-MiniLM-L12-v2'
+export const DEFAULT_LOCAL_DIMENSION = 384
+export const DEFAULT_GEMINI_MODEL = 'text-embedding-004'
+const GEMINI_DIMENSION = 768
+const GEMINI_BATCH_SIZE = 100
+
+export function isEmbeddingProviderName(value: string): value is EmbeddingProviderName {
+  return value === 'hashing' || value === 'local' || value === 'gemini'
+}
+
+/**
+ * Build the configured provider. Misconfiguration throws instead of quietly
+ * falling back, since vectors from another provider would not be comparable
+ * with the ones already stored.
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig = {}): EmbeddingProvider {
+  const name = (config.provider || 'hashing').toLowerCase()
+
+  if (!isEmbeddingProviderName(name)) {
+    throw new Error(`Unknown embedding provider "${config.provider}"`)
+  }
+
+  switch (name) {
+    case 'local':
+      if (!config.localUrl) {
+        throw new Error('The local embedding provider needs the URL of the model server')
+      }
+      return createLocalModelProvider(
+        config.localUrl,
+        config.localModel || DEFAULT_LOCAL_MODEL,
+        config.localDimension || DEFAULT_LOCAL_DIMENSION
+      )
+    case 'gemini':
+      if (!config.geminiApiKey) {
+        throw new Error('The gemini embedding provider needs a Google AI API key')
+      }
+      return createGeminiProvider(config.geminiApiKey, config.geminiModel || DEFAULT_GEMINI_MODEL)
+    default:
+      return createHashingProvider()
+  }
+}
+
+/**
+ * The built-in hashing embedding, computed in-process
+ */
+export function createHashingProvider(): EmbeddingProvider {
+  return {
+    name: 'hashing',
+    key: 'hashing',
+    version: EMBEDDING_VERSION,
+    dimension: EMBEDDING_DIMENSION,
+    embed: async (texts) => texts.map(embedText),
+  }
+}
+
+/**
+ * A sentence-embedding model served over HTTP with the
+ * text-embeddings-inference API (`POST /embed`), e.g.
+ * `ghcr.io/huggingface/text-embeddings-inference` running
+ * sentence-transformers/paraphrase-multilingual-MiniLM-L12-v2
+ */
+export function createLocalModelProvider(baseUrl: string, model: string, dimension: number): EmbeddingProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/embed`
+
+  return {
+    name: 'local',
+    key: `local:${model}`,
+    version: EMBEDDING_VERSION,
+    dimension,
+    embed: async (texts) => {
+      if (texts.length === 0) return []
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ inputs: texts, normalize: true, truncate: true }),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Local embedding model returned ${response.status}: ${await response.text()}`)
+      }
+
+      const embeddings: number[][] = await response.json()
+      return embeddings.map(embedding => checkDimension(embedding, dimension, model))
+    },
+  }
+}
+
+/**
+ * Gemini embeddings through the Generative Language REST API
+ */
+export function createGeminiProvider(apiKey: string, model: string): EmbeddingProvider {
+  const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${encodeURIComponent(apiKey)}`
+
+  return {
+    name: 'gemini',
+    key: `gemini:${model}`,
+    version: EMBEDDING_VERSION,
+    dimension: GEMINI_DIMENSION,
+    embed: async (texts) => {
+      const embeddings: number[][] = []
+
+      for (let i = 0; i < texts.length; i += GEMINI_BATCH_SIZE) {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            requests: texts.slice(i, i + GEMINI_BATCH_SIZE).map(text => ({
+              model: `models/${model}`,
+              content: { parts: [{ text }] },
+            })),
+          }),
+        })
+
+        if (!response.ok) {
+          throw new Error(`Gemini embedding request failed with ${response.status}: ${await response.text()}`)
+        }
+
+        const data: { embeddings: { values: number[] }[] } = await response.json()
+        embeddings.push(...data.embeddings.map(embedding => checkDimension(embedding.values, GEMINI_DIMENSION, model)))
+      }
+
+      return embeddings
+    },
+  }
+}
+
+function checkDimension(embedding: number[], dimension: number, model: string): number[] {
+  if (embedding.length !== dimension) {
+    throw new Error(`${model} returned ${embedding.length} dimensions, expected ${dimension}`)
+  }
+  return embedding
+}
@@ -0,0 +1,198 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createRecipeContent } from './embedding.ts'
+import { createEmbeddingProvider, EmbeddingProvider } from './embeddingProviders.ts'
+
+/**
+ * Server-side helpers for writing `recipe_embeddings`, used by the functions
+ * that (re-)embed recipes.
+ */
+
+export interface RecipeData {
+  id: string;
+  title: string;
+  ingredients: string;
+  steps: string;
+  /** `content_hash` of the recipe, stored with the vector to detect edits */
+  content_hash?: string | null;
+  /** Owner of a personal recipe, for `user_recipe_embeddings` */
+  user_id?: string;
+}
+
+export interface EmbedResult {
+  embedded: string[];
+  failed: { recipeId: string; error: string }[];
+}
+
+/** Community recipes or users' own recipes */
+export type EmbeddingTable = 'recipe_embeddings' | 'user_recipe_embeddings'
+
+export interface UserRecipeSyncResult {
+  processed: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * The provider configured through function secrets:
+ * EMBEDDING_PROVIDER=hashing (default) | local | gemini
+ */
+export function createEmbeddingProviderFromEnv(): EmbeddingProvider {
+  return createEmbeddingProvider({
+    provider: Deno.env.get('EMBEDDING_PROVIDER'),
+    localUrl: Deno.env.get('EMBEDDING_MODEL_URL'),
+    localModel: Deno.env.get('EMBEDDING_MODEL'),
+    localDimension: Number(Deno.env.get('EMBEDDING_DIMENSION')) || undefined,
+    geminiApiKey: Deno.env.get('GEMINI_API_KEY'),
+    geminiModel: Deno.env.get('GEMINI_EMBEDDING_MODEL'),
+  })
+}
+
+/**
+ * Resize the vector column when the provider's dimension differs from it.
+ * Existing vectors are cleared in that case and have to be re-embedded.
+ */
+export async function prepareEmbeddingColumn(supabase: SupabaseClient, provider: EmbeddingProvider): Promise<boolean> {
+  const { data: migrated, error } = await supabase.rpc('prepare_embedding_column', {
+    target_dimension: provider.dimension
+  })
+
+  if (error) {
+    throw new Error(`Failed to prepare embedding column: ${error.message}`)
+  }
+
+  if (migrated) {
+    console.log(`Embedding column resized to ${provider.dimension} dimensions for ${provider.key}`)
+  }
+
+  return !!migrated
+}
+
+/**
+ * PostgREST filter matching rows whose vector was not built by `provider`
+ */
+export function staleEmbeddingFilter(provider: EmbeddingProvider): string {
+  return [
+    `embedding_provider.neq."${provider.key}"`,
+    `embedding_version.neq.${provider.version}`,
+    `embedding_dimension.neq.${provider.dimension}`,
+    'embedding.is.null',
+  ].join(',')
+}
+
+/**
+ * Embed and store a batch of recipes. When the provider rejects the batch,
+ * the recipes are embedded one by one so a single bad recipe does not fail
+ * the others.
+ */
+export async function embedRecipes(
+  recipes: RecipeData[],
+  provider: EmbeddingProvider,
+  supabase: SupabaseClient,
+  table: EmbeddingTable = 'recipe_embeddings'
+): Promise<EmbedResult> {
+  const failed: EmbedResult['failed'] = []
+  const contents = recipes.map(recipe => createRecipeContent(recipe))
+
+  let embeddings: (number[] | null)[]
+  try {
+    embeddings = await provider.embed(contents)
+  } catch (error) {
+    if (recipes.length === 1) {
+      return { embedded: [], failed: [{ recipeId: recipes[0].id, error: error.message }] }
+    }
+
+    console.warn(`Batch of ${recipes.length} rejected by ${provider.key}, embedding one by one:`, error.message)
+    embeddings = []
+    for (let i = 0; i < recipes.length; i++) {
+      try {
+        const [embedding] = await provider.embed([contents[i]])
+        embeddings.push(embedding)
+      } catch (recipeError) {
+        embeddings.push(null)
+        failed.push({ recipeId: recipes[i].id, error: recipeError.message })
+      }
+    }
+  }
+
+  const embeddingsToInsert = recipes
+    .map((recipe, index) => ({
+      recipe_id: recipe.id,
+      ...(recipe.user_id ? { user_id: recipe.user_id } : {}),
+      embedding: embeddings[index],
+      embedding_provider: provider.key,
+      embedding_version: provider.version,
+      embedding_dimension: provider.dimension,
+      content_hash: recipe.content_hash ?? null,
+      content: contents[index]
+    }))
+    .filter(row => row.embedding !== null)
+
+  if (embeddingsToInsert.length === 0) {
+    return { embedded: [], failed }
+  }
+
+  // Insert embeddings into database
+  const { error } = await supabase
+    .from(table)
+    .upsert(embeddingsToInsert, {
+      onConflict: 'recipe_id',
+      ignoreDuplicates: false
+    })
+
+  if (error) {
+    console.error('Database insertion error:', error)
+    return {
+      embedded: [],
+      failed: [
+        ...failed,
+        ...embeddingsToInsert.map(row => ({ recipeId: row.recipe_id, error: `Database insertion: ${error.message}` }))
+      ]
+    }
+  }
+
+  console.log(`Successfully stored ${embeddingsToInsert.length} embeddings in ${table} from ${provider.key}`)
+
+  return {
+    embedded: embeddingsToInsert.map(row => row.recipe_id),
+    failed
+  }
+}
+
+/**
+ * Embed users' own recipes whose vector is missing or out of date, for one
+ * user or for everyone, until none are left or `deadline` (epoch ms) passes.
+ * Recipes that fail are skipped for the rest of the call.
+ */
+export async function syncUserRecipeEmbeddings(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  options: { userId?: string | null; batchSize: number; deadline: number }
+): Promise<UserRecipeSyncResult> {
+  const result: UserRecipeSyncResult = { processed: 0, failed: 0, errors: [] }
+  let cursor: string | null = null
+
+  while (Date.now() < options.deadline) {
+    const { data: recipes, error } = await supabase.rpc('user_recipes_needing_embeddings', {
+      target_provider: provider.key,
+      target_version: provider.version,
+      target_dimension: provider.dimension,
+      target_user: options.userId ?? null,
+      after_id: cursor,
+      batch_size: options.batchSize
+    })
+
+    if (error) {
+      throw new Error(`Failed to fetch personal recipes needing embeddings: ${error.message}`)
+    }
+
+    if (!recipes || recipes.length === 0) break
+
+    cursor = recipes[recipes.length - 1].id
+    const batchResult = await embedRecipes(recipes, provider, supabase, 'user_recipe_embeddings')
+    result.processed += batchResult.embedded.length
+    result.failed += batchResult.failed.length
+    result.errors.push(...batchResult.failed.map(failure => `Recipe ${failure.recipeId}: ${failure.error}`))
+  }
+
+  return result
+}
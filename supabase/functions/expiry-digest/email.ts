@@ -0,0 +1,74 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts"
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Pick the email transport from the environment:
+ * - EMAIL_TRANSPORT=smtp sends through SMTP_HOST/SMTP_PORT, which can point at
+ *   the Inbucket instance of the local Supabase stack (localhost:54325) or any
+ *   other SMTP stand-in such as MailHog during development
+ * - EMAIL_TRANSPORT=log only logs the message
+ * - anything else (the default) disables email delivery
+ */
+export function createEmailTransport(): EmailTransport | null {
+  const transport = (Deno.env.get('EMAIL_TRANSPORT') || 'none').toLowerCase()
+
+  switch (transport) {
+    case 'smtp':
+      return createSmtpTransport()
+    case 'log':
+      return {
+        name: 'log',
+        send: async (message) => {
+          console.log(`[email] to=${message.to} subject=${message.subject}\n${message.text}`)
+        }
+      }
+    default:
+      return null
+  }
+}
+
+function createSmtpTransport(): EmailTransport {
+  const hostname = Deno.env.get('SMTP_HOST') || 'localhost'
+  const port = Number(Deno.env.get('SMTP_PORT') || 54325)
+  const username = Deno.env.get('SMTP_USER')
+  const password = Deno.env.get('SMTP_PASS')
+  const from = Deno.env.get('EMAIL_FROM') || 'Cook Helper <no-reply@cookhelper.local>'
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port,
+          // Local stand-ins speak plain SMTP; real providers are used over TLS
+          tls: Deno.env.get('SMTP_TLS') === 'true',
+          auth: username && password ? { username, password } : undefined,
+        },
+      })
+
+      try {
+        await client.send({
+          from,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        })
+      } finally {
+        await client.close()
+      }
+    }
+  }
+}
@@ -0,0 +1,313 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createEmailTransport, EmailTransport } from './email.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+interface ExpiringIngredient {
+  id: string;
+  user_id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  expiry_date: string;
+}
+
+interface NotificationSettings {
+  user_id: string;
+  expiry_digest_enabled: boolean;
+  expiry_window_days: number;
+  digest_frequency: 'daily' | 'weekly';
+  email_enabled: boolean;
+  last_digest_at: string | null;
+}
+
+interface DigestItem {
+  id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  expiry_date: string;
+  days_left: number;
+}
+
+// Defaults for users who never opened their notification settings
+const DEFAULT_SETTINGS: Omit<NotificationSettings, 'user_id'> = {
+  expiry_digest_enabled: true,
+  expiry_window_days: 3,
+  digest_frequency: 'daily',
+  email_enabled: false,
+  last_digest_at: null,
+}
+
+const MAX_WINDOW_DAYS = 30
+// Rows per request; PostgREST cuts longer responses off at its max-rows (1000)
+const PAGE_SIZE = 1000
+// User ids per settings request, to keep the query string short
+const SETTINGS_LOOKUP_SIZE = 100
+const DAY_MS = 24 * 60 * 60 * 1000
+// Slack so an hourly schedule does not push each digest an hour later every day
+const FREQUENCY_SLACK_MS = 60 * 60 * 1000
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client with service role key for full access
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    // Digests cover every user, so only the scheduler may start them
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const cronSecret = Deno.env.get('CRON_SECRET')
+    const hasCronSecret = !!cronSecret && req.headers.get('x-cron-secret') === cronSecret
+    if (token !== supabaseServiceKey && !hasCronSecret) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Expiry digests require the service role key or the cron secret' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const emailTransport = createEmailTransport()
+
+    console.log(`Starting expiry digest (email transport: ${emailTransport?.name || 'none'})...`)
+
+    const now = new Date()
+    const today = toDateString(now)
+
+    // Everything that could fall inside any user's window; narrowed per user below
+    const ingredients = await fetchExpiringIngredients(
+      supabase,
+      today,
+      toDateString(new Date(now.getTime() + MAX_WINDOW_DAYS * DAY_MS))
+    )
+
+    const ingredientsByUser = new Map<string, ExpiringIngredient[]>()
+    for (const ingredient of ingredients) {
+      const userIngredients = ingredientsByUser.get(ingredient.user_id) || []
+      userIngredients.push(ingredient)
+      ingredientsByUser.set(ingredient.user_id, userIngredients)
+    }
+
+    if (ingredientsByUser.size === 0) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: 'No expiring ingredients found',
+          notified: 0,
+          timestamp: now.toISOString()
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const settingsByUser = await fetchSettings(supabase, [...ingredientsByUser.keys()])
+
+    let notified = 0
+    let emailed = 0
+    let skipped = 0
+    const errors: string[] = []
+
+    for (const [userId, userIngredients] of ingredientsByUser) {
+      const settings = settingsByUser.get(userId) || { user_id: userId, ...DEFAULT_SETTINGS }
+
+      if (!settings.expiry_digest_enabled || !isDigestDue(settings, now)) {
+        skipped++
+        continue
+      }
+
+      const items = userIngredients
+        .map(ingredient => ({
+          id: ingredient.id,
+          name: ingredient.name,
+          quantity: ingredient.quantity,
+          unit: ingredient.unit,
+          expiry_date: ingredient.expiry_date,
+          days_left: daysBetween(today, ingredient.expiry_date),
+        }))
+        .filter(item => item.days_left <= settings.expiry_window_days)
+
+      if (items.length === 0) {
+        skipped++
+        continue
+      }
+
+      try {
+        const sent = await writeDigest(supabase, emailTransport, settings, items, now)
+        notified++
+        if (sent) emailed++
+      } catch (error) {
+        console.error(`Error writing digest for user ${userId}:`, error)
+        errors.push(`User ${userId}: ${error.message}`)
+      }
+    }
+
+    const response = {
+      success: true,
+      message: 'Expiry digest completed',
+      usersWithExpiringItems: ingredientsByUser.size,
+      notified,
+      emailed,
+      skipped,
+      errors: errors.length > 0 ? errors : undefined,
+      timestamp: now.toISOString()
+    }
+
+    console.log('Digest completed:', response)
+
+    return new Response(
+      JSON.stringify(response),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Digest error:', error)
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
+
+/**
+ * All ingredients expiring between `from` and `to`, a page at a time, soonest first
+ */
+async function fetchExpiringIngredients(supabase: SupabaseClient, from: string, to: string): Promise<ExpiringIngredient[]> {
+  const ingredients: ExpiringIngredient[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('ingredients')
+      .select('id, user_id, name, quantity, unit, expiry_date')
+      .not('expiry_date', 'is', null)
+      .gte('expiry_date', from)
+      .lte('expiry_date', to)
+      .order('expiry_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch ingredients: ${error.message}`)
+    }
+
+    ingredients.push(...((data || []) as ExpiringIngredient[]))
+    if (!data || data.length < PAGE_SIZE) return ingredients
+  }
+}
+
+async function fetchSettings(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, NotificationSettings>> {
+  const settingsByUser = new Map<string, NotificationSettings>()
+
+  for (let i = 0; i < userIds.length; i += SETTINGS_LOOKUP_SIZE) {
+    const { data, error } = await supabase
+      .from('notification_settings')
+      .select('user_id, expiry_digest_enabled, expiry_window_days, digest_frequency, email_enabled, last_digest_at')
+      .in('user_id', userIds.slice(i, i + SETTINGS_LOOKUP_SIZE))
+
+    if (error) {
+      throw new Error(`Failed to fetch notification settings: ${error.message}`)
+    }
+
+    for (const settings of (data || []) as NotificationSettings[]) {
+      settingsByUser.set(settings.user_id, settings)
+    }
+  }
+
+  return settingsByUser
+}
+
+function isDigestDue(settings: NotificationSettings, now: Date): boolean {
+  if (!settings.last_digest_at) return true
+
+  const interval = settings.digest_frequency === 'weekly' ? 7 * DAY_MS : DAY_MS
+  return now.getTime() - new Date(settings.last_digest_at).getTime() >= interval - FREQUENCY_SLACK_MS
+}
+
+/**
+ * Write the digest notification and, when the user asked for it, email it.
+ * Returns whether an email was sent.
+ */
+async function writeDigest(
+  supabase: SupabaseClient,
+  emailTransport: EmailTransport | null,
+  settings: NotificationSettings,
+  items: DigestItem[],
+  now: Date
+): Promise<boolean> {
+  const title = items.length === 1
+    ? `${items[0].name} segera kadaluarsa`
+    : `${items.length} bahan segera kadaluarsa`
+  const body = items.map(item => `${item.name} (${item.quantity} ${item.unit}) - ${formatDaysLeft(item.days_left)}`).join('\n')
+
+  const { data: notification, error: insertError } = await supabase
+    .from('notifications')
+    .insert({
+      user_id: settings.user_id,
+      type: 'expiry_digest',
+      title,
+      body,
+      data: { window_days: settings.expiry_window_days, items }
+    })
+    .select('id')
+    .single()
+
+  if (insertError) {
+    throw new Error(`Failed to insert notification: ${insertError.message}`)
+  }
+
+  // Record the digest before emailing so a failing mail server cannot cause repeats
+  const { error: settingsError } = await supabase
+    .from('notification_settings')
+    .upsert({ user_id: settings.user_id, last_digest_at: now.toISOString() }, { onConflict: 'user_id' })
+
+  if (settingsError) {
+    throw new Error(`Failed to update digest time: ${settingsError.message}`)
+  }
+
+  if (!settings.email_enabled || !emailTransport) return false
+
+  const { data: userData, error: userError } = await supabase.auth.admin.getUserById(settings.user_id)
+  const email = userData?.user?.email
+  if (userError || !email) {
+    console.warn(`No email address for user ${settings.user_id}`)
+    return false
+  }
+
+  await emailTransport.send({
+    to: email,
+    subject: `Cook Helper: ${title}`,
+    text: `Bahan berikut akan kadaluarsa dalam ${settings.expiry_window_days} hari ke depan:\n\n${body}\n\nYuk masak sebelum terbuang!`
+  })
+
+  await supabase
+    .from('notifications')
+    .update({ emailed_at: new Date().toISOString() })
+    .eq('id', notification.id)
+
+  return true
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS)
+}
+
+function formatDaysLeft(daysLeft: number): string {
+  return daysLeft === 0 ? 'kadaluarsa hari ini' : `kadaluarsa dalam ${daysLeft} hari`
+}
@@ -1,10 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { normalizeEmbeddingText } from '../_shared/embedding.ts'
+import { EmbeddingProvider } from '../_shared/embeddingProviders.ts'
+import { createEmbeddingProviderFromEnv } from '../_shared/recipeEmbeddings.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Query vectors only go stale when the provider or version changes, which
+// the cache key covers; the TTL just keeps the table from growing forever
+const DEFAULT_CACHE_TTL_HOURS = 24 * 7
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -24,12 +32,33 @@ serve(async (req) => {
       )
     }
 
-    // Simple embedding generation using text features
-    // In a real implementation, you would use a proper embedding model
-    const embedding = generateSimpleEmbedding(text)
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Same provider the recipe vectors are built with; the caller passes the
+    // provider and version on to the search RPCs
+    const provider = createEmbeddingProviderFromEnv()
+    const queryText = normalizeEmbeddingText(text)
+    const queryHash = await hashQuery(queryText)
+
+    let embedding = await getCachedEmbedding(supabase, provider, queryHash)
+    const cached = embedding !== null
+
+    if (!embedding) {
+      [embedding] = await provider.embed([text])
+      await cacheEmbedding(supabase, provider, queryHash, queryText, embedding)
+    }
 
     return new Response(
-      JSON.stringify({ embedding }),
+      JSON.stringify({
+        embedding,
+        provider: provider.key,
+        version: provider.version,
+        dimension: provider.dimension,
+        cached
+      }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       }
@@ -40,56 +69,85 @@ serve(async (req) => {
       JSON.stringify({ error: 'Failed to generate embedding' }),
       { 
         status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     )
   }
 })
 
-function generateSimpleEmbedding(text: string): number[] {
-  const EMBEDDING_DIMENSION = 384
-  const words = text.toLowerCase().split(/\s+/)
-  const embedding = new Array(EMBEDDING_DIMENSION).fill(0)
-  
-  // Create features based on text characteristics
-  words.forEach((word, index) => {
-    if (word.length > 2) {
-      // Hash-based positioning
-      const hash = simpleHash(word)
-      const position = Math.abs(hash) % EMBEDDING_DIMENSION
-      
-      // Weight by position and word frequency
-      embedding[position] += 1 / (index + 1)
-      
-      // Add character-level features
-      for (let i = 0; i < word.length - 1; i++) {
-        const bigramHash = simpleHash(word.substring(i, i + 2))
-        const bigramPos = Math.abs(bigramHash) % EMBEDDING_DIMENSION
-        embedding[bigramPos] += 0.5 / (index + 1)
-      }
-    }
-  })
-
-  // Add text-level features
-  embedding[0] = words.length / 100 // Text length feature
-  embedding[1] = (text.match(/[a-zA-Z]/g) || []).length / text.length // Letter ratio
-  embedding[2] = (text.match(/\d/g) || []).length / text.length // Digit ratio
-  
-  // Normalize the embedding
-  const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0))
-  if (magnitude > 0) {
-    return embedding.map(val => val / magnitude)
+async function hashQuery(queryText: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(queryText))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * The cached vector for the query in the provider's space, if it has not
+ * expired. Cache errors are logged and treated as a miss.
+ */
+async function getCachedEmbedding(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  queryHash: string
+): Promise<number[] | null> {
+  const { data, error } = await supabase
+    .from('query_embedding_cache')
+    .select('embedding, embedding_dimension, hit_count')
+    .eq('query_hash', queryHash)
+    .eq('embedding_provider', provider.key)
+    .eq('embedding_version', provider.version)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle()
+
+  if (error) {
+    console.warn('Query embedding cache lookup failed:', error.message)
+    return null
   }
-  
-  return embedding
+
+  if (!data || data.embedding_dimension !== provider.dimension) return null
+
+  // Stats only; a lost update does not matter
+  supabase
+    .from('query_embedding_cache')
+    .update({ hit_count: data.hit_count + 1, last_used_at: new Date().toISOString() })
+    .eq('query_hash', queryHash)
+    .eq('embedding_provider', provider.key)
+    .eq('embedding_version', provider.version)
+    .then(({ error: updateError }) => {
+      if (updateError) console.warn('Failed to record cache hit:', updateError.message)
+    })
+
+  // pgvector columns come back as their text form, "[0.1,0.2,...]"
+  return typeof data.embedding === 'string' ? JSON.parse(data.embedding) : data.embedding
 }
 
-function simpleHash(str: string): number {
-  let hash = 0
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i)
-    hash = ((hash << 5) - hash) + char
-    hash = hash & hash // Convert to 32-bit integer
+async function cacheEmbedding(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  queryHash: string,
+  queryText: string,
+  embedding: number[]
+) {
+  const ttlHours = Number(Deno.env.get('QUERY_EMBEDDING_CACHE_TTL_HOURS')) || DEFAULT_CACHE_TTL_HOURS
+  const now = new Date()
+
+  const { error } = await supabase
+    .from('query_embedding_cache')
+    .upsert({
+      query_hash: queryHash,
+      query_text: queryText,
+      embedding_provider: provider.key,
+      embedding_version: provider.version,
+      embedding_dimension: provider.dimension,
+      embedding,
+      hit_count: 0,
+      created_at: now.toISOString(),
+      last_used_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + ttlHours * 60 * 60 * 1000).toISOString()
+    }, {
+      onConflict: 'query_hash,embedding_provider,embedding_version'
+    })
+
+  if (error) {
+    console.warn('Failed to cache query embedding:', error.message)
   }
-  return hash
-}
\ No newline at end of file
+}
@@ -0,0 +1,518 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { parseCsv, readTextChunks } from '../_shared/csv.ts'
+import { createDedupeKey, parseDatasetIngredients, parseDatasetSteps } from '../_shared/datasetRecipes.ts'
+import { EmbeddingProvider } from '../_shared/embeddingProviders.ts'
+import { createEmbeddingProviderFromEnv } from '../_shared/recipeEmbeddings.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type IngestFormat = 'csv' | 'jsonl'
+
+interface IngestRow {
+  title: string;
+  ingredients: string;
+  steps: string;
+  loves_count: number;
+  url: string | null;
+}
+
+interface DatasetRecipeRow extends IngestRow {
+  total_ingredients: number;
+  total_steps: number;
+  dedupe_key: string;
+}
+
+interface ParsedRow {
+  /** Line of the upload the row starts on */
+  line: number;
+  row?: IngestRow;
+  problem?: string;
+}
+
+interface IngestReport {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  skippedReasons: {
+    /** Rows missing a title, ingredients or steps, or not parseable */
+    invalid: number;
+    /** Rows repeating a recipe seen earlier in the same upload */
+    duplicate: number;
+    /** Recipes already stored exactly like this */
+    unchanged: number;
+  };
+  /** The first MAX_REPORTED_PROBLEMS invalid rows */
+  problems: { line: number; problem: string }[];
+  embeddingsQueued: number;
+  embeddingJobId: string | null;
+}
+
+// Accepted names of each field's CSV column or JSON key, matched case-insensitively
+const FIELD_ALIASES: Record<keyof IngestRow, string[]> = {
+  title: ['title', 'name', 'recipe_name'],
+  ingredients: ['ingredients'],
+  steps: ['steps', 'instructions', 'directions'],
+  loves_count: ['loves_count', 'loves', 'likes'],
+  url: ['url', 'source_url', 'link'],
+}
+
+const REQUIRED_FIELDS: (keyof IngestRow)[] = ['title', 'ingredients', 'steps']
+const BATCH_SIZE = 200
+// Keys per `in` filter, keeping the request URL short
+const LOOKUP_SIZE = 50
+const MAX_REPORTED_PROBLEMS = 100
+// Stay well below the edge function wall-clock limit; backfill resumes from its cursor
+const DEFAULT_TIME_BUDGET_MS = 50_000
+
+/**
+ * Loads community recipes into `dataset_recipes`. POST a CSV file (with a
+ * header row) or JSONL, one recipe object per line, as the request body;
+ * the format comes from `?format=csv|jsonl` or the Content-Type. The body is
+ * read as a stream and stored in batches, so split large files into several
+ * uploads that each finish within the function's time limit.
+ *
+ * Recipes are deduplicated by normalized title plus ingredient hash: known
+ * recipes are updated, unchanged ones skipped. New and changed recipes are
+ * queued for `sync-embeddings`.
+ *
+ * `?action=backfill[&cursor=<id>]` instead computes the dedupe key and counts
+ * of recipes stored before ingestion existed; call again with `nextCursor`
+ * until it is null.
+ *
+ * Only callable with the service role key.
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    if (token !== supabaseServiceKey) {
+      return jsonResponse({ success: false, error: 'Recipe ingestion requires the service role key' }, 401)
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse({ success: false, error: 'Use POST' }, 405)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const params = new URL(req.url).searchParams
+
+    if (params.get('action') === 'backfill') {
+      const batchSize = Math.min(Math.max(Number(params.get('batchSize')) || BATCH_SIZE, 1), 500)
+      const result = await backfillDatasetRecipes(
+        supabase,
+        params.get('cursor'),
+        batchSize,
+        Date.now() + DEFAULT_TIME_BUDGET_MS
+      )
+      return jsonResponse({ success: true, ...result, timestamp: new Date().toISOString() })
+    }
+
+    if (!req.body) {
+      return jsonResponse({ success: false, error: 'Request body is empty' }, 400)
+    }
+
+    const format = getFormat(params.get('format'), req.headers.get('Content-Type'))
+    if (!format) {
+      return jsonResponse({ success: false, error: 'Unknown format, use ?format=csv or ?format=jsonl' }, 400)
+    }
+
+    const report: IngestReport = {
+      inserted: 0,
+      updated: 0,
+      skipped: 0,
+      skippedReasons: { invalid: 0, duplicate: 0, unchanged: 0 },
+      problems: [],
+      embeddingsQueued: 0,
+      embeddingJobId: null
+    }
+    const seenKeys = new Set<string>()
+    let batch: { line: number; row: IngestRow }[] = []
+
+    const chunks = readTextChunks(req.body)
+    const rows = format === 'csv' ? readCsvRows(chunks) : readJsonlRows(chunks)
+
+    for await (const parsed of rows) {
+      if (!parsed.row) {
+        report.skippedReasons.invalid++
+        if (report.problems.length < MAX_REPORTED_PROBLEMS) {
+          report.problems.push({ line: parsed.line, problem: parsed.problem || 'Invalid row' })
+        }
+        continue
+      }
+
+      batch.push({ line: parsed.line, row: parsed.row })
+      if (batch.length >= BATCH_SIZE) {
+        await ingestBatch(supabase, batch, seenKeys, report)
+        batch = []
+      }
+    }
+    if (batch.length > 0) {
+      await ingestBatch(supabase, batch, seenKeys, report)
+    }
+
+    report.skipped = report.skippedReasons.invalid + report.skippedReasons.duplicate + report.skippedReasons.unchanged
+
+    if (report.embeddingsQueued > 0) {
+      report.embeddingJobId = await queueEmbeddings(supabase, createEmbeddingProviderFromEnv(), report.embeddingsQueued)
+    }
+
+    console.log(`Ingested recipes: ${report.inserted} inserted, ${report.updated} updated, ${report.skipped} skipped`)
+
+    return jsonResponse({ success: true, format, ...report, timestamp: new Date().toISOString() })
+  } catch (error) {
+    console.error('Ingestion error:', error)
+    return jsonResponse({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    }, 500)
+  }
+})
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+function getFormat(format: string | null, contentType: string | null): IngestFormat | null {
+  if (format === 'csv' || format === 'jsonl') return format
+
+  const type = (contentType || '').toLowerCase()
+  if (type.includes('csv')) return 'csv'
+  if (type.includes('ndjson') || type.includes('jsonl') || type.includes('json-seq')) return 'jsonl'
+  return null
+}
+
+/**
+ * A recipe from the values of one row, or why it can't be used
+ */
+function toIngestRow(get: (field: keyof IngestRow) => unknown): { row?: IngestRow; problem?: string } {
+  const text = (field: keyof IngestRow) => {
+    const value = get(field)
+    return value === undefined || value === null ? '' : String(value).trim()
+  }
+
+  const missing = REQUIRED_FIELDS.filter(field => !text(field))
+  if (missing.length > 0) {
+    return { problem: `Missing ${missing.join(', ')}` }
+  }
+
+  const loves = get('loves_count')
+  const lovesCount = typeof loves === 'number'
+    ? loves
+    : text('loves_count') ? parseInt(text('loves_count').replace(/[.,\s]/g, ''), 10) : 0
+  if (!Number.isFinite(lovesCount) || lovesCount < 0) {
+    return { problem: `Invalid loves count: ${text('loves_count')}` }
+  }
+
+  return {
+    row: {
+      title: text('title'),
+      ingredients: text('ingredients'),
+      steps: text('steps'),
+      loves_count: Math.round(lovesCount),
+      url: text('url') || null
+    }
+  }
+}
+
+async function* readCsvRows(chunks: AsyncIterable<string>): AsyncGenerator<ParsedRow> {
+  let columns: Partial<Record<keyof IngestRow, number>> | null = null
+
+  for await (const record of parseCsv(chunks)) {
+    if (!columns) {
+      const header = record.fields.map(column => column.trim().toLowerCase())
+      const resolved: Partial<Record<keyof IngestRow, number>> = {}
+      for (const [field, aliases] of Object.entries(FIELD_ALIASES) as [keyof IngestRow, string[]][]) {
+        const index = aliases.map(alias => header.indexOf(alias)).find(position => position >= 0)
+        if (index !== undefined) resolved[field] = index
+      }
+
+      const missing = REQUIRED_FIELDS.filter(field => resolved[field] === undefined)
+      if (missing.length > 0) {
+        throw new Error(`CSV header has no column for ${missing.join(', ')}`)
+      }
+      columns = resolved
+      continue
+    }
+
+    if (record.problem) {
+      yield { line: record.line, problem: record.problem }
+      continue
+    }
+
+    const fieldColumns = columns
+    yield {
+      line: record.line,
+      ...toIngestRow(field => fieldColumns[field] === undefined ? undefined : record.fields[fieldColumns[field]!])
+    }
+  }
+}
+
+async function* readJsonlRows(chunks: AsyncIterable<string>): AsyncGenerator<ParsedRow> {
+  let buffer = ''
+  let line = 0
+
+  const parseLine = (text: string): ParsedRow | null => {
+    line++
+    if (!text.trim()) return null
+
+    let value: unknown
+    try {
+      value = JSON.parse(text)
+    } catch {
+      return { line, problem: 'Not valid JSON' }
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return { line, problem: 'Not a JSON object' }
+    }
+
+    const entries = Object.entries(value as Record<string, unknown>)
+      .map(([key, fieldValue]) => [key.toLowerCase(), fieldValue] as const)
+    const object = new Map(entries)
+    return {
+      line,
+      ...toIngestRow(field => FIELD_ALIASES[field].map(alias => object.get(alias)).find(v => v !== undefined))
+    }
+  }
+
+  for await (const chunk of chunks) {
+    buffer += chunk
+    const lines = buffer.split(/\r?\n/)
+    buffer = lines.pop() ?? ''
+    for (const text of lines) {
+      const parsed = parseLine(text)
+      if (parsed) yield parsed
+    }
+  }
+
+  const parsed = parseLine(buffer)
+  if (parsed) yield parsed
+}
+
+/**
+ * Stored recipes with the given dedupe keys
+ */
+async function findByDedupeKeys(supabase: SupabaseClient, keys: string[]): Promise<Map<string, DatasetRecipeRow & { id: string }>> {
+  const found = new Map<string, DatasetRecipeRow & { id: string }>()
+
+  for (let i = 0; i < keys.length; i += LOOKUP_SIZE) {
+    const { data, error } = await supabase
+      .from('dataset_recipes')
+      .select('id, title, ingredients, steps, loves_count, url, total_ingredients, total_steps, dedupe_key')
+      .in('dedupe_key', keys.slice(i, i + LOOKUP_SIZE))
+
+    if (error) {
+      throw new Error(`Failed to look up existing recipes: ${error.message}`)
+    }
+    for (const row of data || []) found.set(row.dedupe_key, row)
+  }
+
+  return found
+}
+
+/**
+ * Insert new recipes and update known ones, counting the outcome in `report`
+ */
+async function ingestBatch(
+  supabase: SupabaseClient,
+  batch: { line: number; row: IngestRow }[],
+  seenKeys: Set<string>,
+  report: IngestReport
+): Promise<void> {
+  const prepared: DatasetRecipeRow[] = []
+
+  for (const { row } of batch) {
+    const dedupeKey = await createDedupeKey(row.title, row.ingredients)
+    if (seenKeys.has(dedupeKey)) {
+      report.skippedReasons.duplicate++
+      continue
+    }
+    seenKeys.add(dedupeKey)
+
+    prepared.push({
+      ...row,
+      total_ingredients: parseDatasetIngredients(row.ingredients).length,
+      total_steps: parseDatasetSteps(row.steps).length,
+      dedupe_key: dedupeKey
+    })
+  }
+
+  const existing = await findByDedupeKeys(supabase, prepared.map(row => row.dedupe_key))
+  const changed = prepared.filter(row => {
+    const stored = existing.get(row.dedupe_key)
+    if (!stored) return true
+
+    const unchanged = (Object.keys(row) as (keyof DatasetRecipeRow)[]).every(field => stored[field] === row[field])
+    if (unchanged) report.skippedReasons.unchanged++
+    return !unchanged
+  })
+
+  if (changed.length === 0) return
+
+  const { error } = await supabase
+    .from('dataset_recipes')
+    .upsert(changed, { onConflict: 'dedupe_key' })
+
+  if (error) {
+    throw new Error(`Failed to store recipes: ${error.message}`)
+  }
+
+  for (const row of changed) {
+    const stored = existing.get(row.dedupe_key)
+    if (!stored) {
+      report.inserted++
+      report.embeddingsQueued++
+      continue
+    }
+
+    report.updated++
+    // Only content changes make the vector stale, not loves or links
+    if (stored.title !== row.title || stored.ingredients !== row.ingredients || stored.steps !== row.steps) {
+      report.embeddingsQueued++
+    }
+  }
+}
+
+/**
+ * Have `sync-embeddings` pick up new and changed recipes. A running job for
+ * the current provider is rewound to the first recipe, since new ids can
+ * sort before its cursor; the job only embeds recipes whose vector is
+ * missing or stale, so nothing it already did is repeated. The rewind bumps
+ * the job's `rescan_count`, so a run holding the job at that moment starts
+ * over instead of writing its own cursor back. Without a running job, a new
+ * one is started. Returns the job id.
+ */
+async function queueEmbeddings(supabase: SupabaseClient, provider: EmbeddingProvider, count: number): Promise<string | null> {
+  const { data: job, error } = await supabase
+    .from('embedding_sync_jobs')
+    .select('id')
+    .eq('status', 'running')
+    .eq('embedding_provider', provider.key)
+    .eq('embedding_version', provider.version)
+    .eq('embedding_dimension', provider.dimension)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.warn('Could not look up the embedding sync job:', error.message)
+    return null
+  }
+
+  if (job) {
+    const { data: rewound, error: rescanError } = await supabase.rpc('request_embedding_rescan', {
+      job_id: job.id,
+      queued: count
+    })
+
+    if (rescanError) {
+      console.warn('Could not queue embeddings on the running sync job:', rescanError.message)
+      return null
+    }
+    // The job finished in the meantime; start a new one
+    if (rewound) return job.id
+  }
+
+  const { data: newJob, error: insertError } = await supabase
+    .from('embedding_sync_jobs')
+    .insert({
+      status: 'running',
+      embedding_provider: provider.key,
+      embedding_version: provider.version,
+      embedding_dimension: provider.dimension,
+      min_loves: 0,
+      total: count
+    })
+    .select('id')
+    .single()
+
+  if (insertError) {
+    console.warn('Could not start an embedding sync job:', insertError.message)
+    return null
+  }
+  return newJob.id
+}
+
+/**
+ * Set the dedupe key and counts of community recipes that have no key yet,
+ * in id order after `cursor`. Recipes duplicating one that already has the
+ * key keep none and are only counted.
+ */
+async function backfillDatasetRecipes(
+  supabase: SupabaseClient,
+  cursor: string | null,
+  batchSize: number,
+  deadline: number
+): Promise<{ processed: number; keyed: number; duplicates: number; nextCursor: string | null }> {
+  let processed = 0
+  let keyed = 0
+  let duplicates = 0
+
+  while (Date.now() < deadline) {
+    let query = supabase
+      .from('dataset_recipes')
+      .select('id, title, ingredients, steps')
+      .is('user_id', null)
+      .is('dedupe_key', null)
+      .order('id', { ascending: true })
+      .limit(batchSize)
+
+    if (cursor) {
+      query = query.gt('id', cursor)
+    }
+
+    const { data: recipes, error } = await query
+    if (error) {
+      throw new Error(`Failed to fetch recipes to backfill: ${error.message}`)
+    }
+
+    if (!recipes || recipes.length === 0) {
+      return { processed, keyed, duplicates, nextCursor: null }
+    }
+
+    const rows = await Promise.all(recipes.map(async recipe => ({
+      ...recipe,
+      total_ingredients: parseDatasetIngredients(recipe.ingredients).length,
+      total_steps: parseDatasetSteps(recipe.steps).length,
+      dedupe_key: await createDedupeKey(recipe.title, recipe.ingredients) as string | null
+    })))
+
+    const taken = new Set((await findByDedupeKeys(supabase, rows.map(row => row.dedupe_key!))).keys())
+    for (const row of rows) {
+      if (taken.has(row.dedupe_key!)) {
+        row.dedupe_key = null
+        duplicates++
+      } else {
+        taken.add(row.dedupe_key!)
+        keyed++
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from('dataset_recipes')
+      .upsert(rows, { onConflict: 'id' })
+
+    if (updateError) {
+      throw new Error(`Failed to backfill recipes: ${updateError.message}`)
+    }
+
+    processed += rows.length
+    cursor = recipes[recipes.length - 1].id
+  }
+
+  return { processed, keyed, duplicates, nextCursor: cursor }
+}
@@ -0,0 +1,156 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createEmbeddingProviderFromEnv,
+  embedRecipes,
+  prepareEmbeddingColumn,
+  RecipeData,
+  staleEmbeddingFilter,
+  syncUserRecipeEmbeddings
+} from '../_shared/recipeEmbeddings.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ReembedOptions {
+  batchSize?: number;
+  timeBudgetMs?: number;
+}
+
+// Stay well below the edge function wall-clock limit; run again for the rest
+const DEFAULT_TIME_BUDGET_MS = 50_000
+const DEFAULT_BATCH_SIZE = 50
+
+/**
+ * Re-embeds every stored recipe vector that was not built by the configured
+ * provider (EMBEDDING_PROVIDER), e.g. after switching from the hashing
+ * embedding to a local MiniLM or to Gemini. The vector column is resized
+ * first when the dimension changes, and cached query vectors of other
+ * providers or versions are purged. Personal recipes are re-embedded with
+ * whatever time is left. Call repeatedly until `remaining` is 0.
+ */
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Initialize Supabase client with service role key for full access
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+    const provider = createEmbeddingProviderFromEnv()
+
+    const options: ReembedOptions = req.method === 'POST'
+      ? await req.json().catch(() => ({}))
+      : {}
+    const batchSize = Math.min(Math.max(options.batchSize || DEFAULT_BATCH_SIZE, 1), 200)
+    const timeBudgetMs = options.timeBudgetMs || DEFAULT_TIME_BUDGET_MS
+    const startedAt = Date.now()
+
+    console.log(`Starting re-embedding with ${provider.key} (${provider.dimension} dimensions)...`)
+
+    const migrated = await prepareEmbeddingColumn(supabase, provider)
+
+    // Cached query vectors of the previous provider or version are never read again
+    const { data: queryCachePurged, error: purgeError } = await supabase.rpc('purge_query_embedding_cache', {
+      current_provider: provider.key,
+      current_version: provider.version
+    })
+
+    if (purgeError) {
+      console.warn('Could not purge the query embedding cache:', purgeError.message)
+    }
+
+    let cursor: string | null = null
+    let processed = 0
+    const errors: string[] = []
+
+    // Walk the stale rows in recipe_id order so rows that keep failing are
+    // not picked up again in the same run
+    while (Date.now() - startedAt < timeBudgetMs) {
+      let query = supabase
+        .from('recipe_embeddings')
+        .select('recipe_id, recipe:dataset_recipes(id, title, ingredients, steps, content_hash)')
+        .or(staleEmbeddingFilter(provider))
+        .order('recipe_id', { ascending: true })
+        .limit(batchSize)
+
+      if (cursor) {
+        query = query.gt('recipe_id', cursor)
+      }
+
+      const { data: rows, error } = await query
+
+      if (error) {
+        throw new Error(`Failed to fetch stale embeddings: ${error.message}`)
+      }
+
+      if (!rows || rows.length === 0) break
+
+      cursor = rows[rows.length - 1].recipe_id
+      const recipes = rows
+        .map(row => row.recipe as unknown as RecipeData | null)
+        .filter((recipe): recipe is RecipeData => !!recipe)
+
+      const batchResults = await embedRecipes(recipes, provider, supabase)
+      processed += batchResults.embedded.length
+      errors.push(...batchResults.failed.map(failure => `Recipe ${failure.recipeId}: ${failure.error}`))
+    }
+
+    // Personal recipes are matched on provider and content, like sync-embeddings
+    const userRecipes = await syncUserRecipeEmbeddings(supabase, provider, {
+      batchSize,
+      deadline: startedAt + timeBudgetMs
+    })
+    errors.push(...userRecipes.errors)
+
+    const { count: remaining, error: countError } = await supabase
+      .from('recipe_embeddings')
+      .select('recipe_id', { count: 'exact', head: true })
+      .or(staleEmbeddingFilter(provider))
+
+    if (countError) {
+      console.warn('Could not count remaining stale embeddings:', countError.message)
+    }
+
+    const response = {
+      success: true,
+      message: remaining === 0 ? 'All embeddings are up to date' : 'Re-embedding in progress',
+      embeddingProvider: provider.key,
+      embeddingVersion: provider.version,
+      embeddingDimension: provider.dimension,
+      columnMigrated: migrated,
+      queryCachePurged: queryCachePurged ?? 0,
+      processed,
+      userRecipesProcessed: userRecipes.processed,
+      remaining: remaining ?? undefined,
+      errors: errors.length > 0 ? errors : undefined,
+      timestamp: new Date().toISOString()
+    }
+
+    console.log('Re-embedding run completed:', response)
+
+    return new Response(
+      JSON.stringify(response),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Re-embedding error:', error)
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
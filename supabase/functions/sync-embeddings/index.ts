@@ -1,25 +1,64 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { EmbeddingProvider } from '../_shared/embeddingProviders.ts'
+import {
+  createEmbeddingProviderFromEnv,
+  embedRecipes,
+  EmbedResult,
+  prepareEmbeddingColumn,
+  syncUserRecipeEmbeddings
+} from '../_shared/recipeEmbeddings.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface RecipeData {
-  id: string;
-  title: string;
-  ingredients: string;
-  steps: string;
+interface SyncOptions {
+  /**
+   * 'run' (default) works on the current job, 'status' only reports it,
+   * 'user-recipes' embeds personal recipes (the caller's with a user token,
+   * everyone's with the service role key). 'run' needs the service role key
+   */
+  action?: 'run' | 'status' | 'user-recipes';
+  jobId?: string;
+  /** Only embed recipes with at least this many loves; applies to new jobs */
+  minLoves?: number;
+  batchSize?: number;
+  timeBudgetMs?: number;
+  /** Cancel the running job and start over from the first recipe */
+  restart?: boolean;
 }
 
-interface FeatureFlag {
+interface SyncJob {
   id: string;
-  name: string;
-  enabled: boolean;
-  description?: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  embedding_provider: string;
+  embedding_version: number;
+  embedding_dimension: number;
+  min_loves: number;
+  cursor: string | null;
+  /** Bumped when ingestion rewinds the job; see `runJob` */
+  rescan_count: number;
+  total: number;
+  processed: number;
+  failed: number;
+  last_error: string | null;
+  lease_expires_at: string | null;
+  started_at: string;
+  finished_at: string | null;
+  updated_at: string;
 }
 
+// Recipes that failed this many times are left out until their content changes
+// or their error row is deleted
+const MAX_ATTEMPTS = 3
+const DEFAULT_BATCH_SIZE = 20
+// Stay well below the edge function wall-clock limit; the next run resumes
+const DEFAULT_TIME_BUDGET_MS = 50_000
+// A run holds the job this long, so overlapping runs do not embed twice
+const LEASE_MS = 90_000
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -30,10 +69,60 @@ serve(async (req) => {
     // Initialize Supabase client with service role key for full access
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    
+
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    console.log('Starting embedding synchronization...')
+    const options: SyncOptions = req.method === 'GET'
+      ? { action: 'status', jobId: new URL(req.url).searchParams.get('jobId') || undefined }
+      : await req.json().catch(() => ({}))
+
+    if (options.action === 'status') {
+      return jsonResponse(await getSyncStatus(supabase, options.jobId))
+    }
+
+    // Users may only embed their own recipes; running or restarting the job
+    // and embedding everyone's recipes is left to the service role (cron)
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const isServiceRole = token === supabaseServiceKey
+    const userId = options.action === 'user-recipes' && !isServiceRole
+      ? await getRequestUserId(supabase, token)
+      : null
+
+    if (!isServiceRole && !userId) {
+      return jsonResponse({
+        success: false,
+        error: options.action === 'user-recipes'
+          ? 'Embedding personal recipes requires a user token or the service role key'
+          : 'Running the embedding sync requires the service role key'
+      }, 401)
+    }
+
+    const provider = createEmbeddingProviderFromEnv()
+    const batchSize = Math.min(Math.max(options.batchSize || DEFAULT_BATCH_SIZE, 1), 200)
+    const timeBudgetMs = options.timeBudgetMs || DEFAULT_TIME_BUDGET_MS
+
+    if (options.action === 'user-recipes') {
+      await prepareEmbeddingColumn(supabase, provider)
+
+      const result = await syncUserRecipeEmbeddings(supabase, provider, {
+        userId,
+        batchSize,
+        deadline: Date.now() + timeBudgetMs
+      })
+
+      return jsonResponse({
+        success: true,
+        message: 'Personal recipe embeddings synchronized',
+        scope: userId ? 'user' : 'all',
+        processed: result.processed,
+        failed: result.failed,
+        errors: result.errors.length > 0 ? result.errors : undefined,
+        embeddingProvider: provider.key,
+        timestamp: new Date().toISOString()
+      })
+    }
+
+    console.log(`Starting embedding synchronization with ${provider.key}...`)
 
     // Check if dataset feature is enabled
     const isDatasetEnabled = await checkDatasetFeature(supabase)
@@ -43,243 +132,417 @@ serve(async (req) => {
       // The frontend will respect the feature flag for user access
     }
 
-    // Get recipes that don't have embeddings yet
-    const { data: existingEmbeddings, error: embeddingError } = await supabase
-      .from('recipe_embeddings')
-      .select('recipe_id')
+    // A provider with another dimension needs the vector column resized first
+    await prepareEmbeddingColumn(supabase, provider)
 
-    if (embeddingError) {
-      throw new Error(`Failed to fetch existing embeddings: ${embeddingError.message}`)
-    }
+    const job = await findOrCreateJob(supabase, provider, options)
 
-    const existingRecipeIds = new Set(existingEmbeddings?.map(e => e.recipe_id) || [])
-
-    // Get popular recipes that need embeddings
-    const { data: recipes, error: recipesError } = await supabase
-      .from('dataset_recipes')
-      .select('id, title, ingredients, steps')
-      .is('user_id', null)
-      .gte('loves_count', 50)
-      .order('loves_count', { ascending: false })
-      .limit(500) // Process up to 500 recipes per run
-
-    if (recipesError) {
-      throw new Error(`Failed to fetch recipes: ${recipesError.message}`)
-    }
-
-    if (!recipes || recipes.length === 0) {
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: 'No recipes found to process',
-          processed: 0,
-          datasetEnabled: isDatasetEnabled
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    if (!job) {
+      return jsonResponse({
+        success: true,
+        message: 'All recipes already have current embeddings',
+        job: await getLatestJob(supabase),
+        datasetEnabled: isDatasetEnabled,
+        timestamp: new Date().toISOString()
+      })
     }
 
-    // Filter out recipes that already have embeddings
-    const recipesToProcess = recipes.filter(recipe => !existingRecipeIds.has(recipe.id))
-
-    if (recipesToProcess.length === 0) {
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          message: 'All recipes already have embeddings',
-          processed: 0,
-          total: recipes.length,
-          datasetEnabled: isDatasetEnabled
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    const claimedJob = await claimJob(supabase, job.id)
+    if (!claimedJob) {
+      return jsonResponse({
+        success: true,
+        message: 'Embedding synchronization is already running',
+        job,
+        datasetEnabled: isDatasetEnabled,
+        timestamp: new Date().toISOString()
+      })
     }
 
-    console.log(`Processing ${recipesToProcess.length} recipes without embeddings...`)
-
-    // Process recipes in batches to avoid timeouts
-    const batchSize = 20
-    let totalProcessed = 0
-    const errors: string[] = []
-
-    for (let i = 0; i < recipesToProcess.length; i += batchSize) {
-      const batch = recipesToProcess.slice(i, i + batchSize)
-      
-      try {
-        const batchResults = await processBatch(batch, supabase)
-        totalProcessed += batchResults.processed
-        errors.push(...batchResults.errors)
-        
-        // Add small delay between batches to avoid overwhelming the system
-        if (i + batchSize < recipesToProcess.length) {
-          await new Promise(resolve => setTimeout(resolve, 500))
-        }
-      } catch (error) {
-        console.error(`Error processing batch ${i}-${i + batchSize}:`, error)
-        errors.push(`Batch ${i}-${i + batchSize}: ${error.message}`)
-      }
+    let finishedJob: SyncJob
+    try {
+      finishedJob = await runJob(supabase, provider, claimedJob, batchSize, timeBudgetMs)
+    } catch (error) {
+      await updateJob(supabase, claimedJob.id, {
+        status: 'failed',
+        last_error: error.message,
+        lease_expires_at: null,
+        finished_at: new Date().toISOString()
+      })
+      throw error
     }
 
     const response = {
       success: true,
-      message: `Embedding synchronization completed`,
-      totalRecipes: recipes.length,
-      recipesNeedingEmbeddings: recipesToProcess.length,
-      processed: totalProcessed,
+      message: finishedJob.status === 'completed'
+        ? 'Embedding synchronization completed'
+        : 'Embedding synchronization paused, run again to continue',
+      job: finishedJob,
+      embeddingProvider: provider.key,
+      embeddingVersion: provider.version,
       datasetEnabled: isDatasetEnabled,
-      errors: errors.length > 0 ? errors : undefined,
       timestamp: new Date().toISOString()
     }
 
-    console.log('Sync completed:', response)
+    console.log('Sync run finished:', response)
 
-    return new Response(
-      JSON.stringify(response),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    return jsonResponse(response)
   } catch (error) {
     console.error('Sync error:', error)
     return new Response(
-      JSON.stringify({ 
-        success: false, 
+      JSON.stringify({
+        success: false,
         error: error.message,
         timestamp: new Date().toISOString()
       }),
-      { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     )
   }
 })
 
-async function checkDatasetFeature(supabase: any): Promise<boolean> {
-  try {
-    // Check feature flag from database
-    const { data: featureFlags, error } = await supabase
-      .from('feature_flags')
-      .select('enabled')
-      .eq('name', 'dataset')
-      .single()
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
 
-    if (error) {
-      console.warn('Could not fetch dataset feature flag:', error.message)
-      return true // Default to enabled for sync operations
+/**
+ * The signed-in user the bearer token belongs to, or null for the anon key
+ * and other tokens that are not a user session
+ */
+async function getRequestUserId(supabase: SupabaseClient, token: string | undefined): Promise<string | null> {
+  if (!token) return null
+
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error) return null
+
+  return data.user?.id ?? null
+}
+
+async function getSyncStatus(supabase: SupabaseClient, jobId?: string) {
+  let query = supabase
+    .from('embedding_sync_jobs')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(1)
+
+  if (jobId) {
+    query = query.eq('id', jobId)
+  }
+
+  const { data: jobs, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to fetch sync job: ${error.message}`)
+  }
+
+  const job: SyncJob | null = jobs?.[0] || null
+  let recentErrors: { recipe_id: string; error: string; attempts: number; updated_at: string }[] = []
+
+  if (job) {
+    const { data: errors, error: errorsError } = await supabase
+      .from('embedding_sync_errors')
+      .select('recipe_id, error, attempts, updated_at')
+      .eq('job_id', job.id)
+      .order('updated_at', { ascending: false })
+      .limit(10)
+
+    if (errorsError) {
+      console.warn('Could not fetch sync errors:', errorsError.message)
     }
+    recentErrors = errors || []
+  }
 
-    const isEnabled = featureFlags?.enabled ?? true
-    console.log(`Dataset feature flag: ${isEnabled ? 'enabled' : 'disabled'}`)
-    return isEnabled
-  } catch (error) {
-    console.warn('Error checking dataset feature flag:', error)
-    return true // Default to enabled for sync operations
+  return {
+    success: true,
+    job,
+    // A running job nobody holds a lease on is waiting for the next run
+    active: !!job && job.status === 'running' && !!job.lease_expires_at && new Date(job.lease_expires_at) > new Date(),
+    recentErrors,
+    timestamp: new Date().toISOString()
   }
 }
 
-async function processBatch(
-  recipes: RecipeData[], 
-  supabase: any
-): Promise<{ processed: number; errors: string[] }> {
-  const embeddingsToInsert = []
-  const errors: string[] = []
+/**
+ * The running job for the current provider, or a new one covering every
+ * recipe whose vector is missing or out of date; null when there are none,
+ * so cron runs with nothing to do leave no empty jobs behind
+ */
+async function findOrCreateJob(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  options: SyncOptions
+): Promise<SyncJob | null> {
+  const { data: runningJobs, error: runningError } = await supabase
+    .from('embedding_sync_jobs')
+    .select('*')
+    .eq('status', 'running')
+    .order('started_at', { ascending: false })
+
+  if (runningError) {
+    throw new Error(`Failed to fetch sync jobs: ${runningError.message}`)
+  }
+
+  for (const job of (runningJobs || []) as SyncJob[]) {
+    const sameSpace = job.embedding_provider === provider.key &&
+      job.embedding_version === provider.version &&
+      job.embedding_dimension === provider.dimension
 
-  for (const recipe of recipes) {
-    try {
-      const content = createRecipeContent(recipe)
-      const embedding = await generateEmbedding(content)
-      
-      embeddingsToInsert.push({
-        recipe_id: recipe.id,
-        embedding: embedding,
-        content: content
+    if (sameSpace && !options.restart) {
+      return job
+    }
+
+    await updateJob(supabase, job.id, {
+      status: 'cancelled',
+      lease_expires_at: null,
+      finished_at: new Date().toISOString()
+    })
+  }
+
+  const minLoves = Math.max(options.minLoves ?? 0, 0)
+  const { data: total, error: countError } = await supabase.rpc('count_recipes_needing_embeddings', {
+    target_provider: provider.key,
+    target_version: provider.version,
+    target_dimension: provider.dimension,
+    min_loves: minLoves,
+    max_attempts: MAX_ATTEMPTS
+  })
+
+  if (countError) {
+    throw new Error(`Failed to count recipes needing embeddings: ${countError.message}`)
+  }
+
+  if (!total) return null
+
+  const { data: job, error: insertError } = await supabase
+    .from('embedding_sync_jobs')
+    .insert({
+      status: 'running',
+      embedding_provider: provider.key,
+      embedding_version: provider.version,
+      embedding_dimension: provider.dimension,
+      min_loves: minLoves,
+      total
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    throw new Error(`Failed to create sync job: ${insertError.message}`)
+  }
+
+  console.log(`Created sync job ${job.id} for ${total} recipes`)
+  return job
+}
+
+/**
+ * Take the job's lease; null when another run holds it
+ */
+async function claimJob(supabase: SupabaseClient, jobId: string): Promise<SyncJob | null> {
+  const now = new Date()
+  const { data, error } = await supabase
+    .from('embedding_sync_jobs')
+    .update({ lease_expires_at: new Date(now.getTime() + LEASE_MS).toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .or(`lease_expires_at.is.null,lease_expires_at.lt."${now.toISOString()}"`)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to claim sync job: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Embed batches after the job's cursor until the backlog is empty or the time
+ * budget is spent, saving progress after every batch. The cursor is only
+ * moved, and the job only completed, while its `rescan_count` is the one this
+ * run read; when ingestion rewound the job in the meantime, the run carries
+ * on from the rewound cursor instead.
+ */
+async function runJob(
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  job: SyncJob,
+  batchSize: number,
+  timeBudgetMs: number
+): Promise<SyncJob> {
+  const startedAt = Date.now()
+  let current = job
+
+  while (Date.now() - startedAt < timeBudgetMs) {
+    const { data: recipes, error } = await supabase.rpc('recipes_needing_embeddings', {
+      target_provider: provider.key,
+      target_version: provider.version,
+      target_dimension: provider.dimension,
+      min_loves: current.min_loves,
+      after_id: current.cursor,
+      max_attempts: MAX_ATTEMPTS,
+      batch_size: batchSize
+    })
+
+    if (error) {
+      throw new Error(`Failed to fetch recipes needing embeddings: ${error.message}`)
+    }
+
+    if (!recipes || recipes.length === 0) {
+      const completed = await updateJobIfNotRewound(supabase, current, {
+        status: 'completed',
+        lease_expires_at: null,
+        finished_at: new Date().toISOString()
       })
-    } catch (error) {
-      console.error(`Error processing recipe ${recipe.id}:`, error)
-      errors.push(`Recipe ${recipe.id}: ${error.message}`)
+      if (completed) return completed
+
+      current = await getJob(supabase, current.id)
+      continue
+    }
+
+    const result = await embedRecipes(recipes, provider, supabase)
+    await recordResults(supabase, current.id, result)
+
+    const progress = {
+      processed: current.processed + result.embedded.length,
+      failed: current.failed + result.failed.length,
+      last_error: result.failed.length > 0 ? result.failed[result.failed.length - 1].error : current.last_error
     }
+    current = await updateJobIfNotRewound(supabase, current, { ...progress, cursor: recipes[recipes.length - 1].id }) ??
+      await updateJob(supabase, current.id, progress)
   }
 
-  // Insert embeddings into database
-  if (embeddingsToInsert.length > 0) {
+  return updateJob(supabase, current.id, { lease_expires_at: null })
+}
+
+/**
+ * Clear the error rows of recipes that were embedded and count another
+ * attempt for the ones that failed
+ */
+async function recordResults(supabase: SupabaseClient, jobId: string, result: EmbedResult): Promise<void> {
+  if (result.embedded.length > 0) {
     const { error } = await supabase
-      .from('recipe_embeddings')
-      .upsert(embeddingsToInsert, { 
-        onConflict: 'recipe_id',
-        ignoreDuplicates: false 
-      })
+      .from('embedding_sync_errors')
+      .delete()
+      .in('recipe_id', result.embedded)
 
     if (error) {
-      console.error('Database insertion error:', error)
-      errors.push(`Database insertion: ${error.message}`)
-      return { processed: 0, errors }
+      console.warn('Could not clear sync errors:', error.message)
     }
+  }
+
+  if (result.failed.length === 0) return
+
+  const { data: previous } = await supabase
+    .from('embedding_sync_errors')
+    .select('recipe_id, attempts')
+    .in('recipe_id', result.failed.map(failure => failure.recipeId))
+
+  const attempts = new Map((previous || []).map(row => [row.recipe_id, row.attempts]))
+  const { error } = await supabase
+    .from('embedding_sync_errors')
+    .upsert(result.failed.map(failure => ({
+      recipe_id: failure.recipeId,
+      job_id: jobId,
+      error: failure.error,
+      attempts: (attempts.get(failure.recipeId) || 0) + 1
+    })), { onConflict: 'recipe_id' })
+
+  if (error) {
+    console.warn('Could not record sync errors:', error.message)
+  }
+}
+
+async function getLatestJob(supabase: SupabaseClient): Promise<SyncJob | null> {
+  const { data, error } = await supabase
+    .from('embedding_sync_jobs')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
 
-    console.log(`Successfully inserted ${embeddingsToInsert.length} embeddings`)
+  if (error) {
+    throw new Error(`Failed to fetch sync job: ${error.message}`)
   }
 
-  return { 
-    processed: embeddingsToInsert.length, 
-    errors 
+  return data
+}
+
+async function getJob(supabase: SupabaseClient, jobId: string): Promise<SyncJob> {
+  const { data, error } = await supabase
+    .from('embedding_sync_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to fetch sync job: ${error.message}`)
   }
+
+  return data
 }
 
-function createRecipeContent(recipe: RecipeData): string {
-  const parts = [
-    recipe.title || '',
-    recipe.ingredients || '',
-    recipe.steps || '',
-  ]
-  
-  return parts
-    .filter(part => part && part.length > 0)
-    .join(' ')
-    .substring(0, 2000) // Limit total content length
+/**
+ * Apply `updates` unless the job was rewound since `job` was read; null when
+ * it was
+ */
+async function updateJobIfNotRewound(
+  supabase: SupabaseClient,
+  job: SyncJob,
+  updates: Partial<SyncJob>
+): Promise<SyncJob | null> {
+  const { data, error } = await supabase
+    .from('embedding_sync_jobs')
+    .update(updates)
+    .eq('id', job.id)
+    .eq('rescan_count', job.rescan_count)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to update sync job: ${error.message}`)
+  }
+
+  return data
 }
 
-async function generateEmbedding(text: string): Promise<number[]> {
-  const EMBEDDING_DIMENSION = 384
-  const words = text.toLowerCase().split(/\s+/)
-  const embedding = new Array(EMBEDDING_DIMENSION).fill(0)
-  
-  // Create features based on text characteristics
-  words.forEach((word, index) => {
-    if (word.length > 2) {
-      // Hash-based positioning
-      const hash = simpleHash(word)
-      const position = Math.abs(hash) % EMBEDDING_DIMENSION
-      
-      // Weight by position and word frequency
-      embedding[position] += 1 / (index + 1)
-      
-      // Add character-level features
-      for (let i = 0; i < word.length - 1; i++) {
-        const bigramHash = simpleHash(word.substring(i, i + 2))
-        const bigramPos = Math.abs(bigramHash) % EMBEDDING_DIMENSION
-        embedding[bigramPos] += 0.5 / (index + 1)
-      }
-    }
-  })
+async function updateJob(supabase: SupabaseClient, jobId: string, updates: Partial<SyncJob>): Promise<SyncJob> {
+  const { data, error } = await supabase
+    .from('embedding_sync_jobs')
+    .update(updates)
+    .eq('id', jobId)
+    .select()
+    .single()
 
-  // Add text-level features
-  embedding[0] = words.length / 100 // Text length feature
-  embedding[1] = (text.match(/[a-zA-Z]/g) || []).length / text.length // Letter ratio
-  embedding[2] = (text.match(/\d/g) || []).length / text.length // Digit ratio
-  
-  // Normalize the embedding
-  const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0))
-  if (magnitude > 0) {
-    return embedding.map(val => val / magnitude)
+  if (error) {
+    throw new Error(`Failed to update sync job: ${error.message}`)
   }
-  
-  return embedding
+
+  return data
 }
 
-function simpleHash(str: string): number {
-  let hash = 0
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i)
-    hash = ((hash << 5) - hash) + char
-    hash = hash & hash // Convert to 32-bit integer
+async function checkDatasetFeature(supabase: SupabaseClient): Promise<boolean> {
+  try {
+    // Check feature flag from database
+    const { data: featureFlags, error } = await supabase
+      .from('feature_flags')
+      .select('enabled')
+      .eq('name', 'dataset')
+      .single()
+
+    if (error) {
+      console.warn('Could not fetch dataset feature flag:', error.message)
+      return true // Default to enabled for sync operations
+    }
+
+    const isEnabled = featureFlags?.enabled ?? true
+    console.log(`Dataset feature flag: ${isEnabled ? 'enabled' : 'disabled'}`)
+    return isEnabled
+  } catch (error) {
+    console.warn('Error checking dataset feature flag:', error)
+    return true // Default to enabled for sync operations
   }
-  return hash
-}
\ No newline at end of file
+}
@@ -0,0 +1,60 @@
+/*
+  # Add cooking events for pantry deduction
+
+  1. New Tables
+    - `cooking_events`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `recipe_id` (text, id of the cooked recipe; may be a dataset or AI recipe id)
+      - `recipe_name` (text)
+      - `meal_date` (date, the planned date the meal was cooked for)
+      - `servings` (integer, number of servings the deduction was scaled to)
+      - `changes` (jsonb, pantry quantity changes: ingredient_id, name, unit,
+        previous_quantity, new_quantity)
+      - `reverted_at` (timestamp, nullable, set when the deduction was undone)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `cooking_events` table
+    - Users can only read, insert and update their own cooking events
+
+  3. Indexes
+    - Index on user_id and meal_date for looking up cooked meals of a week
+*/
+
+CREATE TABLE IF NOT EXISTS cooking_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  recipe_id text NOT NULL,
+  recipe_name text NOT NULL,
+  meal_date date NOT NULL,
+  servings integer NOT NULL DEFAULT 1 CHECK (servings > 0),
+  changes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  reverted_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE cooking_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own cooking events"
+  ON cooking_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own cooking events"
+  ON cooking_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own cooking events"
+  ON cooking_events
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS cooking_events_user_id_meal_date_idx ON cooking_events(user_id, meal_date);
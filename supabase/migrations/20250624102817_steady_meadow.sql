@@ -0,0 +1,119 @@
+/*
+  # Planned meals with slots for weekly plans
+
+  1. New Tables
+    - `planned_meals`
+      - `id` (uuid, primary key)
+      - `daily_meal_id` (uuid, foreign key to daily_meals)
+      - `recipe_id` (uuid, foreign key to recipes)
+      - `slot` (text, one of breakfast, lunch, dinner, snack, custom)
+      - `slot_label` (text, nullable, name of a custom slot)
+      - `position` (integer, order of the meal within the day)
+      - `servings` (integer, nullable, overrides the plan's people count)
+      - `notes` (text, nullable)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Add `people_count` to `weekly_plans`
+    - Copy the recipes in `daily_meals.breakfast_recipe_id`, `lunch_recipe_id`
+      and `dinner_recipe_id` into `planned_meals`. The old columns are kept
+      for existing data but are no longer written by the app.
+
+  3. Security
+    - Enable RLS on `planned_meals` table
+    - Users can only manage planned meals of their own weekly plans
+
+  4. Indexes
+    - Index on daily_meal_id and position for loading a day in order
+*/
+
+ALTER TABLE weekly_plans
+  ADD COLUMN IF NOT EXISTS people_count integer NOT NULL DEFAULT 4 CHECK (people_count > 0);
+
+CREATE TABLE IF NOT EXISTS planned_meals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  daily_meal_id uuid REFERENCES daily_meals(id) ON DELETE CASCADE NOT NULL,
+  recipe_id uuid REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
+  slot text NOT NULL DEFAULT 'custom' CHECK (slot IN ('breakfast', 'lunch', 'dinner', 'snack', 'custom')),
+  slot_label text,
+  position integer NOT NULL DEFAULT 0,
+  servings integer CHECK (servings IS NULL OR servings > 0),
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE planned_meals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read planned meals for own weekly plans"
+  ON planned_meals
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM daily_meals
+      JOIN weekly_plans ON weekly_plans.id = daily_meals.weekly_plan_id
+      WHERE daily_meals.id = planned_meals.daily_meal_id
+      AND weekly_plans.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert planned meals for own weekly plans"
+  ON planned_meals
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM daily_meals
+      JOIN weekly_plans ON weekly_plans.id = daily_meals.weekly_plan_id
+      WHERE daily_meals.id = planned_meals.daily_meal_id
+      AND weekly_plans.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update planned meals for own weekly plans"
+  ON planned_meals
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM daily_meals
+      JOIN weekly_plans ON weekly_plans.id = daily_meals.weekly_plan_id
+      WHERE daily_meals.id = planned_meals.daily_meal_id
+      AND weekly_plans.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete planned meals for own weekly plans"
+  ON planned_meals
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM daily_meals
+      JOIN weekly_plans ON weekly_plans.id = daily_meals.weekly_plan_id
+      WHERE daily_meals.id = planned_meals.daily_meal_id
+      AND weekly_plans.user_id = auth.uid()
+    )
+  );
+
+-- Move existing breakfast/lunch/dinner assignments into planned_meals
+INSERT INTO planned_meals (daily_meal_id, recipe_id, slot, position)
+SELECT daily_meal_id, recipe_id, slot, position
+FROM (
+  SELECT id AS daily_meal_id, breakfast_recipe_id AS recipe_id, 'breakfast' AS slot, 0 AS position
+  FROM daily_meals WHERE breakfast_recipe_id IS NOT NULL
+  UNION ALL
+  SELECT id, lunch_recipe_id, 'lunch', 1
+  FROM daily_meals WHERE lunch_recipe_id IS NOT NULL
+  UNION ALL
+  SELECT id, dinner_recipe_id, 'dinner', 2
+  FROM daily_meals WHERE dinner_recipe_id IS NOT NULL
+) AS legacy_meals
+WHERE NOT EXISTS (
+  SELECT 1 FROM planned_meals
+  WHERE planned_meals.daily_meal_id = legacy_meals.daily_meal_id
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS planned_meals_daily_meal_id_position_idx ON planned_meals(daily_meal_id, position);
@@ -0,0 +1,33 @@
+/*
+  # Plan dataset and AI recipes in weekly plans
+
+  1. Changes
+    - `planned_meals.recipe_source` (text, one of user, dataset, ai)
+    - `planned_meals.dataset_recipe_id` (uuid, nullable, foreign key to dataset_recipes)
+    - `planned_meals.recipe_snapshot` (jsonb, nullable, copy of a dataset or AI
+      recipe with its ingredients at the time it was planned)
+    - `planned_meals.recipe_id` is now nullable; it is only required for the
+      user's own recipes
+
+  2. Notes
+    - Dataset and AI recipes are not imported into `recipes`, so they do not
+      show up in the user's recipe collection. The snapshot keeps the meal
+      intact even if the dataset recipe is removed later.
+*/
+
+ALTER TABLE planned_meals
+  ADD COLUMN IF NOT EXISTS recipe_source text NOT NULL DEFAULT 'user'
+    CHECK (recipe_source IN ('user', 'dataset', 'ai')),
+  ADD COLUMN IF NOT EXISTS dataset_recipe_id uuid REFERENCES dataset_recipes(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS recipe_snapshot jsonb;
+
+ALTER TABLE planned_meals ALTER COLUMN recipe_id DROP NOT NULL;
+
+-- Every planned meal must point at something it can be shown from
+ALTER TABLE planned_meals DROP CONSTRAINT IF EXISTS planned_meals_recipe_reference_check;
+ALTER TABLE planned_meals ADD CONSTRAINT planned_meals_recipe_reference_check CHECK (
+  (recipe_source = 'user' AND recipe_id IS NOT NULL)
+  OR (recipe_source <> 'user' AND recipe_snapshot IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS planned_meals_dataset_recipe_id_idx ON planned_meals(dataset_recipe_id);
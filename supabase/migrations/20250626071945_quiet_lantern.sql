@@ -0,0 +1,10 @@
+/*
+  # Lock planned meals
+
+  1. Changes
+    - `planned_meals.locked` (boolean, default false). Locked meals are kept
+      in place when the weekly plan is regenerated.
+*/
+
+ALTER TABLE planned_meals
+  ADD COLUMN IF NOT EXISTS locked boolean NOT NULL DEFAULT false;
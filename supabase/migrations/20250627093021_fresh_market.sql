@@ -0,0 +1,142 @@
+/*
+  # Persistent shopping lists
+
+  1. New Tables
+    - `shopping_lists`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `name` (text)
+      - `weekly_plan_ids` (uuid[], the weekly plans the list was built from)
+      - `created_at`, `updated_at` (timestamps)
+    - `shopping_list_items`
+      - `id` (uuid, primary key)
+      - `shopping_list_id` (uuid, foreign key to shopping_lists)
+      - `name` (text)
+      - `quantity` (numeric)
+      - `unit` (text)
+      - `category` (text, pantry category used when the item is moved to the pantry)
+      - `checked` (boolean, bought)
+      - `is_manual` (boolean, added by hand rather than from a plan)
+      - `added_to_pantry_at` (timestamp, nullable, set once moved into ingredients)
+      - `position` (integer)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables
+    - Users can only manage their own shopping lists and the items in them
+
+  3. Indexes
+    - Index on shopping_lists.user_id
+    - Index on shopping_list_items.shopping_list_id
+*/
+
+CREATE TABLE IF NOT EXISTS shopping_lists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  weekly_plan_ids uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS shopping_list_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shopping_list_id uuid REFERENCES shopping_lists(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  quantity numeric NOT NULL DEFAULT 1 CHECK (quantity >= 0),
+  unit text NOT NULL DEFAULT 'piece',
+  category text NOT NULL DEFAULT 'vegetables',
+  checked boolean NOT NULL DEFAULT false,
+  is_manual boolean NOT NULL DEFAULT false,
+  added_to_pantry_at timestamptz,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE shopping_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shopping_list_items ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for shopping_lists
+CREATE POLICY "Users can read own shopping lists"
+  ON shopping_lists
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own shopping lists"
+  ON shopping_lists
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own shopping lists"
+  ON shopping_lists
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own shopping lists"
+  ON shopping_lists
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create policies for shopping_list_items
+CREATE POLICY "Users can read items of own shopping lists"
+  ON shopping_list_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shopping_lists
+      WHERE shopping_lists.id = shopping_list_items.shopping_list_id
+      AND shopping_lists.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert items of own shopping lists"
+  ON shopping_list_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shopping_lists
+      WHERE shopping_lists.id = shopping_list_items.shopping_list_id
+      AND shopping_lists.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update items of own shopping lists"
+  ON shopping_list_items
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shopping_lists
+      WHERE shopping_lists.id = shopping_list_items.shopping_list_id
+      AND shopping_lists.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete items of own shopping lists"
+  ON shopping_list_items
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shopping_lists
+      WHERE shopping_lists.id = shopping_list_items.shopping_list_id
+      AND shopping_lists.user_id = auth.uid()
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS shopping_lists_user_id_idx ON shopping_lists(user_id);
+CREATE INDEX IF NOT EXISTS shopping_list_items_shopping_list_id_idx ON shopping_list_items(shopping_list_id);
+
+-- Keep updated_at current
+CREATE TRIGGER update_shopping_lists_updated_at
+  BEFORE UPDATE ON shopping_lists
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,124 @@
+/*
+  # Expiry digest notifications
+
+  1. New Tables
+    - `notification_settings`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, unique, foreign key to auth.users)
+      - `expiry_digest_enabled` (boolean, opt-out of the expiry digest)
+      - `expiry_window_days` (integer, 1-30, how far ahead to look)
+      - `digest_frequency` (text, 'daily' or 'weekly')
+      - `email_enabled` (boolean, also send the digest by email)
+      - `last_digest_at` (timestamp, nullable, when the last digest was written)
+      - `created_at`, `updated_at` (timestamps)
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `type` (text, e.g. 'expiry_digest')
+      - `title` (text)
+      - `body` (text)
+      - `data` (jsonb, structured payload such as the expiring items)
+      - `read_at` (timestamp, nullable)
+      - `emailed_at` (timestamp, nullable)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables
+    - Users can manage their own notification settings
+    - Users can read, mark as read and delete their own notifications;
+      notifications are written by the `expiry-digest` edge function with
+      the service role
+
+  3. Indexes
+    - Index on notification_settings.user_id (unique)
+    - Index on notifications(user_id, read_at) for unread lookups
+
+  4. Scheduling
+    - The `expiry-digest` function is meant to run on a schedule, e.g. hourly
+      with pg_cron and pg_net:
+        select cron.schedule('expiry-digest', '0 * * * *', $$
+          select net.http_post(
+            url := '<project-url>/functions/v1/expiry-digest',
+            headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+          );
+        $$);
+      Each user's frequency is enforced by the function through
+      `last_digest_at`, so running it more often than daily is safe.
+*/
+
+CREATE TABLE IF NOT EXISTS notification_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  expiry_digest_enabled boolean NOT NULL DEFAULT true,
+  expiry_window_days integer NOT NULL DEFAULT 3 CHECK (expiry_window_days BETWEEN 1 AND 30),
+  digest_frequency text NOT NULL DEFAULT 'daily' CHECK (digest_frequency IN ('daily', 'weekly')),
+  email_enabled boolean NOT NULL DEFAULT false,
+  last_digest_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL DEFAULT 'expiry_digest',
+  title text NOT NULL,
+  body text NOT NULL DEFAULT '',
+  data jsonb NOT NULL DEFAULT '{}',
+  read_at timestamptz,
+  emailed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE notification_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for notification_settings
+CREATE POLICY "Users can read own notification settings"
+  ON notification_settings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification settings"
+  ON notification_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification settings"
+  ON notification_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policies for notifications
+CREATE POLICY "Users can read own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS notifications_user_id_read_at_idx ON notifications(user_id, read_at);
+CREATE INDEX IF NOT EXISTS notifications_created_at_idx ON notifications(created_at DESC);
+
+-- Keep updated_at current
+CREATE TRIGGER update_notification_settings_updated_at
+  BEFORE UPDATE ON notification_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,122 @@
+/*
+  # Version recipe embeddings
+
+  The web app and the edge functions used to build vectors with different
+  algorithms, so a query vector from the client fallback was compared with
+  recipe vectors from another space. Both now share
+  `supabase/functions/_shared/embedding.ts`, and every vector records the
+  version of that module it was built with.
+
+  1. Changes
+    - `recipe_embeddings.embedding_version` (integer, not null)
+      - Existing rows are marked as version 1 (the legacy algorithm);
+        `sync-embeddings` re-embeds them with the current version
+
+  2. Functions
+    - `find_similar_recipes` and `search_recipes_by_text` take a required
+      `query_embedding_version` and only compare against vectors of that
+      version; a missing version is rejected
+
+  3. Indexes
+    - Index on recipe_embeddings.embedding_version
+*/
+
+ALTER TABLE recipe_embeddings
+  ADD COLUMN IF NOT EXISTS embedding_version integer NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS recipe_embeddings_embedding_version_idx
+  ON recipe_embeddings (embedding_version);
+
+-- The old signatures would stay callable as overloads, so drop them first
+DROP FUNCTION IF EXISTS find_similar_recipes(vector, integer, float, integer);
+DROP FUNCTION IF EXISTS search_recipes_by_text(vector, float, integer);
+
+-- Function to find similar recipes based on ingredient embeddings
+CREATE OR REPLACE FUNCTION find_similar_recipes(
+  query_embedding vector(384),
+  query_embedding_version integer,
+  min_loves integer DEFAULT 50,
+  similarity_threshold float DEFAULT 0.3,
+  match_count integer DEFAULT 12
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  ingredients text,
+  steps text,
+  loves_count integer,
+  url text,
+  similarity_score float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF query_embedding_version IS NULL THEN
+    RAISE EXCEPTION 'query_embedding_version is required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dr.id,
+    dr.title,
+    dr.ingredients,
+    dr.steps,
+    dr.loves_count,
+    dr.url,
+    1 - (re.embedding <=> query_embedding) as similarity_score
+  FROM dataset_recipes dr
+  JOIN recipe_embeddings re ON dr.id = re.recipe_id
+  WHERE dr.user_id IS NULL
+    AND re.embedding_version = query_embedding_version
+    AND dr.loves_count >= min_loves
+    AND 1 - (re.embedding <=> query_embedding) >= similarity_threshold
+  ORDER BY re.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Function to search recipes by text query
+CREATE OR REPLACE FUNCTION search_recipes_by_text(
+  query_embedding vector(384),
+  query_embedding_version integer,
+  similarity_threshold float DEFAULT 0.4,
+  match_count integer DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  ingredients text,
+  steps text,
+  loves_count integer,
+  url text,
+  similarity_score float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF query_embedding_version IS NULL THEN
+    RAISE EXCEPTION 'query_embedding_version is required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dr.id,
+    dr.title,
+    dr.ingredients,
+    dr.steps,
+    dr.loves_count,
+    dr.url,
+    1 - (re.embedding <=> query_embedding) as similarity_score
+  FROM dataset_recipes dr
+  JOIN recipe_embeddings re ON dr.id = re.recipe_id
+  WHERE dr.user_id IS NULL
+    AND re.embedding_version = query_embedding_version
+    AND 1 - (re.embedding <=> query_embedding) >= similarity_threshold
+  ORDER BY re.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION find_similar_recipes TO authenticated;
+GRANT EXECUTE ON FUNCTION search_recipes_by_text TO authenticated;
@@ -0,0 +1,185 @@
+/*
+  # Pluggable embedding providers
+
+  Recipe vectors can now come from the built-in hashing embedding, a local
+  sentence-embedding model served over HTTP, or Gemini. Vectors from
+  different providers are not comparable, and their dimensions differ.
+
+  1. Changes
+    - `recipe_embeddings.embedding_provider` (text, not null, default 'hashing')
+      - Provider plus model, e.g. 'local:paraphrase-multilingual-MiniLM-L12-v2'
+    - `recipe_embeddings.embedding_dimension` (integer, not null, default 384)
+    - `recipe_embeddings.embedding` is now nullable, so rows survive a resize
+      of the vector column until they are re-embedded
+
+  2. Functions
+    - `prepare_embedding_column(target_dimension)` resizes the vector column
+      and its index when the provider's dimension differs, clearing the
+      existing vectors. Service role only; called by `sync-embeddings` and
+      `reembed-recipes`.
+    - `find_similar_recipes` and `search_recipes_by_text` accept vectors of
+      any dimension and take a required `query_embedding_provider`; they
+      only compare against vectors of the same provider, version and
+      dimension
+
+  3. Indexes
+    - Index on recipe_embeddings(embedding_provider, embedding_version, embedding_dimension)
+*/
+
+ALTER TABLE recipe_embeddings
+  ADD COLUMN IF NOT EXISTS embedding_provider text NOT NULL DEFAULT 'hashing',
+  ADD COLUMN IF NOT EXISTS embedding_dimension integer NOT NULL DEFAULT 384;
+
+ALTER TABLE recipe_embeddings ALTER COLUMN embedding DROP NOT NULL;
+
+DROP INDEX IF EXISTS recipe_embeddings_embedding_version_idx;
+CREATE INDEX IF NOT EXISTS recipe_embeddings_space_idx
+  ON recipe_embeddings (embedding_provider, embedding_version, embedding_dimension);
+
+-- Resize the vector column for a provider with another dimension
+CREATE OR REPLACE FUNCTION prepare_embedding_column(target_dimension integer)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_dimension integer;
+BEGIN
+  IF target_dimension IS NULL OR target_dimension < 1 OR target_dimension > 2000 THEN
+    RAISE EXCEPTION 'Unsupported embedding dimension: %', target_dimension;
+  END IF;
+
+  -- pgvector stores the dimension as the column's type modifier
+  SELECT atttypmod INTO current_dimension
+  FROM pg_attribute
+  WHERE attrelid = 'public.recipe_embeddings'::regclass
+    AND attname = 'embedding';
+
+  IF current_dimension = target_dimension THEN
+    RETURN false;
+  END IF;
+
+  DROP INDEX IF EXISTS recipe_embeddings_embedding_idx;
+
+  -- Vectors of the old dimension cannot be cast; the rows stay so the
+  -- re-embedding job knows which recipes to embed again
+  UPDATE recipe_embeddings SET embedding = NULL;
+
+  EXECUTE format(
+    'ALTER TABLE recipe_embeddings ALTER COLUMN embedding TYPE vector(%s) USING NULL',
+    target_dimension
+  );
+
+  CREATE INDEX recipe_embeddings_embedding_idx
+    ON recipe_embeddings USING ivfflat (embedding vector_cosine_ops)
+    WITH (lists = 100);
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION prepare_embedding_column FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION prepare_embedding_column TO service_role;
+
+-- Replace the search functions with provider-aware versions
+DROP FUNCTION IF EXISTS find_similar_recipes(vector, integer, integer, float, integer);
+DROP FUNCTION IF EXISTS search_recipes_by_text(vector, integer, float, integer);
+
+-- Function to find similar recipes based on ingredient embeddings
+CREATE OR REPLACE FUNCTION find_similar_recipes(
+  query_embedding vector,
+  query_embedding_provider text,
+  query_embedding_version integer,
+  min_loves integer DEFAULT 50,
+  similarity_threshold float DEFAULT 0.3,
+  match_count integer DEFAULT 12
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  ingredients text,
+  steps text,
+  loves_count integer,
+  url text,
+  similarity_score float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF query_embedding_provider IS NULL OR query_embedding_version IS NULL THEN
+    RAISE EXCEPTION 'query_embedding_provider and query_embedding_version are required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dr.id,
+    dr.title,
+    dr.ingredients,
+    dr.steps,
+    dr.loves_count,
+    dr.url,
+    1 - (re.embedding <=> query_embedding) as similarity_score
+  FROM dataset_recipes dr
+  JOIN recipe_embeddings re ON dr.id = re.recipe_id
+  WHERE dr.user_id IS NULL
+    AND re.embedding IS NOT NULL
+    AND re.embedding_provider = query_embedding_provider
+    AND re.embedding_version = query_embedding_version
+    AND re.embedding_dimension = vector_dims(query_embedding)
+    AND dr.loves_count >= min_loves
+    AND 1 - (re.embedding <=> query_embedding) >= similarity_threshold
+  ORDER BY re.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Function to search recipes by text query
+CREATE OR REPLACE FUNCTION search_recipes_by_text(
+  query_embedding vector,
+  query_embedding_provider text,
+  query_embedding_version integer,
+  similarity_threshold float DEFAULT 0.4,
+  match_count integer DEFAULT 10
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  ingredients text,
+  steps text,
+  loves_count integer,
+  url text,
+  similarity_score float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF query_embedding_provider IS NULL OR query_embedding_version IS NULL THEN
+    RAISE EXCEPTION 'query_embedding_provider and query_embedding_version are required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    dr.id,
+    dr.title,
+    dr.ingredients,
+    dr.steps,
+    dr.loves_count,
+    dr.url,
+    1 - (re.embedding <=> query_embedding) as similarity_score
+  FROM dataset_recipes dr
+  JOIN recipe_embeddings re ON dr.id = re.recipe_id
+  WHERE dr.user_id IS NULL
+    AND re.embedding IS NOT NULL
+    AND re.embedding_provider = query_embedding_provider
+    AND re.embedding_version = query_embedding_version
+    AND re.embedding_dimension = vector_dims(query_embedding)
+    AND 1 - (re.embedding <=> query_embedding) >= similarity_threshold
+  ORDER BY re.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION find_similar_recipes TO authenticated;
+GRANT EXECUTE ON FUNCTION search_recipes_by_text TO authenticated;
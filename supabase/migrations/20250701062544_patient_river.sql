@@ -0,0 +1,188 @@
+/*
+  # Incremental, resumable embedding sync
+
+  `sync-embeddings` used to skip every recipe that already had a vector, so
+  edited recipes kept stale vectors, and it only looked at the 500 most loved
+  recipes with 50+ loves. It now works through every dataset recipe whose
+  vector is missing or out of date, in recipe id order, recording its
+  progress so a run can pick up where the last one stopped.
+
+  1. Changes
+    - `dataset_recipes.content_hash` (text) - md5 of title, ingredients and
+      steps, kept current by a trigger
+    - `recipe_embeddings.content_hash` (text, nullable) - the recipe hash the
+      vector was built from; existing rows have none and are re-embedded once
+
+  2. New Tables
+    - `embedding_sync_jobs`
+      - `id` (uuid, primary key)
+      - `status` (text, 'running' | 'completed' | 'failed' | 'cancelled')
+      - `embedding_provider`, `embedding_version`, `embedding_dimension`
+        (the space the job embeds into)
+      - `min_loves` (integer, only recipes with at least this many loves)
+      - `cursor` (uuid, nullable, last recipe id handled)
+      - `total` (integer, recipes pending when the job started)
+      - `processed`, `failed` (integers)
+      - `last_error` (text, nullable)
+      - `lease_expires_at` (timestamp, nullable, held while a run is working)
+      - `started_at`, `finished_at`, `updated_at` (timestamps)
+    - `embedding_sync_errors`
+      - `recipe_id` (uuid, primary key, foreign key to dataset_recipes)
+      - `job_id` (uuid, nullable, foreign key to embedding_sync_jobs)
+      - `error` (text)
+      - `attempts` (integer, recipes are retried until MAX attempts)
+      - `created_at`, `updated_at` (timestamps)
+
+  3. Functions
+    - `recipes_needing_embeddings(...)` - next batch of dataset recipes after
+      a cursor whose vector is missing, from another provider/version/
+      dimension, or built from other content
+    - `count_recipes_needing_embeddings(...)` - size of that backlog
+
+  4. Feature Flags
+    - `embeddingAdmin` (disabled) shows the sync status panel in the AI
+      assistant tab
+
+  5. Security
+    - Enable RLS on both tables without policies; only the service role used
+      by the edge functions reads and writes them. Users see progress
+      through the `sync-embeddings` status action.
+    - The functions are only executable by the service role
+*/
+
+-- Content hash on recipes
+ALTER TABLE dataset_recipes ADD COLUMN IF NOT EXISTS content_hash text;
+
+CREATE OR REPLACE FUNCTION set_recipe_content_hash()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.content_hash = md5(concat_ws(E'\n', coalesce(NEW.title, ''), coalesce(NEW.ingredients, ''), coalesce(NEW.steps, '')));
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS set_dataset_recipes_content_hash ON dataset_recipes;
+CREATE TRIGGER set_dataset_recipes_content_hash
+  BEFORE INSERT OR UPDATE OF title, ingredients, steps ON dataset_recipes
+  FOR EACH ROW EXECUTE FUNCTION set_recipe_content_hash();
+
+UPDATE dataset_recipes
+SET content_hash = md5(concat_ws(E'\n', coalesce(title, ''), coalesce(ingredients, ''), coalesce(steps, '')))
+WHERE content_hash IS NULL;
+
+ALTER TABLE recipe_embeddings ADD COLUMN IF NOT EXISTS content_hash text;
+
+-- Sync jobs
+CREATE TABLE IF NOT EXISTS embedding_sync_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+  embedding_provider text NOT NULL,
+  embedding_version integer NOT NULL,
+  embedding_dimension integer NOT NULL,
+  min_loves integer NOT NULL DEFAULT 0,
+  cursor uuid,
+  total integer NOT NULL DEFAULT 0,
+  processed integer NOT NULL DEFAULT 0,
+  failed integer NOT NULL DEFAULT 0,
+  last_error text,
+  lease_expires_at timestamptz,
+  started_at timestamptz DEFAULT now(),
+  finished_at timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS embedding_sync_errors (
+  recipe_id uuid PRIMARY KEY REFERENCES dataset_recipes(id) ON DELETE CASCADE,
+  job_id uuid REFERENCES embedding_sync_jobs(id) ON DELETE SET NULL,
+  error text NOT NULL,
+  attempts integer NOT NULL DEFAULT 1,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS; no policies, only the service role has access
+ALTER TABLE embedding_sync_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE embedding_sync_errors ENABLE ROW LEVEL SECURITY;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS embedding_sync_jobs_status_idx ON embedding_sync_jobs(status, started_at DESC);
+CREATE INDEX IF NOT EXISTS embedding_sync_errors_job_id_idx ON embedding_sync_errors(job_id);
+
+-- Keep updated_at current
+CREATE TRIGGER update_embedding_sync_jobs_updated_at
+  BEFORE UPDATE ON embedding_sync_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_embedding_sync_errors_updated_at
+  BEFORE UPDATE ON embedding_sync_errors
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Next batch of recipes whose vector is missing or out of date
+CREATE OR REPLACE FUNCTION recipes_needing_embeddings(
+  target_provider text,
+  target_version integer,
+  target_dimension integer,
+  min_loves integer DEFAULT 0,
+  after_id uuid DEFAULT NULL,
+  max_attempts integer DEFAULT 3,
+  batch_size integer DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  ingredients text,
+  steps text,
+  content_hash text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT dr.id, dr.title, dr.ingredients, dr.steps, dr.content_hash
+  FROM dataset_recipes dr
+  WHERE dr.user_id IS NULL
+    AND dr.loves_count >= min_loves
+    AND (after_id IS NULL OR dr.id > after_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM recipe_embeddings re
+      WHERE re.recipe_id = dr.id
+        AND re.embedding IS NOT NULL
+        AND re.embedding_provider = target_provider
+        AND re.embedding_version = target_version
+        AND re.embedding_dimension = target_dimension
+        AND re.content_hash IS NOT DISTINCT FROM dr.content_hash
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM embedding_sync_errors se
+      WHERE se.recipe_id = dr.id
+        AND se.attempts >= max_attempts
+    )
+  ORDER BY dr.id
+  LIMIT batch_size;
+$$;
+
+CREATE OR REPLACE FUNCTION count_recipes_needing_embeddings(
+  target_provider text,
+  target_version integer,
+  target_dimension integer,
+  min_loves integer DEFAULT 0,
+  max_attempts integer DEFAULT 3
+)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT count(*)::integer
+  FROM recipes_needing_embeddings(
+    target_provider, target_version, target_dimension, min_loves, NULL, max_attempts, 2147483647
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION recipes_needing_embeddings FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION count_recipes_needing_embeddings FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION recipes_needing_embeddings TO service_role;
+GRANT EXECUTE ON FUNCTION count_recipes_needing_embeddings TO service_role;
+
+-- Admin view for the sync progress
+INSERT INTO feature_flags (name, enabled, description) VALUES
+  ('embeddingAdmin', false, 'Enable/disable the embedding sync status panel in the AI assistant')
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,443 @@
+/*
+  # Embeddings for users' own recipes
+
+  Semantic search and RAG recommendations only covered community recipes
+  (`dataset_recipes` without a user). Personal recipes in `recipes` and
+  `recipe_ingredients` now get vectors too, kept in a separate table that
+  only the owner can read.
+
+  1. Changes
+    - `recipes.content_hash` (text) - md5 of the name, ingredient names and
+      instructions, kept current by triggers on `recipes` and
+      `recipe_ingredients`
+
+  2. New Tables
+    - `user_recipe_embeddings`
+      - `id` (uuid, primary key)
+      - `recipe_id` (uuid, unique, foreign key to recipes)
+      - `user_id` (uuid, foreign key to auth.users, the recipe owner)
+      - `embedding` (vector, nullable, same dimension as recipe_embeddings)
+      - `embedding_provider`, `embedding_version`, `embedding_dimension`
+      - `content_hash` (text, nullable, the recipe hash the vector was built from)
+      - `content` (text, the embedded content)
+      - `created_at`, `updated_at` (timestamps)
+
+  3. Functions
+    - `user_recipes_needing_embeddings(...)` - personal recipes, optionally
+      of one user, whose vector is missing, from another provider/version/
+      dimension, or built from other content. Service role only; used by
+      `sync-embeddings`.
+    - `prepare_embedding_column` resizes both embedding tables
+    - `find_similar_recipes` and `search_recipes_by_text` take a
+      `search_scope` ('mine' | 'community' | 'both', default 'community')
+      and return a `source` column ('mine' | 'community')
+
+  4. Security
+    - Enable RLS on `user_recipe_embeddings`
+    - Users can only read the embeddings of their own recipes; the service
+      role writes them
+    - The search functions run with the caller's rights, so 'mine' results
+      only ever contain the caller's recipes
+
+  5. Indexes
+    - Vector similarity index on user_recipe_embeddings(embedding)
+    - Index on user_recipe_embeddings(user_id)
+*/
+
+-- Content hash on personal recipes
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS content_hash text;
+
+CREATE OR REPLACE FUNCTION user_recipe_ingredient_text(target_recipe uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(string_agg(name, ', ' ORDER BY name), '')
+  FROM recipe_ingredients
+  WHERE recipe_id = target_recipe;
+$$;
+
+CREATE OR REPLACE FUNCTION user_recipe_content_hash(recipe_name text, recipe_instructions text[], target_recipe uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT md5(concat_ws(
+    E'\n',
+    coalesce(recipe_name, ''),
+    user_recipe_ingredient_text(target_recipe),
+    array_to_string(coalesce(recipe_instructions, '{}'), E'\n')
+  ));
+$$;
+
+CREATE OR REPLACE FUNCTION set_user_recipe_content_hash()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.content_hash = user_recipe_content_hash(NEW.name, NEW.instructions, NEW.id);
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION refresh_user_recipe_content_hash()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_recipe uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_recipe := OLD.recipe_id;
+  ELSE
+    target_recipe := NEW.recipe_id;
+  END IF;
+
+  UPDATE recipes
+  SET content_hash = user_recipe_content_hash(name, instructions, id)
+  WHERE id = target_recipe;
+
+  RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS set_recipes_content_hash ON recipes;
+CREATE TRIGGER set_recipes_content_hash
+  BEFORE INSERT OR UPDATE OF name, instructions ON recipes
+  FOR EACH ROW EXECUTE FUNCTION set_user_recipe_content_hash();
+
+DROP TRIGGER IF EXISTS refresh_recipes_content_hash ON recipe_ingredients;
+CREATE TRIGGER refresh_recipes_content_hash
+  AFTER INSERT OR UPDATE OR DELETE ON recipe_ingredients
+  FOR EACH ROW EXECUTE FUNCTION refresh_user_recipe_content_hash();
+
+UPDATE recipes
+SET content_hash = user_recipe_content_hash(name, instructions, id)
+WHERE content_hash IS NULL;
+
+-- Vectors of personal recipes
+CREATE TABLE IF NOT EXISTS user_recipe_embeddings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipe_id uuid NOT NULL UNIQUE REFERENCES recipes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  embedding vector(384),
+  embedding_provider text NOT NULL DEFAULT 'hashing',
+  embedding_version integer NOT NULL DEFAULT 1,
+  embedding_dimension integer NOT NULL DEFAULT 384,
+  content_hash text,
+  content text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Match the dimension recipe_embeddings was resized to
+DO $$
+DECLARE
+  current_dimension integer;
+BEGIN
+  SELECT atttypmod INTO current_dimension
+  FROM pg_attribute
+  WHERE attrelid = 'public.recipe_embeddings'::regclass
+    AND attname = 'embedding';
+
+  IF current_dimension > 0 AND current_dimension <> 384 THEN
+    EXECUTE format(
+      'ALTER TABLE user_recipe_embeddings ALTER COLUMN embedding TYPE vector(%s) USING NULL',
+      current_dimension
+    );
+  END IF;
+END;
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE user_recipe_embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own recipe embeddings"
+  ON user_recipe_embeddings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage user recipe embeddings"
+  ON user_recipe_embeddings
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS user_recipe_embeddings_user_id_idx ON user_recipe_embeddings(user_id);
+CREATE INDEX IF NOT EXISTS user_recipe_embeddings_embedding_idx
+  ON user_recipe_embeddings USING ivfflat (embedding vector_cosine_ops)
+  WITH (lists = 100);
+
+CREATE TRIGGER update_user_recipe_embeddings_updated_at
+  BEFORE UPDATE ON user_recipe_embeddings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Personal recipes whose vector is missing or out of date
+CREATE OR REPLACE FUNCTION user_recipes_needing_embeddings(
+  target_provider text,
+  target_version integer,
+  target_dimension integer,
+  target_user uuid DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  batch_size integer DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  title text,
+  ingredients text,
+  steps text,
+  content_hash text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    r.id,
+    r.user_id,
+    r.name,
+    user_recipe_ingredient_text(r.id),
+    array_to_string(coalesce(r.instructions, '{}'), E'\n'),
+    r.content_hash
+  FROM recipes r
+  WHERE (target_user IS NULL OR r.user_id = target_user)
+    AND (after_id IS NULL OR r.id > after_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM user_recipe_embeddings ue
+      WHERE ue.recipe_id = r.id
+        AND ue.embedding IS NOT NULL
+        AND ue.embedding_provider = target_provider
+        AND ue.embedding_version = target_version
+        AND ue.embedding_dimension = target_dimension
+        AND ue.content_hash IS NOT DISTINCT FROM r.content_hash
+    )
+  ORDER BY r.id
+  LIMIT batch_size;
+$$;
+
+REVOKE EXECUTE ON FUNCTION user_recipes_needing_embeddings FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION user_recipes_needing_embeddings TO service_role;
+
+-- Resize the vector columns of both embedding tables
+CREATE OR REPLACE FUNCTION prepare_embedding_column(target_dimension integer)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  embedding_table text;
+  current_dimension integer;
+  migrated boolean := false;
+BEGIN
+  IF target_dimension IS NULL OR target_dimension < 1 OR target_dimension > 2000 THEN
+    RAISE EXCEPTION 'Unsupported embedding dimension: %', target_dimension;
+  END IF;
+
+  FOREACH embedding_table IN ARRAY ARRAY['recipe_embeddings', 'user_recipe_embeddings'] LOOP
+    -- pgvector stores the dimension as the column's type modifier
+    SELECT atttypmod INTO current_dimension
+    FROM pg_attribute
+    WHERE attrelid = format('public.%I', embedding_table)::regclass
+      AND attname = 'embedding';
+
+    CONTINUE WHEN current_dimension = target_dimension;
+
+    EXECUTE format('DROP INDEX IF EXISTS %I', embedding_table || '_embedding_idx');
+
+    -- Vectors of the old dimension cannot be cast; the rows stay so the
+    -- re-embedding job knows which recipes to embed again
+    EXECUTE format('UPDATE %I SET embedding = NULL', embedding_table);
+
+    EXECUTE format(
+      'ALTER TABLE %I ALTER COLUMN embedding TYPE vector(%s) USING NULL',
+      embedding_table,
+      target_dimension
+    );
+
+    EXECUTE format(
+      'CREATE INDEX %I ON %I USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100)',
+      embedding_table || '_embedding_idx',
+      embedding_table
+    );
+
+    migrated := true;
+  END LOOP;
+
+  RETURN migrated;
+END;
+$$;
+
+-- Replace the search functions with scope-aware versions
+DROP FUNCTION IF EXISTS find_similar_recipes(vector, text, integer, integer, float, integer);
+DROP FUNCTION IF EXISTS search_recipes_by_text(vector, text, integer, float, integer);
+
+-- Function to find similar recipes based on ingredient embeddings
+CREATE OR REPLACE FUNCTION find_similar_recipes(
+  query_embedding vector,
+  query_embedding_provider text,
+  query_embedding_version integer,
+  min_loves integer DEFAULT 50,
+  similarity_threshold float DEFAULT 0.3,
+  match_count integer DEFAULT 12,
+  search_scope text DEFAULT 'community'
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  ingredients text,
+  steps text,
+  loves_count integer,
+  url text,
+  similarity_score float,
+  source text
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF query_embedding_provider IS NULL OR query_embedding_version IS NULL THEN
+    RAISE EXCEPTION 'query_embedding_provider and query_embedding_version are required';
+  END IF;
+
+  IF search_scope IS NULL OR search_scope NOT IN ('mine', 'community', 'both') THEN
+    RAISE EXCEPTION 'Unsupported search_scope: %', search_scope;
+  END IF;
+
+  RETURN QUERY
+  SELECT results.* FROM (
+    (
+      SELECT
+        dr.id,
+        dr.title,
+        dr.ingredients,
+        dr.steps,
+        dr.loves_count,
+        dr.url,
+        1 - (re.embedding <=> query_embedding) as similarity_score,
+        'community'::text as source
+      FROM dataset_recipes dr
+      JOIN recipe_embeddings re ON dr.id = re.recipe_id
+      WHERE search_scope IN ('community', 'both')
+        AND dr.user_id IS NULL
+        AND re.embedding IS NOT NULL
+        AND re.embedding_provider = query_embedding_provider
+        AND re.embedding_version = query_embedding_version
+        AND re.embedding_dimension = vector_dims(query_embedding)
+        AND dr.loves_count >= min_loves
+        AND 1 - (re.embedding <=> query_embedding) >= similarity_threshold
+      ORDER BY re.embedding <=> query_embedding
+      LIMIT match_count
+    )
+    UNION ALL
+    (
+      SELECT
+        r.id,
+        r.name,
+        user_recipe_ingredient_text(r.id),
+        array_to_string(coalesce(r.instructions, '{}'), E'\n'),
+        0,
+        NULL::text,
+        1 - (ue.embedding <=> query_embedding),
+        'mine'::text
+      FROM recipes r
+      JOIN user_recipe_embeddings ue ON r.id = ue.recipe_id
+      WHERE search_scope IN ('mine', 'both')
+        AND r.user_id = auth.uid()
+        AND ue.embedding IS NOT NULL
+        AND ue.embedding_provider = query_embedding_provider
+        AND ue.embedding_version = query_embedding_version
+        AND ue.embedding_dimension = vector_dims(query_embedding)
+        AND 1 - (ue.embedding <=> query_embedding) >= similarity_threshold
+      ORDER BY ue.embedding <=> query_embedding
+      LIMIT match_count
+    )
+  ) results
+  ORDER BY results.similarity_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Function to search recipes by text query
+CREATE OR REPLACE FUNCTION search_recipes_by_text(
+  query_embedding vector,
+  query_embedding_provider text,
+  query_embedding_version integer,
+  similarity_threshold float DEFAULT 0.4,
+  match_count integer DEFAULT 10,
+  search_scope text DEFAULT 'community'
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  ingredients text,
+  steps text,
+  loves_count integer,
+  url text,
+  similarity_score float,
+  source text
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF query_embedding_provider IS NULL OR query_embedding_version IS NULL THEN
+    RAISE EXCEPTION 'query_embedding_provider and query_embedding_version are required';
+  END IF;
+
+  IF search_scope IS NULL OR search_scope NOT IN ('mine', 'community', 'both') THEN
+    RAISE EXCEPTION 'Unsupported search_scope: %', search_scope;
+  END IF;
+
+  RETURN QUERY
+  SELECT results.* FROM (
+    (
+      SELECT
+        dr.id,
+        dr.title,
+        dr.ingredients,
+        dr.steps,
+        dr.loves_count,
+        dr.url,
+        1 - (re.embedding <=> query_embedding) as similarity_score,
+        'community'::text as source
+      FROM dataset_recipes dr
+      JOIN recipe_embeddings re ON dr.id = re.recipe_id
+      WHERE search_scope IN ('community', 'both')
+        AND dr.user_id IS NULL
+        AND re.embedding IS NOT NULL
+        AND re.embedding_provider = query_embedding_provider
+        AND re.embedding_version = query_embedding_version
+        AND re.embedding_dimension = vector_dims(query_embedding)
+        AND 1 - (re.embedding <=> query_embedding) >= similarity_threshold
+      ORDER BY re.embedding <=> query_embedding
+      LIMIT match_count
+    )
+    UNION ALL
+    (
+      SELECT
+        r.id,
+        r.name,
+        user_recipe_ingredient_text(r.id),
+        array_to_string(coalesce(r.instructions, '{}'), E'\n'),
+        0,
+        NULL::text,
+        1 - (ue.embedding <=> query_embedding),
+        'mine'::text
+      FROM recipes r
+      JOIN user_recipe_embeddings ue ON r.id = ue.recipe_id
+      WHERE search_scope IN ('mine', 'both')
+        AND r.user_id = auth.uid()
+        AND ue.embedding IS NOT NULL
+        AND ue.embedding_provider = query_embedding_provider
+        AND ue.embedding_version = query_embedding_version
+        AND ue.embedding_dimension = vector_dims(query_embedding)
+        AND 1 - (ue.embedding <=> query_embedding) >= similarity_threshold
+      ORDER BY ue.embedding <=> query_embedding
+      LIMIT match_count
+    )
+  ) results
+  ORDER BY results.similarity_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION find_similar_recipes TO authenticated;
+GRANT EXECUTE ON FUNCTION search_recipes_by_text TO authenticated;
@@ -0,0 +1,212 @@
+/*
+  # Hybrid lexical + vector recipe search
+
+  The only full-text index on `dataset_recipes` used the English config on
+  the title alone, which does not stem Indonesian ("digoreng" never matched
+  "goreng"), and keyword matching only ran as an ilike fallback after the
+  vector search failed. Searches now run full-text and vector search
+  together and fuse both rankings with reciprocal rank fusion (RRF).
+
+  1. Changes
+    - `dataset_recipes.search_vector` (tsvector, generated) - Indonesian
+      full-text vector of the title (weight A), ingredients (B) and steps (C)
+    - Drop `dataset_recipes_title_idx` (English config, title only)
+
+  2. Functions
+    - `recipe_search_query(query_text)` - OR query of the stemmed words, so
+      recipes matching only some words still rank
+    - `user_recipe_search_vector(...)` - the same full-text vector for a
+      personal recipe
+    - `hybrid_search_recipes(...)` - ranks up to `candidate_count` recipes
+      by vector similarity and by full-text rank, then orders them by
+      sum(1 / (rrf_k + rank)). Returns both scores and ranks per recipe.
+      Without a query embedding only the full-text ranking is used.
+      Takes the same `search_scope` as the other search functions.
+
+  3. Indexes
+    - GIN index on dataset_recipes(search_vector)
+*/
+
+ALTER TABLE dataset_recipes
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('indonesian', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('indonesian', coalesce(ingredients, '')), 'B') ||
+    setweight(to_tsvector('indonesian', coalesce(steps, '')), 'C')
+  ) STORED;
+
+DROP INDEX IF EXISTS dataset_recipes_title_idx;
+CREATE INDEX IF NOT EXISTS dataset_recipes_search_vector_idx ON dataset_recipes USING gin(search_vector);
+
+-- Match any of the query's words; ranking favours recipes matching more of them
+CREATE OR REPLACE FUNCTION recipe_search_query(query_text text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT string_agg(quote_literal(lexeme), ' | ')::tsquery
+  FROM unnest(to_tsvector('indonesian', coalesce(query_text, '')));
+$$;
+
+CREATE OR REPLACE FUNCTION user_recipe_search_vector(recipe_name text, recipe_instructions text[], target_recipe uuid)
+RETURNS tsvector
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('indonesian', coalesce(recipe_name, '')), 'A') ||
+    setweight(to_tsvector('indonesian', user_recipe_ingredient_text(target_recipe)), 'B') ||
+    setweight(to_tsvector('indonesian', array_to_string(coalesce(recipe_instructions, '{}'), E'\n')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION hybrid_search_recipes(
+  query_text text,
+  query_embedding vector DEFAULT NULL,
+  query_embedding_provider text DEFAULT NULL,
+  query_embedding_version integer DEFAULT NULL,
+  similarity_threshold float DEFAULT 0,
+  match_count integer DEFAULT 10,
+  search_scope text DEFAULT 'community',
+  candidate_count integer DEFAULT 50,
+  rrf_k integer DEFAULT 60
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  ingredients text,
+  steps text,
+  loves_count integer,
+  url text,
+  source text,
+  vector_score float,
+  lexical_score float,
+  vector_rank integer,
+  lexical_rank integer,
+  rrf_score float
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF query_embedding IS NOT NULL AND (query_embedding_provider IS NULL OR query_embedding_version IS NULL) THEN
+    RAISE EXCEPTION 'query_embedding_provider and query_embedding_version are required with a query_embedding';
+  END IF;
+
+  IF search_scope IS NULL OR search_scope NOT IN ('mine', 'community', 'both') THEN
+    RAISE EXCEPTION 'Unsupported search_scope: %', search_scope;
+  END IF;
+
+  RETURN QUERY
+  WITH search_query AS (
+    SELECT recipe_search_query(query_text) AS tsq
+  ),
+  vector_hits AS (
+    SELECT
+      candidates.recipe_id,
+      candidates.recipe_source,
+      candidates.similarity,
+      (row_number() OVER (ORDER BY candidates.similarity DESC))::integer AS hit_rank
+    FROM (
+      (
+        SELECT dr.id AS recipe_id, 'community'::text AS recipe_source, 1 - (re.embedding <=> query_embedding) AS similarity
+        FROM dataset_recipes dr
+        JOIN recipe_embeddings re ON dr.id = re.recipe_id
+        WHERE query_embedding IS NOT NULL
+          AND search_scope IN ('community', 'both')
+          AND dr.user_id IS NULL
+          AND re.embedding IS NOT NULL
+          AND re.embedding_provider = query_embedding_provider
+          AND re.embedding_version = query_embedding_version
+          AND re.embedding_dimension = vector_dims(query_embedding)
+          AND 1 - (re.embedding <=> query_embedding) >= similarity_threshold
+        ORDER BY re.embedding <=> query_embedding
+        LIMIT candidate_count
+      )
+      UNION ALL
+      (
+        SELECT r.id, 'mine'::text, 1 - (ue.embedding <=> query_embedding)
+        FROM recipes r
+        JOIN user_recipe_embeddings ue ON r.id = ue.recipe_id
+        WHERE query_embedding IS NOT NULL
+          AND search_scope IN ('mine', 'both')
+          AND r.user_id = auth.uid()
+          AND ue.embedding IS NOT NULL
+          AND ue.embedding_provider = query_embedding_provider
+          AND ue.embedding_version = query_embedding_version
+          AND ue.embedding_dimension = vector_dims(query_embedding)
+          AND 1 - (ue.embedding <=> query_embedding) >= similarity_threshold
+        ORDER BY ue.embedding <=> query_embedding
+        LIMIT candidate_count
+      )
+    ) candidates
+    ORDER BY candidates.similarity DESC
+    LIMIT candidate_count
+  ),
+  lexical_hits AS (
+    SELECT
+      candidates.recipe_id,
+      candidates.recipe_source,
+      candidates.text_rank,
+      (row_number() OVER (ORDER BY candidates.text_rank DESC))::integer AS hit_rank
+    FROM (
+      (
+        -- Normalization 32 scales the rank into 0..1
+        SELECT dr.id AS recipe_id, 'community'::text AS recipe_source, ts_rank_cd(dr.search_vector, sq.tsq, 32) AS text_rank
+        FROM dataset_recipes dr, search_query sq
+        WHERE sq.tsq IS NOT NULL
+          AND search_scope IN ('community', 'both')
+          AND dr.user_id IS NULL
+          AND dr.search_vector @@ sq.tsq
+        ORDER BY ts_rank_cd(dr.search_vector, sq.tsq, 32) DESC
+        LIMIT candidate_count
+      )
+      UNION ALL
+      (
+        SELECT r.id, 'mine'::text, ts_rank_cd(user_recipe_search_vector(r.name, r.instructions, r.id), sq.tsq, 32)
+        FROM recipes r, search_query sq
+        WHERE sq.tsq IS NOT NULL
+          AND search_scope IN ('mine', 'both')
+          AND r.user_id = auth.uid()
+          AND user_recipe_search_vector(r.name, r.instructions, r.id) @@ sq.tsq
+        ORDER BY 3 DESC
+        LIMIT candidate_count
+      )
+    ) candidates
+    ORDER BY candidates.text_rank DESC
+    LIMIT candidate_count
+  ),
+  fused AS (
+    SELECT
+      coalesce(v.recipe_id, l.recipe_id) AS recipe_id,
+      coalesce(v.recipe_source, l.recipe_source) AS recipe_source,
+      v.similarity,
+      l.text_rank,
+      v.hit_rank AS v_rank,
+      l.hit_rank AS l_rank,
+      coalesce(1.0 / (rrf_k + v.hit_rank), 0) + coalesce(1.0 / (rrf_k + l.hit_rank), 0) AS fused_score
+    FROM vector_hits v
+    FULL OUTER JOIN lexical_hits l
+      ON v.recipe_id = l.recipe_id AND v.recipe_source = l.recipe_source
+  )
+  SELECT
+    f.recipe_id,
+    coalesce(dr.title, r.name),
+    coalesce(dr.ingredients, user_recipe_ingredient_text(r.id)),
+    coalesce(dr.steps, array_to_string(coalesce(r.instructions, '{}'), E'\n')),
+    coalesce(dr.loves_count, 0),
+    dr.url,
+    f.recipe_source,
+    f.similarity::float,
+    f.text_rank::float,
+    f.v_rank,
+    f.l_rank,
+    f.fused_score::float
+  FROM fused f
+  LEFT JOIN dataset_recipes dr ON f.recipe_source = 'community' AND dr.id = f.recipe_id
+  LEFT JOIN recipes r ON f.recipe_source = 'mine' AND r.id = f.recipe_id
+  WHERE dr.id IS NOT NULL OR r.id IS NOT NULL
+  ORDER BY f.fused_score DESC, f.similarity DESC NULLS LAST
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION hybrid_search_recipes TO authenticated;
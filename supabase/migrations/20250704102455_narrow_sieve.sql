@@ -0,0 +1,217 @@
+/*
+  # Structured filters for recipe recommendations
+
+  `find_similar_recipes` could only filter on loves and similarity, so the
+  app estimated everything else after the vector search had already cut the
+  list to `match_count`, often leaving few or no results. The filters below
+  are now evaluated in SQL before the limit is applied.
+
+  1. Functions
+    - `recipe_ingredient_count(ingredients)` and `recipe_step_count(steps)` -
+      count lines the same way the app parses raw dataset text
+    - `recipe_keyword_tags(title, ingredients)` - cuisine and cooking method
+      tags derived from keywords, as shown in the app
+    - `recipe_matches_filters(...)` - shared filter check
+    - `find_similar_recipes` takes optional filters:
+      - `include_ingredients` (text[]) - every one must appear in the ingredients
+      - `exclude_ingredients` (text[]) - none may appear in the ingredients
+      - `max_ingredients` (integer) - at most this many ingredients
+      - `max_steps` (integer) - at most this many steps
+      - `required_tags` (text[]) - recipe must have all of these tags;
+        personal recipes match on their own tags as well
+*/
+
+-- Same separators as parseIngredients in the app
+CREATE OR REPLACE FUNCTION recipe_ingredient_count(ingredients_text text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT count(*)::integer
+  FROM regexp_split_to_table(coalesce(ingredients_text, ''), '[,\n\r•*-]') AS part
+  WHERE length(trim(part)) BETWEEN 1 AND 99;
+$$;
+
+-- Same separators as parseSteps in the app; fragments of 10 characters or
+-- less are not steps
+CREATE OR REPLACE FUNCTION recipe_step_count(steps_text text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT count(*)::integer
+  FROM regexp_split_to_table(coalesce(steps_text, ''), '[.\n\r]') AS part
+  WHERE length(trim(part)) > 10;
+$$;
+
+-- Keep in sync with CUISINE_KEYWORDS and COOKING_METHODS in ragRecipeService
+CREATE OR REPLACE FUNCTION recipe_keyword_tags(title text, ingredients_text text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(array_agg(tags.tag), '{}')
+  FROM (
+    SELECT cuisine.tag
+    FROM (VALUES
+      ('indonesia', ARRAY['nasi', 'ayam', 'sambal', 'rendang', 'gudeg', 'soto']),
+      ('asia', ARRAY['mie', 'tahu', 'tempe', 'kecap']),
+      ('western', ARRAY['pasta', 'cheese', 'bread', 'butter']),
+      ('healthy', ARRAY['sayur', 'buah', 'diet', 'sehat', 'rendah'])
+    ) AS cuisine(tag, keywords)
+    WHERE EXISTS (
+      SELECT 1 FROM unnest(cuisine.keywords) AS keyword
+      WHERE position(keyword IN lower(coalesce(title, ''))) > 0
+        OR position(keyword IN lower(coalesce(ingredients_text, ''))) > 0
+    )
+    UNION ALL
+    SELECT method
+    FROM unnest(ARRAY['goreng', 'bakar', 'rebus', 'tumis', 'kukus', 'panggang']) AS method
+    WHERE position(method IN lower(coalesce(title, ''))) > 0
+  ) tags;
+$$;
+
+CREATE OR REPLACE FUNCTION recipe_matches_filters(
+  ingredients_text text,
+  steps_text text,
+  recipe_tags text[],
+  include_ingredients text[] DEFAULT NULL,
+  exclude_ingredients text[] DEFAULT NULL,
+  max_ingredients integer DEFAULT NULL,
+  max_steps integer DEFAULT NULL,
+  required_tags text[] DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    NOT EXISTS (
+      SELECT 1 FROM unnest(coalesce(include_ingredients, '{}')) AS ingredient
+      WHERE position(lower(trim(ingredient)) IN lower(coalesce(ingredients_text, ''))) = 0
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(coalesce(exclude_ingredients, '{}')) AS ingredient
+      WHERE trim(ingredient) <> ''
+        AND position(lower(trim(ingredient)) IN lower(coalesce(ingredients_text, ''))) > 0
+    )
+    AND (max_ingredients IS NULL OR recipe_ingredient_count(ingredients_text) <= max_ingredients)
+    AND (max_steps IS NULL OR recipe_step_count(steps_text) <= max_steps)
+    AND (required_tags IS NULL OR coalesce(recipe_tags, '{}') @> required_tags);
+$$;
+
+-- Replace find_similar_recipes with a version that takes filters
+DROP FUNCTION IF EXISTS find_similar_recipes(vector, text, integer, integer, float, integer, text);
+
+-- Function to find similar recipes based on ingredient embeddings
+CREATE OR REPLACE FUNCTION find_similar_recipes(
+  query_embedding vector,
+  query_embedding_provider text,
+  query_embedding_version integer,
+  min_loves integer DEFAULT 50,
+  similarity_threshold float DEFAULT 0.3,
+  match_count integer DEFAULT 12,
+  search_scope text DEFAULT 'community',
+  include_ingredients text[] DEFAULT NULL,
+  exclude_ingredients text[] DEFAULT NULL,
+  max_ingredients integer DEFAULT NULL,
+  max_steps integer DEFAULT NULL,
+  required_tags text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  ingredients text,
+  steps text,
+  loves_count integer,
+  url text,
+  similarity_score float,
+  source text
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF query_embedding_provider IS NULL OR query_embedding_version IS NULL THEN
+    RAISE EXCEPTION 'query_embedding_provider and query_embedding_version are required';
+  END IF;
+
+  IF search_scope IS NULL OR search_scope NOT IN ('mine', 'community', 'both') THEN
+    RAISE EXCEPTION 'Unsupported search_scope: %', search_scope;
+  END IF;
+
+  RETURN QUERY
+  SELECT results.* FROM (
+    (
+      SELECT
+        dr.id,
+        dr.title,
+        dr.ingredients,
+        dr.steps,
+        dr.loves_count,
+        dr.url,
+        1 - (re.embedding <=> query_embedding) as similarity_score,
+        'community'::text as source
+      FROM dataset_recipes dr
+      JOIN recipe_embeddings re ON dr.id = re.recipe_id
+      WHERE search_scope IN ('community', 'both')
+        AND dr.user_id IS NULL
+        AND re.embedding IS NOT NULL
+        AND re.embedding_provider = query_embedding_provider
+        AND re.embedding_version = query_embedding_version
+        AND re.embedding_dimension = vector_dims(query_embedding)
+        AND dr.loves_count >= min_loves
+        AND 1 - (re.embedding <=> query_embedding) >= similarity_threshold
+        AND recipe_matches_filters(
+          dr.ingredients,
+          dr.steps,
+          recipe_keyword_tags(dr.title, dr.ingredients),
+          include_ingredients,
+          exclude_ingredients,
+          max_ingredients,
+          max_steps,
+          required_tags
+        )
+      ORDER BY re.embedding <=> query_embedding
+      LIMIT match_count
+    )
+    UNION ALL
+    (
+      SELECT
+        r.id,
+        r.name,
+        user_recipe_ingredient_text(r.id),
+        array_to_string(coalesce(r.instructions, '{}'), E'\n'),
+        0,
+        NULL::text,
+        1 - (ue.embedding <=> query_embedding),
+        'mine'::text
+      FROM recipes r
+      JOIN user_recipe_embeddings ue ON r.id = ue.recipe_id
+      WHERE search_scope IN ('mine', 'both')
+        AND r.user_id = auth.uid()
+        AND ue.embedding IS NOT NULL
+        AND ue.embedding_provider = query_embedding_provider
+        AND ue.embedding_version = query_embedding_version
+        AND ue.embedding_dimension = vector_dims(query_embedding)
+        AND 1 - (ue.embedding <=> query_embedding) >= similarity_threshold
+        AND recipe_matches_filters(
+          user_recipe_ingredient_text(r.id),
+          array_to_string(coalesce(r.instructions, '{}'), E'\n'),
+          coalesce(r.tags, '{}') || recipe_keyword_tags(r.name, user_recipe_ingredient_text(r.id)),
+          include_ingredients,
+          exclude_ingredients,
+          max_ingredients,
+          max_steps,
+          required_tags
+        )
+      ORDER BY ue.embedding <=> query_embedding
+      LIMIT match_count
+    )
+  ) results
+  ORDER BY results.similarity_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Grant execute permissions to authenticated users
+GRANT EXECUTE ON FUNCTION find_similar_recipes TO authenticated;
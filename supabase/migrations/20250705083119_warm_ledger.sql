@@ -0,0 +1,68 @@
+/*
+  # Query embedding cache
+
+  Every search called `generate-embedding`, which embedded the query again
+  even when the same pantry or search text had been embedded moments ago.
+  The function now looks queries up in a cache keyed by the normalized query
+  text and the embedding space first.
+
+  1. New Tables
+    - `query_embedding_cache`
+      - `query_hash` (text, SHA-256 of the normalized query text)
+      - `query_text` (text, normalized query text)
+      - `embedding_provider`, `embedding_version`, `embedding_dimension`
+        (the space the vector lives in)
+      - `embedding` (vector, any dimension)
+      - `hit_count` (integer, lookups served from the row)
+      - `created_at`, `last_used_at` (timestamps)
+      - `expires_at` (timestamp, rows are ignored after it)
+      - Primary key on (query_hash, embedding_provider, embedding_version), so
+        a new provider or version never reads vectors of the old one
+
+  2. Functions
+    - `purge_query_embedding_cache(current_provider, current_version)` -
+      deletes expired rows and rows of any other embedding space; run by
+      `reembed-recipes` after switching providers or versions
+
+  3. Security
+    - Enable RLS without policies; only the service role used by
+      `generate-embedding` reads and writes the cache
+*/
+
+CREATE TABLE IF NOT EXISTS query_embedding_cache (
+  query_hash text NOT NULL,
+  query_text text NOT NULL,
+  embedding_provider text NOT NULL,
+  embedding_version integer NOT NULL,
+  embedding_dimension integer NOT NULL,
+  embedding vector NOT NULL,
+  hit_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  PRIMARY KEY (query_hash, embedding_provider, embedding_version)
+);
+
+CREATE INDEX IF NOT EXISTS query_embedding_cache_expires_at_idx ON query_embedding_cache(expires_at);
+
+ALTER TABLE query_embedding_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION purge_query_embedding_cache(current_provider text, current_version integer)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  deleted integer;
+BEGIN
+  DELETE FROM query_embedding_cache
+  WHERE expires_at <= now()
+    OR embedding_provider <> current_provider
+    OR embedding_version <> current_version;
+
+  GET DIAGNOSTICS deleted = ROW_COUNT;
+  RETURN deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION purge_query_embedding_cache FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION purge_query_embedding_cache TO service_role;
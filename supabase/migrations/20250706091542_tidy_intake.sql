@@ -0,0 +1,36 @@
+/*
+  # Bulk ingestion of community recipes
+
+  Community recipes could only be put into `dataset_recipes` by hand. The
+  `ingest-recipes` function now loads CSV and JSONL files into it, and needs
+  a way to recognize recipes it already has. The ingredient and step counts
+  dropped when the table was simplified come back, filled in on ingestion.
+
+  1. Changes
+    - `dataset_recipes.total_ingredients` (integer, count of ingredient lines)
+    - `dataset_recipes.total_steps` (integer, count of steps)
+      Both are counted the way the app parses recipes (see
+      `_shared/datasetRecipes.ts`); existing rows keep 0 until the function's
+      `backfill` action has run.
+    - `dataset_recipes.dedupe_key` (text, nullable, unique) - normalized
+      title plus a hash of the normalized ingredients; set for community
+      recipes by the function, null for users' own rows and for existing
+      rows until they are backfilled
+
+  2. Performance
+    - Indexes on `total_ingredients` and `total_steps` for filtering
+    - Unique index on `dedupe_key`, the conflict target of the upserts
+
+  3. Security
+    - No policy changes: only the service role used by the function writes
+      community recipes
+*/
+
+ALTER TABLE dataset_recipes
+  ADD COLUMN IF NOT EXISTS total_ingredients integer NOT NULL DEFAULT 0 CHECK (total_ingredients >= 0),
+  ADD COLUMN IF NOT EXISTS total_steps integer NOT NULL DEFAULT 0 CHECK (total_steps >= 0),
+  ADD COLUMN IF NOT EXISTS dedupe_key text;
+
+CREATE INDEX IF NOT EXISTS dataset_recipes_total_ingredients_idx ON dataset_recipes(total_ingredients);
+CREATE INDEX IF NOT EXISTS dataset_recipes_total_steps_idx ON dataset_recipes(total_steps);
+CREATE UNIQUE INDEX IF NOT EXISTS dataset_recipes_dedupe_key_idx ON dataset_recipes(dedupe_key);
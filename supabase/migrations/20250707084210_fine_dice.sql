@@ -0,0 +1,60 @@
+/*
+  # Ingredient lines that keep their amounts and notes
+
+  Dataset ingredient text was split on every comma and dash, so "3-4 buah
+  cabai" became "3" and "4 buah cabai", "1,5 kg ayam" lost its decimal, and
+  "2 siung bawang putih, cincang" counted "cincang" as an ingredient. The app
+  now splits only on line breaks, bullets, "--", spaced or leading dashes and
+  commas outside numbers, and keeps preparation notes with their ingredient
+  (`parseDatasetIngredients` in `_shared/datasetRecipes.ts`).
+
+  1. Functions
+    - `recipe_ingredient_is_note(part)` - whether a fragment is a preparation
+      note ("cincang halus", "untuk olesan") rather than an ingredient
+    - `recipe_ingredient_count(ingredients)` - splits like the app and leaves
+      notes out, so the `max_ingredients` filter counts what the app shows
+
+  2. Data
+    - `total_ingredients` of ingested recipes is counted again
+*/
+
+-- Keep in sync with PREPARATION_WORDS in _shared/datasetRecipes.ts
+CREATE OR REPLACE FUNCTION recipe_ingredient_is_note(part text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT cleaned ~ '^(untuk|sesuai)([[:space:]]|$)'
+    OR cleaned ~ ('^((' ||
+      'iris|diiris|irisan|cincang|dicincang|haluskan|dihaluskan|halus|kasar|'
+      'tipis|geprek|digeprek|memarkan|dimemarkan|potong|dipotong|potongan|'
+      'kupas|dikupas|parut|diparut|serut|rajang|dirajang|tumbuk|ditumbuk|'
+      'sangrai|disangrai|peras|diperas|ambil|airnya|kocok|dikocok|lelehkan|'
+      'dilelehkan|cairkan|rebus|direbus|suwir|disuwir|dadu|kotak|serong|'
+      'bulat|memanjang|bagian|buang|bijinya|kulitnya|tulangnya|cuci|bersih|'
+      'dicuci|rendam|direndam|secukupnya|opsional|optional|bila|suka|jika|'
+      'ada|dan|lalu|kecil|besar' ||
+      '|[0-9]+)([[:space:]]+|$))+$')
+  FROM (SELECT lower(trim(regexp_replace(coalesce(part, ''), '[()]', ' ', 'g'))) AS cleaned) AS note;
+$$;
+
+-- Same separators as parseDatasetIngredients in the app
+CREATE OR REPLACE FUNCTION recipe_ingredient_count(ingredients_text text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT count(*)::integer
+  FROM regexp_split_to_table(
+    coalesce(ingredients_text, ''),
+    '--+|[\n\r•*]|[[:space:]]-[[:space:]]|(?<![0-9]),|,(?![0-9])'
+  ) AS raw_part,
+  LATERAL (SELECT regexp_replace(trim(raw_part), '^-[[:space:]]*', '') AS part) AS cleaned
+  WHERE length(part) BETWEEN 1 AND 99
+    AND NOT recipe_ingredient_is_note(part);
+$$;
+
+-- The app keeps at most 20 ingredient lines
+UPDATE dataset_recipes
+SET total_ingredients = LEAST(recipe_ingredient_count(ingredients), 20)
+WHERE dedupe_key IS NOT NULL;
@@ -0,0 +1,88 @@
+/*
+  # Stored metadata for community recipes
+
+  The recommenders parsed ingredients and steps, guessed prep and cook time,
+  difficulty and tags from the raw text of every recipe on every request,
+  and each did it slightly differently. The metadata is now derived once by
+  a backfill (`npm run backfill-metadata`, optionally AI-assisted) and read
+  from here.
+
+  1. New Tables
+    - `dataset_recipe_metadata`
+      - `recipe_id` (uuid, PK, references dataset_recipes)
+      - `ingredients` (jsonb) - parsed ingredient lines: text, quantity,
+        range, unit, name, canonical ingredient and note
+      - `steps` (text[]) - parsed steps
+      - `prep_time`, `cook_time` (integer, minutes)
+      - `difficulty` (text) - easy, medium or hard
+      - `tags` (text[]) - keyword tags, including the filter tags
+      - `cuisine` (text, nullable) - indonesia, asia or western
+      - `meal_type` (text, nullable) - breakfast, lunch, dinner or snack
+      - `source` (text) - `rules`, or `ai` when Gemini refined the estimates
+      - `version` (integer) - version of the derivation; rows from an older
+        one are ignored by the app and redone by the backfill
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Staleness
+    - Changing a recipe's title, ingredients or steps deletes its metadata,
+      so the app derives it on the fly until the backfill runs again
+
+  3. Security
+    - RLS enabled; community recipes' metadata is readable like the recipes
+      themselves, and only the service role used by the backfill writes it
+*/
+
+CREATE TABLE IF NOT EXISTS dataset_recipe_metadata (
+  recipe_id uuid PRIMARY KEY REFERENCES dataset_recipes(id) ON DELETE CASCADE,
+  ingredients jsonb NOT NULL DEFAULT '[]'::jsonb,
+  steps text[] NOT NULL DEFAULT '{}',
+  prep_time integer NOT NULL CHECK (prep_time >= 0),
+  cook_time integer NOT NULL CHECK (cook_time >= 0),
+  difficulty text NOT NULL CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  tags text[] NOT NULL DEFAULT '{}',
+  cuisine text,
+  meal_type text CHECK (meal_type IN ('breakfast', 'lunch', 'dinner', 'snack')),
+  source text NOT NULL DEFAULT 'rules' CHECK (source IN ('rules', 'ai')),
+  version integer NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS dataset_recipe_metadata_version_idx ON dataset_recipe_metadata(version);
+
+ALTER TABLE dataset_recipe_metadata ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read community recipe metadata" ON dataset_recipe_metadata;
+CREATE POLICY "Anyone can read community recipe metadata"
+  ON dataset_recipe_metadata
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM dataset_recipes
+      WHERE dataset_recipes.id = dataset_recipe_metadata.recipe_id
+        AND dataset_recipes.user_id IS NULL
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_dataset_recipe_metadata_updated_at ON dataset_recipe_metadata;
+CREATE TRIGGER update_dataset_recipe_metadata_updated_at
+  BEFORE UPDATE ON dataset_recipe_metadata
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION clear_dataset_recipe_metadata()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM dataset_recipe_metadata WHERE recipe_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_dataset_recipe_metadata ON dataset_recipes;
+CREATE TRIGGER clear_dataset_recipe_metadata
+  AFTER UPDATE ON dataset_recipes
+  FOR EACH ROW
+  WHEN (OLD.content_hash IS DISTINCT FROM NEW.content_hash)
+  EXECUTE FUNCTION clear_dataset_recipe_metadata();
@@ -0,0 +1,69 @@
+/*
+  # Keep planned meals when their recipe is deleted
+
+  `planned_meals.recipe_id` cascaded, so deleting a recipe silently removed
+  every meal it was planned for, and the planner never counted them as
+  unavailable. The meals are now kept: the recipe is copied into the meal's
+  snapshot and `recipe_id` is set to null, and the planner reports the meal
+  as unavailable by name.
+
+  1. Changes
+    - `planned_meals.recipe_id` references recipes `ON DELETE SET NULL`
+    - `planned_meals_recipe_reference_check` lets the user's own meals keep
+      just a snapshot once their recipe is gone
+
+  2. Triggers
+    - `snapshot_planned_meal_recipes` (BEFORE DELETE on recipes) stores the
+      recipe and its ingredients in the snapshot of the meals that use it
+*/
+
+CREATE OR REPLACE FUNCTION snapshot_planned_meal_recipes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE planned_meals
+  SET recipe_snapshot = jsonb_build_object(
+    'id', OLD.id,
+    'name', OLD.name,
+    'description', OLD.description,
+    'prep_time', OLD.prep_time,
+    'cook_time', OLD.cook_time,
+    'servings', OLD.servings,
+    'difficulty', OLD.difficulty,
+    'instructions', to_jsonb(OLD.instructions),
+    'tags', to_jsonb(OLD.tags),
+    'user_id', OLD.user_id,
+    'recipe_ingredients', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', ri.id,
+        'recipe_id', ri.recipe_id,
+        'name', ri.name,
+        'quantity', ri.quantity,
+        'unit', ri.unit
+      ) ORDER BY ri.created_at)
+      FROM recipe_ingredients ri
+      WHERE ri.recipe_id = OLD.id
+    ), '[]'::jsonb)
+  )
+  WHERE recipe_id = OLD.id;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS snapshot_planned_meal_recipes ON recipes;
+CREATE TRIGGER snapshot_planned_meal_recipes
+  BEFORE DELETE ON recipes
+  FOR EACH ROW EXECUTE FUNCTION snapshot_planned_meal_recipes();
+
+ALTER TABLE planned_meals DROP CONSTRAINT IF EXISTS planned_meals_recipe_reference_check;
+ALTER TABLE planned_meals ADD CONSTRAINT planned_meals_recipe_reference_check CHECK (
+  (recipe_source = 'user' AND (recipe_id IS NOT NULL OR recipe_snapshot IS NOT NULL))
+  OR (recipe_source <> 'user' AND recipe_snapshot IS NOT NULL)
+);
+
+ALTER TABLE planned_meals DROP CONSTRAINT IF EXISTS planned_meals_recipe_id_fkey;
+ALTER TABLE planned_meals
+  ADD CONSTRAINT planned_meals_recipe_id_fkey
+  FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE SET NULL;
@@ -0,0 +1,44 @@
+/*
+  # Rewind embedding sync jobs without losing queued recipes
+
+  `ingest-recipes` rewound a running sync job by setting its cursor to null.
+  A `sync-embeddings` run holding the job at that moment wrote its own cursor
+  back after the batch, so recipes whose ids sort before it were never
+  embedded, although they were counted into `total`. Rewinds now bump a
+  counter, and runs only move the cursor or complete the job while the
+  counter is still the value they read.
+
+  1. Changes
+    - `embedding_sync_jobs.rescan_count` (integer) - how often the job was
+      rewound for new or changed recipes
+
+  2. Functions
+    - `request_embedding_rescan(job_id, queued)` - rewinds a running job to
+      the first recipe, adds `queued` to its total and bumps `rescan_count`
+      in one statement; false when the job is no longer running
+
+  3. Security
+    - The function is only executable by the service role
+*/
+
+ALTER TABLE embedding_sync_jobs
+  ADD COLUMN IF NOT EXISTS rescan_count integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION request_embedding_rescan(job_id uuid, queued integer)
+RETURNS boolean
+LANGUAGE sql
+AS $$
+  WITH rewound AS (
+    UPDATE embedding_sync_jobs
+    SET cursor = NULL,
+        total = total + queued,
+        rescan_count = rescan_count + 1
+    WHERE id = job_id
+      AND status = 'running'
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM rewound);
+$$;
+
+REVOKE EXECUTE ON FUNCTION request_embedding_rescan FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION request_embedding_rescan TO service_role;